@@ -0,0 +1,128 @@
+/**
+ * @format
+ */
+
+import {promises as fs} from 'fs';
+import os from 'os';
+import path from 'path';
+import {
+  downloadAttachment,
+  sendAttachment,
+} from '../src/services/attachmentService';
+import {setAttachmentStore} from '../src/services/attachmentStore';
+import {createLocalAttachmentStore} from '../src/services/localAttachmentStore';
+import {sendDirectMessage} from '../src/services/messageService';
+import type {AttachmentPayload, MessagePayload} from '../src/types';
+
+jest.mock('@react-native-firebase/app', () => ({apps: []}));
+jest.mock('@react-native-firebase/storage', () => jest.fn());
+jest.mock('../src/services/conversationService', () => ({
+  getConversation: jest.fn(async (id: string) => ({id, type: 'direct'})),
+}));
+jest.mock('../src/services/messageService', () => ({
+  sendDirectMessage: jest.fn(),
+  sendGroupMessage: jest.fn(),
+}));
+
+const mockSendDirectMessage = sendDirectMessage as jest.MockedFunction<
+  typeof sendDirectMessage
+>;
+
+describe('attachment service', () => {
+  let directory: string;
+  let sent: MessagePayload[];
+
+  beforeEach(async () => {
+    directory = await fs.mkdtemp(path.join(os.tmpdir(), 'attachments-'));
+    setAttachmentStore(createLocalAttachmentStore(directory));
+    sent = [];
+    mockSendDirectMessage.mockReset();
+    mockSendDirectMessage.mockImplementation(async (_id, _sender, payload) => {
+      sent.push(payload as MessagePayload);
+      return {} as Awaited<ReturnType<typeof sendDirectMessage>>;
+    });
+  });
+
+  afterEach(async () => {
+    await fs.rm(directory, {recursive: true, force: true});
+  });
+
+  it('sends an attachment that downloads back to the same file', async () => {
+    const data = new Uint8Array(300000).map((_, i) => i % 251);
+    await sendAttachment('conversation-1', 'alice', {
+      data,
+      fileName: 'photo.png',
+      mimeType: 'image/png',
+    });
+
+    expect(sent).toHaveLength(1);
+    const {attachment} = sent[0] as AttachmentPayload;
+    expect(attachment.storagePath).toMatch(/^attachments\/conversation-1\//);
+    expect(attachment.size).toBe(data.length);
+
+    // Only ciphertext reaches the store
+    const stored = await fs.readFile(
+      path.join(directory, attachment.storagePath),
+    );
+    expect(stored.includes(Buffer.from(data.subarray(0, 64)))).toBe(false);
+
+    expect(await downloadAttachment(attachment, 'conversation-1')).toEqual(
+      data,
+    );
+  });
+
+  it('rejects a download whose ciphertext was changed', async () => {
+    await sendAttachment('conversation-1', 'alice', {
+      data: new Uint8Array(1000).fill(7),
+      fileName: 'notes.txt',
+      mimeType: 'text/plain',
+    });
+    const {attachment} = sent[0] as AttachmentPayload;
+
+    const filePath = path.join(directory, attachment.storagePath);
+    const stored = await fs.readFile(filePath);
+    stored[20] = (stored[20] + 1) % 256;
+    await fs.writeFile(filePath, stored);
+
+    await expect(
+      downloadAttachment(attachment, 'conversation-1'),
+    ).rejects.toThrow();
+  });
+
+  it('only downloads from the conversation it was received in', async () => {
+    await sendAttachment('conversation-1', 'alice', {
+      data: new Uint8Array(10),
+      fileName: 'a.bin',
+      mimeType: '',
+    });
+    const {attachment} = sent[0] as AttachmentPayload;
+
+    await expect(
+      downloadAttachment(attachment, 'conversation-2'),
+    ).rejects.toThrow('Invalid attachment path');
+    await expect(
+      downloadAttachment(
+        {
+          ...attachment,
+          storagePath: 'attachments/conversation-1/../conversation-2/file',
+        },
+        'conversation-1',
+      ),
+    ).rejects.toThrow('Invalid attachment path');
+  });
+
+  it('removes the upload when the message cannot be sent', async () => {
+    mockSendDirectMessage.mockRejectedValueOnce(new Error('Network error'));
+
+    await expect(
+      sendAttachment('conversation-1', 'alice', {
+        data: new Uint8Array(10),
+        fileName: 'a.bin',
+        mimeType: '',
+      }),
+    ).rejects.toThrow('Network error');
+    expect(
+      await fs.readdir(path.join(directory, 'attachments', 'conversation-1')),
+    ).toEqual([]);
+  });
+});
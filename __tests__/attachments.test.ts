@@ -0,0 +1,123 @@
+/**
+ * @format
+ */
+
+import {
+  ATTACHMENT_CHUNK_SIZE,
+  decryptAttachment,
+  encryptAttachment,
+} from '../src/core/crypto/attachments';
+import type {EncryptedAttachment} from '../src/core/crypto/attachments';
+import {decryptAttachment as webDecryptAttachment} from '../web/src/core/crypto/attachments';
+
+const SEALED_CHUNK_SIZE = ATTACHMENT_CHUNK_SIZE + 16;
+
+function fileOfSize(size: number): Uint8Array<ArrayBuffer> {
+  const bytes = new Uint8Array(size);
+  for (let i = 0; i < size; i++) {
+    bytes[i] = i % 251;
+  }
+  return bytes;
+}
+
+async function sha256(data: Uint8Array<ArrayBuffer>): Promise<string> {
+  return Buffer.from(await crypto.subtle.digest('SHA-256', data)).toString(
+    'base64',
+  );
+}
+
+// Swap in different ciphertext with a matching digest, as a sender could
+async function withCiphertext(
+  attachment: EncryptedAttachment,
+  data: Uint8Array<ArrayBuffer>,
+  size = attachment.size,
+) {
+  return {
+    ciphertext: data.buffer,
+    info: {key: attachment.key, digest: await sha256(data), size},
+  };
+}
+
+describe('chunked attachment encryption', () => {
+  let file: Uint8Array<ArrayBuffer>;
+  let attachment: EncryptedAttachment;
+
+  beforeAll(async () => {
+    file = fileOfSize(ATTACHMENT_CHUNK_SIZE * 2 + 1000);
+    attachment = await encryptAttachment(file);
+  });
+
+  test.each([0, 1, ATTACHMENT_CHUNK_SIZE, ATTACHMENT_CHUNK_SIZE + 1])(
+    'round-trips a %i byte file',
+    async size => {
+      const contents = fileOfSize(size);
+      const encrypted = await encryptAttachment(contents);
+
+      await expect(
+        decryptAttachment(encrypted.data.slice().buffer, encrypted),
+      ).resolves.toEqual(contents);
+    },
+  );
+
+  test('round-trips a multi-chunk file, also on the web client', async () => {
+    expect(attachment.size).toBe(file.length);
+    expect(attachment.data.length).toBe(file.length + 3 * 16);
+
+    await expect(
+      decryptAttachment(attachment.data.slice().buffer, attachment),
+    ).resolves.toEqual(file);
+    await expect(
+      webDecryptAttachment(attachment.data.slice().buffer, attachment),
+    ).resolves.toEqual(file);
+  });
+
+  test('rejects ciphertext that does not match the digest', async () => {
+    const data = attachment.data.slice();
+    data[0] = (data[0] + 1) % 256;
+
+    await expect(decryptAttachment(data.buffer, attachment)).rejects.toThrow(
+      'Attachment digest mismatch',
+    );
+  });
+
+  test('rejects a size that does not match the ciphertext', async () => {
+    const {ciphertext, info} = await withCiphertext(
+      attachment,
+      attachment.data.slice(),
+      attachment.size - 1,
+    );
+
+    await expect(decryptAttachment(ciphertext, info)).rejects.toThrow(
+      'Attachment size mismatch',
+    );
+  });
+
+  test('rejects a tampered chunk', async () => {
+    const data = attachment.data.slice();
+    data[SEALED_CHUNK_SIZE] = (data[SEALED_CHUNK_SIZE] + 1) % 256;
+    const {ciphertext, info} = await withCiphertext(attachment, data);
+
+    await expect(decryptAttachment(ciphertext, info)).rejects.toThrow();
+  });
+
+  test('rejects reordered chunks', async () => {
+    const data = attachment.data.slice();
+    data.set(
+      attachment.data.subarray(SEALED_CHUNK_SIZE, 2 * SEALED_CHUNK_SIZE),
+    );
+    data.set(attachment.data.subarray(0, SEALED_CHUNK_SIZE), SEALED_CHUNK_SIZE);
+    const {ciphertext, info} = await withCiphertext(attachment, data);
+
+    await expect(decryptAttachment(ciphertext, info)).rejects.toThrow();
+  });
+
+  test('rejects a file cut off at a chunk boundary', async () => {
+    const {ciphertext, info} = await withCiphertext(
+      attachment,
+      attachment.data.slice(0, 2 * SEALED_CHUNK_SIZE),
+      2 * ATTACHMENT_CHUNK_SIZE,
+    );
+
+    await expect(decryptAttachment(ciphertext, info)).rejects.toThrow();
+  });
+});
@@ -0,0 +1,93 @@
+/**
+ * @format
+ */
+
+import {
+  generateAgreementKeyPair,
+  generateSigningKeyPair,
+} from '../src/core/crypto/keyGeneration';
+import {signDeviceKey, verifyDeviceKey} from '../src/core/crypto/signing';
+import type {DeviceKey, KeyPair} from '../src/types';
+
+describe('device key signatures', () => {
+  let signingKey: KeyPair;
+  let deviceKey: DeviceKey;
+  let signature: string;
+
+  beforeAll(async () => {
+    signingKey = await generateSigningKeyPair();
+    const agreementKey = await generateAgreementKeyPair();
+    deviceKey = {publicKey: agreementKey.publicKey, keyId: agreementKey.keyId};
+    signature = await signDeviceKey(
+      'alice',
+      'device-1',
+      deviceKey,
+      signingKey.privateKey,
+    );
+  });
+
+  test('verifies a device key signed by its owner', async () => {
+    await expect(
+      verifyDeviceKey(
+        'alice',
+        'device-1',
+        deviceKey,
+        signature,
+        signingKey.publicKey,
+      ),
+    ).resolves.toBe(true);
+  });
+
+  test('rejects a device key whose public key was swapped', async () => {
+    const otherKey = await generateAgreementKeyPair();
+    const swapped: DeviceKey = {
+      keyId: deviceKey.keyId,
+      publicKey: {...deviceKey.publicKey, x: otherKey.publicKey.x},
+    };
+
+    await expect(
+      verifyDeviceKey(
+        'alice',
+        'device-1',
+        swapped,
+        signature,
+        signingKey.publicKey,
+      ),
+    ).resolves.toBe(false);
+  });
+
+  test('rejects a signature for another device or owner', async () => {
+    await expect(
+      verifyDeviceKey(
+        'alice',
+        'device-2',
+        deviceKey,
+        signature,
+        signingKey.publicKey,
+      ),
+    ).resolves.toBe(false);
+    await expect(
+      verifyDeviceKey(
+        'mallory',
+        'device-1',
+        deviceKey,
+        signature,
+        signingKey.publicKey,
+      ),
+    ).resolves.toBe(false);
+  });
+
+  test('rejects a signature made with another signing key', async () => {
+    const otherSigningKey = await generateSigningKeyPair();
+
+    await expect(
+      verifyDeviceKey(
+        'alice',
+        'device-1',
+        deviceKey,
+        signature,
+        otherSigningKey.publicKey,
+      ),
+    ).resolves.toBe(false);
+  });
+});
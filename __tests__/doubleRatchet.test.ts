@@ -0,0 +1,324 @@
+/**
+ * @format
+ */
+
+import {
+  generateAgreementKeyPair,
+  generateSigningKeyPair,
+} from '../src/core/crypto/keyGeneration';
+import {
+  generateSignedPreKey,
+  generateOneTimePreKeys,
+} from '../src/core/crypto/preKeys';
+import {initiateSession, respondToSession} from '../src/core/crypto/x3dh';
+import {
+  generateRatchetKeyPair,
+  initializeInitiatorSession,
+  initializeResponderSession,
+  ratchetEncrypt,
+  ratchetDecrypt,
+} from '../src/core/crypto/doubleRatchet';
+import {getRawPublicKeyCurve} from '../src/core/crypto/keyAgreement';
+import type {RatchetState} from '../src/core/crypto/doubleRatchet';
+import type {MessageContext} from '../src/core/crypto/encryption';
+import type {KeyPair} from '../src/types';
+
+function messageContext(messageId: string, senderId: string): MessageContext {
+  return {
+    conversationId: 'conversation-1',
+    senderId,
+    messageId,
+    expiresAt: null,
+  };
+}
+
+describe('X3DH and Double Ratchet sessions', () => {
+  let aliceIdentity: KeyPair;
+  let bobIdentity: KeyPair;
+  let alice: RatchetState;
+  let bob: RatchetState;
+
+  beforeEach(async () => {
+    aliceIdentity = await generateAgreementKeyPair();
+    bobIdentity = await generateAgreementKeyPair();
+
+    const bobSigningKey = await generateSigningKeyPair();
+    const signedPreKey = await generateSignedPreKey(bobSigningKey.privateKey);
+    const [oneTimePreKey] = await generateOneTimePreKeys(1);
+
+    const initiated = await initiateSession(
+      aliceIdentity,
+      bobIdentity.publicKey,
+      {
+        userId: 'bob',
+        signedPreKey,
+        oneTimePreKey: {
+          keyId: oneTimePreKey.keyId,
+          publicKey: oneTimePreKey.publicKey,
+        },
+      },
+    );
+    const responded = await respondToSession(
+      bobIdentity,
+      {
+        signedPreKey: signedPreKey.privateKey,
+        oneTimePreKey: oneTimePreKey.privateKey,
+      },
+      aliceIdentity.publicKey,
+      initiated.ephemeralKey,
+    );
+
+    expect(responded.sharedSecret).toEqual(initiated.sharedSecret);
+    expect(responded.associatedData).toBe(initiated.associatedData);
+
+    alice = await initializeInitiatorSession(
+      'session-1',
+      initiated.sharedSecret,
+      initiated.associatedData,
+      signedPreKey.publicKey,
+    );
+    bob = initializeResponderSession(
+      'session-1',
+      responded.sharedSecret,
+      responded.associatedData,
+      {publicKey: signedPreKey.publicKey, privateKey: signedPreKey.privateKey},
+    );
+  });
+
+  test('agrees without a one-time prekey, not with an impostor', async () => {
+    const bobSigningKey = await generateSigningKeyPair();
+    const signedPreKey = await generateSignedPreKey(bobSigningKey.privateKey);
+
+    const initiated = await initiateSession(
+      aliceIdentity,
+      bobIdentity.publicKey,
+      {userId: 'bob', signedPreKey},
+    );
+    const responded = await respondToSession(
+      bobIdentity,
+      {signedPreKey: signedPreKey.privateKey},
+      aliceIdentity.publicKey,
+      initiated.ephemeralKey,
+    );
+    expect(responded.sharedSecret).toEqual(initiated.sharedSecret);
+
+    const impostor = await generateAgreementKeyPair();
+    const spoofed = await respondToSession(
+      bobIdentity,
+      {signedPreKey: signedPreKey.privateKey},
+      impostor.publicKey,
+      initiated.ephemeralKey,
+    );
+    expect(spoofed.sharedSecret).not.toEqual(initiated.sharedSecret);
+  });
+
+  test('round-trips messages in both directions', async () => {
+    const first = await ratchetEncrypt(
+      alice,
+      'Hi Bob',
+      messageContext('m1', 'alice'),
+    );
+    alice = first.state;
+    const received = await ratchetDecrypt(
+      bob,
+      first.header,
+      first.data,
+      messageContext('m1', 'alice'),
+    );
+    bob = received.state;
+    expect(received.plaintext).toBe('Hi Bob');
+
+    const reply = await ratchetEncrypt(
+      bob,
+      'Hi Alice',
+      messageContext('m2', 'bob'),
+    );
+    const answered = await ratchetDecrypt(
+      alice,
+      reply.header,
+      reply.data,
+      messageContext('m2', 'bob'),
+    );
+    expect(answered.plaintext).toBe('Hi Alice');
+    expect(reply.header.ratchetKey).not.toBe(first.header.ratchetKey);
+  });
+
+  test('decrypts messages delivered out of order', async () => {
+    const sent = [];
+    for (const text of ['one', 'two', 'three']) {
+      const encrypted = await ratchetEncrypt(
+        alice,
+        text,
+        messageContext(text, 'alice'),
+      );
+      alice = encrypted.state;
+      sent.push({text, ...encrypted});
+    }
+
+    for (const {text, header, data} of [sent[2], sent[0], sent[1]]) {
+      const received = await ratchetDecrypt(
+        bob,
+        header,
+        data,
+        messageContext(text, 'alice'),
+      );
+      bob = received.state;
+      expect(received.plaintext).toBe(text);
+    }
+  });
+
+  test('rejects a tampered ciphertext', async () => {
+    const {header, data} = await ratchetEncrypt(
+      alice,
+      'Hi Bob',
+      messageContext('m1', 'alice'),
+    );
+    const bytes = Buffer.from(data, 'base64');
+    bytes[0] = (bytes[0] + 1) % 256;
+
+    await expect(
+      ratchetDecrypt(
+        bob,
+        header,
+        bytes.toString('base64'),
+        messageContext('m1', 'alice'),
+      ),
+    ).rejects.toThrow();
+  });
+
+  test('rejects a ciphertext moved to another message', async () => {
+    const {header, data} = await ratchetEncrypt(
+      alice,
+      'Hi Bob',
+      messageContext('m1', 'alice'),
+    );
+
+    await expect(
+      ratchetDecrypt(bob, header, data, messageContext('m2', 'alice')),
+    ).rejects.toThrow();
+    await expect(
+      ratchetDecrypt(bob, header, data, messageContext('m1', 'mallory')),
+    ).rejects.toThrow();
+  });
+
+  test('rejects a tampered header', async () => {
+    const {header, data} = await ratchetEncrypt(
+      alice,
+      'Hi Bob',
+      messageContext('m1', 'alice'),
+    );
+
+    await expect(
+      ratchetDecrypt(
+        bob,
+        {...header, count: header.count + 1},
+        data,
+        messageContext('m1', 'alice'),
+      ),
+    ).rejects.toThrow();
+  });
+
+  test('rejects a replayed message', async () => {
+    const {header, data} = await ratchetEncrypt(
+      alice,
+      'Hi Bob',
+      messageContext('m1', 'alice'),
+    );
+    const received = await ratchetDecrypt(
+      bob,
+      header,
+      data,
+      messageContext('m1', 'alice'),
+    );
+
+    await expect(
+      ratchetDecrypt(
+        received.state,
+        header,
+        data,
+        messageContext('m1', 'alice'),
+      ),
+    ).rejects.toThrow();
+  });
+});
+
+describe('agreement key curves', () => {
+  test('new agreement keys are X25519', async () => {
+    const {publicKey} = await generateAgreementKeyPair();
+    expect(publicKey).toMatchObject({kty: 'OKP', crv: 'X25519'});
+
+    const bobSigningKey = await generateSigningKeyPair();
+    const signedPreKey = await generateSignedPreKey(bobSigningKey.privateKey);
+    expect(getRawPublicKeyCurve(signedPreKey.publicKey)).toBe('X25519');
+  });
+
+  test('refuses to mix X25519 and legacy P-256 keys', async () => {
+    const aliceIdentity = await generateAgreementKeyPair();
+    const bobIdentity = await generateAgreementKeyPair('P-256');
+    const legacyPreKey = await generateRatchetKeyPair('P-256');
+
+    await expect(
+      initiateSession(aliceIdentity, bobIdentity.publicKey, {
+        userId: 'bob',
+        signedPreKey: {
+          keyId: 'spk-1',
+          publicKey: legacyPreKey.publicKey,
+          signature: '',
+          createdAt: Date.now(),
+        },
+      }),
+    ).rejects.toThrow('Key agreement curves do not match');
+  });
+
+  test('sessions started with P-256 keys keep ratcheting on P-256', async () => {
+    const bobRatchetKey = await generateRatchetKeyPair('P-256');
+    const sharedSecret = crypto.getRandomValues(new Uint8Array(32));
+
+    let alice = await initializeInitiatorSession(
+      'session-1',
+      sharedSecret,
+      'ad',
+      bobRatchetKey.publicKey,
+    );
+    let bob = initializeResponderSession(
+      'session-1',
+      sharedSecret,
+      'ad',
+      bobRatchetKey,
+    );
+
+    for (let i = 0; i < 2; i++) {
+      const sent = await ratchetEncrypt(
+        alice,
+        'Hi Bob',
+        messageContext(`a${i}`, 'alice'),
+      );
+      alice = sent.state;
+      expect(getRawPublicKeyCurve(sent.header.ratchetKey)).toBe('P-256');
+      bob = (
+        await ratchetDecrypt(
+          bob,
+          sent.header,
+          sent.data,
+          messageContext(`a${i}`, 'alice'),
+        )
+      ).state;
+
+      const reply = await ratchetEncrypt(
+        bob,
+        'Hi Alice',
+        messageContext(`b${i}`, 'bob'),
+      );
+      bob = reply.state;
+      expect(getRawPublicKeyCurve(reply.header.ratchetKey)).toBe('P-256');
+      const received = await ratchetDecrypt(
+        alice,
+        reply.header,
+        reply.data,
+        messageContext(`b${i}`, 'bob'),
+      );
+      alice = received.state;
+      expect(received.plaintext).toBe('Hi Alice');
+    }
+  });
+});
@@ -0,0 +1,199 @@
+/**
+ * @format
+ */
+
+import {
+  decryptEnvelope,
+  encryptEnvelope,
+  getEnvelopeCodec,
+} from '../src/core/crypto/envelopes';
+import type {EnvelopeEncryptContext} from '../src/core/crypto/envelopes';
+import {
+  generateGroupSymmetricKey,
+  generateUserKeyPair,
+} from '../src/core/crypto/keyGeneration';
+import type {
+  Conversation,
+  ConversationType,
+  EncryptedEnvelope,
+  KeyPair,
+  Message,
+} from '../src/types';
+
+function storedMessage(
+  type: ConversationType,
+  encryptedContent: EncryptedEnvelope,
+  overrides: Partial<Message> = {},
+): Message {
+  return {
+    id: 'message-1',
+    conversationId: 'conversation-1',
+    senderId: 'alice',
+    timestamp: Date.now(),
+    type,
+    encryptedContent,
+    ttl: null,
+    expiresAt: null,
+    readBy: {},
+    ...overrides,
+  };
+}
+
+describe('message envelope codecs', () => {
+  let alice: KeyPair;
+  let bob: KeyPair;
+  let groupKey: {key: CryptoKey; keyId: string};
+  let conversation: Conversation;
+
+  beforeAll(async () => {
+    alice = await generateUserKeyPair();
+    bob = await generateUserKeyPair();
+    groupKey = await generateGroupSymmetricKey();
+    conversation = {
+      id: 'conversation-1',
+      type: 'direct',
+      participants: ['alice', 'bob'],
+      participantKeys: {
+        alice: {publicKey: alice.publicKey, keyId: alice.keyId},
+        bob: {publicKey: bob.publicKey, keyId: bob.keyId},
+      },
+      createdAt: Date.now(),
+      updatedAt: Date.now(),
+    };
+  });
+
+  function sendContext(): EnvelopeEncryptContext {
+    return {
+      conversation,
+      senderId: 'alice',
+      groupKey: groupKey.key,
+      groupKeyId: groupKey.keyId,
+      messageId: 'message-1',
+      expiresAt: null,
+    };
+  }
+
+  function readAsBob(message: Message) {
+    return decryptEnvelope({
+      message,
+      conversation,
+      userId: 'bob',
+      groupKey: groupKey.key,
+      getDecryptionKey: async () => ({
+        privateKey: bob.privateKey,
+        keyId: bob.keyId,
+      }),
+    });
+  }
+
+  describe.each<[ConversationType, string]>([
+    ['direct', 'tt-e1'],
+    ['direct', 'tt-e2'],
+    ['direct', 'tt-e3'],
+    ['direct', 'tt-e4'],
+    ['group', 'tt-e1'],
+    ['group', 'tt-e3'],
+    ['group', 'tt-e4'],
+  ])('%s %s', (kind, version) => {
+    test('round-trips a message', async () => {
+      const payload = await encryptEnvelope(
+        kind,
+        version,
+        'Hello',
+        sendContext(),
+      );
+      expect(payload.version).toBe(version);
+
+      const {content} = await readAsBob(storedMessage(kind, payload));
+      expect(content).toBe('Hello');
+    });
+
+    test('rejects a tampered ciphertext', async () => {
+      const payload = await encryptEnvelope(
+        kind,
+        version,
+        'Hello',
+        sendContext(),
+      );
+      const bytes = Buffer.from(payload.data, 'base64');
+      bytes[0] = (bytes[0] + 1) % 256;
+
+      await expect(
+        readAsBob(
+          storedMessage(kind, {...payload, data: bytes.toString('base64')}),
+        ),
+      ).rejects.toThrow();
+    });
+  });
+
+  describe.each<[ConversationType, string]>([
+    ['direct', 'tt-e3'],
+    ['direct', 'tt-e4'],
+    ['group', 'tt-e3'],
+    ['group', 'tt-e4'],
+  ])('%s %s bound to its message', (kind, version) => {
+    test.each<[string, Partial<Message>]>([
+      ['moved to another message', {id: 'message-2'}],
+      ['moved to another conversation', {conversationId: 'conversation-2'}],
+      ['claimed by another sender', {senderId: 'mallory'}],
+      ['given a later expiry', {expiresAt: Date.now() + 60_000}],
+    ])('rejects a payload %s', async (_, overrides) => {
+      const payload = await encryptEnvelope(
+        kind,
+        version,
+        'Hello',
+        sendContext(),
+      );
+
+      await expect(
+        readAsBob(storedMessage(kind, payload, overrides)),
+      ).rejects.toThrow();
+    });
+  });
+
+  test('decrypts history wrapped for a replaced identity key', async () => {
+    const payload = await encryptEnvelope(
+      'direct',
+      'tt-e4',
+      'Before the key change',
+      sendContext(),
+    );
+    const replacement = await generateUserKeyPair();
+
+    const {content} = await decryptEnvelope({
+      message: storedMessage('direct', payload),
+      conversation,
+      userId: 'bob',
+      getDecryptionKey: async () => ({
+        privateKey: replacement.privateKey,
+        keyId: replacement.keyId,
+        previousKeys: {[bob.keyId]: bob.privateKey},
+      }),
+    });
+    expect(content).toBe('Before the key change');
+  });
+
+  test('rejects unknown and missing versions', async () => {
+    expect(() => getEnvelopeCodec('direct', 'tt-e9')).toThrow(
+      'Unsupported direct message version "tt-e9"',
+    );
+    expect(() => getEnvelopeCodec('group', undefined)).toThrow(
+      'Message has no envelope version',
+    );
+
+    const payload = await encryptEnvelope(
+      'direct',
+      'tt-e4',
+      'Hello',
+      sendContext(),
+    );
+    await expect(
+      readAsBob(
+        storedMessage('direct', {
+          ...payload,
+          version: 'tt-e9',
+        } as unknown as EncryptedEnvelope),
+      ),
+    ).rejects.toThrow('Unsupported direct message version "tt-e9"');
+  });
+});
@@ -0,0 +1,121 @@
+/**
+ * @format
+ */
+
+import {
+  deriveKeyFromPassword,
+  exportPrivateKeys,
+  importPrivateKeys,
+  isKeyBundleOutdated,
+  upgradeKeyBundle,
+} from '../src/core/crypto/encryption';
+import {DEFAULT_SCRYPT_PARAMS} from '../src/core/crypto/kdf';
+import {generateAgreementKeyPair} from '../src/core/crypto/keyGeneration';
+import type {EncryptedKeyBundle} from '../src/types';
+
+const PASSWORD = 'correct horse battery';
+
+// A 1.0 bundle as older versions of the app wrote it: PBKDF2, no header AAD
+async function createLegacyBundle(
+  privateKeys: Record<string, JsonWebKey>,
+): Promise<EncryptedKeyBundle> {
+  const salt = crypto.getRandomValues(new Uint8Array(32));
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  const key = await deriveKeyFromPassword(PASSWORD, salt, 1000);
+  const ciphertext = await crypto.subtle.encrypt(
+    {name: 'AES-GCM', iv},
+    key,
+    new TextEncoder().encode(JSON.stringify(privateKeys)),
+  );
+
+  return {
+    version: '1.0',
+    algorithm: 'PBKDF2-AES-GCM-256',
+    iterations: 1000,
+    salt: Buffer.from(salt).toString('base64'),
+    iv: Buffer.from(iv).toString('base64'),
+    ciphertext: Buffer.from(ciphertext).toString('base64'),
+    exportedAt: new Date().toISOString(),
+  };
+}
+
+describe('password key bundles', () => {
+  let privateKeys: Record<string, JsonWebKey>;
+  let bundle: EncryptedKeyBundle;
+
+  beforeAll(async () => {
+    const identityKey = await generateAgreementKeyPair();
+    privateKeys = {alice: identityKey.privateKey};
+    bundle = await exportPrivateKeys(privateKeys, PASSWORD);
+  });
+
+  test('round-trips private keys in a 2.0 scrypt bundle', async () => {
+    expect(bundle.version).toBe('2.0');
+    expect(bundle.algorithm).toBe('SCRYPT-AES-GCM-256');
+    expect(bundle.kdfParams).toEqual(DEFAULT_SCRYPT_PARAMS);
+    expect(isKeyBundleOutdated(bundle)).toBe(false);
+
+    await expect(importPrivateKeys(bundle, PASSWORD)).resolves.toEqual(
+      privateKeys,
+    );
+  });
+
+  test('rejects the wrong password', async () => {
+    await expect(
+      importPrivateKeys(bundle, 'incorrect horse battery'),
+    ).rejects.toThrow('Invalid password or corrupted key bundle');
+  });
+
+  test('rejects a tampered ciphertext', async () => {
+    const bytes = Buffer.from(bundle.ciphertext, 'base64');
+    bytes[0] = (bytes[0] + 1) % 256;
+
+    await expect(
+      importPrivateKeys(
+        {...bundle, ciphertext: bytes.toString('base64')},
+        PASSWORD,
+      ),
+    ).rejects.toThrow('Invalid password or corrupted key bundle');
+  });
+
+  test('rejects a tampered header', async () => {
+    await expect(
+      importPrivateKeys(
+        {...bundle, exportedAt: '2020-01-01T00:00:00Z'},
+        PASSWORD,
+      ),
+    ).rejects.toThrow('Invalid password or corrupted key bundle');
+  });
+
+  test('rejects a downgrade to the legacy format', async () => {
+    await expect(
+      importPrivateKeys(
+        {...bundle, version: '1.0', algorithm: 'PBKDF2-AES-GCM-256'},
+        PASSWORD,
+      ),
+    ).rejects.toThrow('Invalid password or corrupted key bundle');
+  });
+
+  test('refuses key derivation parameters that are too expensive', async () => {
+    await expect(
+      importPrivateKeys(
+        {...bundle, kdfParams: {N: 2 ** 20, r: 8, p: 1}},
+        PASSWORD,
+      ),
+    ).rejects.toThrow('Key derivation parameters are too expensive');
+  });
+
+  test('reads and upgrades a 1.0 bundle', async () => {
+    const legacy = await createLegacyBundle(privateKeys);
+    expect(isKeyBundleOutdated(legacy)).toBe(true);
+    await expect(importPrivateKeys(legacy, PASSWORD)).resolves.toEqual(
+      privateKeys,
+    );
+
+    const upgraded = await upgradeKeyBundle(legacy, PASSWORD);
+    expect(upgraded.version).toBe('2.0');
+    await expect(importPrivateKeys(upgraded, PASSWORD)).resolves.toEqual(
+      privateKeys,
+    );
+  });
+});
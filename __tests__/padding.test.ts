@@ -0,0 +1,65 @@
+/**
+ * @format
+ */
+
+import {
+  getPaddedLength,
+  padPlaintext,
+  unpadPlaintext,
+} from '../src/core/crypto/padding';
+
+function toBuffer(bytes: Uint8Array): ArrayBuffer {
+  return bytes.slice().buffer;
+}
+
+describe('Padmé plaintext padding', () => {
+  test.each(['', 'yes', 'héllo 👋', 'x'.repeat(63), 'y'.repeat(5000)])(
+    'round-trips %#',
+    text => {
+      const padded = padPlaintext(text);
+      expect(padded.length).toBe(
+        getPaddedLength(new TextEncoder().encode(text).length + 1),
+      );
+      expect(unpadPlaintext(toBuffer(padded))).toBe(text);
+    },
+  );
+
+  test('pads short messages to the same length', () => {
+    expect(padPlaintext('yes').length).toBe(64);
+    expect(padPlaintext('no').length).toBe(64);
+  });
+
+  test('hides small length differences in longer messages', () => {
+    expect(padPlaintext('a'.repeat(1000)).length).toBe(
+      padPlaintext('a'.repeat(1010)).length,
+    );
+  });
+
+  test('keeps the overhead within Padmé bounds', () => {
+    for (let length = 65; length <= 20000; length += 97) {
+      const padded = getPaddedLength(length);
+      expect(padded).toBeGreaterThanOrEqual(length);
+      expect(padded / length).toBeLessThanOrEqual(1.12);
+    }
+  });
+
+  test('rejects padding without a marker', () => {
+    expect(() => unpadPlaintext(new ArrayBuffer(64))).toThrow(
+      'Invalid message padding',
+    );
+  });
+
+  test('rejects tampered padding', () => {
+    const padded = padPlaintext('Hello');
+    padded[5] = (padded[5] + 1) % 256;
+    expect(() => unpadPlaintext(toBuffer(padded))).toThrow(
+      'Invalid message padding',
+    );
+
+    const trailing = padPlaintext('Hello');
+    trailing[trailing.length - 1] = 1;
+    expect(() => unpadPlaintext(toBuffer(trailing))).toThrow(
+      'Invalid message padding',
+    );
+  });
+});
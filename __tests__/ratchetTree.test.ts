@@ -0,0 +1,234 @@
+/**
+ * @format
+ */
+
+import {
+  createRatchetTree,
+  createTreeCommit,
+  processTreeCommit,
+  signTreeCommit,
+  updateTreeMembers,
+  verifyTreeCommit,
+} from '../src/core/crypto/ratchetTree';
+import type {
+  TreeCommit,
+  TreeKeyState,
+  TreeMember,
+} from '../src/core/crypto/ratchetTree';
+import {
+  generateSigningKeyPair,
+  generateUserKeyPair,
+} from '../src/core/crypto/keyGeneration';
+import type {KeyPair} from '../src/types';
+
+async function rawKey(key: CryptoKey): Promise<string> {
+  return Buffer.from(await crypto.subtle.exportKey('raw', key)).toString(
+    'base64',
+  );
+}
+
+describe('ratchet tree group keys', () => {
+  const keys: Record<string, KeyPair> = {};
+
+  function treeMember(memberId: string): TreeMember {
+    return {
+      memberId,
+      keyId: keys[memberId].keyId,
+      publicKey: keys[memberId].publicKey,
+    };
+  }
+
+  beforeAll(async () => {
+    for (const memberId of ['alice', 'bob', 'carol', 'dave']) {
+      keys[memberId] = await generateUserKeyPair();
+    }
+  });
+
+  async function startGroup(memberIds: string[]) {
+    const tree = updateTreeMembers(
+      createRatchetTree(),
+      memberIds.map(treeMember),
+    );
+    return createTreeCommit(tree, memberIds[0], 1);
+  }
+
+  test('gives every member the same group key', async () => {
+    const {commit, groupKey} = await startGroup(['alice', 'bob', 'carol']);
+    const expected = await rawKey(groupKey);
+
+    for (const memberId of ['bob', 'carol']) {
+      const received = await processTreeCommit(
+        commit,
+        memberId,
+        keys[memberId].privateKey,
+        null,
+      );
+      expect(await rawKey(received.groupKey)).toBe(expected);
+    }
+  });
+
+  test('locks a removed member out of the next epoch', async () => {
+    const first = await startGroup(['alice', 'bob', 'carol']);
+    const carol = await processTreeCommit(
+      first.commit,
+      'carol',
+      keys.carol.privateKey,
+      null,
+    );
+
+    const tree = updateTreeMembers(first.commit.tree, [
+      treeMember('alice'),
+      treeMember('bob'),
+    ]);
+    const second = await createTreeCommit(tree, 'bob', 2);
+    const alice = await processTreeCommit(
+      second.commit,
+      'alice',
+      keys.alice.privateKey,
+      first.state,
+    );
+
+    expect(await rawKey(alice.groupKey)).toBe(await rawKey(second.groupKey));
+    expect(await rawKey(second.groupKey)).not.toBe(
+      await rawKey(carol.groupKey),
+    );
+    await expect(
+      processTreeCommit(
+        second.commit,
+        'carol',
+        keys.carol.privateKey,
+        carol.state,
+      ),
+    ).rejects.toThrow('Not a member of this epoch');
+  });
+
+  test('seats a member added when the tree is full', async () => {
+    const first = await startGroup(['alice', 'bob']);
+    const bob = await processTreeCommit(
+      first.commit,
+      'bob',
+      keys.bob.privateKey,
+      null,
+    );
+
+    const tree = updateTreeMembers(first.commit.tree, [
+      treeMember('alice'),
+      treeMember('bob'),
+      treeMember('dave'),
+    ]);
+    expect(tree.capacity).toBe(4);
+    const second = await createTreeCommit(tree, 'alice', 2);
+    const expected = await rawKey(second.groupKey);
+
+    const states: Record<string, TreeKeyState | null> = {
+      bob: bob.state,
+      dave: null,
+    };
+    for (const memberId of ['bob', 'dave']) {
+      const received = await processTreeCommit(
+        second.commit,
+        memberId,
+        keys[memberId].privateKey,
+        states[memberId],
+      );
+      expect(await rawKey(received.groupKey)).toBe(expected);
+    }
+  });
+
+  test('rejects a tampered path secret', async () => {
+    const {commit} = await startGroup(['alice', 'bob']);
+    const tampered: TreeCommit = JSON.parse(JSON.stringify(commit));
+    for (const wrapped of Object.values(tampered.encryptedPathSecrets)) {
+      for (const target of Object.keys(wrapped)) {
+        const bytes = Buffer.from(wrapped[target], 'base64');
+        bytes[bytes.length - 1] = (bytes[bytes.length - 1] + 1) % 256;
+        wrapped[target] = bytes.toString('base64');
+      }
+    }
+
+    await expect(
+      processTreeCommit(tampered, 'bob', keys.bob.privateKey, null),
+    ).rejects.toThrow();
+  });
+
+  test('rejects a commit claiming to come from the reader', async () => {
+    const {commit} = await startGroup(['alice', 'bob']);
+
+    await expect(
+      processTreeCommit(
+        {...commit, committedBy: 'bob'},
+        'bob',
+        keys.bob.privateKey,
+        null,
+      ),
+    ).rejects.toThrow('Invalid commit');
+  });
+
+  test("rejects a commit that replaces the reader's leaf key", async () => {
+    const {commit} = await startGroup(['alice', 'bob']);
+    const impostor = await generateUserKeyPair();
+    const tampered: TreeCommit = JSON.parse(JSON.stringify(commit));
+    for (const node of Object.values(tampered.tree.nodes)) {
+      if (node.memberId === 'bob') {
+        node.publicKey = impostor.publicKey;
+      }
+    }
+
+    await expect(
+      processTreeCommit(tampered, 'bob', keys.bob.privateKey, null),
+    ).rejects.toThrow('Commit replaced the key of our leaf');
+  });
+
+  test("reseats a leaf that does not hold the member's key", async () => {
+    const {commit} = await startGroup(['alice', 'bob']);
+    const impostor = await generateUserKeyPair();
+    const tampered: TreeCommit = JSON.parse(JSON.stringify(commit));
+    for (const node of Object.values(tampered.tree.nodes)) {
+      if (node.memberId === 'bob') {
+        node.publicKey = impostor.publicKey;
+      }
+    }
+
+    const tree = updateTreeMembers(tampered.tree, [
+      treeMember('alice'),
+      treeMember('bob'),
+    ]);
+    const bobLeaf = Object.values(tree.nodes).find(
+      node => node.memberId === 'bob',
+    );
+    expect(bobLeaf?.publicKey).toEqual(keys.bob.publicKey);
+  });
+
+  test('signs commits and rejects altered ones', async () => {
+    const signingKey = await generateSigningKeyPair();
+    const otherKey = await generateSigningKeyPair();
+    const {commit} = await startGroup(['alice', 'bob']);
+    const signed = await signTreeCommit(
+      {...commit, reason: 'memberRemoved'},
+      signingKey.privateKey,
+    );
+    const stored: TreeCommit = JSON.parse(JSON.stringify(signed));
+
+    expect(await verifyTreeCommit(stored, signingKey.publicKey)).toBe(true);
+    expect(await verifyTreeCommit(stored, otherKey.publicKey)).toBe(false);
+    expect(await verifyTreeCommit(commit, signingKey.publicKey)).toBe(false);
+    expect(
+      await verifyTreeCommit(
+        {...stored, committedBy: 'bob'},
+        signingKey.publicKey,
+      ),
+    ).toBe(false);
+    expect(
+      await verifyTreeCommit({...stored, epoch: 2}, signingKey.publicKey),
+    ).toBe(false);
+
+    const swapped: TreeCommit = JSON.parse(JSON.stringify(stored));
+    const impostor = await generateUserKeyPair();
+    for (const node of Object.values(swapped.tree.nodes)) {
+      if (!node.memberId) {
+        node.publicKey = impostor.publicKey;
+      }
+    }
+    expect(await verifyTreeCommit(swapped, signingKey.publicKey)).toBe(false);
+  });
+});
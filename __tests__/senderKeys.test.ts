@@ -0,0 +1,230 @@
+/**
+ * @format
+ */
+
+import {
+  createSenderKey,
+  getSenderKeyDistribution,
+  initializeReceivingSenderKey,
+  senderKeyEncrypt,
+  senderKeyDecrypt,
+  sealSenderKeyDistribution,
+  openSenderKeyDistribution,
+} from '../src/core/crypto/senderKeys';
+import type {
+  SenderKeyBinding,
+  SenderKeyState,
+} from '../src/core/crypto/senderKeys';
+import {generateGroupSymmetricKey} from '../src/core/crypto/keyGeneration';
+import type {MessageContext} from '../src/core/crypto/encryption';
+import {senderKeyDecrypt as webSenderKeyDecrypt} from '../web/src/core/crypto/senderKeys';
+
+function messageContext(messageId: string): MessageContext {
+  return {
+    conversationId: 'group-1',
+    senderId: 'alice',
+    messageId,
+    expiresAt: null,
+  };
+}
+
+describe('sender keys', () => {
+  let sending: SenderKeyState;
+  let receiving: SenderKeyState;
+
+  beforeEach(() => {
+    sending = createSenderKey('sender-key-1');
+    receiving = initializeReceivingSenderKey(
+      'sender-key-1',
+      getSenderKeyDistribution(sending),
+    );
+  });
+
+  async function send(text: string) {
+    const encrypted = await senderKeyEncrypt(
+      sending,
+      text,
+      messageContext(text),
+    );
+    sending = encrypted.state;
+    return {text, iteration: encrypted.iteration, data: encrypted.data};
+  }
+
+  test('round-trips messages in order and out of order', async () => {
+    const sent = [await send('one'), await send('two'), await send('three')];
+
+    for (const {text, iteration, data} of [sent[0], sent[2], sent[1]]) {
+      const received = await senderKeyDecrypt(
+        receiving,
+        iteration,
+        data,
+        messageContext(text),
+      );
+      receiving = received.state;
+      expect(received.plaintext).toBe(text);
+    }
+  });
+
+  test('is readable by the web client', async () => {
+    const {text, iteration, data} = await send('Hello from mobile');
+
+    const received = await webSenderKeyDecrypt(
+      receiving,
+      iteration,
+      data,
+      messageContext(text),
+    );
+    expect(received.plaintext).toBe('Hello from mobile');
+  });
+
+  test('does not reveal messages sent before the distribution', async () => {
+    const earlier = await send('before');
+    const late = initializeReceivingSenderKey(
+      'sender-key-1',
+      getSenderKeyDistribution(sending),
+    );
+
+    await expect(
+      senderKeyDecrypt(
+        late,
+        earlier.iteration,
+        earlier.data,
+        messageContext('before'),
+      ),
+    ).rejects.toThrow('Message key already used or no longer available');
+  });
+
+  test('rejects a tampered ciphertext', async () => {
+    const {text, iteration, data} = await send('Hello');
+    const bytes = Buffer.from(data, 'base64');
+    bytes[0] = (bytes[0] + 1) % 256;
+
+    await expect(
+      senderKeyDecrypt(
+        receiving,
+        iteration,
+        bytes.toString('base64'),
+        messageContext(text),
+      ),
+    ).rejects.toThrow();
+  });
+
+  test('rejects a ciphertext moved to another message', async () => {
+    const {iteration, data} = await send('Hello');
+
+    await expect(
+      senderKeyDecrypt(receiving, iteration, data, messageContext('other')),
+    ).rejects.toThrow();
+    await expect(
+      senderKeyDecrypt(receiving, iteration, data, {
+        ...messageContext('Hello'),
+        senderId: 'mallory',
+      }),
+    ).rejects.toThrow();
+  });
+
+  test('rejects a replayed message', async () => {
+    const {text, iteration, data} = await send('Hello');
+    const received = await senderKeyDecrypt(
+      receiving,
+      iteration,
+      data,
+      messageContext(text),
+    );
+
+    await expect(
+      senderKeyDecrypt(received.state, iteration, data, messageContext(text)),
+    ).rejects.toThrow('Message key already used or no longer available');
+  });
+
+  test('rejects a message from another sender key', async () => {
+    const {text, iteration, data} = await send('Hello');
+    const other = createSenderKey('sender-key-2');
+
+    await expect(
+      senderKeyDecrypt(other, iteration, data, messageContext(text)),
+    ).rejects.toThrow();
+  });
+
+  test('refuses to skip too far ahead', async () => {
+    const {text, data} = await send('Hello');
+
+    await expect(
+      senderKeyDecrypt(receiving, 5000, data, messageContext(text)),
+    ).rejects.toThrow('Too many skipped messages');
+  });
+
+  test('rejects an iteration that is not a chain position', async () => {
+    const {text, data} = await send('Hello');
+
+    for (const iteration of [-1, 0.5, NaN, Number.MAX_SAFE_INTEGER + 1]) {
+      await expect(
+        senderKeyDecrypt(receiving, iteration, data, messageContext(text)),
+      ).rejects.toThrow('Invalid sender key iteration');
+      await expect(
+        webSenderKeyDecrypt(receiving, iteration, data, messageContext(text)),
+      ).rejects.toThrow('Invalid sender key iteration');
+    }
+  });
+
+  describe('sealed with an epoch key', () => {
+    const binding: SenderKeyBinding = {
+      senderKeyId: 'sender-key-1',
+      senderId: 'alice',
+      groupKeyId: '3',
+    };
+
+    test('round-trips a distribution', async () => {
+      const {key} = await generateGroupSymmetricKey();
+      const sealed = await sealSenderKeyDistribution(
+        getSenderKeyDistribution(sending),
+        key,
+        binding,
+      );
+
+      const {text, iteration, data} = await send('Hello');
+      const opened = initializeReceivingSenderKey(
+        'sender-key-1',
+        await openSenderKeyDistribution(sealed, key, binding),
+      );
+      const received = await senderKeyDecrypt(
+        opened,
+        iteration,
+        data,
+        messageContext(text),
+      );
+      expect(received.plaintext).toBe('Hello');
+    });
+
+    test.each<[string, Partial<SenderKeyBinding>]>([
+      ['another sender', {senderId: 'mallory'}],
+      ['another sender key', {senderKeyId: 'sender-key-2'}],
+      ['another epoch', {groupKeyId: '4'}],
+    ])('rejects a distribution claimed for %s', async (_, overrides) => {
+      const {key} = await generateGroupSymmetricKey();
+      const sealed = await sealSenderKeyDistribution(
+        getSenderKeyDistribution(sending),
+        key,
+        binding,
+      );
+
+      await expect(
+        openSenderKeyDistribution(sealed, key, {...binding, ...overrides}),
+      ).rejects.toThrow();
+    });
+
+    test('rejects a distribution sealed with another epoch key', async () => {
+      const epochKey = await generateGroupSymmetricKey();
+      const otherKey = await generateGroupSymmetricKey();
+      const sealed = await sealSenderKeyDistribution(
+        getSenderKeyDistribution(sending),
+        epochKey.key,
+        binding,
+      );
+
+      await expect(
+        openSenderKeyDistribution(sealed, otherKey.key, binding),
+      ).rejects.toThrow();
+    });
+  });
+});
@@ -0,0 +1,16 @@
+/**
+ * Tests run under Node, whose Web Crypto and scrypt stand in for
+ * react-native-quick-crypto
+ */
+
+/* eslint-env jest */
+
+const nodeCrypto = require('crypto');
+
+if (!global.crypto?.subtle) {
+  Object.defineProperty(global, 'crypto', {value: nodeCrypto.webcrypto});
+}
+
+jest.mock('react-native-quick-crypto', () => ({
+  scrypt: require('crypto').scrypt,
+}));
@@ -6,8 +6,12 @@
 export const APP_NAME = 'TibbyTalk';
 export const APP_VERSION = '1.0.0';
 
-// Encryption
-export const ENCRYPTION_VERSION = 'tt-e1';
+// Envelope versions used for new messages (older versions still decrypt)
+export const ENVELOPE_VERSIONS = {
+  DIRECT: 'tt-e4',
+  DIRECT_SESSION: 'tt-r1',
+  GROUP_SENDER_KEY: 'tt-s1',
+} as const;
 
 // TTL options for disappearing messages (in seconds)
 export const TTL_OPTIONS = {
@@ -33,6 +37,9 @@ export const TTL_LABELS: Record<string, string> = {
 
 // Message limits
 export const MAX_MESSAGE_LENGTH = 10000;
+export const MAX_ATTACHMENT_SIZE = 25 * 1024 * 1024; // Bytes
+export const MAX_VOICE_NOTE_DURATION = 5 * 60 * 1000; // Milliseconds
+export const VOICE_NOTE_WAVEFORM_BARS = 48;
 export const MAX_GROUP_MEMBERS = 100;
 export const MAX_GROUP_NAME_LENGTH = 50;
 
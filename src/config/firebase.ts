@@ -6,8 +6,9 @@
  * 2. Enable Authentication (Email/Password)
  * 3. Enable Cloud Firestore
  * 4. Enable Cloud Messaging (FCM)
- * 5. Add Android app and download google-services.json to android/app/
- * 6. Add iOS app and download GoogleService-Info.plist to ios/
+ * 5. Enable Cloud Storage (encrypted attachments)
+ * 6. Add Android app and download google-services.json to android/app/
+ * 7. Add iOS app and download GoogleService-Info.plist to ios/
  *
  * The @react-native-firebase packages read config from these files automatically.
  */
@@ -24,12 +25,23 @@ export const isFirebaseInitialized = (): boolean => {
 // Firestore collection names
 export const COLLECTIONS = {
   USERS: 'users',
+  DEVICES: 'devices',
+  PRE_KEYS: 'preKeys',
+  PROVISIONING: 'provisioning',
+  KEY_BACKUPS: 'keyBackups',
   CONVERSATIONS: 'conversations',
   MESSAGES: 'messages',
   GROUP_KEYS: 'groupKeys',
+  SENDER_KEYS: 'senderKeys', // Under groupKeys/{groupId}
+  GROUP_EPOCHS: 'epochs', // Under groupKeys/{groupId}
   PUSH_TOKENS: 'pushTokens',
 } as const;
 
+// Cloud Storage folders
+export const STORAGE_PATHS = {
+  ATTACHMENTS: 'attachments', // attachments/{conversationId}/{attachmentId}
+} as const;
+
 // Firestore field names for consistency
 export const FIELDS = {
   // User fields
@@ -37,10 +49,35 @@ export const FIELDS = {
   DISPLAY_NAME: 'displayName',
   PUBLIC_KEY: 'publicKey',
   PUBLIC_KEY_ID: 'publicKeyId',
+  AGREEMENT_KEY: 'agreementKey',
+  SIGNING_KEY: 'signingKey',
   FCM_TOKEN: 'fcmToken',
   CREATED_AT: 'createdAt',
   LAST_SEEN: 'lastSeen',
 
+  // Device fields
+  DEVICE_NAME: 'name',
+  PLATFORM: 'platform',
+  KEY_ID: 'keyId',
+  STATUS: 'status',
+  SIGNATURE: 'signature',
+  APPROVED_BY: 'approvedBy',
+  KEY_UPDATE: 'keyUpdate',
+
+  // Provisioning fields
+  USER_ID: 'userId',
+  BUNDLE: 'bundle',
+  SENDER_KEY: 'senderKey',
+
+  // Key backup fields
+  BACKUP_METHOD: 'method',
+  BACKUP_VERSION: 'version',
+  KEYS_VERSION: 'keysVersion',
+
+  // Prekey fields
+  SIGNED_PRE_KEY: 'signedPreKey',
+  ONE_TIME_PRE_KEYS: 'oneTimePreKeys',
+
   // Conversation fields
   TYPE: 'type',
   PARTICIPANTS: 'participants',
@@ -51,6 +88,14 @@ export const FIELDS = {
   ADMIN_IDS: 'adminIds',
   GROUP_KEY_ID: 'groupKeyId',
   GROUP_KEY_DISTRIBUTION: 'groupKeyDistribution',
+  GROUP_DEVICE_KEY_DISTRIBUTION: 'groupDeviceKeyDistribution',
+  GROUP_KEY_MODE: 'groupKeyMode',
+  GROUP_EPOCH: 'groupEpoch',
+  GROUP_KEY_CREATED_AT: 'groupKeyCreatedAt',
+  GROUP_KEY_MESSAGE_COUNT: 'groupKeyMessageCount',
+  GROUP_ROTATION_POLICY: 'groupRotationPolicy',
+  GROUP_KEY_ROTATION_PENDING: 'groupKeyRotationPending',
+  KEY_CHANGES: 'keyChanges',
 
   // Message fields
   SENDER_ID: 'senderId',
@@ -6,9 +6,42 @@
 import auth, {FirebaseAuthTypes} from '@react-native-firebase/auth';
 import firestore from '@react-native-firebase/firestore';
 import {validatePassword} from './passwordValidation';
-import {generateUserKeyPair} from '../crypto';
-import {storePrivateKey} from '../storage/keyStorage';
-import type {User, KeyPair} from '../../types';
+import {replenishPreKeys} from './preKeyService';
+import {
+  getCurrentDevice,
+  registerPrimaryDevice,
+  registerCurrentDevice,
+  isLinkedDevice,
+  promoteCurrentDevice,
+  replacePrimaryDeviceKey,
+  resignDeviceKeys,
+  installPreviousKeys,
+  SIGNING_KEY_NAME,
+  AGREEMENT_KEY_NAME,
+} from './deviceService';
+import {
+  generateUserKeyPair,
+  generateAgreementKeyPair,
+  generateSigningKeyPair,
+  generateKeyId,
+  importPrivateKeys,
+  isLegacyIdentityKey,
+  isLegacyAgreementKey,
+  isLegacySigningKey,
+  isKeyPairMatch,
+} from '../crypto';
+import {
+  storePrivateKey,
+  getPrivateKey,
+  storePreviousPrivateKeys,
+  getPreviousPrivateKeys,
+  storeAgreementKey,
+  getAgreementKey,
+  storeSigningKey,
+  getSigningKey,
+  hasPrivateKey,
+} from '../storage/keyStorage';
+import type {User, KeyPair, EncryptedKeyBundle} from '../../types';
 
 /**
  * Register a new user with email and password
@@ -44,21 +77,38 @@ export async function registerUser(
   // Generate encryption key pair
   const keyPair = await generateUserKeyPair();
 
-  // Store private key securely on device
+  // Generate agreement and signing key pairs for ratchet sessions
+  const agreementKeyPair = await generateAgreementKeyPair();
+  const signingKeyPair = await generateSigningKeyPair();
+
+  // Store private keys securely on device
   await storePrivateKey(firebaseUser.uid, keyPair.privateKey);
+  await storeAgreementKey(firebaseUser.uid, agreementKeyPair.privateKey);
+  await storeSigningKey(firebaseUser.uid, signingKeyPair.privateKey);
 
-  // Create user document in Firestore with public key
+  // Create user document in Firestore with public keys
   const userData: Omit<User, 'id'> = {
     email: email.toLowerCase(),
     displayName,
     publicKey: keyPair.publicKey,
     publicKeyId: keyPair.keyId,
+    agreementKey: agreementKeyPair.publicKey,
+    signingKey: signingKeyPair.publicKey,
     createdAt: Date.now(),
     lastSeen: Date.now(),
   };
 
   await firestore().collection('users').doc(firebaseUser.uid).set(userData);
 
+  // Publish prekeys so contacts can start sessions while we are offline
+  await replenishPreKeys(firebaseUser.uid);
+
+  // This device holds the identity key and can approve other devices
+  await registerPrimaryDevice(firebaseUser.uid, {
+    publicKey: keyPair.publicKey,
+    keyId: keyPair.keyId,
+  });
+
   return {
     id: firebaseUser.uid,
     ...userData,
@@ -98,12 +148,271 @@ export async function loginUser(
     throw new Error('User data not found');
   }
 
-  const userData = userDoc.data() as Omit<User, 'id'>;
-
-  return {
+  let user: User = {
     id: firebaseUser.uid,
-    ...userData,
+    ...(userDoc.data() as Omit<User, 'id'>),
+  };
+
+  // Only the device holding the identity key publishes account keys;
+  // linked devices would replace the keys the account's devices rely on
+  const currentDevice = await getCurrentDevice(firebaseUser.uid);
+  if (
+    (await hasPrivateKey(firebaseUser.uid)) &&
+    !currentDevice?.privateKey
+  ) {
+    user = await publishAccountKeys(user);
+  }
+
+  // Register this device, or ask to link it if it has no identity key
+  await registerCurrentDevice(user);
+
+  return user;
+}
+
+/**
+ * Publish the agreement and signing keys this device is missing, replace
+ * keys created before the X25519 / Ed25519 migration, and top up prekeys.
+ * Only called on the device holding the identity key.
+ *
+ * @param user - Logged in user
+ * @returns The user with its published public keys
+ */
+async function publishAccountKeys(user: User): Promise<User> {
+  let updated = {...user};
+
+  // Accounts created with RSA identity keys move to X25519
+  if (isLegacyIdentityKey(updated.publicKey)) {
+    updated = await migrateIdentityKey(updated);
+  }
+
+  // Accounts created before ratchet sessions or with P-256 agreement keys,
+  // or logging in on a device without the agreement private key, publish a
+  // fresh X25519 agreement key
+  if (
+    !updated.agreementKey ||
+    isLegacyAgreementKey(updated.agreementKey) ||
+    !(await getAgreementKey(user.id))
+  ) {
+    updated.agreementKey = await publishAgreementKey(user.id);
+  }
+
+  // Same for the signing key, which moves from ECDSA to Ed25519. Contacts
+  // keep the replaced key to verify earlier messages; device keys signed by
+  // it are signed again and prekeys signed by it are replaced
+  const needsSigningKey =
+    !updated.signingKey ||
+    isLegacySigningKey(updated.signingKey) ||
+    !(await getSigningKey(user.id));
+  if (needsSigningKey) {
+    const signingKeyPair = await publishSigningKey(user.id);
+    await resignDeviceKeys(updated, signingKeyPair.privateKey);
+    updated.signingKey = signingKeyPair.publicKey;
+  }
+
+  // Top up prekeys consumed while we were away; P-256 prekeys are replaced
+  await replenishPreKeys(user.id, needsSigningKey);
+
+  return updated;
+}
+
+/**
+ * Replace an RSA identity key with an X25519 one and publish it
+ * The RSA key is kept with the previous keys, so history wrapped for it
+ * still decrypts. A migration interrupted before publishing resumes with
+ * the X25519 key already stored.
+ *
+ * @param user - User whose published identity key is RSA
+ * @returns The user with the new identity key
+ */
+async function migrateIdentityKey(user: User): Promise<User> {
+  let identityKey = await getPrivateKey(user.id);
+  if (!identityKey) {
+    return user;
+  }
+
+  if (isLegacyIdentityKey(identityKey)) {
+    const previousKeys = await getPreviousPrivateKeys(user.id);
+    previousKeys[user.publicKeyId] = identityKey;
+    if (!(await storePreviousPrivateKeys(user.id, previousKeys))) {
+      throw new Error('Failed to store previous keys');
+    }
+
+    identityKey = (await generateUserKeyPair()).privateKey;
+    if (!(await storePrivateKey(user.id, identityKey))) {
+      throw new Error('Failed to store private key');
+    }
+  }
+
+  return publishIdentityKey(user, identityKey);
+}
+
+/**
+ * Replace the identity key with a new X25519 key pair and publish it
+ * Must run on the device that holds the identity key. The old key is kept
+ * with the previous keys, so history wrapped for it still decrypts. A
+ * rotation interrupted before publishing resumes with the new key already
+ * stored.
+ *
+ * @param user - User whose identity key is replaced
+ * @returns The user with the new identity key
+ */
+export async function rotateIdentityKey(user: User): Promise<User> {
+  let identityKey = await getPrivateKey(user.id);
+  if (!identityKey) {
+    throw new Error('Identity key is not on this device');
+  }
+
+  if (isKeyPairMatch(identityKey, user.publicKey)) {
+    const previousKeys = await getPreviousPrivateKeys(user.id);
+    previousKeys[user.publicKeyId] = identityKey;
+    if (!(await storePreviousPrivateKeys(user.id, previousKeys))) {
+      throw new Error('Failed to store previous keys');
+    }
+
+    identityKey = (await generateUserKeyPair()).privateKey;
+    if (!(await storePrivateKey(user.id, identityKey))) {
+      throw new Error('Failed to store private key');
+    }
+  }
+
+  return publishIdentityKey(user, identityKey);
+}
+
+/**
+ * Publish the public half of a new identity key under a new key ID
+ * and register it as this device's key
+ */
+async function publishIdentityKey(
+  user: User,
+  identityKey: JsonWebKey,
+): Promise<User> {
+  const publicKey: JsonWebKey = {
+    kty: identityKey.kty,
+    crv: identityKey.crv,
+    x: identityKey.x,
   };
+  const publicKeyId = generateKeyId();
+
+  await firestore().collection('users').doc(user.id).update({
+    publicKey,
+    publicKeyId,
+  });
+  await replacePrimaryDeviceKey(user.id, {publicKey, keyId: publicKeyId});
+
+  return {...user, publicKey, publicKeyId};
+}
+
+/**
+ * Check whether this device needs its identity key restored from a backup
+ * Devices approved as linked devices use their own key instead
+ *
+ * @param userId - User ID
+ * @returns True if this device cannot decrypt the user's messages
+ */
+export async function needsKeyRestore(userId: string): Promise<boolean> {
+  if (await hasPrivateKey(userId)) {
+    return false;
+  }
+  return !(await isLinkedDevice(userId));
+}
+
+/**
+ * Restore the identity key from an encrypted backup on a new device
+ * The restored key must be the one the user's contacts encrypt for
+ *
+ * @param user - Logged in user
+ * @param backup - Contents of the backup file (JSON key bundle)
+ * @param password - Backup password
+ * @returns The user with its published public keys
+ */
+export async function restoreKeyBackup(
+  user: User,
+  backup: string,
+  password: string,
+): Promise<User> {
+  let bundle: EncryptedKeyBundle;
+  try {
+    bundle = JSON.parse(backup.trim());
+  } catch {
+    throw new Error('Invalid key bundle format');
+  }
+
+  return installRestoredKeys(user, await importPrivateKeys(bundle, password));
+}
+
+/**
+ * Install keys restored from a backup on this device
+ * The identity key must be the one the user's contacts encrypt for; the
+ * signing and agreement keys are kept only if they are still published
+ *
+ * @param user - Logged in user
+ * @param privateKeys - Decrypted backup, keyed by key ID or key name
+ * @returns The user with its published public keys
+ */
+export async function installRestoredKeys(
+  user: User,
+  privateKeys: Record<string, JsonWebKey>,
+): Promise<User> {
+  // Backups made before key IDs were used are keyed by user ID
+  const privateKey = privateKeys[user.publicKeyId] ?? privateKeys[user.id];
+  if (!privateKey || !isKeyPairMatch(privateKey, user.publicKey)) {
+    throw new Error('This backup does not contain your current key');
+  }
+
+  if (!(await storePrivateKey(user.id, privateKey))) {
+    throw new Error('Failed to store private key');
+  }
+  await installPreviousKeys(user.id, privateKeys);
+
+  const signingKey = privateKeys[SIGNING_KEY_NAME];
+  if (signingKey && signingKey.x === user.signingKey?.x) {
+    await storeSigningKey(user.id, signingKey);
+  }
+  const agreementKey = privateKeys[AGREEMENT_KEY_NAME];
+  if (agreementKey && agreementKey.x === user.agreementKey?.x) {
+    await storeAgreementKey(user.id, agreementKey);
+  }
+
+  const restored = await publishAccountKeys(user);
+
+  // This device no longer needs to be linked from another device
+  await promoteCurrentDevice(restored);
+
+  return restored;
+}
+
+/**
+ * Generate a new agreement key pair, store it and publish the public key
+ *
+ * @param userId - User ID
+ * @returns The published agreement public key (JWK)
+ */
+async function publishAgreementKey(userId: string): Promise<JsonWebKey> {
+  const agreementKeyPair = await generateAgreementKeyPair();
+
+  await storeAgreementKey(userId, agreementKeyPair.privateKey);
+  await firestore().collection('users').doc(userId).update({
+    agreementKey: agreementKeyPair.publicKey,
+  });
+
+  return agreementKeyPair.publicKey;
+}
+
+/**
+ * Generate a new signing key pair, store it and publish the public key
+ *
+ * @param userId - User ID
+ * @returns The published signing key pair
+ */
+async function publishSigningKey(userId: string): Promise<KeyPair> {
+  const signingKeyPair = await generateSigningKeyPair();
+
+  await storeSigningKey(userId, signingKeyPair.privateKey);
+  await firestore().collection('users').doc(userId).update({
+    signingKey: signingKeyPair.publicKey,
+  });
+
+  return signingKeyPair;
 }
 
 /**
@@ -0,0 +1,863 @@
+/**
+ * TibbyTalk - Device Service
+ * Registers devices and links new devices to an account
+ *
+ * Each user has a devices subcollection. The device that created the
+ * account uses the identity key as its device key. Other devices generate
+ * their own X25519 key pair and stay pending until an active device signs
+ * their key with the account's signing key. Senders only encrypt for
+ * device keys carrying a valid signature.
+ *
+ * A device can also be linked with a link code: the existing device
+ * approves it and sends the identity and signing keys through a
+ * provisioning document, encrypted to the code's ephemeral key. When the
+ * identity key is replaced later, the new key reaches those devices as a
+ * signed key update on their device entry, wrapped for their device key.
+ */
+
+import {Platform} from 'react-native';
+import firestore, {
+  FirebaseFirestoreTypes,
+} from '@react-native-firebase/firestore';
+import {COLLECTIONS, FIELDS} from '../../config/firebase';
+import {
+  generateUserKeyPair,
+  generateUUID,
+  signDeviceKey,
+  verifyDeviceKey,
+  signPayload,
+  verifyPayloadSignature,
+  createProvisioningSession,
+  parseLinkCode,
+  sealProvisioningBundle,
+  openProvisioningBundle,
+  isKeyPairMatch,
+  wrapKeyForRecipient,
+  unwrapKeyForRecipient,
+} from '../crypto';
+import type {ProvisioningSession, SealedProvisioningBundle} from '../crypto';
+import {
+  storePrivateKey,
+  getPrivateKey,
+  storePreviousPrivateKeys,
+  getPreviousPrivateKeys,
+  storeSigningKey,
+  getSigningKey,
+  storeLocalDevice,
+  getLocalDevice,
+  deleteLocalDevice,
+} from '../storage';
+import type {Device, DeviceKey, LocalDevice, User} from '../../types';
+
+// Link codes expire after ten minutes
+const PROVISIONING_TTL = 10 * 60 * 1000;
+
+// Names of the account keys in provisioning and backup bundles, besides
+// the identity key
+export const SIGNING_KEY_NAME = 'signing';
+export const AGREEMENT_KEY_NAME = 'agreement';
+// Replaced identity keys are stored under this prefix plus their key ID
+export const PREVIOUS_KEY_PREFIX = 'previous:';
+
+interface ProvisioningMessage extends SealedProvisioningBundle {
+  requestId: string;
+  signature?: string; // Base64 signature by the account's signing key
+}
+
+// Replaced identity key sent to a linked device, see shareIdentityKeyUpdate
+interface IdentityKeyUpdate {
+  keyId: string; // Key ID of the new identity key
+  keys: string; // Base64 bundle of private keys wrapped for the device key
+  signature?: string; // Base64 signature by the account's signing key
+}
+
+export interface DeviceDecryptionKey {
+  deviceId?: string; // Set on linked devices, which have their own key
+  keyId?: string; // Unknown for identity keys created before device registration
+  privateKey: JsonWebKey;
+  previousKeys?: Record<string, JsonWebKey>; // keyId -> replaced identity key
+}
+
+function devicesCollection(userId: string) {
+  return firestore()
+    .collection(COLLECTIONS.USERS)
+    .doc(userId)
+    .collection(COLLECTIONS.DEVICES);
+}
+
+function defaultDeviceName(): string {
+  switch (Platform.OS) {
+    case 'ios':
+      return 'iPhone';
+    case 'android':
+      return 'Android';
+    default:
+      return Platform.OS;
+  }
+}
+
+/**
+ * Get this device's registration for a user
+ *
+ * @param userId - User ID
+ * @returns Local device, or null if this device is not registered
+ */
+export async function getCurrentDevice(
+  userId: string,
+): Promise<LocalDevice | null> {
+  const stored = await getLocalDevice(userId);
+  return stored ? JSON.parse(stored) : null;
+}
+
+async function saveCurrentDevice(
+  userId: string,
+  device: LocalDevice,
+): Promise<void> {
+  const stored = await storeLocalDevice(userId, JSON.stringify(device));
+  if (!stored) {
+    throw new Error('Failed to save device');
+  }
+}
+
+/**
+ * Register the device holding the identity key
+ * Its device key is the identity key, signed straight away
+ *
+ * @param userId - User ID
+ * @param identityKey - User's identity public key and key ID
+ * @returns The registered device
+ */
+export async function registerPrimaryDevice(
+  userId: string,
+  identityKey: DeviceKey,
+): Promise<Device> {
+  const signingKey = await getSigningKey(userId);
+  if (!signingKey) {
+    throw new Error('Signing key not found');
+  }
+
+  const deviceId = generateUUID();
+  const device: Device = {
+    id: deviceId,
+    name: defaultDeviceName(),
+    platform: Platform.OS,
+    publicKey: identityKey.publicKey,
+    keyId: identityKey.keyId,
+    status: 'active',
+    signature: await signDeviceKey(userId, deviceId, identityKey, signingKey),
+    createdAt: Date.now(),
+    lastSeen: Date.now(),
+  };
+
+  await saveCurrentDevice(userId, {deviceId, keyId: identityKey.keyId});
+  await devicesCollection(userId).doc(deviceId).set(deviceToDocument(device));
+
+  return device;
+}
+
+/**
+ * Register the device holding the identity key again after the identity
+ * key was replaced, so its device entry carries the new key
+ *
+ * @param userId - User ID
+ * @param identityKey - User's new identity public key and key ID
+ * @returns The registered device
+ */
+export async function replacePrimaryDeviceKey(
+  userId: string,
+  identityKey: DeviceKey,
+): Promise<Device> {
+  const current = await getCurrentDevice(userId);
+  if (current && !current.privateKey) {
+    await devicesCollection(userId).doc(current.deviceId).delete();
+    await deleteLocalDevice(userId);
+  }
+
+  return registerPrimaryDevice(userId, identityKey);
+}
+
+/**
+ * Register this device as pending, to be approved from an active device
+ * The device key pair is generated here and its private key never
+ * leaves this device
+ *
+ * @param userId - User ID
+ * @returns The pending device
+ */
+export async function requestDeviceLink(userId: string): Promise<Device> {
+  const keyPair = await generateUserKeyPair();
+  const deviceId = generateUUID();
+
+  const device: Device = {
+    id: deviceId,
+    name: defaultDeviceName(),
+    platform: Platform.OS,
+    publicKey: keyPair.publicKey,
+    keyId: keyPair.keyId,
+    status: 'pending',
+    createdAt: Date.now(),
+    lastSeen: Date.now(),
+  };
+
+  await saveCurrentDevice(userId, {
+    deviceId,
+    keyId: keyPair.keyId,
+    privateKey: keyPair.privateKey,
+  });
+  await devicesCollection(userId).doc(deviceId).set(deviceToDocument(device));
+
+  return device;
+}
+
+/**
+ * Make sure this device is registered after login
+ * Devices holding the identity key register as active; others request a
+ * link. A device removed from another device registers again.
+ *
+ * @param user - Logged in user
+ * @returns This device's registration
+ */
+export async function registerCurrentDevice(user: User): Promise<LocalDevice> {
+  const current = await getCurrentDevice(user.id);
+
+  if (current) {
+    const deviceRef = devicesCollection(user.id).doc(current.deviceId);
+    const doc = await deviceRef.get();
+    if (!doc.exists) {
+      await deleteLocalDevice(user.id);
+    } else {
+      await deviceRef.update({[FIELDS.LAST_SEEN]: Date.now()});
+      return current;
+    }
+  }
+
+  if (await getPrivateKey(user.id)) {
+    await registerPrimaryDevice(user.id, {
+      publicKey: user.publicKey,
+      keyId: user.publicKeyId,
+    });
+  } else {
+    await requestDeviceLink(user.id);
+  }
+
+  return (await getCurrentDevice(user.id))!;
+}
+
+/**
+ * Check whether this device was approved as one of the user's linked devices
+ *
+ * @param userId - User ID
+ * @returns True if this device has its own active device key
+ */
+export async function isLinkedDevice(userId: string): Promise<boolean> {
+  const current = await getCurrentDevice(userId);
+  if (!current?.privateKey) {
+    return false;
+  }
+
+  const doc = await devicesCollection(userId).doc(current.deviceId).get();
+  return doc.data()?.[FIELDS.STATUS] === 'active';
+}
+
+/**
+ * Register this device with the identity key once it has been restored
+ * A pending link request is withdrawn; linked devices keep their own key
+ *
+ * @param user - User whose identity key is now on this device
+ * @returns This device's registration
+ */
+export async function promoteCurrentDevice(user: User): Promise<LocalDevice> {
+  const current = await getCurrentDevice(user.id);
+
+  if (current?.privateKey && !(await isLinkedDevice(user.id))) {
+    await devicesCollection(user.id).doc(current.deviceId).delete();
+    await deleteLocalDevice(user.id);
+  }
+
+  return registerCurrentDevice(user);
+}
+
+/**
+ * Get all of a user's devices, oldest first
+ *
+ * @param userId - User ID
+ * @returns Active and pending devices
+ */
+export async function getUserDevices(userId: string): Promise<Device[]> {
+  const snapshot = await devicesCollection(userId)
+    .orderBy(FIELDS.CREATED_AT, 'asc')
+    .get();
+
+  return snapshot.docs.map(documentToDevice);
+}
+
+/**
+ * Get the keys of a user's linked devices that messages should be
+ * encrypted for
+ * The identity key is addressed separately, and devices whose key is not
+ * signed by the user's current signing key are skipped
+ *
+ * @param user - Device owner
+ * @returns Map of deviceId -> device key
+ */
+export async function getLinkedDeviceKeys(
+  user: User,
+): Promise<Record<string, DeviceKey>> {
+  const linked: Record<string, DeviceKey> = {};
+  if (!user.signingKey) {
+    return linked;
+  }
+
+  for (const device of await getUserDevices(user.id)) {
+    if (
+      device.status !== 'active' ||
+      !device.signature ||
+      device.keyId === user.publicKeyId
+    ) {
+      continue;
+    }
+
+    const deviceKey: DeviceKey = {
+      publicKey: device.publicKey,
+      keyId: device.keyId,
+    };
+    const valid = await verifyDeviceKey(
+      user.id,
+      device.id,
+      deviceKey,
+      device.signature,
+      user.signingKey,
+    );
+    if (valid) {
+      linked[device.id] = deviceKey;
+    }
+  }
+
+  return linked;
+}
+
+/**
+ * Approve a pending device from this device
+ * Signs the new device's key with the account's signing key
+ *
+ * @param userId - User ID
+ * @param deviceId - Pending device to approve
+ * @returns The approved device
+ */
+export async function approveDevice(
+  userId: string,
+  deviceId: string,
+): Promise<Device> {
+  const current = await getCurrentDevice(userId);
+  const signingKey = await getSigningKey(userId);
+  if (!current || !signingKey) {
+    throw new Error('This device cannot approve other devices');
+  }
+
+  const deviceRef = devicesCollection(userId).doc(deviceId);
+  const doc = await deviceRef.get();
+  if (!doc.exists) {
+    throw new Error('Device not found');
+  }
+
+  const device = documentToDevice(doc);
+  if (device.status !== 'pending') {
+    throw new Error('Device is already approved');
+  }
+
+  const signature = await signDeviceKey(
+    userId,
+    deviceId,
+    {publicKey: device.publicKey, keyId: device.keyId},
+    signingKey,
+  );
+
+  await deviceRef.update({
+    [FIELDS.STATUS]: 'active',
+    [FIELDS.SIGNATURE]: signature,
+    [FIELDS.APPROVED_BY]: current.deviceId,
+  });
+
+  return {
+    ...device,
+    status: 'active',
+    signature,
+    approvedBy: current.deviceId,
+  };
+}
+
+/**
+ * Sign the user's active device keys again with a new signing key
+ * Only devices whose signature checks out against the replaced signing key
+ * are signed again, so a device that was never approved stays unapproved
+ *
+ * @param user - User with the replaced signing public key still set
+ * @param signingKey - New signing private key (JWK)
+ */
+export async function resignDeviceKeys(
+  user: User,
+  signingKey: JsonWebKey,
+): Promise<void> {
+  if (!user.signingKey) {
+    return;
+  }
+
+  for (const device of await getUserDevices(user.id)) {
+    if (device.status !== 'active' || !device.signature) {
+      continue;
+    }
+
+    const deviceKey: DeviceKey = {
+      publicKey: device.publicKey,
+      keyId: device.keyId,
+    };
+    const valid = await verifyDeviceKey(
+      user.id,
+      device.id,
+      deviceKey,
+      device.signature,
+      user.signingKey,
+    );
+    if (valid) {
+      await devicesCollection(user.id)
+        .doc(device.id)
+        .update({
+          [FIELDS.SIGNATURE]: await signDeviceKey(
+            user.id,
+            device.id,
+            deviceKey,
+            signingKey,
+          ),
+        });
+    }
+  }
+}
+
+/**
+ * Remove one of the user's other devices
+ * Messages sent afterwards are no longer encrypted for it
+ *
+ * @param userId - User ID
+ * @param deviceId - Device to remove
+ */
+export async function removeDevice(
+  userId: string,
+  deviceId: string,
+): Promise<void> {
+  const current = await getCurrentDevice(userId);
+  if (current?.deviceId === deviceId) {
+    throw new Error('Log out to remove this device');
+  }
+
+  await devicesCollection(userId).doc(deviceId).delete();
+}
+
+/**
+ * Get the private key this device decrypts with
+ * Linked devices use their own device key; the primary device uses the
+ * identity key
+ *
+ * @param userId - User ID
+ * @returns Decryption key, or null if this device has none
+ */
+export async function getDeviceDecryptionKey(
+  userId: string,
+): Promise<DeviceDecryptionKey | null> {
+  const current = await getCurrentDevice(userId);
+  if (current?.privateKey) {
+    return {
+      deviceId: current.deviceId,
+      keyId: current.keyId,
+      privateKey: current.privateKey,
+    };
+  }
+
+  const privateKey = await getPrivateKey(userId);
+  if (!privateKey) {
+    return null;
+  }
+
+  return {
+    keyId: current?.keyId,
+    privateKey,
+    previousKeys: await getPreviousPrivateKeys(userId),
+  };
+}
+
+/**
+ * Get the replaced identity keys, named for a provisioning or backup bundle
+ *
+ * @param userId - User ID
+ * @returns Object mapping bundle name -> private key (JWK)
+ */
+export async function getPreviousKeyEntries(
+  userId: string,
+): Promise<Record<string, JsonWebKey>> {
+  const entries: Record<string, JsonWebKey> = {};
+  for (const [keyId, privateKey] of Object.entries(
+    await getPreviousPrivateKeys(userId),
+  )) {
+    entries[`${PREVIOUS_KEY_PREFIX}${keyId}`] = privateKey;
+  }
+  return entries;
+}
+
+/**
+ * Store the replaced identity keys found in a provisioning or backup bundle
+ * Keys already on this device are kept
+ *
+ * @param userId - User ID
+ * @param bundleKeys - Decrypted bundle, keyed by bundle name
+ */
+export async function installPreviousKeys(
+  userId: string,
+  bundleKeys: Record<string, JsonWebKey>,
+): Promise<void> {
+  const previousKeys = await getPreviousPrivateKeys(userId);
+  let changed = false;
+  for (const [name, privateKey] of Object.entries(bundleKeys)) {
+    if (name.startsWith(PREVIOUS_KEY_PREFIX)) {
+      previousKeys[name.slice(PREVIOUS_KEY_PREFIX.length)] = privateKey;
+      changed = true;
+    }
+  }
+
+  if (changed && !(await storePreviousPrivateKeys(userId, previousKeys))) {
+    throw new Error('Failed to store previous keys');
+  }
+}
+
+/**
+ * Check whether this device holds the signing key needed to approve and
+ * provision other devices
+ *
+ * @param userId - User ID
+ * @returns True if this device can approve devices
+ */
+export async function canApproveDevices(userId: string): Promise<boolean> {
+  return (await getSigningKey(userId)) !== null;
+}
+
+/**
+ * Start linking this device with a link code
+ * The code is shown as a QR code for an existing device to scan
+ *
+ * @param userId - User ID
+ * @returns Provisioning session holding the request and ephemeral key
+ */
+export async function startDeviceProvisioning(
+  userId: string,
+): Promise<ProvisioningSession> {
+  const current = await getCurrentDevice(userId);
+  const session = await createProvisioningSession(
+    userId,
+    generateUUID(),
+    current ? {deviceId: current.deviceId, keyId: current.keyId} : undefined,
+  );
+
+  await firestore()
+    .collection(COLLECTIONS.PROVISIONING)
+    .doc(session.request.requestId)
+    .set({
+      [FIELDS.USER_ID]: userId,
+      [FIELDS.CREATED_AT]: Date.now(),
+      [FIELDS.EXPIRES_AT]: Date.now() + PROVISIONING_TTL,
+    });
+
+  return session;
+}
+
+/**
+ * Wait for an existing device to answer a link code, then install the keys
+ *
+ * @param user - User being linked
+ * @param session - Session returned by startDeviceProvisioning
+ * @param onProvisioned - Called once the keys are installed
+ * @param onError - Called if the keys cannot be installed
+ * @returns Unsubscribe function
+ */
+export function subscribeToProvisioning(
+  user: User,
+  session: ProvisioningSession,
+  onProvisioned: () => void,
+  onError: (error: Error) => void,
+): () => void {
+  const requestRef = firestore()
+    .collection(COLLECTIONS.PROVISIONING)
+    .doc(session.request.requestId);
+
+  let handled = false;
+  const unsubscribe = requestRef.onSnapshot(snapshot => {
+    const data = snapshot.data();
+    if (handled || !data?.[FIELDS.BUNDLE]) {
+      return;
+    }
+    handled = true;
+    unsubscribe();
+
+    const message: ProvisioningMessage = {
+      requestId: session.request.requestId,
+      bundle: data[FIELDS.BUNDLE],
+      senderKey: data[FIELDS.SENDER_KEY],
+      signature: data[FIELDS.SIGNATURE],
+    };
+
+    installProvisionedKeys(user, session, message)
+      .then(() => requestRef.delete())
+      .then(onProvisioned, onError);
+  });
+
+  return unsubscribe;
+}
+
+/**
+ * Check and store the keys sent by an existing device
+ */
+async function installProvisionedKeys(
+  user: User,
+  session: ProvisioningSession,
+  message: ProvisioningMessage,
+): Promise<void> {
+  if (!user.signingKey) {
+    throw new Error('Account has no signing key');
+  }
+
+  // Only a device holding the account's signing key can answer
+  const valid = await verifyPayloadSignature(
+    message,
+    user.id,
+    user.signingKey,
+  );
+  if (!valid) {
+    throw new Error('Invalid provisioning signature');
+  }
+
+  const keys = await openProvisioningBundle(
+    message,
+    session.ephemeralPrivateKey,
+  );
+  const identityKey = keys[user.id];
+  const signingKey = keys[SIGNING_KEY_NAME];
+  if (!identityKey || !signingKey) {
+    throw new Error('Provisioning bundle is incomplete');
+  }
+  if (!isKeyPairMatch(identityKey, user.publicKey)) {
+    throw new Error('Provisioned key does not match your account');
+  }
+
+  if (
+    !(await storePrivateKey(user.id, identityKey)) ||
+    !(await storeSigningKey(user.id, signingKey))
+  ) {
+    throw new Error('Failed to store provisioned keys');
+  }
+  await installPreviousKeys(user.id, keys);
+}
+
+/**
+ * Answer a link code scanned from a new device
+ * Approves the new device's registration and sends it the identity and
+ * signing keys, and any replaced identity keys for older history
+ *
+ * @param userId - User ID
+ * @param linkCode - Link code shown by the new device
+ * @returns The approved device, or null if the code names no device
+ */
+export async function provisionDevice(
+  userId: string,
+  linkCode: string,
+): Promise<Device | null> {
+  const request = parseLinkCode(linkCode);
+  if (request.userId !== userId) {
+    throw new Error('This link code is for another account');
+  }
+
+  const identityKey = await getPrivateKey(userId);
+  const signingKey = await getSigningKey(userId);
+  if (!identityKey || !signingKey) {
+    throw new Error('This device has no keys to share');
+  }
+
+  const requestRef = firestore()
+    .collection(COLLECTIONS.PROVISIONING)
+    .doc(request.requestId);
+  const requestDoc = await requestRef.get();
+  const requestData = requestDoc.data();
+  if (
+    !requestData ||
+    requestData[FIELDS.USER_ID] !== userId ||
+    requestData[FIELDS.EXPIRES_AT] < Date.now()
+  ) {
+    throw new Error('Link code has expired');
+  }
+
+  // The code carries the new device's key ID, so scanning it replaces the
+  // manual key ID comparison
+  let approved: Device | null = null;
+  if (request.deviceId) {
+    const deviceDoc = await devicesCollection(userId)
+      .doc(request.deviceId)
+      .get();
+    if (!deviceDoc.exists) {
+      throw new Error('Device not found');
+    }
+
+    const device = documentToDevice(deviceDoc);
+    if (device.keyId !== request.deviceKeyId) {
+      throw new Error('Link code does not match the device');
+    }
+    approved =
+      device.status === 'pending'
+        ? await approveDevice(userId, device.id)
+        : device;
+  }
+
+  const sealed = await sealProvisioningBundle(
+    {
+      [userId]: identityKey,
+      [SIGNING_KEY_NAME]: signingKey,
+      ...(await getPreviousKeyEntries(userId)),
+    },
+    request,
+  );
+  const message = await signPayload<ProvisioningMessage>(
+    {requestId: request.requestId, ...sealed},
+    {senderId: userId, signingKey},
+  );
+
+  await requestRef.update({
+    [FIELDS.BUNDLE]: message.bundle,
+    [FIELDS.SENDER_KEY]: message.senderKey,
+    [FIELDS.SIGNATURE]: message.signature,
+  });
+
+  return approved;
+}
+
+/**
+ * Send a replaced identity key to the user's linked devices
+ * Devices that were provisioned with the identity key install it on their
+ * next start; other linked devices discard the update
+ *
+ * @param user - User with the new identity key
+ */
+export async function shareIdentityKeyUpdate(user: User): Promise<void> {
+  const identityKey = await getPrivateKey(user.id);
+  const signingKey = await getSigningKey(user.id);
+  if (!identityKey || !signingKey) {
+    throw new Error('This device has no keys to share');
+  }
+
+  const keys = new TextEncoder().encode(
+    JSON.stringify({
+      [user.id]: identityKey,
+      ...(await getPreviousKeyEntries(user.id)),
+    }),
+  );
+
+  for (const [deviceId, deviceKey] of Object.entries(
+    await getLinkedDeviceKeys(user),
+  )) {
+    const update = await signPayload<IdentityKeyUpdate>(
+      {
+        keyId: user.publicKeyId,
+        keys: await wrapKeyForRecipient(keys.buffer, deviceKey.publicKey),
+      },
+      {senderId: user.id, signingKey},
+    );
+    await devicesCollection(user.id)
+      .doc(deviceId)
+      .update({[FIELDS.KEY_UPDATE]: update});
+  }
+}
+
+/**
+ * Install an identity key update left for this device, if there is one
+ * Only devices already holding the identity key take the new one
+ *
+ * @param user - Logged in user, with the current identity key
+ */
+export async function installIdentityKeyUpdate(user: User): Promise<void> {
+  const current = await getCurrentDevice(user.id);
+  if (!current?.privateKey) {
+    return;
+  }
+
+  const deviceRef = devicesCollection(user.id).doc(current.deviceId);
+  const doc = await deviceRef.get();
+  const update: IdentityKeyUpdate | undefined = doc.data()?.[FIELDS.KEY_UPDATE];
+  if (!update) {
+    return;
+  }
+
+  const valid =
+    !!user.signingKey &&
+    (await verifyPayloadSignature(update, user.id, user.signingKey));
+  if (!valid) {
+    throw new Error('Invalid identity key update signature');
+  }
+
+  // A stale update names a key that was replaced again since
+  if (update.keyId === user.publicKeyId && (await getPrivateKey(user.id))) {
+    const keys: Record<string, JsonWebKey> = JSON.parse(
+      new TextDecoder().decode(
+        await unwrapKeyForRecipient(update.keys, current.privateKey),
+      ),
+    );
+    const identityKey = keys[user.id];
+    if (!identityKey || !isKeyPairMatch(identityKey, user.publicKey)) {
+      throw new Error('Identity key update does not match your account');
+    }
+
+    // The replaced key goes to the previous keys before it is overwritten
+    await installPreviousKeys(user.id, keys);
+    if (!(await storePrivateKey(user.id, identityKey))) {
+      throw new Error('Failed to store private key');
+    }
+  }
+
+  await deviceRef.update({[FIELDS.KEY_UPDATE]: firestore.FieldValue.delete()});
+}
+
+/**
+ * Firestore rejects undefined, so optional fields are only set when present
+ */
+function deviceToDocument(device: Device): Record<string, unknown> {
+  const data: Record<string, unknown> = {
+    [FIELDS.DEVICE_NAME]: device.name,
+    [FIELDS.PLATFORM]: device.platform,
+    [FIELDS.PUBLIC_KEY]: device.publicKey,
+    [FIELDS.KEY_ID]: device.keyId,
+    [FIELDS.STATUS]: device.status,
+    [FIELDS.CREATED_AT]: device.createdAt,
+    [FIELDS.LAST_SEEN]: device.lastSeen,
+  };
+  if (device.signature) {
+    data[FIELDS.SIGNATURE] = device.signature;
+  }
+  if (device.approvedBy) {
+    data[FIELDS.APPROVED_BY] = device.approvedBy;
+  }
+  return data;
+}
+
+function documentToDevice(
+  doc:
+    | FirebaseFirestoreTypes.QueryDocumentSnapshot
+    | FirebaseFirestoreTypes.DocumentSnapshot,
+): Device {
+  const data = doc.data()!;
+
+  return {
+    id: doc.id,
+    name: data[FIELDS.DEVICE_NAME],
+    platform: data[FIELDS.PLATFORM],
+    publicKey: data[FIELDS.PUBLIC_KEY],
+    keyId: data[FIELDS.KEY_ID],
+    status: data[FIELDS.STATUS],
+    signature: data[FIELDS.SIGNATURE],
+    approvedBy: data[FIELDS.APPROVED_BY],
+    createdAt: data[FIELDS.CREATED_AT],
+    lastSeen: data[FIELDS.LAST_SEEN],
+  };
+}
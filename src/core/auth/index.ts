@@ -12,8 +12,47 @@ export {
   getUserById,
   updateFcmToken,
   searchUsersByEmail,
+  needsKeyRestore,
+  restoreKeyBackup,
+  installRestoredKeys,
+  rotateIdentityKey,
 } from './authService';
 
+export {
+  replenishPreKeys,
+  claimPreKeyBundle,
+  getPreKeyPrivateKeys,
+  consumeOneTimePreKey,
+} from './preKeyService';
+
+export {
+  getCurrentDevice,
+  registerPrimaryDevice,
+  requestDeviceLink,
+  registerCurrentDevice,
+  isLinkedDevice,
+  promoteCurrentDevice,
+  getUserDevices,
+  getLinkedDeviceKeys,
+  shareIdentityKeyUpdate,
+  installIdentityKeyUpdate,
+  approveDevice,
+  resignDeviceKeys,
+  removeDevice,
+  getDeviceDecryptionKey,
+  canApproveDevices,
+  startDeviceProvisioning,
+  subscribeToProvisioning,
+  provisionDevice,
+  replacePrimaryDeviceKey,
+  getPreviousKeyEntries,
+  installPreviousKeys,
+  SIGNING_KEY_NAME,
+  AGREEMENT_KEY_NAME,
+  PREVIOUS_KEY_PREFIX,
+} from './deviceService';
+export type {DeviceDecryptionKey} from './deviceService';
+
 export {
   validatePassword,
   getPasswordRequirementsText,
@@ -0,0 +1,290 @@
+/**
+ * TibbyTalk - Prekey Service
+ * Publishes, claims and replenishes prekey bundles in Firestore
+ *
+ * Each user has one document in the prekeys collection holding their
+ * current signed prekey and a pool of one-time prekeys. Private keys
+ * never leave the device; they are kept in secure storage by keyId.
+ */
+
+import firestore from '@react-native-firebase/firestore';
+import {COLLECTIONS, FIELDS} from '../../config/firebase';
+import {
+  generateSignedPreKey,
+  generateOneTimePreKeys,
+  getRawPublicKeyCurve,
+  verifySignedPreKey,
+} from '../crypto';
+import type {SignedPreKeyPair, RatchetKeyPair} from '../crypto';
+import {getSigningKey, getPreKeys, storePreKeys} from '../storage';
+import type {PreKeyBundle, PreKeyHeader, SignedPreKey} from '../../types';
+
+// One-time prekeys published per batch
+const ONE_TIME_PRE_KEY_BATCH = 50;
+
+// Replenish once fewer one-time prekeys than this remain published
+const MIN_ONE_TIME_PRE_KEYS = 10;
+
+// Signed prekeys are rotated after a week
+const SIGNED_PRE_KEY_MAX_AGE = 7 * 24 * 60 * 60 * 1000;
+
+// Previous signed prekeys kept so in-flight sessions can still be accepted
+const MAX_SIGNED_PRE_KEYS = 3;
+
+// One-time prekey private keys kept (claimed keys may never be used)
+const MAX_STORED_ONE_TIME_PRE_KEYS = 200;
+
+interface StoredPreKeys {
+  currentSignedPreKeyId: string;
+  signedPreKeys: Record<string, SignedPreKeyPair>;
+  oneTimePreKeys: Record<string, JsonWebKey>; // keyId -> private key
+}
+
+// Serializes updates to the stored prekeys
+let preKeyTask: Promise<unknown> = Promise.resolve();
+
+function runExclusive<T>(task: () => Promise<T>): Promise<T> {
+  const result = preKeyTask.catch(() => undefined).then(task);
+  preKeyTask = result;
+  return result;
+}
+
+async function loadPreKeys(userId: string): Promise<StoredPreKeys | null> {
+  const stored = await getPreKeys(userId);
+  return stored ? JSON.parse(stored) : null;
+}
+
+async function savePreKeys(
+  userId: string,
+  preKeys: StoredPreKeys,
+): Promise<void> {
+  const signedIds = Object.values(preKeys.signedPreKeys)
+    .sort((a, b) => b.createdAt - a.createdAt)
+    .map(signedPreKey => signedPreKey.keyId);
+  for (const keyId of signedIds.slice(MAX_SIGNED_PRE_KEYS)) {
+    delete preKeys.signedPreKeys[keyId];
+  }
+
+  const oneTimeIds = Object.keys(preKeys.oneTimePreKeys);
+  for (const keyId of oneTimeIds.slice(
+    0,
+    oneTimeIds.length - MAX_STORED_ONE_TIME_PRE_KEYS,
+  )) {
+    delete preKeys.oneTimePreKeys[keyId];
+  }
+
+  const stored = await storePreKeys(userId, JSON.stringify(preKeys));
+  if (!stored) {
+    throw new Error('Failed to save prekeys');
+  }
+}
+
+/**
+ * Strip the private key from a signed prekey before publishing it
+ */
+function toPublishedSignedPreKey(signedPreKey: SignedPreKeyPair): SignedPreKey {
+  return {
+    keyId: signedPreKey.keyId,
+    publicKey: signedPreKey.publicKey,
+    signature: signedPreKey.signature,
+    createdAt: signedPreKey.createdAt,
+  };
+}
+
+/**
+ * Publish prekeys for a user, topping up the one-time prekey pool and
+ * rotating the signed prekey when it is old
+ * If this device holds no prekeys, the published bundle is replaced.
+ * Prekeys created before the X25519 migration are P-256: the signed prekey
+ * is rotated and published one-time prekeys are withdrawn.
+ *
+ * @param userId - User ID
+ * @param rotateSignedPreKey - Force a new signed prekey (e.g. new signing key)
+ */
+export async function replenishPreKeys(
+  userId: string,
+  rotateSignedPreKey = false,
+): Promise<void> {
+  return runExclusive(async () => {
+    const signingKey = await getSigningKey(userId);
+    if (!signingKey) {
+      throw new Error('Signing key not found');
+    }
+
+    const preKeysRef = firestore()
+      .collection(COLLECTIONS.PRE_KEYS)
+      .doc(userId);
+    const stored = await loadPreKeys(userId);
+    const doc = await preKeysRef.get();
+
+    // Published prekeys are useless without their private keys: start over
+    if (!stored || !doc.exists) {
+      const signedPreKey = await generateSignedPreKey(signingKey);
+      const oneTimePreKeys = await generateOneTimePreKeys(
+        ONE_TIME_PRE_KEY_BATCH,
+      );
+
+      await savePreKeys(userId, {
+        currentSignedPreKeyId: signedPreKey.keyId,
+        signedPreKeys: {[signedPreKey.keyId]: signedPreKey},
+        oneTimePreKeys: Object.fromEntries(
+          oneTimePreKeys.map(preKey => [preKey.keyId, preKey.privateKey]),
+        ),
+      });
+      await preKeysRef.set({
+        [FIELDS.SIGNED_PRE_KEY]: toPublishedSignedPreKey(signedPreKey),
+        [FIELDS.ONE_TIME_PRE_KEYS]: Object.fromEntries(
+          oneTimePreKeys.map(preKey => [preKey.keyId, preKey.publicKey]),
+        ),
+        [FIELDS.UPDATED_AT]: Date.now(),
+      });
+      return;
+    }
+
+    const data = doc.data()!;
+    const updates: Record<string, unknown> = {};
+
+    const current = stored.signedPreKeys[stored.currentSignedPreKeyId];
+    if (
+      rotateSignedPreKey ||
+      !current ||
+      data[FIELDS.SIGNED_PRE_KEY]?.keyId !== current.keyId ||
+      Date.now() - current.createdAt > SIGNED_PRE_KEY_MAX_AGE ||
+      getRawPublicKeyCurve(current.publicKey) !== 'X25519'
+    ) {
+      const signedPreKey = await generateSignedPreKey(signingKey);
+      stored.signedPreKeys[signedPreKey.keyId] = signedPreKey;
+      stored.currentSignedPreKeyId = signedPreKey.keyId;
+      updates[FIELDS.SIGNED_PRE_KEY] = toPublishedSignedPreKey(signedPreKey);
+    }
+
+    const published: Record<string, string> =
+      data[FIELDS.ONE_TIME_PRE_KEYS] ?? {};
+    let available = 0;
+    for (const [keyId, publicKey] of Object.entries(published)) {
+      if (getRawPublicKeyCurve(publicKey) === 'X25519') {
+        available += 1;
+      } else {
+        updates[`${FIELDS.ONE_TIME_PRE_KEYS}.${keyId}`] =
+          firestore.FieldValue.delete();
+      }
+    }
+    if (available < MIN_ONE_TIME_PRE_KEYS) {
+      const oneTimePreKeys = await generateOneTimePreKeys(
+        ONE_TIME_PRE_KEY_BATCH - available,
+      );
+      for (const preKey of oneTimePreKeys) {
+        stored.oneTimePreKeys[preKey.keyId] = preKey.privateKey;
+        updates[`${FIELDS.ONE_TIME_PRE_KEYS}.${preKey.keyId}`] =
+          preKey.publicKey;
+      }
+    }
+
+    if (Object.keys(updates).length === 0) {
+      return;
+    }
+
+    // Save private keys first so every published prekey can be used
+    await savePreKeys(userId, stored);
+    await preKeysRef.update({...updates, [FIELDS.UPDATED_AT]: Date.now()});
+  });
+}
+
+/**
+ * Claim a user's prekey bundle to start a session with them
+ * One one-time prekey is removed from the pool in the same transaction,
+ * so it is never handed to two initiators
+ *
+ * @param userId - User to start a session with
+ * @param signingKey - User's identity signing public key (JWK)
+ * @returns Verified prekey bundle
+ */
+export async function claimPreKeyBundle(
+  userId: string,
+  signingKey: JsonWebKey,
+): Promise<PreKeyBundle> {
+  const preKeysRef = firestore().collection(COLLECTIONS.PRE_KEYS).doc(userId);
+
+  const bundle = await firestore().runTransaction(async transaction => {
+    const doc = await transaction.get(preKeysRef);
+    if (!doc.exists) {
+      throw new Error('Prekey bundle not found');
+    }
+
+    const data = doc.data()!;
+    const oneTimePreKeys: Record<string, string> =
+      data[FIELDS.ONE_TIME_PRE_KEYS] ?? {};
+    const claimed: PreKeyBundle = {
+      userId,
+      signedPreKey: data[FIELDS.SIGNED_PRE_KEY],
+    };
+
+    const [keyId] = Object.keys(oneTimePreKeys);
+    if (keyId) {
+      claimed.oneTimePreKey = {keyId, publicKey: oneTimePreKeys[keyId]};
+      transaction.update(preKeysRef, {
+        [`${FIELDS.ONE_TIME_PRE_KEYS}.${keyId}`]:
+          firestore.FieldValue.delete(),
+      });
+    }
+
+    return claimed;
+  });
+
+  if (!(await verifySignedPreKey(bundle.signedPreKey, signingKey))) {
+    throw new Error('Invalid signed prekey signature');
+  }
+
+  return bundle;
+}
+
+/**
+ * Look up the private keys for the prekeys named in a session's first message
+ *
+ * @param userId - Our user ID
+ * @param preKey - Prekey header from the initiator's message
+ * @returns Signed prekey pair and one-time prekey private key, if used
+ */
+export async function getPreKeyPrivateKeys(
+  userId: string,
+  preKey: PreKeyHeader,
+): Promise<{signedPreKey: RatchetKeyPair; oneTimePreKey?: JsonWebKey}> {
+  const stored = await loadPreKeys(userId);
+  const signedPreKey = stored?.signedPreKeys[preKey.signedPreKeyId];
+  if (!stored || !signedPreKey) {
+    throw new Error('Signed prekey not found');
+  }
+
+  if (!preKey.oneTimePreKeyId) {
+    return {signedPreKey};
+  }
+
+  // A missing one-time prekey was already used: refuse to reuse it
+  const oneTimePreKey = stored.oneTimePreKeys[preKey.oneTimePreKeyId];
+  if (!oneTimePreKey) {
+    throw new Error('One-time prekey not found');
+  }
+
+  return {signedPreKey, oneTimePreKey};
+}
+
+/**
+ * Delete a one-time prekey once a session has been accepted with it
+ *
+ * @param userId - Our user ID
+ * @param keyId - One-time prekey ID
+ */
+export async function consumeOneTimePreKey(
+  userId: string,
+  keyId: string,
+): Promise<void> {
+  return runExclusive(async () => {
+    const stored = await loadPreKeys(userId);
+    if (!stored || !stored.oneTimePreKeys[keyId]) {
+      return;
+    }
+
+    delete stored.oneTimePreKeys[keyId];
+    await savePreKeys(userId, stored);
+  });
+}
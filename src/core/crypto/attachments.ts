@@ -0,0 +1,122 @@
+/**
+ * TibbyTalk - Attachment Encryption
+ * Encrypts files on this device before they are uploaded ('tt-a1')
+ *
+ * Every file gets its own random AES-256 key and is split into 64 KiB
+ * chunks, each sealed with AES-GCM. A chunk's nonce is its index, which is
+ * safe because the key is never reused, and its additional data marks the
+ * last chunk, so chunks cannot be reordered, dropped or cut off at the end
+ * without failing decryption. The key, the SHA-256 digest of the ciphertext
+ * and the file size travel inside the encrypted message payload; storage
+ * only ever sees ciphertext.
+ */
+
+import {arrayBufferToBase64, base64ToArrayBuffer, concatBytes} from './utils';
+import {importSymmetricKey} from './keyGeneration';
+import type {AttachmentInfo} from '../../types';
+
+// Use global crypto (polyfilled by react-native-quick-crypto)
+const subtle = crypto.subtle;
+
+export const ATTACHMENT_VERSION = 'tt-a1';
+export const ATTACHMENT_CHUNK_SIZE = 64 * 1024;
+
+const TAG_LENGTH = 16;
+
+export interface EncryptedAttachment {
+  data: Uint8Array<ArrayBuffer>; // Ciphertext to upload
+  key: string; // Base64 per-file AES-256 key
+  digest: string; // Base64 SHA-256 of the ciphertext
+  size: number; // Plaintext bytes
+}
+
+function getChunkCount(size: number): number {
+  return Math.max(1, Math.ceil(size / ATTACHMENT_CHUNK_SIZE));
+}
+
+function chunkParams(index: number, chunkCount: number) {
+  const iv = new Uint8Array(12);
+  new DataView(iv.buffer).setUint32(8, index);
+  const position = index === chunkCount - 1 ? 'last' : 'more';
+  return {
+    name: 'AES-GCM',
+    iv,
+    additionalData: new TextEncoder().encode(
+      `${ATTACHMENT_VERSION}:${index}:${position}`,
+    ),
+  };
+}
+
+async function digestCiphertext(data: Uint8Array<ArrayBuffer>) {
+  return arrayBufferToBase64(await subtle.digest('SHA-256', data));
+}
+
+/**
+ * Encrypt a file with a new key
+ *
+ * @param plaintext - File contents
+ * @returns Ciphertext, with the key, digest and size to send in the message
+ */
+export async function encryptAttachment(
+  plaintext: Uint8Array<ArrayBuffer>,
+): Promise<EncryptedAttachment> {
+  const rawKey = crypto.getRandomValues(new Uint8Array(32));
+  const key = await importSymmetricKey(rawKey.buffer);
+
+  const chunkCount = getChunkCount(plaintext.length);
+  const chunks: Uint8Array[] = [];
+  for (let index = 0; index < chunkCount; index++) {
+    const start = index * ATTACHMENT_CHUNK_SIZE;
+    const encrypted = await subtle.encrypt(
+      chunkParams(index, chunkCount),
+      key,
+      plaintext.subarray(start, start + ATTACHMENT_CHUNK_SIZE),
+    );
+    chunks.push(new Uint8Array(encrypted));
+  }
+
+  const data = concatBytes(...chunks);
+  return {
+    data,
+    key: arrayBufferToBase64(rawKey.buffer),
+    digest: await digestCiphertext(data),
+    size: plaintext.length,
+  };
+}
+
+/**
+ * Verify and decrypt a downloaded attachment
+ *
+ * @param ciphertext - Downloaded ciphertext
+ * @param attachment - Key, digest and size from the message payload
+ * @returns File contents
+ * @throws If the ciphertext does not match the digest or size, or a chunk
+ *   fails to decrypt
+ */
+export async function decryptAttachment(
+  ciphertext: ArrayBuffer,
+  attachment: Pick<AttachmentInfo, 'key' | 'digest' | 'size'>,
+): Promise<Uint8Array<ArrayBuffer>> {
+  const data = new Uint8Array(ciphertext);
+  if ((await digestCiphertext(data)) !== attachment.digest) {
+    throw new Error('Attachment digest mismatch');
+  }
+
+  const chunkCount = getChunkCount(attachment.size);
+  if (data.length !== attachment.size + chunkCount * TAG_LENGTH) {
+    throw new Error('Attachment size mismatch');
+  }
+
+  const key = await importSymmetricKey(base64ToArrayBuffer(attachment.key));
+  const plaintext = new Uint8Array(attachment.size);
+  for (let index = 0; index < chunkCount; index++) {
+    const start = index * (ATTACHMENT_CHUNK_SIZE + TAG_LENGTH);
+    const decrypted = await subtle.decrypt(
+      chunkParams(index, chunkCount),
+      key,
+      data.subarray(start, start + ATTACHMENT_CHUNK_SIZE + TAG_LENGTH),
+    );
+    plaintext.set(new Uint8Array(decrypted), index * ATTACHMENT_CHUNK_SIZE);
+  }
+  return plaintext;
+}
@@ -0,0 +1,400 @@
+/**
+ * TibbyTalk - Double Ratchet
+ * Forward-secret session layer for direct conversations
+ *
+ * How it works:
+ * 1. X3DH gives both sides a shared secret that seeds the root key
+ * 2. Every message key comes from a symmetric chain (KDF_CK), so old
+ *    message keys cannot be recomputed from the current chain key
+ * 3. Whenever a new ratchet public key arrives, a DH ratchet step mixes
+ *    a fresh X25519 output into the root key (KDF_RK); sessions started
+ *    with legacy P-256 keys keep ratcheting on P-256
+ * 4. Keys for messages that arrive out of order are kept in a bounded
+ *    skipped-key cache until they are used
+ *
+ * Plaintexts are padded to a Padmé length (see padding.ts) before they
+ * are encrypted. Session state is a plain JSON object so it can be persisted by
+ * src/core/storage. Functions never mutate the state passed in, so a
+ * failed decryption leaves the stored session untouched.
+ */
+
+import {arrayBufferToBase64, base64ToArrayBuffer} from './utils';
+import {generateAgreementKeyPair} from './keyGeneration';
+import {
+  computeSharedSecret,
+  exportRawPublicKey,
+  getRawPublicKeyCurve,
+  hkdf,
+  hmacSha256,
+} from './keyAgreement';
+import type {AgreementCurve} from './keyAgreement';
+import {canonicalize} from './signing';
+import {padPlaintext, unpadPlaintext} from './padding';
+import type {MessageContext} from './encryption';
+import type {RatchetHeader} from '../../types';
+
+const subtle = crypto.subtle;
+
+const ROOT_KDF_INFO = 'TibbyTalkRatchet';
+const MESSAGE_KDF_INFO = 'TibbyTalkMessageKeys';
+
+// Maximum number of message keys skipped in a single chain
+const MAX_SKIP = 500;
+
+// Maximum number of skipped message keys kept per session
+const MAX_SKIPPED_KEYS = 1000;
+
+export interface RatchetKeyPair {
+  publicKey: string; // Base64 raw X25519 (or legacy P-256) public key
+  privateKey: JsonWebKey;
+}
+
+export interface RatchetState {
+  sessionId: string;
+  associatedData: string;
+  rootKey: string; // Base64
+  sendingRatchetKey: RatchetKeyPair;
+  receivingRatchetKey: string | null; // Base64 raw public key
+  sendingChainKey: string | null; // Base64
+  receivingChainKey: string | null; // Base64
+  sendCount: number;
+  receiveCount: number;
+  previousSendCount: number;
+  skippedKeys: Record<string, string>; // "ratchetKey:count" -> Base64 message key
+}
+
+function toBase64(bytes: Uint8Array): string {
+  return arrayBufferToBase64(bytes.buffer as ArrayBuffer);
+}
+
+function fromBase64(base64: string): Uint8Array<ArrayBuffer> {
+  return new Uint8Array(base64ToArrayBuffer(base64));
+}
+
+function cloneState(state: RatchetState): RatchetState {
+  return JSON.parse(JSON.stringify(state));
+}
+
+/**
+ * Generate a new ratchet key pair
+ *
+ * @param curve - X25519, or P-256 to continue a legacy session
+ */
+export async function generateRatchetKeyPair(
+  curve: AgreementCurve = 'X25519',
+): Promise<RatchetKeyPair> {
+  const keyPair = await generateAgreementKeyPair(curve);
+  return {
+    publicKey: await exportRawPublicKey(keyPair.publicKey),
+    privateKey: keyPair.privateKey,
+  };
+}
+
+/**
+ * Root key KDF: mixes a DH output into the root key
+ * Returns the next root key and a new chain key
+ */
+async function kdfRootKey(
+  rootKey: string,
+  dhOutput: Uint8Array<ArrayBuffer>,
+): Promise<{rootKey: string; chainKey: string}> {
+  const output = await hkdf(dhOutput, fromBase64(rootKey), ROOT_KDF_INFO, 64);
+  return {
+    rootKey: toBase64(output.slice(0, 32)),
+    chainKey: toBase64(output.slice(32, 64)),
+  };
+}
+
+/**
+ * Chain key KDF: advances a symmetric chain by one step
+ * Returns the next chain key and the message key for this step
+ * Also drives the sender key chains of groups (see senderKeys.ts)
+ */
+export async function kdfChainKey(
+  chainKey: string,
+): Promise<{chainKey: string; messageKey: string}> {
+  const chainKeyBytes = fromBase64(chainKey);
+  const messageKey = await hmacSha256(chainKeyBytes, new Uint8Array([0x01]));
+  const nextChainKey = await hmacSha256(chainKeyBytes, new Uint8Array([0x02]));
+  return {
+    chainKey: toBase64(nextChainKey),
+    messageKey: toBase64(messageKey),
+  };
+}
+
+/**
+ * Expand a message key into an AES-256-GCM key and IV
+ */
+async function deriveMessageCipher(
+  messageKey: string,
+): Promise<{key: CryptoKey; iv: Uint8Array<ArrayBuffer>}> {
+  const output = await hkdf(
+    fromBase64(messageKey),
+    new Uint8Array(32),
+    MESSAGE_KDF_INFO,
+    44,
+  );
+  const key = await subtle.importKey(
+    'raw',
+    output.slice(0, 32),
+    {name: 'AES-GCM'},
+    false,
+    ['encrypt', 'decrypt'],
+  );
+  return {key, iv: output.slice(32, 44)};
+}
+
+/**
+ * Bind the session, the message header and the direct message the
+ * ciphertext belongs to into the AEAD associated data
+ */
+function buildAdditionalData(
+  state: RatchetState,
+  header: RatchetHeader,
+  context: MessageContext,
+): Uint8Array<ArrayBuffer> {
+  const encoder = new TextEncoder();
+  return encoder.encode(
+    [
+      state.associatedData,
+      state.sessionId,
+      header.ratchetKey,
+      header.previousCount,
+      header.count,
+      canonicalize({...context, type: 'direct'}),
+    ].join('|'),
+  );
+}
+
+/**
+ * Initialize a session as the initiator
+ *
+ * @param sessionId - Identifier shared by both sides of the session
+ * @param sharedSecret - Shared secret from X3DH
+ * @param associatedData - Associated data from X3DH
+ * @param theirRatchetKey - Responder's initial ratchet public key (Base64 raw)
+ * @returns New session state, ready to send
+ */
+export async function initializeInitiatorSession(
+  sessionId: string,
+  sharedSecret: Uint8Array<ArrayBuffer>,
+  associatedData: string,
+  theirRatchetKey: string,
+): Promise<RatchetState> {
+  const sendingRatchetKey = await generateRatchetKeyPair(
+    getRawPublicKeyCurve(theirRatchetKey),
+  );
+  const dhOutput = await computeSharedSecret(
+    sendingRatchetKey.privateKey,
+    theirRatchetKey,
+  );
+  const {rootKey, chainKey} = await kdfRootKey(
+    toBase64(sharedSecret),
+    dhOutput,
+  );
+
+  return {
+    sessionId,
+    associatedData,
+    rootKey,
+    sendingRatchetKey,
+    receivingRatchetKey: theirRatchetKey,
+    sendingChainKey: chainKey,
+    receivingChainKey: null,
+    sendCount: 0,
+    receiveCount: 0,
+    previousSendCount: 0,
+    skippedKeys: {},
+  };
+}
+
+/**
+ * Initialize a session as the responder
+ *
+ * @param sessionId - Identifier shared by both sides of the session
+ * @param sharedSecret - Shared secret from X3DH
+ * @param associatedData - Associated data from X3DH
+ * @param ourRatchetKey - Key pair the initiator used as our ratchet key
+ * @returns New session state, ready to receive
+ */
+export function initializeResponderSession(
+  sessionId: string,
+  sharedSecret: Uint8Array<ArrayBuffer>,
+  associatedData: string,
+  ourRatchetKey: RatchetKeyPair,
+): RatchetState {
+  return {
+    sessionId,
+    associatedData,
+    rootKey: toBase64(sharedSecret),
+    sendingRatchetKey: ourRatchetKey,
+    receivingRatchetKey: null,
+    sendingChainKey: null,
+    receivingChainKey: null,
+    sendCount: 0,
+    receiveCount: 0,
+    previousSendCount: 0,
+    skippedKeys: {},
+  };
+}
+
+/**
+ * Encrypt a message with the session's sending chain
+ *
+ * @param state - Current session state
+ * @param plaintext - Message content to encrypt
+ * @param context - Message the ciphertext is sealed for
+ * @returns Updated state, message header and Base64 ciphertext
+ */
+export async function ratchetEncrypt(
+  state: RatchetState,
+  plaintext: string,
+  context: MessageContext,
+): Promise<{state: RatchetState; header: RatchetHeader; data: string}> {
+  if (!state.sendingChainKey) {
+    throw new Error('Session cannot send until it has received a message');
+  }
+
+  const next = cloneState(state);
+  const {chainKey, messageKey} = await kdfChainKey(state.sendingChainKey);
+  next.sendingChainKey = chainKey;
+
+  const header: RatchetHeader = {
+    ratchetKey: state.sendingRatchetKey.publicKey,
+    previousCount: state.previousSendCount,
+    count: state.sendCount,
+  };
+  next.sendCount = state.sendCount + 1;
+
+  const {key, iv} = await deriveMessageCipher(messageKey);
+  const encryptedData = await subtle.encrypt(
+    {
+      name: 'AES-GCM',
+      iv,
+      additionalData: buildAdditionalData(state, header, context),
+    },
+    key,
+    padPlaintext(plaintext),
+  );
+
+  return {state: next, header, data: arrayBufferToBase64(encryptedData)};
+}
+
+/**
+ * Store message keys for messages of the receiving chain not yet seen
+ */
+async function skipMessageKeys(
+  state: RatchetState,
+  until: number,
+): Promise<void> {
+  if (!state.receivingChainKey || !state.receivingRatchetKey) {
+    return;
+  }
+
+  if (until - state.receiveCount > MAX_SKIP) {
+    throw new Error('Too many skipped messages');
+  }
+
+  while (state.receiveCount < until) {
+    const {chainKey, messageKey} = await kdfChainKey(state.receivingChainKey);
+    state.receivingChainKey = chainKey;
+    state.skippedKeys[`${state.receivingRatchetKey}:${state.receiveCount}`] =
+      messageKey;
+    state.receiveCount += 1;
+  }
+
+  // Drop the oldest skipped keys once the cache is full
+  const skippedIds = Object.keys(state.skippedKeys);
+  for (const id of skippedIds.slice(0, skippedIds.length - MAX_SKIPPED_KEYS)) {
+    delete state.skippedKeys[id];
+  }
+}
+
+/**
+ * Perform a DH ratchet step for a newly seen ratchet public key
+ */
+async function dhRatchetStep(
+  state: RatchetState,
+  header: RatchetHeader,
+): Promise<void> {
+  state.previousSendCount = state.sendCount;
+  state.sendCount = 0;
+  state.receiveCount = 0;
+  state.receivingRatchetKey = header.ratchetKey;
+
+  const receiving = await kdfRootKey(
+    state.rootKey,
+    await computeSharedSecret(
+      state.sendingRatchetKey.privateKey,
+      header.ratchetKey,
+    ),
+  );
+  state.rootKey = receiving.rootKey;
+  state.receivingChainKey = receiving.chainKey;
+
+  state.sendingRatchetKey = await generateRatchetKeyPair(
+    getRawPublicKeyCurve(header.ratchetKey),
+  );
+  const sending = await kdfRootKey(
+    state.rootKey,
+    await computeSharedSecret(
+      state.sendingRatchetKey.privateKey,
+      header.ratchetKey,
+    ),
+  );
+  state.rootKey = sending.rootKey;
+  state.sendingChainKey = sending.chainKey;
+}
+
+/**
+ * Decrypt a message received in this session
+ *
+ * @param state - Current session state
+ * @param header - Message header sent with the ciphertext
+ * @param data - Base64 ciphertext
+ * @param context - Message the ciphertext claims to be
+ * @returns Updated state and decrypted message content
+ */
+export async function ratchetDecrypt(
+  state: RatchetState,
+  header: RatchetHeader,
+  data: string,
+  context: MessageContext,
+): Promise<{state: RatchetState; plaintext: string}> {
+  const next = cloneState(state);
+  const skippedId = `${header.ratchetKey}:${header.count}`;
+  let messageKey = next.skippedKeys[skippedId];
+
+  if (messageKey) {
+    delete next.skippedKeys[skippedId];
+  } else {
+    if (header.ratchetKey !== next.receivingRatchetKey) {
+      await skipMessageKeys(next, header.previousCount);
+      await dhRatchetStep(next, header);
+    }
+
+    await skipMessageKeys(next, header.count);
+
+    if (!next.receivingChainKey) {
+      throw new Error('Session has no receiving chain');
+    }
+
+    const step = await kdfChainKey(next.receivingChainKey);
+    next.receivingChainKey = step.chainKey;
+    next.receiveCount += 1;
+    messageKey = step.messageKey;
+  }
+
+  const {key, iv} = await deriveMessageCipher(messageKey);
+  const decryptedBytes = await subtle.decrypt(
+    {
+      name: 'AES-GCM',
+      iv,
+      additionalData: buildAdditionalData(next, header, context),
+    },
+    key,
+    base64ToArrayBuffer(data),
+  );
+
+  return {state: next, plaintext: unpadPlaintext(decryptedBytes)};
+}
@@ -1,15 +1,103 @@
 /**
  * TibbyTalk - Client-Side Encryption Module
  * Ported from VeilForms with React Native adaptations
- * Uses hybrid encryption: RSA-2048-OAEP + AES-256-GCM
+ * Uses hybrid encryption: AES-256-GCM for content, with the AES key
+ * wrapped for each recipient's identity key (X25519 ECIES, or RSA-2048-OAEP
+ * for keys created before the migration)
  */
 
 import {arrayBufferToBase64, base64ToArrayBuffer} from './utils';
-import type {EncryptedMessage, EncryptedKeyBundle} from '../../types';
+import {signPayload, canonicalize} from './signing';
+import {padPlaintext, unpadPlaintext} from './padding';
+import {wrapKeyForRecipient, unwrapKeyForRecipient} from './keyWrap';
+import {
+  DEFAULT_SCRYPT_PARAMS,
+  deriveScryptBytes,
+  validateScryptParams,
+  isWeakerThanDefault,
+} from './kdf';
+import type {MessageSigner} from './signing';
+import type {
+  EncryptedMessage,
+  MultiRecipientEncryptedMessage,
+  EncryptedKeyBundle,
+  ParticipantKey,
+  ScryptParams,
+} from '../../types';
 
 // Use global crypto (polyfilled by react-native-quick-crypto)
 const subtle = crypto.subtle;
 
+// Key bundle formats:
+// 1.0 - PBKDF2 password bundles, header fields not authenticated
+// 2.0 - scrypt password bundles, every field but the ciphertext is bound
+//       to the ciphertext as AES-GCM additional data
+const KEY_BUNDLE_VERSION = '2.0';
+const LEGACY_KEY_BUNDLE_VERSION = '1.0';
+const PASSWORD_BUNDLE_ALGORITHMS = {
+  [LEGACY_KEY_BUNDLE_VERSION]: 'PBKDF2-AES-GCM-256',
+  [KEY_BUNDLE_VERSION]: 'SCRYPT-AES-GCM-256',
+};
+
+// The message a 'tt-e3' or 'tt-e4' envelope belongs to. It is bound into the
+// ciphertext as AES-GCM additional data, so the envelope cannot be copied
+// into another conversation, attributed to another sender or replayed with
+// another expiry
+export interface MessageContext {
+  conversationId: string;
+  senderId: string;
+  messageId: string;
+  expiresAt: number | null;
+}
+
+/**
+ * Additional data binding an envelope to its format, its message and the
+ * key(s) its content key comes from
+ *
+ * @param context - The message the envelope belongs to
+ * @param keyId - Group key ID, or the key IDs a direct message's AES key
+ *   is wrapped for
+ * @param version - Envelope version ('tt-e3' or 'tt-e4')
+ * @returns Bytes to pass as AES-GCM additional data
+ */
+export function messageAdditionalData(
+  context: MessageContext,
+  keyId: string | string[],
+  version: string = 'tt-e3',
+): Uint8Array<ArrayBuffer> {
+  return new TextEncoder().encode(
+    `${version}:${canonicalize({...context, keyId})}`,
+  );
+}
+
+/**
+ * Envelope version of a message bound to its context, padded or not
+ */
+function boundEnvelopeVersion(
+  context: MessageContext | undefined,
+  padded: boolean,
+): 'tt-e3' | 'tt-e4' | undefined {
+  if (padded && !context) {
+    throw new Error('Padded envelopes need a message context');
+  }
+  if (!context) {
+    return undefined;
+  }
+  return padded ? 'tt-e4' : 'tt-e3';
+}
+
+/**
+ * AES-GCM parameters, with additional data only when there is some
+ */
+function gcmParams(
+  iv: BufferSource,
+  additionalData?: BufferSource,
+) {
+  return additionalData
+    ? {name: 'AES-GCM', iv, additionalData}
+    : {name: 'AES-GCM', iv};
+}
+
 /**
  * Generate a symmetric AES-256 key for message encryption
  */
@@ -22,25 +110,18 @@ async function generateSymmetricKey(): Promise<CryptoKey> {
 
 /**
  * Encrypt a message for a single recipient (1:1 chat)
- * Uses hybrid encryption: AES for data, RSA for the AES key
+ * Uses hybrid encryption: AES for data, a key wrap for the AES key
  *
  * @param plaintext - The message content to encrypt
- * @param recipientPublicKeyJwk - Recipient's RSA public key in JWK format
+ * @param recipientPublicKeyJwk - Recipient's identity public key (JWK)
+ * @param signer - Sender's signing key, to sign the payload
  * @returns Encrypted payload ready for storage
  */
 export async function encryptMessage(
   plaintext: string,
   recipientPublicKeyJwk: JsonWebKey,
+  signer?: MessageSigner,
 ): Promise<EncryptedMessage> {
-  // Import the recipient's public key
-  const publicKey = await subtle.importKey(
-    'jwk',
-    recipientPublicKeyJwk,
-    {name: 'RSA-OAEP', hash: 'SHA-256'},
-    false,
-    ['encrypt'],
-  );
-
   // Generate a one-time symmetric key for this message
   const symmetricKey = await generateSymmetricKey();
 
@@ -55,49 +136,159 @@ export async function encryptMessage(
     dataBytes,
   );
 
-  // Export and encrypt the symmetric key with RSA
+  // Export and wrap the symmetric key for the recipient
   const symmetricKeyBytes = await subtle.exportKey('raw', symmetricKey);
-  const encryptedKey = await subtle.encrypt(
-    {name: 'RSA-OAEP'},
-    publicKey,
+  const encryptedKey = await wrapKeyForRecipient(
     symmetricKeyBytes,
+    recipientPublicKeyJwk,
   );
 
-  return {
+  const payload: EncryptedMessage = {
     encrypted: true,
     version: 'tt-e1',
     data: arrayBufferToBase64(encryptedData),
-    key: arrayBufferToBase64(encryptedKey),
-    iv: arrayBufferToBase64(iv),
+    key: encryptedKey,
+    iv: arrayBufferToBase64(iv.buffer),
   };
+
+  return signer ? signPayload(payload, signer) : payload;
+}
+
+/**
+ * Encrypt a message for every participant of a conversation (1:1 chat)
+ * The AES key is wrapped once per participant key, sender included,
+ * so the sender can read their own sent messages later, and once per
+ * linked device key so each of a participant's devices can read it
+ *
+ * @param plaintext - The message content to encrypt
+ * @param participantKeys - Map of userId -> public keys for all participants
+ * @param signer - Sender's signing key, to sign the payload
+ * @param context - The message being sent; when given, it is bound into
+ *   the ciphertext and the payload is a 'tt-e3' envelope
+ * @param padded - Pad the plaintext to hide its length ('tt-e4' envelope,
+ *   needs a context)
+ * @returns Multi-recipient encrypted payload ready for storage
+ */
+export async function encryptMessageForParticipants(
+  plaintext: string,
+  participantKeys: Record<string, ParticipantKey>,
+  signer?: MessageSigner,
+  context?: MessageContext,
+  padded = false,
+): Promise<MultiRecipientEncryptedMessage> {
+  const boundVersion = boundEnvelopeVersion(context, padded);
+
+  // Generate a one-time symmetric key for this message
+  const symmetricKey = await generateSymmetricKey();
+
+  // Wrap the symmetric key for each participant key
+  const symmetricKeyBytes = await subtle.exportKey('raw', symmetricKey);
+  const wrappedKeys: Record<string, string> = {};
+
+  const recipientKeys = Object.values(participantKeys).flatMap(
+    participantKey => [
+      participantKey,
+      ...Object.values(participantKey.devices ?? {}),
+    ],
+  );
+
+  for (const recipientKey of recipientKeys) {
+    if (wrappedKeys[recipientKey.keyId]) {
+      continue;
+    }
+
+    wrappedKeys[recipientKey.keyId] = await wrapKeyForRecipient(
+      symmetricKeyBytes,
+      recipientKey.publicKey,
+    );
+  }
+
+  // Encrypt the message with AES-GCM
+  const dataBytes = padded
+    ? padPlaintext(plaintext)
+    : new TextEncoder().encode(plaintext);
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+
+  const encryptedData = await subtle.encrypt(
+    gcmParams(
+      iv,
+      context && boundVersion
+        ? messageAdditionalData(
+            context,
+            Object.keys(wrappedKeys).sort(),
+            boundVersion,
+          )
+        : undefined,
+    ),
+    symmetricKey,
+    dataBytes,
+  );
+
+  const payload: MultiRecipientEncryptedMessage = {
+    encrypted: true,
+    version: boundVersion ?? 'tt-e2',
+    data: arrayBufferToBase64(encryptedData),
+    keys: wrappedKeys,
+    iv: arrayBufferToBase64(iv.buffer),
+  };
+
+  return signer ? signPayload(payload, signer) : payload;
+}
+
+/**
+ * Find the wrapped AES key addressed to a given key pair
+ * 'tt-e1' payloads carry a single key, later versions one per keyId
+ */
+function getWrappedKey(
+  encryptedPayload: EncryptedMessage,
+  keyId?: string,
+): string {
+  if (encryptedPayload.version === 'tt-e1') {
+    return encryptedPayload.key;
+  }
+
+  const wrappedKey = keyId ? encryptedPayload.keys[keyId] : undefined;
+  if (!wrappedKey) {
+    throw new Error('Message was not encrypted for this key');
+  }
+  return wrappedKey;
 }
 
 /**
  * Decrypt a received message
  *
  * @param encryptedPayload - The encrypted message payload
- * @param privateKeyJwk - Recipient's RSA private key in JWK format
+ * @param privateKeyJwk - Recipient's identity or device private key (JWK)
+ * @param keyId - ID of the recipient's key pair (required after 'tt-e1')
+ * @param context - The stored message (required from 'tt-e3' on);
+ *   decryption fails if it differs from the message the payload was sent as
  * @returns Decrypted message content
  */
 export async function decryptMessage(
   encryptedPayload: EncryptedMessage,
   privateKeyJwk: JsonWebKey,
+  keyId?: string,
+  context?: MessageContext,
 ): Promise<string> {
-  // Import the private key
-  const privateKey = await subtle.importKey(
-    'jwk',
-    privateKeyJwk,
-    {name: 'RSA-OAEP', hash: 'SHA-256'},
-    false,
-    ['decrypt'],
-  );
+  let additionalData: Uint8Array<ArrayBuffer> | undefined;
+  if (
+    encryptedPayload.version === 'tt-e3' ||
+    encryptedPayload.version === 'tt-e4'
+  ) {
+    if (!context) {
+      throw new Error('Message context is required');
+    }
+    additionalData = messageAdditionalData(
+      context,
+      Object.keys(encryptedPayload.keys).sort(),
+      encryptedPayload.version,
+    );
+  }
 
-  // Decrypt the symmetric key
-  const encryptedKeyBytes = base64ToArrayBuffer(encryptedPayload.key);
-  const symmetricKeyBytes = await subtle.decrypt(
-    {name: 'RSA-OAEP'},
-    privateKey,
-    encryptedKeyBytes,
+  // Unwrap the symmetric key
+  const symmetricKeyBytes = await unwrapKeyForRecipient(
+    getWrappedKey(encryptedPayload, keyId),
+    privateKeyJwk,
   );
 
   // Import the symmetric key
@@ -114,11 +305,14 @@ export async function decryptMessage(
   const encryptedData = base64ToArrayBuffer(encryptedPayload.data);
 
   const decryptedBytes = await subtle.decrypt(
-    {name: 'AES-GCM', iv},
+    gcmParams(iv, additionalData),
     symmetricKey,
     encryptedData,
   );
 
+  if (encryptedPayload.version === 'tt-e4') {
+    return unpadPlaintext(decryptedBytes);
+  }
   const decoder = new TextDecoder();
   return decoder.decode(decryptedBytes);
 }
@@ -128,25 +322,28 @@ export async function decryptMessage(
  *
  * @param plaintext - The message content to encrypt
  * @param symmetricKey - AES-256 group key
+ * @param additionalData - Authenticated along with the data, if given
+ *   (see messageAdditionalData)
  * @returns Encrypted data and IV
  */
 export async function encryptWithSymmetricKey(
   plaintext: string,
   symmetricKey: CryptoKey,
+  additionalData?: Uint8Array<ArrayBuffer>,
 ): Promise<{data: string; iv: string}> {
   const encoder = new TextEncoder();
   const dataBytes = encoder.encode(plaintext);
   const iv = crypto.getRandomValues(new Uint8Array(12));
 
   const encryptedData = await subtle.encrypt(
-    {name: 'AES-GCM', iv},
+    gcmParams(iv, additionalData),
     symmetricKey,
     dataBytes,
   );
 
   return {
     data: arrayBufferToBase64(encryptedData),
-    iv: arrayBufferToBase64(iv),
+    iv: arrayBufferToBase64(iv.buffer),
   };
 }
 
@@ -156,18 +353,20 @@ export async function encryptWithSymmetricKey(
  * @param encryptedData - Base64 encoded encrypted data
  * @param iv - Base64 encoded IV
  * @param symmetricKey - AES-256 group key
+ * @param additionalData - Additional data the data was encrypted with
  * @returns Decrypted message content
  */
 export async function decryptWithSymmetricKey(
   encryptedData: string,
   iv: string,
   symmetricKey: CryptoKey,
+  additionalData?: Uint8Array<ArrayBuffer>,
 ): Promise<string> {
   const ivBytes = base64ToArrayBuffer(iv);
   const dataBytes = base64ToArrayBuffer(encryptedData);
 
   const decryptedBytes = await subtle.decrypt(
-    {name: 'AES-GCM', iv: ivBytes},
+    gcmParams(ivBytes, additionalData),
     symmetricKey,
     dataBytes,
   );
@@ -200,7 +399,7 @@ export async function hashField(value: string, salt = ''): Promise<string> {
  */
 export async function deriveKeyFromPassword(
   password: string,
-  salt: Uint8Array,
+  salt: Uint8Array<ArrayBuffer>,
   iterations = 100000,
 ): Promise<CryptoKey> {
   const encoder = new TextEncoder();
@@ -226,6 +425,123 @@ export async function deriveKeyFromPassword(
   );
 }
 
+/**
+ * Derive an encryption key from a password using scrypt
+ *
+ * @param password - Password or passphrase
+ * @param salt - Random salt (stored alongside encrypted data)
+ * @param params - scrypt cost parameters (stored alongside encrypted data)
+ * @returns Derived AES-256 encryption key
+ */
+export async function deriveKeyFromPassphrase(
+  password: string,
+  salt: Uint8Array<ArrayBuffer>,
+  params: ScryptParams = DEFAULT_SCRYPT_PARAMS,
+): Promise<CryptoKey> {
+  const keyBytes = await deriveScryptBytes(password, salt, params);
+
+  return subtle.importKey('raw', keyBytes, {name: 'AES-GCM'}, false, [
+    'encrypt',
+    'decrypt',
+  ]);
+}
+
+/**
+ * Additional data binding a 2.0 bundle's header to its ciphertext, so the
+ * algorithm, KDF parameters and salt cannot be swapped or downgraded
+ */
+function keyBundleAdditionalData(
+  bundle: Omit<EncryptedKeyBundle, 'ciphertext'> & {ciphertext?: string},
+): Uint8Array<ArrayBuffer> {
+  const header = {...bundle};
+  delete header.ciphertext;
+  return new TextEncoder().encode(`tt-kb2:${canonicalize(header)}`);
+}
+
+/**
+ * Encrypt private keys into a key bundle with an already derived key
+ * Shared by password backups, cloud backups and device provisioning
+ *
+ * @param privateKeys - Object mapping keyId -> privateKey (JWK)
+ * @param encryptionKey - AES-256-GCM key protecting the bundle
+ * @param derivation - How the key was derived, recorded in the bundle
+ * @returns Encrypted key bundle
+ */
+export async function encryptKeyBundle(
+  privateKeys: Record<string, JsonWebKey>,
+  encryptionKey: CryptoKey,
+  derivation: {
+    algorithm: string;
+    iterations: number;
+    salt: Uint8Array;
+    kdfParams?: ScryptParams;
+  },
+): Promise<EncryptedKeyBundle> {
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+
+  const header: Omit<EncryptedKeyBundle, 'ciphertext'> = {
+    version: KEY_BUNDLE_VERSION,
+    algorithm: derivation.algorithm,
+    iterations: derivation.iterations,
+    salt: arrayBufferToBase64(derivation.salt.slice().buffer),
+    iv: arrayBufferToBase64(iv.buffer),
+    exportedAt: new Date().toISOString(),
+  };
+  if (derivation.kdfParams) {
+    header.kdfParams = derivation.kdfParams;
+  }
+
+  // Serialize the private keys
+  const encoder = new TextEncoder();
+  const keysJson = JSON.stringify(privateKeys);
+  const keysData = encoder.encode(keysJson);
+
+  // Encrypt the keys, authenticating the header
+  const encryptedData = await subtle.encrypt(
+    {name: 'AES-GCM', iv, additionalData: keyBundleAdditionalData(header)},
+    encryptionKey,
+    keysData,
+  );
+
+  return {...header, ciphertext: arrayBufferToBase64(encryptedData)};
+}
+
+/**
+ * Decrypt the private keys in a key bundle with an already derived key
+ *
+ * @param encryptedBundle - The encrypted key bundle
+ * @param decryptionKey - AES-256-GCM key protecting the bundle
+ * @returns Decrypted private keys object
+ */
+export async function decryptKeyBundle(
+  encryptedBundle: EncryptedKeyBundle,
+  decryptionKey: CryptoKey,
+): Promise<Record<string, JsonWebKey>> {
+  const iv = new Uint8Array(base64ToArrayBuffer(encryptedBundle.iv));
+  const ciphertext = base64ToArrayBuffer(encryptedBundle.ciphertext);
+
+  let additionalData: Uint8Array<ArrayBuffer> | undefined;
+  switch (encryptedBundle.version) {
+    case KEY_BUNDLE_VERSION:
+      additionalData = keyBundleAdditionalData(encryptedBundle);
+      break;
+    case LEGACY_KEY_BUNDLE_VERSION:
+      break;
+    default:
+      throw new Error('Unsupported key bundle version');
+  }
+
+  const decryptedData = await subtle.decrypt(
+    additionalData ? {name: 'AES-GCM', iv, additionalData} : {name: 'AES-GCM', iv},
+    decryptionKey,
+    ciphertext,
+  );
+
+  const decoder = new TextDecoder();
+  const keysJson = decoder.decode(decryptedData);
+  return JSON.parse(keysJson);
+}
+
 /**
  * Export private keys with password protection
  * Creates an encrypted bundle that can be safely backed up
@@ -242,39 +558,56 @@ export async function exportPrivateKeys(
     throw new Error('Password must be at least 8 characters');
   }
 
-  // Generate random salt and IV
+  // Generate random salt
   const salt = crypto.getRandomValues(new Uint8Array(32));
-  const iv = crypto.getRandomValues(new Uint8Array(12));
-  const iterations = 100000;
+  const kdfParams = DEFAULT_SCRYPT_PARAMS;
 
   // Derive encryption key from password
-  const encryptionKey = await deriveKeyFromPassword(password, salt, iterations);
-
-  // Serialize the private keys
-  const encoder = new TextEncoder();
-  const keysJson = JSON.stringify(privateKeys);
-  const keysData = encoder.encode(keysJson);
+  const encryptionKey = await deriveKeyFromPassphrase(password, salt, kdfParams);
+
+  return encryptKeyBundle(privateKeys, encryptionKey, {
+    algorithm: PASSWORD_BUNDLE_ALGORITHMS[KEY_BUNDLE_VERSION],
+    iterations: 0,
+    salt,
+    kdfParams,
+  });
+}
 
-  // Encrypt the keys
-  const encryptedData = await subtle.encrypt(
-    {name: 'AES-GCM', iv},
-    encryptionKey,
-    keysData,
-  );
+/**
+ * Derive the key protecting a password bundle of either version
+ */
+async function deriveBundleKey(
+  encryptedBundle: EncryptedKeyBundle,
+  password: string,
+): Promise<CryptoKey> {
+  const salt = new Uint8Array(base64ToArrayBuffer(encryptedBundle.salt));
 
-  return {
-    version: '1.0',
-    algorithm: 'PBKDF2-AES-GCM-256',
-    iterations,
-    salt: arrayBufferToBase64(salt),
-    iv: arrayBufferToBase64(iv),
-    ciphertext: arrayBufferToBase64(encryptedData),
-    exportedAt: new Date().toISOString(),
-  };
+  switch (encryptedBundle.version) {
+    case LEGACY_KEY_BUNDLE_VERSION: {
+      const iterations = encryptedBundle.iterations || 100000;
+      return deriveKeyFromPassword(password, salt, iterations);
+    }
+    case KEY_BUNDLE_VERSION:
+      if (
+        encryptedBundle.algorithm !==
+        PASSWORD_BUNDLE_ALGORITHMS[KEY_BUNDLE_VERSION]
+      ) {
+        throw new Error('Unsupported key bundle algorithm');
+      }
+      validateScryptParams(encryptedBundle.kdfParams);
+      return deriveKeyFromPassphrase(
+        password,
+        salt,
+        encryptedBundle.kdfParams,
+      );
+    default:
+      throw new Error('Unsupported key bundle version');
+  }
 }
 
 /**
  * Import private keys from encrypted bundle
+ * Accepts 1.0 (PBKDF2) and 2.0 (scrypt) bundles
  *
  * @param encryptedBundle - The encrypted key bundle
  * @param password - Password to decrypt the keys
@@ -292,31 +625,45 @@ export async function importPrivateKeys(
     throw new Error('Password is required');
   }
 
-  if (encryptedBundle.version !== '1.0') {
-    throw new Error('Unsupported key bundle version');
-  }
-
-  // Extract bundle components
-  const salt = new Uint8Array(base64ToArrayBuffer(encryptedBundle.salt));
-  const iv = new Uint8Array(base64ToArrayBuffer(encryptedBundle.iv));
-  const ciphertext = base64ToArrayBuffer(encryptedBundle.ciphertext);
-  const iterations = encryptedBundle.iterations || 100000;
-
   // Derive decryption key from password
-  const decryptionKey = await deriveKeyFromPassword(password, salt, iterations);
+  const decryptionKey = await deriveBundleKey(encryptedBundle, password);
 
   // Decrypt the keys
   try {
-    const decryptedData = await subtle.decrypt(
-      {name: 'AES-GCM', iv},
-      decryptionKey,
-      ciphertext,
-    );
-
-    const decoder = new TextDecoder();
-    const keysJson = decoder.decode(decryptedData);
-    return JSON.parse(keysJson);
+    return await decryptKeyBundle(encryptedBundle, decryptionKey);
   } catch {
     throw new Error('Invalid password or corrupted key bundle');
   }
 }
+
+/**
+ * Check whether a password bundle uses an older format or weaker key
+ * derivation than new backups
+ *
+ * @param encryptedBundle - The encrypted key bundle
+ * @returns True if the bundle should be upgraded
+ */
+export function isKeyBundleOutdated(
+  encryptedBundle: EncryptedKeyBundle,
+): boolean {
+  return (
+    encryptedBundle.version !== KEY_BUNDLE_VERSION ||
+    !encryptedBundle.kdfParams ||
+    isWeakerThanDefault(encryptedBundle.kdfParams)
+  );
+}
+
+/**
+ * Re-encrypt a password bundle in the current format
+ *
+ * @param encryptedBundle - Existing bundle (1.0 or 2.0)
+ * @param password - Password of the existing bundle, also used for the new one
+ * @returns Upgraded key bundle
+ */
+export async function upgradeKeyBundle(
+  encryptedBundle: EncryptedKeyBundle,
+  password: string,
+): Promise<EncryptedKeyBundle> {
+  const privateKeys = await importPrivateKeys(encryptedBundle, password);
+  return exportPrivateKeys(privateKeys, password);
+}
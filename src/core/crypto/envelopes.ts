@@ -0,0 +1,377 @@
+/**
+ * TibbyTalk - Message Envelope Codecs
+ * Maps envelope version tags to their encrypt/decrypt implementations
+ *
+ * Every stored message records the version of the envelope it was sealed
+ * with. Decoding looks the codec up by that version, so new protocols can
+ * be added next to the old ones and existing history stays readable.
+ * Versions are registered per conversation type because group and direct
+ * envelopes share the 'tt-e1', 'tt-e3' and 'tt-e4' tags.
+ */
+
+import {
+  encryptMessage,
+  encryptMessageForParticipants,
+  decryptMessage,
+} from './encryption';
+import {encryptGroupMessage, decryptGroupMessage} from './groupKeys';
+import type {MessageContext} from './encryption';
+import type {MessageSigner} from './signing';
+import type {
+  Conversation,
+  ConversationType,
+  EncryptedEnvelope,
+  EncryptedMessage,
+  GroupEncryptedMessage,
+  Message,
+} from '../../types';
+
+export interface DecryptionKey {
+  privateKey: JsonWebKey;
+  keyId?: string; // Falls back to the user's published keyId
+  previousKeys?: Record<string, JsonWebKey>; // keyId -> replaced identity key
+}
+
+export interface EnvelopeEncryptContext {
+  conversation: Conversation;
+  senderId: string;
+  signer?: MessageSigner;
+  groupKey?: CryptoKey; // Group envelopes
+  groupKeyId?: string; // Group envelopes
+  messageId?: string; // ID of the message being sent; bound envelopes
+  expiresAt?: number | null; // Expiry of the message being sent; bound envelopes
+}
+
+export interface EnvelopeDecryptContext {
+  message: Message;
+  conversation: Conversation;
+  userId?: string; // Reader; direct and sender key envelopes
+  groupKey?: CryptoKey; // Group envelopes
+  getDecryptionKey?: () => Promise<DecryptionKey | null>; // Direct envelopes
+}
+
+export interface EnvelopeCodec {
+  kind: ConversationType;
+  version: EncryptedEnvelope['version'];
+  // True if decrypting already proves who sent the message
+  authenticatesSender?: boolean;
+  // True if decrypting needs the group key named by the payload's keyId
+  usesGroupKey?: boolean;
+  // True if every payload of this version is signed; older versions may
+  // predate payload signatures
+  requiresSignature?: boolean;
+  encrypt(
+    plaintext: string,
+    context: EnvelopeEncryptContext,
+  ): Promise<EncryptedEnvelope>;
+  decrypt(
+    payload: EncryptedEnvelope,
+    context: EnvelopeDecryptContext,
+  ): Promise<string>;
+}
+
+const codecs = new Map<string, EnvelopeCodec>();
+
+function codecKey(kind: ConversationType, version: string): string {
+  return `${kind}:${version}`;
+}
+
+/**
+ * Register the codec for an envelope version
+ * Registering a version again replaces the previous codec
+ *
+ * @param codec - Codec to register
+ */
+export function registerEnvelopeCodec(codec: EnvelopeCodec): void {
+  codecs.set(codecKey(codec.kind, codec.version), codec);
+}
+
+/**
+ * Look up the codec for an envelope version
+ *
+ * @param kind - Conversation type the envelope belongs to
+ * @param version - Version tag stored with the message
+ * @returns The registered codec
+ * @throws If no codec is registered for the version
+ */
+export function getEnvelopeCodec(
+  kind: ConversationType,
+  version: string | undefined,
+): EnvelopeCodec {
+  const codec = version ? codecs.get(codecKey(kind, version)) : undefined;
+  if (!codec) {
+    throw new Error(
+      version
+        ? `Unsupported ${kind} message version "${version}"`
+        : 'Message has no envelope version',
+    );
+  }
+  return codec;
+}
+
+/**
+ * Encrypt a message with a given envelope version
+ *
+ * @param kind - Conversation type
+ * @param version - Envelope version to seal the message with
+ * @param plaintext - Message content
+ * @param context - Keys and conversation needed by the codec
+ * @returns Encrypted payload ready for storage
+ */
+export function encryptEnvelope(
+  kind: ConversationType,
+  version: string,
+  plaintext: string,
+  context: EnvelopeEncryptContext,
+): Promise<EncryptedEnvelope> {
+  return getEnvelopeCodec(kind, version).encrypt(plaintext, context);
+}
+
+/**
+ * Decrypt a stored message with the codec for its envelope version
+ *
+ * @param context - The message plus the keys needed by the codec
+ * @returns Decrypted content and whether the envelope proved the sender
+ */
+export async function decryptEnvelope(
+  context: EnvelopeDecryptContext,
+): Promise<{content: string; authenticatesSender: boolean}> {
+  const payload = context.message.encryptedContent;
+  const codec = getEnvelopeCodec(context.message.type, payload?.version);
+
+  return {
+    content: await codec.decrypt(payload, context),
+    authenticatesSender: codec.authenticatesSender ?? false,
+  };
+}
+
+/**
+ * The message an envelope is sealed for ('tt-e3', 'tt-e4', 'tt-r1', 'tt-s1')
+ *
+ * @param context - Encrypt context of the message being sent
+ * @returns Context to bind into the envelope
+ */
+export function sendingMessageContext(
+  context: EnvelopeEncryptContext,
+): MessageContext {
+  if (!context.messageId) {
+    throw new Error('Message ID not found');
+  }
+  return {
+    conversationId: context.conversation.id,
+    senderId: context.senderId,
+    messageId: context.messageId,
+    expiresAt: context.expiresAt ?? null,
+  };
+}
+
+/**
+ * The message a stored envelope claims to be; bound envelopes only
+ * decrypt if it is the message they were sealed for
+ *
+ * @param message - Stored message
+ * @returns Context the envelope must have been bound to
+ */
+export function storedMessageContext(message: Message): MessageContext {
+  return {
+    conversationId: message.conversationId,
+    senderId: message.senderId,
+    messageId: message.id,
+    expiresAt: message.expiresAt ?? null,
+  };
+}
+
+async function requireDecryptionKey(
+  context: EnvelopeDecryptContext,
+): Promise<DecryptionKey> {
+  const decryptionKey = await context.getDecryptionKey?.();
+  if (!decryptionKey || !context.userId) {
+    throw new Error('Private key not found');
+  }
+  return {
+    ...decryptionKey,
+    keyId:
+      decryptionKey.keyId ??
+      context.conversation.participantKeys[context.userId]?.keyId,
+  };
+}
+
+/**
+ * Decrypt with the current key, then with replaced identity keys for
+ * history wrapped before a key change
+ */
+async function decryptDirectEnvelope(
+  payload: EncryptedEnvelope,
+  context: EnvelopeDecryptContext,
+): Promise<string> {
+  const message = payload as EncryptedMessage;
+  const {privateKey, keyId, previousKeys} = await requireDecryptionKey(context);
+
+  const attempts: Array<[JsonWebKey, string | undefined]> = [
+    [privateKey, keyId],
+    ...Object.entries(previousKeys ?? {})
+      .filter(
+        ([previousKeyId]) =>
+          message.version === 'tt-e1' || previousKeyId in message.keys,
+      )
+      .map(([previousKeyId, previousKey]): [JsonWebKey, string] => [
+        previousKey,
+        previousKeyId,
+      ]),
+  ];
+
+  let lastError: unknown;
+  for (const [attemptKey, attemptKeyId] of attempts) {
+    try {
+      return await decryptMessage(
+        message,
+        attemptKey,
+        attemptKeyId,
+        storedMessageContext(context.message),
+      );
+    } catch (error) {
+      lastError = error;
+    }
+  }
+  throw lastError;
+}
+
+function requireGroupKey(context: {groupKey?: CryptoKey}): CryptoKey {
+  if (!context.groupKey) {
+    throw new Error('Group key not found');
+  }
+  return context.groupKey;
+}
+
+// 'tt-e1' direct: AES key wrapped for the recipient only
+registerEnvelopeCodec({
+  kind: 'direct',
+  version: 'tt-e1',
+  encrypt: async (plaintext, {conversation, senderId, signer}) => {
+    const recipientId = conversation.participants.find(id => id !== senderId);
+    const recipientKey = recipientId
+      ? conversation.participantKeys[recipientId]
+      : undefined;
+    if (!recipientKey) {
+      throw new Error("Recipient's public key not found");
+    }
+    return encryptMessage(plaintext, recipientKey.publicKey, signer);
+  },
+  decrypt: decryptDirectEnvelope,
+});
+
+// 'tt-e2' direct: AES key wrapped for every participant and linked device
+registerEnvelopeCodec({
+  kind: 'direct',
+  version: 'tt-e2',
+  encrypt: (plaintext, {conversation, signer}) =>
+    encryptMessageForParticipants(
+      plaintext,
+      conversation.participantKeys,
+      signer,
+    ),
+  decrypt: decryptDirectEnvelope,
+});
+
+// 'tt-e3' direct: as 'tt-e2', bound to the message it was sent as
+registerEnvelopeCodec({
+  kind: 'direct',
+  version: 'tt-e3',
+  encrypt: (plaintext, context) =>
+    encryptMessageForParticipants(
+      plaintext,
+      context.conversation.participantKeys,
+      context.signer,
+      sendingMessageContext(context),
+    ),
+  decrypt: decryptDirectEnvelope,
+});
+
+// 'tt-e4' direct: as 'tt-e3', padded to hide the content's length
+registerEnvelopeCodec({
+  kind: 'direct',
+  version: 'tt-e4',
+  encrypt: (plaintext, context) =>
+    encryptMessageForParticipants(
+      plaintext,
+      context.conversation.participantKeys,
+      context.signer,
+      sendingMessageContext(context),
+      true,
+    ),
+  decrypt: decryptDirectEnvelope,
+});
+
+// 'tt-e1' group: shared group key, tagged with its keyId
+registerEnvelopeCodec({
+  kind: 'group',
+  version: 'tt-e1',
+  usesGroupKey: true,
+  encrypt: async (plaintext, context) => {
+    if (!context.groupKeyId) {
+      throw new Error('Group key ID not found');
+    }
+    return encryptGroupMessage(
+      plaintext,
+      requireGroupKey(context),
+      context.groupKeyId,
+      context.signer,
+    );
+  },
+  decrypt: async (payload, context) =>
+    decryptGroupMessage(
+      payload as GroupEncryptedMessage,
+      requireGroupKey(context),
+    ),
+});
+
+// 'tt-e3' group: as 'tt-e1', bound to the message it was sent as
+registerEnvelopeCodec({
+  kind: 'group',
+  version: 'tt-e3',
+  usesGroupKey: true,
+  encrypt: async (plaintext, context) => {
+    if (!context.groupKeyId) {
+      throw new Error('Group key ID not found');
+    }
+    return encryptGroupMessage(
+      plaintext,
+      requireGroupKey(context),
+      context.groupKeyId,
+      context.signer,
+      sendingMessageContext(context),
+    );
+  },
+  decrypt: async (payload, context) =>
+    decryptGroupMessage(
+      payload as GroupEncryptedMessage,
+      requireGroupKey(context),
+      storedMessageContext(context.message),
+    ),
+});
+
+// 'tt-e4' group: as 'tt-e3', padded to hide the content's length
+registerEnvelopeCodec({
+  kind: 'group',
+  version: 'tt-e4',
+  usesGroupKey: true,
+  encrypt: async (plaintext, context) => {
+    if (!context.groupKeyId) {
+      throw new Error('Group key ID not found');
+    }
+    return encryptGroupMessage(
+      plaintext,
+      requireGroupKey(context),
+      context.groupKeyId,
+      context.signer,
+      sendingMessageContext(context),
+      true,
+    );
+  },
+  decrypt: async (payload, context) =>
+    decryptGroupMessage(
+      payload as GroupEncryptedMessage,
+      requireGroupKey(context),
+      storedMessageContext(context.message),
+    ),
+});
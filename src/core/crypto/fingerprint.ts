@@ -0,0 +1,225 @@
+/**
+ * TibbyTalk - Safety Numbers
+ * Human-comparable fingerprints of two users' identity keys
+ *
+ * How it works:
+ * 1. Each user's fingerprint is an iterated SHA-512 hash of their user ID
+ *    and published public keys: the identity key, the signing key that
+ *    authorizes their messages and devices, and the agreement key that
+ *    sets up ratchet sessions
+ * 2. The first 30 bytes are shown as six 5-digit groups
+ * 3. The safety number is both users' groups, ordered by user ID, so
+ *    both sides see the same 60 digits
+ * 4. The QR payload carries both fingerprints so a scan can be checked
+ *    without reading digits aloud
+ */
+
+import {arrayBufferToBase64, base64ToArrayBuffer} from './utils';
+import type {User} from '../../types';
+
+const subtle = crypto.subtle;
+
+const FINGERPRINT_VERSION = 1;
+const QR_PAYLOAD_PREFIX = 'tt-fp2';
+
+// Hash iterations, as in Signal's numeric fingerprints
+const FINGERPRINT_ITERATIONS = 5200;
+
+// Bytes of each fingerprint shown as digits (6 groups of 5 bytes)
+const FINGERPRINT_BYTES = 30;
+
+export interface FingerprintIdentity {
+  userId: string;
+  publicKey: JsonWebKey;
+  signingKey?: JsonWebKey;
+  agreementKey?: JsonWebKey;
+}
+
+export interface SafetyNumber {
+  digits: string; // 60 digits
+  groups: string[]; // 12 groups of 5 digits, for display
+  qrPayload: string;
+}
+
+/**
+ * Encode the public members of a key in a fixed order
+ * Private members and metadata such as key_ops must not change the result
+ */
+function encodePublicKey(publicKey: JsonWebKey): string {
+  return [
+    publicKey.kty,
+    publicKey.crv,
+    publicKey.n,
+    publicKey.e,
+    publicKey.x,
+    publicKey.y,
+  ]
+    .filter(member => member !== undefined)
+    .join('.');
+}
+
+/**
+ * Get the identity a user's fingerprint is computed from
+ *
+ * @param user - User with their published keys
+ * @returns User ID and every published public key
+ */
+export function getFingerprintIdentity(
+  user: Pick<User, 'id' | 'publicKey' | 'signingKey' | 'agreementKey'>,
+): FingerprintIdentity {
+  return {
+    userId: user.id,
+    publicKey: user.publicKey,
+    signingKey: user.signingKey,
+    agreementKey: user.agreementKey,
+  };
+}
+
+/**
+ * Compute one user's fingerprint bytes
+ * Keys a user has not published are encoded as empty, in their fixed slot
+ */
+async function computeFingerprint(
+  identity: FingerprintIdentity,
+): Promise<Uint8Array> {
+  const encoder = new TextEncoder();
+  const keyBytes = encoder.encode(
+    [identity.publicKey, identity.signingKey, identity.agreementKey]
+      .map(publicKey => (publicKey ? encodePublicKey(publicKey) : ''))
+      .join('|'),
+  );
+  const idBytes = encoder.encode(identity.userId);
+
+  const input = new Uint8Array(2 + keyBytes.length + idBytes.length);
+  input.set([0, FINGERPRINT_VERSION]);
+  input.set(keyBytes, 2);
+  input.set(idBytes, 2 + keyBytes.length);
+
+  let hash = new Uint8Array(await subtle.digest('SHA-512', input));
+  for (let i = 1; i < FINGERPRINT_ITERATIONS; i++) {
+    const next = new Uint8Array(hash.length + keyBytes.length);
+    next.set(hash);
+    next.set(keyBytes, hash.length);
+    hash = new Uint8Array(await subtle.digest('SHA-512', next));
+  }
+
+  return hash.slice(0, FINGERPRINT_BYTES);
+}
+
+/**
+ * Get a user's fingerprint, to record which keys were verified
+ *
+ * @param identity - User ID and published public keys
+ * @returns Base64 fingerprint; changes whenever any of the keys changes
+ */
+export async function getIdentityFingerprint(
+  identity: FingerprintIdentity,
+): Promise<string> {
+  const fingerprint = await computeFingerprint(identity);
+  return arrayBufferToBase64(fingerprint.slice().buffer);
+}
+
+/**
+ * Render fingerprint bytes as 5-digit groups
+ */
+function toDigitGroups(fingerprint: Uint8Array): string[] {
+  const groups: string[] = [];
+  for (let i = 0; i < fingerprint.length; i += 5) {
+    let value = 0;
+    for (let j = 0; j < 5; j++) {
+      value = value * 256 + fingerprint[i + j];
+    }
+    groups.push(String(value % 100000).padStart(5, '0'));
+  }
+  return groups;
+}
+
+/**
+ * Build the QR payload shown by the local user
+ */
+function buildQrPayload(
+  localUserId: string,
+  localFingerprint: Uint8Array,
+  remoteUserId: string,
+  remoteFingerprint: Uint8Array,
+): string {
+  return [
+    QR_PAYLOAD_PREFIX,
+    localUserId,
+    arrayBufferToBase64(localFingerprint.slice().buffer),
+    remoteUserId,
+    arrayBufferToBase64(remoteFingerprint.slice().buffer),
+  ].join(':');
+}
+
+/**
+ * Generate the safety number for a pair of users
+ *
+ * @param local - Our user ID and public keys
+ * @param remote - Contact's user ID and public keys
+ * @returns Safety number digits and the QR payload to display
+ */
+export async function generateSafetyNumber(
+  local: FingerprintIdentity,
+  remote: FingerprintIdentity,
+): Promise<SafetyNumber> {
+  const localFingerprint = await computeFingerprint(local);
+  const remoteFingerprint = await computeFingerprint(remote);
+
+  const localGroups = toDigitGroups(localFingerprint);
+  const remoteGroups = toDigitGroups(remoteFingerprint);
+  const groups =
+    local.userId < remote.userId
+      ? [...localGroups, ...remoteGroups]
+      : [...remoteGroups, ...localGroups];
+
+  return {
+    digits: groups.join(''),
+    groups,
+    qrPayload: buildQrPayload(
+      local.userId,
+      localFingerprint,
+      remote.userId,
+      remoteFingerprint,
+    ),
+  };
+}
+
+/**
+ * Check a QR payload scanned from the contact's device
+ * Their payload lists them first, so it must mirror ours
+ *
+ * @param scannedPayload - Payload read from the contact's QR code
+ * @param local - Our user ID and public keys
+ * @param remote - Contact's user ID and public keys
+ * @returns True if both fingerprints match
+ */
+export async function verifySafetyNumberQr(
+  scannedPayload: string,
+  local: FingerprintIdentity,
+  remote: FingerprintIdentity,
+): Promise<boolean> {
+  const parts = scannedPayload.trim().split(':');
+  if (parts.length !== 5 || parts[0] !== QR_PAYLOAD_PREFIX) {
+    return false;
+  }
+
+  const [, scannedRemoteId, scannedRemote, scannedLocalId, scannedLocal] =
+    parts;
+  if (scannedRemoteId !== remote.userId || scannedLocalId !== local.userId) {
+    return false;
+  }
+
+  const localFingerprint = await computeFingerprint(local);
+  const remoteFingerprint = await computeFingerprint(remote);
+
+  return (
+    bytesEqual(localFingerprint, base64ToArrayBuffer(scannedLocal)) &&
+    bytesEqual(remoteFingerprint, base64ToArrayBuffer(scannedRemote))
+  );
+}
+
+function bytesEqual(a: Uint8Array, b: ArrayBuffer): boolean {
+  const other = new Uint8Array(b);
+  return a.length === other.length && a.every((byte, i) => byte === other[i]);
+}
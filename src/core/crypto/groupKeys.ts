@@ -1,13 +1,24 @@
 /**
  * TibbyTalk - Group Key Management
- * Implements Sender Keys pattern for efficient group encryption
+ * Shared group keys, which define the epochs of a group's membership
  *
  * How it works:
  * 1. When a group is created, generate a shared AES-256 key
- * 2. Encrypt the group key for each member using their RSA public key
- * 3. Store encrypted copies in groupKeyDistribution
- * 4. When sending a message, encrypt with the group key
- * 5. When a member is removed, rotate the group key
+ * 2. Wrap the group key for each member's identity key (see keyWrap.ts)
+ * 3. Store encrypted copies in groupKeyDistribution, and copies for each
+ *    member's linked devices in groupDeviceKeyDistribution
+ * 4. 'tt-e1' messages are encrypted with the group key and signed with
+ *    the sender's identity signing key; 'tt-e3' messages also bind the
+ *    message they belong to (see MessageContext in encryption.ts), and
+ *    'tt-e4' messages are padded to hide their length (see padding.ts). New
+ *    messages use per-sender chains instead (see senderKeys.ts), which
+ *    restart with each group key
+ * 5. When a member is removed, rotate the group key. Every bundle is kept
+ *    in groupKeys/{groupId}/keys/{keyId} so older messages can find the
+ *    key named by their keyId
+ *
+ * Groups in ratchet tree mode derive their keys from epochs instead (see
+ * ratchetTree.ts).
  */
 
 import {arrayBufferToBase64, base64ToArrayBuffer} from './utils';
@@ -15,18 +26,29 @@ import {
   generateGroupSymmetricKey,
   exportSymmetricKey,
   importSymmetricKey,
-  importPublicKey,
-  importPrivateKey,
 } from './keyGeneration';
-import type {GroupEncryptedMessage, ParticipantKey} from '../../types';
+import {wrapKeyForRecipient, unwrapKeyForRecipient} from './keyWrap';
+import {signPayload} from './signing';
+import {messageAdditionalData} from './encryption';
+import {padPlaintext, unpadPlaintext} from './padding';
+import type {MessageSigner} from './signing';
+import type {MessageContext} from './encryption';
+import type {
+  GroupEncryptedMessage,
+  GroupKeyRotationReason,
+  ParticipantKey,
+} from '../../types';
 
 const subtle = crypto.subtle;
 
 export interface GroupKeyBundle {
   keyId: string;
   encryptedKeys: Record<string, string>; // userId -> base64 encrypted key
+  deviceKeys: Record<string, Record<string, string>>; // userId -> deviceId -> base64 encrypted key
   createdAt: number;
   createdBy: string;
+  previousKeyId?: string; // Set on rotations
+  reason?: GroupKeyRotationReason; // Set on rotations
 }
 
 /**
@@ -46,23 +68,31 @@ export async function createGroupKeyBundle(
   // Export the raw key bytes
   const rawKeyBytes = await exportSymmetricKey(groupKey);
 
-  // Encrypt the key for each member
+  // Encrypt the key for each member and each of their linked devices
   const encryptedKeys: Record<string, string> = {};
+  const deviceKeys: Record<string, Record<string, string>> = {};
 
   for (const [userId, participantKey] of Object.entries(memberPublicKeys)) {
-    const publicKey = await importPublicKey(participantKey.publicKey);
-    const encryptedKeyBytes = await subtle.encrypt(
-      {name: 'RSA-OAEP'},
-      publicKey,
+    encryptedKeys[userId] = await wrapKeyForRecipient(
       rawKeyBytes,
+      participantKey.publicKey,
     );
-    encryptedKeys[userId] = arrayBufferToBase64(encryptedKeyBytes);
+
+    for (const [deviceId, deviceKey] of Object.entries(
+      participantKey.devices ?? {},
+    )) {
+      deviceKeys[userId] = {
+        ...deviceKeys[userId],
+        [deviceId]: await wrapKeyForRecipient(rawKeyBytes, deviceKey.publicKey),
+      };
+    }
   }
 
   return {
     keyBundle: {
       keyId,
       encryptedKeys,
+      deviceKeys,
       createdAt: Date.now(),
       createdBy: creatorId,
     },
@@ -74,22 +104,14 @@ export async function createGroupKeyBundle(
  * Decrypt the group key for a specific user
  *
  * @param encryptedKey - Base64 encoded encrypted group key for this user
- * @param privateKeyJwk - User's RSA private key (JWK)
+ * @param privateKeyJwk - User's identity or device private key (JWK)
  * @returns Decrypted group AES key
  */
 export async function decryptGroupKey(
   encryptedKey: string,
   privateKeyJwk: JsonWebKey,
 ): Promise<CryptoKey> {
-  const privateKey = await importPrivateKey(privateKeyJwk);
-  const encryptedKeyBytes = base64ToArrayBuffer(encryptedKey);
-
-  const rawKeyBytes = await subtle.decrypt(
-    {name: 'RSA-OAEP'},
-    privateKey,
-    encryptedKeyBytes,
-  );
-
+  const rawKeyBytes = await unwrapKeyForRecipient(encryptedKey, privateKeyJwk);
   return importSymmetricKey(rawKeyBytes);
 }
 
@@ -99,30 +121,51 @@ export async function decryptGroupKey(
  * @param plaintext - Message content to encrypt
  * @param groupKey - The group's shared AES key
  * @param keyId - The ID of the group key being used
+ * @param signer - Sender's signing key, to sign the payload
+ * @param context - The message being sent; when given, it is bound into
+ *   the ciphertext and the payload is a 'tt-e3' envelope
+ * @param padded - Pad the plaintext to hide its length ('tt-e4' envelope,
+ *   needs a context)
  * @returns Encrypted group message payload
  */
 export async function encryptGroupMessage(
   plaintext: string,
   groupKey: CryptoKey,
   keyId: string,
+  signer?: MessageSigner,
+  context?: MessageContext,
+  padded = false,
 ): Promise<GroupEncryptedMessage> {
-  const encoder = new TextEncoder();
-  const dataBytes = encoder.encode(plaintext);
+  if (padded && !context) {
+    throw new Error('Padded envelopes need a message context');
+  }
+  const version = padded ? 'tt-e4' : 'tt-e3';
+  const dataBytes = padded
+    ? padPlaintext(plaintext)
+    : new TextEncoder().encode(plaintext);
   const iv = crypto.getRandomValues(new Uint8Array(12));
 
   const encryptedData = await subtle.encrypt(
-    {name: 'AES-GCM', iv},
+    context
+      ? {
+          name: 'AES-GCM',
+          iv,
+          additionalData: messageAdditionalData(context, keyId, version),
+        }
+      : {name: 'AES-GCM', iv},
     groupKey,
     dataBytes,
   );
 
-  return {
+  const payload: GroupEncryptedMessage = {
     encrypted: true,
-    version: 'tt-e1',
+    version: context ? version : 'tt-e1',
     data: arrayBufferToBase64(encryptedData),
-    iv: arrayBufferToBase64(iv),
+    iv: arrayBufferToBase64(iv.buffer),
     keyId,
   };
+
+  return signer ? signPayload(payload, signer) : payload;
 }
 
 /**
@@ -130,47 +173,85 @@ export async function encryptGroupMessage(
  *
  * @param encryptedPayload - The encrypted group message
  * @param groupKey - The group's shared AES key
+ * @param context - The stored message (required from 'tt-e3' on);
+ *   decryption fails if it differs from the message the payload was sent as
  * @returns Decrypted message content
  */
 export async function decryptGroupMessage(
   encryptedPayload: GroupEncryptedMessage,
   groupKey: CryptoKey,
+  context?: MessageContext,
 ): Promise<string> {
   const iv = base64ToArrayBuffer(encryptedPayload.iv);
   const encryptedData = base64ToArrayBuffer(encryptedPayload.data);
 
+  let additionalData: Uint8Array<ArrayBuffer> | undefined;
+  if (
+    encryptedPayload.version === 'tt-e3' ||
+    encryptedPayload.version === 'tt-e4'
+  ) {
+    if (!context) {
+      throw new Error('Message context is required');
+    }
+    additionalData = messageAdditionalData(
+      context,
+      encryptedPayload.keyId,
+      encryptedPayload.version,
+    );
+  }
+
   const decryptedBytes = await subtle.decrypt(
-    {name: 'AES-GCM', iv},
+    additionalData
+      ? {name: 'AES-GCM', iv, additionalData}
+      : {name: 'AES-GCM', iv},
     groupKey,
     encryptedData,
   );
 
+  if (encryptedPayload.version === 'tt-e4') {
+    return unpadPlaintext(decryptedBytes);
+  }
   const decoder = new TextDecoder();
   return decoder.decode(decryptedBytes);
 }
 
 /**
- * Rotate group key (when a member is removed)
+ * Rotate group key (when a member is removed, or by rotation policy)
  * Creates a new key and encrypts it for remaining members only
  *
  * @param remainingMemberKeys - Public keys of members who should receive the new key
  * @param creatorId - ID of the user initiating the rotation
- * @returns New group key bundle
+ * @param previousKeyId - ID of the key being replaced, if known
+ * @param reason - Why the key is rotated
+ * @returns New group key bundle, linked to the key it replaces
  */
 export async function rotateGroupKey(
   remainingMemberKeys: Record<string, ParticipantKey>,
   creatorId: string,
+  previousKeyId: string | undefined,
+  reason: GroupKeyRotationReason,
 ): Promise<{keyBundle: GroupKeyBundle; groupKey: CryptoKey}> {
-  // Simply create a new key bundle for the remaining members
-  return createGroupKeyBundle(remainingMemberKeys, creatorId);
+  const {keyBundle, groupKey} = await createGroupKeyBundle(
+    remainingMemberKeys,
+    creatorId,
+  );
+  return {
+    keyBundle: {
+      ...keyBundle,
+      ...(previousKeyId && {previousKeyId}),
+      reason,
+    },
+    groupKey,
+  };
 }
 
 /**
  * Add a new member to a group
- * Encrypts the current group key for the new member
+ * Encrypts the current group key for the new member, or for one of a
+ * member's devices
  *
  * @param groupKey - The current group AES key
- * @param newMemberPublicKey - New member's public key (JWK)
+ * @param newMemberPublicKey - New member's or device's public key (JWK)
  * @returns Base64 encoded encrypted key for the new member
  */
 export async function addMemberToGroup(
@@ -178,13 +259,5 @@ export async function addMemberToGroup(
   newMemberPublicKey: JsonWebKey,
 ): Promise<string> {
   const rawKeyBytes = await exportSymmetricKey(groupKey);
-  const publicKey = await importPublicKey(newMemberPublicKey);
-
-  const encryptedKeyBytes = await subtle.encrypt(
-    {name: 'RSA-OAEP'},
-    publicKey,
-    rawKeyBytes,
-  );
-
-  return arrayBufferToBase64(encryptedKeyBytes);
+  return wrapKeyForRecipient(rawKeyBytes, newMemberPublicKey);
 }
@@ -5,25 +5,45 @@
 // Encryption functions
 export {
   encryptMessage,
+  encryptMessageForParticipants,
   decryptMessage,
+  messageAdditionalData,
   encryptWithSymmetricKey,
   decryptWithSymmetricKey,
   hashField,
   deriveKeyFromPassword,
+  deriveKeyFromPassphrase,
+  encryptKeyBundle,
+  decryptKeyBundle,
   exportPrivateKeys,
   importPrivateKeys,
+  isKeyBundleOutdated,
+  upgradeKeyBundle,
 } from './encryption';
+export type {MessageContext} from './encryption';
+
+// Length-hiding plaintext padding
+export {getPaddedLength, padPlaintext, unpadPlaintext} from './padding';
 
 // Key generation
 export {
   generateUserKeyPair,
+  generateAgreementKeyPair,
+  generateSigningKeyPair,
   generateGroupSymmetricKey,
   exportSymmetricKey,
   importSymmetricKey,
-  importPublicKey,
-  importPrivateKey,
 } from './keyGeneration';
 
+// Identity key wrapping (X25519 ECIES, legacy RSA-OAEP)
+export {
+  wrapKeyForRecipient,
+  unwrapKeyForRecipient,
+  isLegacyIdentityKey,
+  isKeyPairMatch,
+  getKeyAlgorithm,
+} from './keyWrap';
+
 // Group key management
 export {
   createGroupKeyBundle,
@@ -34,6 +54,136 @@ export {
   addMemberToGroup,
 } from './groupKeys';
 export type {GroupKeyBundle} from './groupKeys';
+export {
+  createRatchetTree,
+  updateTreeMembers,
+  createTreeCommit,
+  processTreeCommit,
+  signTreeCommit,
+  verifyTreeCommit,
+  remapNodeIndex,
+} from './ratchetTree';
+export type {
+  TreeMember,
+  RatchetTree,
+  RatchetTreeNode,
+  TreeCommit,
+  TreeKeyState,
+} from './ratchetTree';
+
+// Envelope codecs
+export {
+  registerEnvelopeCodec,
+  getEnvelopeCodec,
+  encryptEnvelope,
+  decryptEnvelope,
+  sendingMessageContext,
+  storedMessageContext,
+} from './envelopes';
+export type {
+  EnvelopeCodec,
+  EnvelopeEncryptContext,
+  EnvelopeDecryptContext,
+  DecryptionKey,
+} from './envelopes';
+
+// Session setup and Double Ratchet
+export {
+  exportRawPublicKey,
+  computeSharedSecret,
+  getAgreementCurve,
+  getRawPublicKeyCurve,
+  isLegacyAgreementKey,
+  hkdf,
+  hmacSha256,
+} from './keyAgreement';
+export type {AgreementCurve} from './keyAgreement';
+export {initiateSession, respondToSession} from './x3dh';
+export type {SessionSetup, InitiatedSessionSetup} from './x3dh';
+export {
+  generateRatchetKeyPair,
+  initializeInitiatorSession,
+  initializeResponderSession,
+  ratchetEncrypt,
+  ratchetDecrypt,
+} from './doubleRatchet';
+export type {RatchetKeyPair, RatchetState} from './doubleRatchet';
+export {
+  createSenderKey,
+  getSenderKeyDistribution,
+  initializeReceivingSenderKey,
+  senderKeyEncrypt,
+  senderKeyDecrypt,
+  sealSenderKeyDistribution,
+  openSenderKeyDistribution,
+} from './senderKeys';
+export type {
+  SenderKeyState,
+  SenderKeyDistribution,
+  SenderKeyBinding,
+} from './senderKeys';
+
+// Identity signatures and prekeys
+export {
+  signData,
+  verifySignature,
+  signPayload,
+  verifyPayloadSignature,
+  signDeviceKey,
+  verifyDeviceKey,
+  canonicalPublicKey,
+  isLegacySigningKey,
+} from './signing';
+export type {MessageSigner} from './signing';
+export {
+  generateSignedPreKey,
+  generateOneTimePreKeys,
+  verifySignedPreKey,
+} from './preKeys';
+export type {SignedPreKeyPair, OneTimePreKeyPair} from './preKeys';
+
+// Device provisioning
+export {
+  createProvisioningSession,
+  encodeLinkCode,
+  parseLinkCode,
+  sealProvisioningBundle,
+  openProvisioningBundle,
+} from './provisioning';
+export type {
+  ProvisioningRequest,
+  ProvisioningSession,
+  SealedProvisioningBundle,
+} from './provisioning';
+
+// Cloud key backup
+export {
+  generateRecoveryCode,
+  createBackupKey,
+  recoverBackupKey,
+  sealKeyBackup,
+  openKeyBackup,
+  exportGroupKeyForBackup,
+} from './keyBackup';
+export type {BackupKey} from './keyBackup';
+
+// Safety numbers
+export {
+  generateSafetyNumber,
+  verifySafetyNumberQr,
+  getFingerprintIdentity,
+  getIdentityFingerprint,
+} from './fingerprint';
+export type {FingerprintIdentity, SafetyNumber} from './fingerprint';
+
+// Attachment encryption
+export {
+  ATTACHMENT_VERSION,
+  ATTACHMENT_CHUNK_SIZE,
+  encryptAttachment,
+  decryptAttachment,
+} from './attachments';
+export type {EncryptedAttachment} from './attachments';
 
 // Utilities
 export {
@@ -41,4 +191,5 @@ export {
   base64ToArrayBuffer,
   generateUUID,
   generateKeyId,
+  concatBytes,
 } from './utils';
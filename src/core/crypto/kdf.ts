@@ -0,0 +1,99 @@
+/**
+ * TibbyTalk - Memory-Hard Key Derivation
+ * scrypt for passwords and passphrases that protect key bundles
+ *
+ * PBKDF2 only costs CPU time, which GPUs and ASICs parallelize cheaply.
+ * scrypt also needs 128 * N * r bytes of memory per guess, which makes
+ * large-scale guessing far more expensive. The parameters are stored with
+ * each bundle so they can be raised later without breaking old backups.
+ */
+
+import {scrypt} from 'react-native-quick-crypto';
+import type {ScryptParams} from '../../types';
+
+// 32 MiB of memory per guess
+export const DEFAULT_SCRYPT_PARAMS: ScryptParams = {N: 2 ** 15, r: 8, p: 1};
+
+// Bundles asking for more than this are rejected rather than derived,
+// so a crafted bundle cannot exhaust the device's memory
+const MAX_SCRYPT_MEMORY = 256 * 1024 * 1024;
+
+/**
+ * Check scrypt parameters read from a bundle
+ *
+ * @param params - Parameters to check
+ * @throws If the parameters are malformed or too expensive
+ */
+export function validateScryptParams(params: ScryptParams | undefined): void {
+  if (
+    !params ||
+    !Number.isInteger(params.N) ||
+    !Number.isInteger(params.r) ||
+    !Number.isInteger(params.p) ||
+    params.N < 2 ||
+    Math.log2(params.N) % 1 !== 0 ||
+    params.r < 1 ||
+    params.p < 1 ||
+    params.p > 16
+  ) {
+    throw new Error('Invalid key derivation parameters');
+  }
+
+  if (scryptMemory(params) > MAX_SCRYPT_MEMORY) {
+    throw new Error('Key derivation parameters are too expensive');
+  }
+}
+
+function scryptMemory(params: ScryptParams): number {
+  return 128 * params.N * params.r;
+}
+
+/**
+ * Check whether parameters are weaker than the current defaults
+ *
+ * @param params - Parameters stored in a bundle
+ * @returns True if the bundle should be re-encrypted
+ */
+export function isWeakerThanDefault(params: ScryptParams): boolean {
+  return (
+    scryptMemory(params) < scryptMemory(DEFAULT_SCRYPT_PARAMS) ||
+    params.p < DEFAULT_SCRYPT_PARAMS.p
+  );
+}
+
+/**
+ * Derive key bytes from a password with scrypt
+ *
+ * @param password - Password or passphrase
+ * @param salt - Random salt stored with the bundle
+ * @param params - scrypt cost parameters
+ * @returns 32 derived bytes
+ */
+export function deriveScryptBytes(
+  password: string,
+  salt: Uint8Array<ArrayBuffer>,
+  params: ScryptParams,
+): Promise<Uint8Array<ArrayBuffer>> {
+  validateScryptParams(params);
+
+  return new Promise((resolve, reject) => {
+    scrypt(
+      password.normalize('NFKC'),
+      salt.slice().buffer,
+      32,
+      {
+        N: params.N,
+        r: params.r,
+        p: params.p,
+        maxmem: 2 * scryptMemory(params),
+      },
+      (error, derivedKey) => {
+        if (error || !derivedKey) {
+          reject(error || new Error('Key derivation failed'));
+          return;
+        }
+        resolve(new Uint8Array(derivedKey));
+      },
+    );
+  });
+}
@@ -0,0 +1,192 @@
+/**
+ * TibbyTalk - Key Agreement Primitives
+ * X25519 (or legacy ECDH P-256), HKDF-SHA256 and HMAC-SHA256 building
+ * blocks shared by the X3DH session setup and the Double Ratchet
+ *
+ * Agreement keys created before the X25519 migration are P-256. Raw public
+ * keys tell the curves apart by length, so sessions started with P-256 keys
+ * keep ratcheting on P-256 until they are replaced.
+ */
+
+import {arrayBufferToBase64, base64ToArrayBuffer} from './utils';
+import {
+  getOkpPublicKeyBytes,
+  importOkpKey,
+  importRawOkpPublicKey,
+  isOkpKey,
+} from './okpKeys';
+
+const subtle = crypto.subtle;
+
+const ECDH_PARAMS = {name: 'ECDH', namedCurve: 'P-256'};
+
+const X25519_PUBLIC_KEY_LENGTH = 32;
+
+export type AgreementCurve = 'X25519' | 'P-256';
+
+/**
+ * Get the curve of an agreement key
+ *
+ * @param jwk - Public or private agreement key in JWK format
+ * @returns X25519, or P-256 for keys created before the migration
+ */
+export function getAgreementCurve(jwk: JsonWebKey): AgreementCurve {
+  return isOkpKey(jwk, 'X25519') ? 'X25519' : 'P-256';
+}
+
+/**
+ * Get the curve of a raw public key from its length
+ *
+ * @param publicKeyRaw - Public key as Base64 raw bytes
+ * @returns X25519 for 32-byte keys, P-256 for uncompressed points
+ */
+export function getRawPublicKeyCurve(publicKeyRaw: string): AgreementCurve {
+  return base64ToArrayBuffer(publicKeyRaw).byteLength ===
+    X25519_PUBLIC_KEY_LENGTH
+    ? 'X25519'
+    : 'P-256';
+}
+
+/**
+ * Check whether an agreement key still uses P-256 and should be migrated
+ *
+ * @param jwk - Agreement public or private key
+ * @returns True for P-256 keys
+ */
+export function isLegacyAgreementKey(jwk: JsonWebKey): boolean {
+  return getAgreementCurve(jwk) === 'P-256';
+}
+
+/**
+ * Export an agreement public key (JWK) as Base64 raw bytes
+ * Raw encoding is compact and stable, so it is used in message headers
+ *
+ * @param publicKeyJwk - X25519 (or P-256) public key in JWK format
+ * @returns Base64 encoded raw public key
+ */
+export async function exportRawPublicKey(
+  publicKeyJwk: JsonWebKey,
+): Promise<string> {
+  if (isOkpKey(publicKeyJwk, 'X25519')) {
+    return arrayBufferToBase64(getOkpPublicKeyBytes(publicKeyJwk).buffer);
+  }
+
+  const publicKey = await subtle.importKey(
+    'jwk',
+    publicKeyJwk,
+    ECDH_PARAMS,
+    true,
+    [],
+  );
+  const rawBytes = await subtle.exportKey('raw', publicKey);
+  return arrayBufferToBase64(rawBytes);
+}
+
+/**
+ * Compute an X25519 (or P-256) shared secret
+ * Both keys must be on the same curve
+ *
+ * @param privateKeyJwk - Our private key in JWK format
+ * @param publicKeyRaw - Their public key as Base64 raw bytes
+ * @returns 32-byte shared secret
+ */
+export async function computeSharedSecret(
+  privateKeyJwk: JsonWebKey,
+  publicKeyRaw: string,
+): Promise<Uint8Array<ArrayBuffer>> {
+  const curve = getAgreementCurve(privateKeyJwk);
+  if (getRawPublicKeyCurve(publicKeyRaw) !== curve) {
+    throw new Error('Key agreement curves do not match');
+  }
+
+  if (curve === 'X25519') {
+    const privateKey = await importOkpKey(privateKeyJwk, ['deriveBits']);
+    const publicKey = await importRawOkpPublicKey(
+      new Uint8Array(base64ToArrayBuffer(publicKeyRaw)),
+      'X25519',
+      [],
+    );
+    const sharedBits = await subtle.deriveBits(
+      {name: 'X25519', public: publicKey},
+      privateKey,
+      256,
+    );
+    return new Uint8Array(sharedBits);
+  }
+
+  const privateKey = await subtle.importKey(
+    'jwk',
+    privateKeyJwk,
+    ECDH_PARAMS,
+    false,
+    ['deriveBits'],
+  );
+  const publicKey = await subtle.importKey(
+    'raw',
+    base64ToArrayBuffer(publicKeyRaw),
+    ECDH_PARAMS,
+    false,
+    [],
+  );
+
+  const sharedBits = await subtle.deriveBits(
+    {name: 'ECDH', public: publicKey},
+    privateKey,
+    256,
+  );
+  return new Uint8Array(sharedBits);
+}
+
+/**
+ * Derive key material with HKDF-SHA256
+ *
+ * @param inputKeyMaterial - Secret input bytes
+ * @param salt - HKDF salt (use 32 zero bytes when there is none)
+ * @param info - Context string binding the output to its purpose
+ * @param length - Number of output bytes
+ * @returns Derived bytes
+ */
+export async function hkdf(
+  inputKeyMaterial: Uint8Array<ArrayBuffer>,
+  salt: Uint8Array<ArrayBuffer>,
+  info: string,
+  length: number,
+): Promise<Uint8Array<ArrayBuffer>> {
+  const baseKey = await subtle.importKey(
+    'raw',
+    inputKeyMaterial,
+    {name: 'HKDF'},
+    false,
+    ['deriveBits'],
+  );
+
+  const encoder = new TextEncoder();
+  const derivedBits = await subtle.deriveBits(
+    {name: 'HKDF', hash: 'SHA-256', salt, info: encoder.encode(info)},
+    baseKey,
+    length * 8,
+  );
+  return new Uint8Array(derivedBits);
+}
+
+/**
+ * Compute HMAC-SHA256
+ *
+ * @param keyBytes - HMAC key
+ * @param data - Data to authenticate
+ * @returns 32-byte MAC
+ */
+export async function hmacSha256(
+  keyBytes: Uint8Array<ArrayBuffer>,
+  data: Uint8Array<ArrayBuffer>,
+): Promise<Uint8Array<ArrayBuffer>> {
+  const hmacKey = await subtle.importKey(
+    'raw',
+    keyBytes,
+    {name: 'HMAC', hash: 'SHA-256'},
+    false,
+    ['sign'],
+  );
+  const mac = await subtle.sign('HMAC', hmacKey, data);
+  return new Uint8Array(mac);
+}
@@ -0,0 +1,234 @@
+/**
+ * TibbyTalk - Cloud Key Backup
+ * Encrypts private keys for storage on the server
+ *
+ * The backup is protected by one of:
+ * - A generated recovery code (160 random bits), stretched with HKDF
+ * - A user-chosen passphrase, stretched with scrypt so guesses are
+ *   expensive in both time and memory
+ *
+ * The derived key is kept in the keychain so the backup can be refreshed
+ * when keys change without asking for the code again. The server only
+ * ever sees the encrypted bundle.
+ */
+
+import {hkdf} from './keyAgreement';
+import {DEFAULT_SCRYPT_PARAMS, deriveScryptBytes} from './kdf';
+import {encryptKeyBundle, decryptKeyBundle} from './encryption';
+import {arrayBufferToBase64, base64ToArrayBuffer} from './utils';
+import type {
+  EncryptedKeyBundle,
+  KeyBackupMethod,
+  ScryptParams,
+} from '../../types';
+
+const subtle = crypto.subtle;
+
+const BACKUP_KDF_INFO = 'TibbyTalk-KeyBackup';
+const BACKUP_ALGORITHMS: Record<KeyBackupMethod, string> = {
+  recoveryCode: 'HKDF-AES-GCM-256',
+  passphrase: 'SCRYPT-AES-GCM-256',
+};
+
+// Crockford base32: no I, L, O or U, so codes are easy to read back
+const RECOVERY_CODE_ALPHABET = '0123456789ABCDEFGHJKMNPQRSTVWXYZ';
+const RECOVERY_CODE_LENGTH = 32; // 160 bits
+const RECOVERY_CODE_GROUP = 4;
+
+const MIN_PASSPHRASE_LENGTH = 12;
+
+export interface BackupKey {
+  method: KeyBackupMethod;
+  key: string; // Base64 AES-256 key
+  salt: string; // Base64
+  kdfParams?: ScryptParams;
+}
+
+/**
+ * Generate a recovery code for the cloud backup
+ *
+ * @returns Code like "7K3M-Q9TZ-..." (8 groups of 4 characters)
+ */
+export function generateRecoveryCode(): string {
+  // 256 is a multiple of 32, so each byte gives 5 unbiased bits
+  const bytes = crypto.getRandomValues(new Uint8Array(RECOVERY_CODE_LENGTH));
+  const code = Array.from(
+    bytes,
+    byte => RECOVERY_CODE_ALPHABET[byte % RECOVERY_CODE_ALPHABET.length],
+  ).join('');
+
+  const groups = code.match(new RegExp(`.{${RECOVERY_CODE_GROUP}}`, 'g'));
+  return groups!.join('-');
+}
+
+/**
+ * Normalize a typed recovery code: ignore case, spaces and dashes, and
+ * accept the letters Crockford base32 leaves out for their look-alikes
+ */
+function normalizeRecoveryCode(code: string): string {
+  const normalized = code
+    .toUpperCase()
+    .replace(/[^0-9A-Z]/g, '')
+    .replace(/O/g, '0')
+    .replace(/[IL]/g, '1');
+
+  if (
+    normalized.length !== RECOVERY_CODE_LENGTH ||
+    [...normalized].some(c => !RECOVERY_CODE_ALPHABET.includes(c))
+  ) {
+    throw new Error('Invalid recovery code');
+  }
+  return normalized;
+}
+
+/**
+ * Derive the key protecting a cloud backup
+ *
+ * @param method - Recovery code or passphrase
+ * @param secret - The recovery code or passphrase
+ * @param salt - Random salt stored with the backup
+ * @param kdfParams - scrypt parameters (passphrase backups)
+ * @returns Backup key to keep in the keychain
+ */
+async function deriveBackupKey(
+  method: KeyBackupMethod,
+  secret: string,
+  salt: Uint8Array<ArrayBuffer>,
+  kdfParams?: ScryptParams,
+): Promise<BackupKey> {
+  let keyBytes: Uint8Array<ArrayBuffer>;
+  if (method === 'recoveryCode') {
+    const encoder = new TextEncoder();
+    keyBytes = await hkdf(
+      encoder.encode(normalizeRecoveryCode(secret)),
+      salt,
+      BACKUP_KDF_INFO,
+      32,
+    );
+  } else {
+    if (!kdfParams) {
+      throw new Error('Missing key derivation parameters');
+    }
+    keyBytes = await deriveScryptBytes(secret, salt, kdfParams);
+  }
+
+  const backupKey: BackupKey = {
+    method,
+    key: arrayBufferToBase64(keyBytes.buffer),
+    salt: arrayBufferToBase64(salt.buffer),
+  };
+  if (kdfParams) {
+    backupKey.kdfParams = kdfParams;
+  }
+  return backupKey;
+}
+
+/**
+ * Derive a new backup key with a fresh salt
+ *
+ * @param method - Recovery code or passphrase
+ * @param secret - The recovery code or passphrase
+ * @returns Backup key to keep in the keychain
+ */
+export async function createBackupKey(
+  method: KeyBackupMethod,
+  secret: string,
+): Promise<BackupKey> {
+  if (method === 'passphrase' && secret.length < MIN_PASSPHRASE_LENGTH) {
+    throw new Error(
+      `Passphrase must be at least ${MIN_PASSPHRASE_LENGTH} characters`,
+    );
+  }
+
+  const salt = crypto.getRandomValues(new Uint8Array(32));
+  return deriveBackupKey(
+    method,
+    secret,
+    salt,
+    method === 'passphrase' ? DEFAULT_SCRYPT_PARAMS : undefined,
+  );
+}
+
+/**
+ * Derive the backup key for an existing backup from its code or passphrase
+ *
+ * @param bundle - Backup downloaded from the server
+ * @param method - How the backup is protected
+ * @param secret - The recovery code or passphrase
+ * @returns Backup key to keep in the keychain
+ */
+export async function recoverBackupKey(
+  bundle: EncryptedKeyBundle,
+  method: KeyBackupMethod,
+  secret: string,
+): Promise<BackupKey> {
+  if (bundle.algorithm !== BACKUP_ALGORITHMS[method]) {
+    throw new Error('Unsupported key backup');
+  }
+
+  const salt = new Uint8Array(base64ToArrayBuffer(bundle.salt));
+  return deriveBackupKey(method, secret, salt, bundle.kdfParams);
+}
+
+async function importBackupKey(backupKey: BackupKey): Promise<CryptoKey> {
+  return subtle.importKey(
+    'raw',
+    base64ToArrayBuffer(backupKey.key),
+    {name: 'AES-GCM'},
+    false,
+    ['encrypt', 'decrypt'],
+  );
+}
+
+/**
+ * Export a group key so it can be included in a backup
+ *
+ * @param groupKey - AES-256-GCM group key (extractable)
+ * @returns The key as a JWK
+ */
+export async function exportGroupKeyForBackup(
+  groupKey: CryptoKey,
+): Promise<JsonWebKey> {
+  return subtle.exportKey('jwk', groupKey);
+}
+
+/**
+ * Encrypt private keys for the cloud backup
+ *
+ * @param privateKeys - Object mapping key name -> private key (JWK)
+ * @param backupKey - Key from createBackupKey or recoverBackupKey
+ * @returns Encrypted bundle to upload
+ */
+export async function sealKeyBackup(
+  privateKeys: Record<string, JsonWebKey>,
+  backupKey: BackupKey,
+): Promise<EncryptedKeyBundle> {
+  return encryptKeyBundle(privateKeys, await importBackupKey(backupKey), {
+    algorithm: BACKUP_ALGORITHMS[backupKey.method],
+    iterations: 0,
+    salt: new Uint8Array(base64ToArrayBuffer(backupKey.salt)),
+    kdfParams: backupKey.kdfParams,
+  });
+}
+
+/**
+ * Decrypt a cloud backup
+ *
+ * @param bundle - Backup downloaded from the server
+ * @param backupKey - Key from recoverBackupKey
+ * @returns Decrypted private keys
+ */
+export async function openKeyBackup(
+  bundle: EncryptedKeyBundle,
+  backupKey: BackupKey,
+): Promise<Record<string, JsonWebKey>> {
+  try {
+    return await decryptKeyBundle(bundle, await importBackupKey(backupKey));
+  } catch {
+    throw new Error(
+      backupKey.method === 'recoveryCode'
+        ? 'Incorrect recovery code'
+        : 'Incorrect passphrase',
+    );
+  }
+}
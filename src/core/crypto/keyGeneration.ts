@@ -1,29 +1,48 @@
 /**
  * TibbyTalk - Key Generation Module
- * RSA-2048-OAEP key pair generation for user identity
+ * X25519 key pair generation for user identity (message key wrapping)
+ * and for session key agreement (X3DH, prekeys and the Double Ratchet)
+ * Ed25519 key pair generation for identity signatures
  */
 
 import {generateKeyId} from './utils';
+import {generateOkpKeyPair} from './okpKeys';
+import type {AgreementCurve} from './keyAgreement';
 import type {KeyPair} from '../../types';
 
 const subtle = crypto.subtle;
 
 /**
- * Generate a new RSA-2048 key pair for a user
- * Called once during registration, private key stored securely on device
+ * Generate a new X25519 identity key pair for a user or linked device
+ * Called during registration, private key stored securely on device.
+ * Accounts created earlier have RSA-2048 keys until they are migrated.
  *
  * @returns Key pair with public/private keys in JWK format
  */
 export async function generateUserKeyPair(): Promise<KeyPair> {
+  return generateOkpKeyPair('X25519', ['deriveBits'], generateKeyId());
+}
+
+/**
+ * Generate a new key pair for session key agreement
+ * Published next to the identity key so contacts can start ratchet
+ * sessions. P-256 is only used to continue sessions started with agreement
+ * keys created before the X25519 migration, and for device provisioning.
+ *
+ * @param curve - X25519, or P-256 for legacy sessions
+ * @returns Key pair with public/private keys in JWK format
+ */
+export async function generateAgreementKeyPair(
+  curve: AgreementCurve = 'X25519',
+): Promise<KeyPair> {
+  if (curve === 'X25519') {
+    return generateOkpKeyPair('X25519', ['deriveBits'], generateKeyId());
+  }
+
   const keyPair = await subtle.generateKey(
-    {
-      name: 'RSA-OAEP',
-      modulusLength: 2048,
-      publicExponent: new Uint8Array([1, 0, 1]),
-      hash: 'SHA-256',
-    },
+    {name: 'ECDH', namedCurve: 'P-256'},
     true, // extractable
-    ['encrypt', 'decrypt'],
+    ['deriveBits'],
   );
 
   const publicKey = await subtle.exportKey('jwk', keyPair.publicKey);
@@ -37,6 +56,17 @@ export async function generateUserKeyPair(): Promise<KeyPair> {
   };
 }
 
+/**
+ * Generate a new Ed25519 key pair for identity signatures
+ * Used to sign prekeys so contacts can check they came from the user.
+ * Signing keys created earlier are ECDSA P-256 and still verify.
+ *
+ * @returns Key pair with public/private keys in JWK format
+ */
+export async function generateSigningKeyPair(): Promise<KeyPair> {
+  return generateOkpKeyPair('Ed25519', ['sign', 'verify'], generateKeyId());
+}
+
 /**
  * Generate a symmetric AES-256 key for group encryption
  *
@@ -58,7 +88,7 @@ export async function generateGroupSymmetricKey(): Promise<{
 }
 
 /**
- * Export a symmetric key to raw bytes (for RSA encryption)
+ * Export a symmetric key to raw bytes (for wrapping)
  *
  * @param key - The CryptoKey to export
  * @returns Raw key bytes as ArrayBuffer
@@ -81,39 +111,3 @@ export async function importSymmetricKey(
     'decrypt',
   ]);
 }
-
-/**
- * Import an RSA public key from JWK format
- *
- * @param publicKeyJwk - Public key in JWK format
- * @returns Imported CryptoKey for encryption
- */
-export async function importPublicKey(
-  publicKeyJwk: JsonWebKey,
-): Promise<CryptoKey> {
-  return subtle.importKey(
-    'jwk',
-    publicKeyJwk,
-    {name: 'RSA-OAEP', hash: 'SHA-256'},
-    false,
-    ['encrypt'],
-  );
-}
-
-/**
- * Import an RSA private key from JWK format
- *
- * @param privateKeyJwk - Private key in JWK format
- * @returns Imported CryptoKey for decryption
- */
-export async function importPrivateKey(
-  privateKeyJwk: JsonWebKey,
-): Promise<CryptoKey> {
-  return subtle.importKey(
-    'jwk',
-    privateKeyJwk,
-    {name: 'RSA-OAEP', hash: 'SHA-256'},
-    false,
-    ['decrypt'],
-  );
-}
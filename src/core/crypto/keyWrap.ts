@@ -0,0 +1,240 @@
+/**
+ * TibbyTalk - Message Key Wrapping
+ * Encrypts per-message and group AES keys for a recipient's identity key
+ *
+ * Identity keys are X25519. A key is wrapped ECIES-style: an ephemeral
+ * X25519 key pair is generated, the shared secret with the recipient's key
+ * is stretched with HKDF into a one-time AES-256-GCM key, and the wrapped
+ * key is ephemeral public key (32) || IV (12) || ciphertext.
+ *
+ * Accounts created before the migration have RSA-2048-OAEP identity keys.
+ * Wrapping for them, and unwrapping history wrapped for them, still works:
+ * the recipient key's type selects the scheme.
+ */
+
+import {arrayBufferToBase64, base64ToArrayBuffer, concatBytes} from './utils';
+import {hkdf} from './keyAgreement';
+import {
+  importOkpKey,
+  importRawOkpPublicKey,
+  exportOkpPublicKey,
+  getOkpPublicKeyBytes,
+  isOkpKey,
+} from './okpKeys';
+import type {OkpCryptoKeyPair} from './okpKeys';
+
+const subtle = crypto.subtle;
+
+const ECIES_INFO = 'TibbyTalk-ECIES-X25519';
+const X25519_KEY_LENGTH = 32;
+const IV_LENGTH = 12;
+
+const RSA_PARAMS = {name: 'RSA-OAEP', hash: 'SHA-256'};
+
+/**
+ * Derive the one-time AES key for an ECIES wrap
+ * Both public keys go into the salt so the key is bound to this recipient
+ */
+async function deriveWrappingKey(
+  sharedSecret: ArrayBuffer,
+  ephemeralPublicKey: Uint8Array<ArrayBuffer>,
+  recipientPublicKey: Uint8Array<ArrayBuffer>,
+  usage: 'encrypt' | 'decrypt',
+): Promise<CryptoKey> {
+  const keyBytes = await hkdf(
+    new Uint8Array(sharedSecret),
+    concatBytes(ephemeralPublicKey, recipientPublicKey),
+    ECIES_INFO,
+    32,
+  );
+  return subtle.importKey('raw', keyBytes, {name: 'AES-GCM'}, false, [usage]);
+}
+
+async function eciesWrap(
+  rawKey: ArrayBuffer,
+  recipientPublicKeyJwk: JsonWebKey,
+): Promise<string> {
+  const recipientKey = await importOkpKey(recipientPublicKeyJwk, []);
+  const ephemeral = (await subtle.generateKey('X25519', true, [
+    'deriveBits',
+  ])) as OkpCryptoKeyPair;
+
+  const sharedSecret = await subtle.deriveBits(
+    {name: 'X25519', public: recipientKey},
+    ephemeral.privateKey,
+    256,
+  );
+  const ephemeralPublicKey = getOkpPublicKeyBytes(
+    await exportOkpPublicKey(ephemeral.publicKey, 'X25519'),
+  );
+  const wrappingKey = await deriveWrappingKey(
+    sharedSecret,
+    ephemeralPublicKey,
+    getOkpPublicKeyBytes(recipientPublicKeyJwk),
+    'encrypt',
+  );
+
+  const iv = crypto.getRandomValues(new Uint8Array(IV_LENGTH));
+  const ciphertext = await subtle.encrypt(
+    {name: 'AES-GCM', iv},
+    wrappingKey,
+    rawKey,
+  );
+
+  return arrayBufferToBase64(
+    concatBytes(ephemeralPublicKey, iv, new Uint8Array(ciphertext)).buffer,
+  );
+}
+
+async function eciesUnwrap(
+  wrappedKey: string,
+  privateKeyJwk: JsonWebKey,
+): Promise<ArrayBuffer> {
+  const bytes = new Uint8Array(base64ToArrayBuffer(wrappedKey));
+  if (bytes.length <= X25519_KEY_LENGTH + IV_LENGTH) {
+    throw new Error('Invalid wrapped key');
+  }
+
+  const ephemeralPublicKey = bytes.slice(0, X25519_KEY_LENGTH);
+  const iv = bytes.slice(X25519_KEY_LENGTH, X25519_KEY_LENGTH + IV_LENGTH);
+  const ciphertext = bytes.slice(X25519_KEY_LENGTH + IV_LENGTH);
+
+  const privateKey = await importOkpKey(privateKeyJwk, ['deriveBits']);
+  const ephemeralKey = await importRawOkpPublicKey(
+    ephemeralPublicKey,
+    'X25519',
+    [],
+  );
+
+  const sharedSecret = await subtle.deriveBits(
+    {name: 'X25519', public: ephemeralKey},
+    privateKey,
+    256,
+  );
+  const wrappingKey = await deriveWrappingKey(
+    sharedSecret,
+    ephemeralPublicKey,
+    getOkpPublicKeyBytes(privateKeyJwk),
+    'decrypt',
+  );
+
+  return subtle.decrypt({name: 'AES-GCM', iv}, wrappingKey, ciphertext);
+}
+
+/**
+ * Wrap a symmetric key for a recipient's identity or device key
+ *
+ * @param rawKey - Raw AES key bytes
+ * @param publicKeyJwk - Recipient's X25519 (or legacy RSA) public key
+ * @returns Base64 wrapped key
+ */
+export async function wrapKeyForRecipient(
+  rawKey: ArrayBuffer,
+  publicKeyJwk: JsonWebKey,
+): Promise<string> {
+  if (isOkpKey(publicKeyJwk, 'X25519')) {
+    return eciesWrap(rawKey, publicKeyJwk);
+  }
+
+  if (publicKeyJwk.kty !== 'RSA') {
+    throw new Error('Unsupported identity key type');
+  }
+  const publicKey = await subtle.importKey(
+    'jwk',
+    publicKeyJwk,
+    RSA_PARAMS,
+    false,
+    ['encrypt'],
+  );
+  const wrapped = await subtle.encrypt({name: 'RSA-OAEP'}, publicKey, rawKey);
+  return arrayBufferToBase64(wrapped);
+}
+
+/**
+ * Unwrap a symmetric key with an identity or device private key
+ *
+ * @param wrappedKey - Base64 wrapped key
+ * @param privateKeyJwk - X25519 (or legacy RSA) private key
+ * @returns Raw AES key bytes
+ */
+export async function unwrapKeyForRecipient(
+  wrappedKey: string,
+  privateKeyJwk: JsonWebKey,
+): Promise<ArrayBuffer> {
+  if (isOkpKey(privateKeyJwk, 'X25519')) {
+    return eciesUnwrap(wrappedKey, privateKeyJwk);
+  }
+
+  if (privateKeyJwk.kty !== 'RSA') {
+    throw new Error('Unsupported identity key type');
+  }
+  const privateKey = await subtle.importKey(
+    'jwk',
+    privateKeyJwk,
+    RSA_PARAMS,
+    false,
+    ['decrypt'],
+  );
+  return subtle.decrypt(
+    {name: 'RSA-OAEP'},
+    privateKey,
+    base64ToArrayBuffer(wrappedKey),
+  );
+}
+
+/**
+ * Check whether an identity key still uses RSA and should be migrated
+ *
+ * @param jwk - Identity public or private key
+ * @returns True for RSA keys
+ */
+export function isLegacyIdentityKey(jwk: JsonWebKey): boolean {
+  return jwk.kty === 'RSA';
+}
+
+/**
+ * Check that a private key belongs to a published public key
+ *
+ * @param privateKeyJwk - Private key (JWK)
+ * @param publicKeyJwk - Published public key (JWK)
+ * @returns True if they form a key pair
+ */
+export function isKeyPairMatch(
+  privateKeyJwk: JsonWebKey,
+  publicKeyJwk: JsonWebKey,
+): boolean {
+  if (privateKeyJwk.kty !== publicKeyJwk.kty) {
+    return false;
+  }
+  return privateKeyJwk.kty === 'RSA'
+    ? privateKeyJwk.n === publicKeyJwk.n
+    : privateKeyJwk.crv === publicKeyJwk.crv &&
+        privateKeyJwk.x === publicKeyJwk.x &&
+        privateKeyJwk.y === publicKeyJwk.y;
+}
+
+/**
+ * Describe the algorithm of a key for display
+ *
+ * @param jwk - Public or private key (JWK)
+ * @param purpose - What the key is used for ("ECDH" or "ECDSA" for P-256)
+ * @returns Label such as "X25519" or "RSA-2048"
+ */
+export function getKeyAlgorithm(
+  jwk: JsonWebKey,
+  purpose: 'ECDH' | 'ECDSA' = 'ECDH',
+): string {
+  switch (jwk.kty) {
+    case 'OKP':
+      return jwk.crv ?? 'OKP';
+    case 'EC':
+      return `${purpose} ${jwk.crv ?? ''}`.trim();
+    case 'RSA': {
+      // n is base64url: 4 characters per 3 bytes, 128 bytes per 1024 bits
+      const modulusBytes = Math.floor(((jwk.n?.length ?? 0) * 3) / 4);
+      return `RSA-${Math.round(modulusBytes / 128) * 1024}`;
+    }
+    default:
+      return 'Unknown';
+  }
+}
@@ -0,0 +1,187 @@
+/**
+ * TibbyTalk - X25519 / Ed25519 Key Encoding
+ * Converts between JWK (kty "OKP") and the SPKI / PKCS#8 encodings
+ *
+ * Keys are stored and published as JWK like every other key in the app,
+ * but react-native-quick-crypto only imports and exports OKP keys as
+ * SPKI / PKCS#8. Both encodings are a fixed DER prefix followed by the
+ * 32 raw key bytes, so the conversion is a prefix swap.
+ */
+
+import {arrayBufferToBase64, base64ToArrayBuffer, concatBytes} from './utils';
+import type {KeyPair} from '../../types';
+
+const subtle = crypto.subtle;
+
+export type OkpCurve = 'X25519' | 'Ed25519';
+export type OkpKeyUsage = 'deriveBits' | 'sign' | 'verify';
+
+export interface OkpCryptoKeyPair {
+  publicKey: CryptoKey;
+  privateKey: CryptoKey;
+}
+
+// DER prefixes from RFC 8410
+const SPKI_PREFIXES: Record<OkpCurve, number[]> = {
+  X25519: [
+    0x30, 0x2a, 0x30, 0x05, 0x06, 0x03, 0x2b, 0x65, 0x6e, 0x03, 0x21, 0x00,
+  ],
+  Ed25519: [
+    0x30, 0x2a, 0x30, 0x05, 0x06, 0x03, 0x2b, 0x65, 0x70, 0x03, 0x21, 0x00,
+  ],
+};
+const PKCS8_PREFIXES: Record<OkpCurve, number[]> = {
+  X25519: [
+    0x30, 0x2e, 0x02, 0x01, 0x00, 0x30, 0x05, 0x06, 0x03, 0x2b, 0x65, 0x6e,
+    0x04, 0x22, 0x04, 0x20,
+  ],
+  Ed25519: [
+    0x30, 0x2e, 0x02, 0x01, 0x00, 0x30, 0x05, 0x06, 0x03, 0x2b, 0x65, 0x70,
+    0x04, 0x22, 0x04, 0x20,
+  ],
+};
+
+const OKP_KEY_LENGTH = 32;
+
+function toBase64Url(bytes: Uint8Array<ArrayBuffer>): string {
+  return arrayBufferToBase64(bytes.slice().buffer)
+    .replace(/\+/g, '-')
+    .replace(/\//g, '_')
+    .replace(/[=]+$/, '');
+}
+
+function fromBase64Url(value: string): Uint8Array<ArrayBuffer> {
+  const base64 = value.replace(/-/g, '+').replace(/_/g, '/');
+  const padding = '='.repeat((4 - (base64.length % 4)) % 4);
+  return new Uint8Array(base64ToArrayBuffer(base64 + padding));
+}
+
+/**
+ * The raw key is always the last 32 bytes of its DER encoding
+ */
+function lastKeyBytes(der: ArrayBuffer): Uint8Array<ArrayBuffer> {
+  return new Uint8Array(der.slice(der.byteLength - OKP_KEY_LENGTH));
+}
+
+/**
+ * Check whether a JWK is an X25519 or Ed25519 key
+ *
+ * @param jwk - Key in JWK format
+ * @param curve - Curve to check for
+ * @returns True if the key is on the given curve
+ */
+export function isOkpKey(jwk: JsonWebKey, curve: OkpCurve): boolean {
+  return jwk.kty === 'OKP' && jwk.crv === curve;
+}
+
+/**
+ * Import an X25519 or Ed25519 key from JWK
+ *
+ * @param jwk - Key in JWK format (kty "OKP")
+ * @param usages - Key usages; empty for X25519 public keys
+ * @returns Imported CryptoKey
+ */
+export async function importOkpKey(
+  jwk: JsonWebKey,
+  usages: OkpKeyUsage[],
+): Promise<CryptoKey> {
+  const curve = jwk.crv as OkpCurve;
+  if (jwk.kty !== 'OKP' || !SPKI_PREFIXES[curve] || !jwk.x) {
+    throw new Error('Unsupported key type');
+  }
+
+  if (jwk.d) {
+    return subtle.importKey(
+      'pkcs8',
+      concatBytes(new Uint8Array(PKCS8_PREFIXES[curve]), fromBase64Url(jwk.d))
+        .buffer,
+      {name: curve},
+      false,
+      usages,
+    );
+  }
+
+  return importRawOkpPublicKey(fromBase64Url(jwk.x), curve, usages);
+}
+
+/**
+ * Get the raw 32 public key bytes of an X25519 or Ed25519 key
+ *
+ * @param jwk - Public or private key in JWK format
+ * @returns Raw public key bytes
+ */
+export function getOkpPublicKeyBytes(
+  jwk: JsonWebKey,
+): Uint8Array<ArrayBuffer> {
+  if (jwk.kty !== 'OKP' || !jwk.x) {
+    throw new Error('Unsupported key type');
+  }
+  return fromBase64Url(jwk.x);
+}
+
+/**
+ * Import a raw X25519 or Ed25519 public key
+ *
+ * @param publicKeyBytes - Raw 32-byte public key
+ * @param curve - Curve of the key
+ * @param usages - Key usages; empty for X25519
+ * @returns Imported CryptoKey
+ */
+export async function importRawOkpPublicKey(
+  publicKeyBytes: Uint8Array<ArrayBuffer>,
+  curve: OkpCurve,
+  usages: OkpKeyUsage[],
+): Promise<CryptoKey> {
+  return subtle.importKey(
+    'spki',
+    concatBytes(new Uint8Array(SPKI_PREFIXES[curve]), publicKeyBytes).buffer,
+    {name: curve},
+    true,
+    usages,
+  );
+}
+
+/**
+ * Export a public X25519 or Ed25519 key as JWK
+ *
+ * @param publicKey - Extractable public CryptoKey
+ * @param curve - Curve of the key
+ * @returns Public key in JWK format
+ */
+export async function exportOkpPublicKey(
+  publicKey: CryptoKey,
+  curve: OkpCurve,
+): Promise<JsonWebKey> {
+  const spki = await subtle.exportKey('spki', publicKey);
+  return {kty: 'OKP', crv: curve, x: toBase64Url(lastKeyBytes(spki))};
+}
+
+/**
+ * Generate an X25519 or Ed25519 key pair in JWK format
+ *
+ * @param curve - X25519 for key agreement, Ed25519 for signatures
+ * @param usages - Usages of the private key
+ * @param keyId - ID for the key pair
+ * @returns Key pair with public/private keys in JWK format
+ */
+export async function generateOkpKeyPair(
+  curve: OkpCurve,
+  usages: OkpKeyUsage[],
+  keyId: string,
+): Promise<KeyPair> {
+  const keyPair = (await subtle.generateKey(
+    curve,
+    true, // extractable
+    usages,
+  )) as OkpCryptoKeyPair;
+
+  const publicKey = await exportOkpPublicKey(keyPair.publicKey, curve);
+  const pkcs8 = await subtle.exportKey('pkcs8', keyPair.privateKey);
+
+  return {
+    publicKey,
+    privateKey: {...publicKey, d: toBase64Url(lastKeyBytes(pkcs8))},
+    keyId,
+    createdAt: Date.now(),
+  };
+}
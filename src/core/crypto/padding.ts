@@ -0,0 +1,66 @@
+/**
+ * TibbyTalk - Plaintext Padding
+ * Hides the exact length of message contents from their ciphertext
+ *
+ * The UTF-8 plaintext gets a 0x80 marker byte and is zero-filled up to a
+ * padded length (ISO/IEC 7816-4 style). Padded lengths follow Padmé: the
+ * length is rounded up so only the top bits of its binary exponent remain
+ * significant, which costs at most ~12% overhead and leaks O(log log n)
+ * bits. Short messages all pad to the same minimum size, so replies like
+ * "yes" and "no" cannot be told apart.
+ */
+
+// Every padded plaintext is at least this many bytes
+const MIN_PADDED_LENGTH = 64;
+
+const PADDING_MARKER = 0x80;
+
+/**
+ * Get the Padmé length a plaintext of a given size is padded to
+ *
+ * @param length - Plaintext length in bytes, marker included
+ * @returns Padded length in bytes
+ */
+export function getPaddedLength(length: number): number {
+  if (length <= MIN_PADDED_LENGTH) {
+    return MIN_PADDED_LENGTH;
+  }
+
+  const exponent = Math.floor(Math.log2(length));
+  const significantBits = Math.floor(Math.log2(exponent)) + 1;
+  const step = 2 ** (exponent - significantBits);
+  return Math.ceil(length / step) * step;
+}
+
+/**
+ * Encode and pad a plaintext before encryption
+ *
+ * @param plaintext - Message content
+ * @returns Padded UTF-8 bytes
+ */
+export function padPlaintext(plaintext: string): Uint8Array<ArrayBuffer> {
+  const data = new TextEncoder().encode(plaintext);
+  const padded = new Uint8Array(getPaddedLength(data.length + 1));
+  padded.set(data);
+  padded[data.length] = PADDING_MARKER;
+  return padded;
+}
+
+/**
+ * Strip the padding from decrypted bytes and decode them
+ *
+ * @param padded - Decrypted, padded bytes
+ * @returns Message content
+ * @throws If the padding is malformed
+ */
+export function unpadPlaintext(padded: ArrayBuffer): string {
+  const bytes = new Uint8Array(padded);
+  let end = bytes.length - 1;
+  while (end >= 0 && bytes[end] === 0) {
+    end--;
+  }
+  if (end < 0 || bytes[end] !== PADDING_MARKER) {
+    throw new Error('Invalid message padding');
+  }
+  return new TextDecoder().decode(bytes.subarray(0, end));
+}
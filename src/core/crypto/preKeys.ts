@@ -0,0 +1,99 @@
+/**
+ * TibbyTalk - Prekeys
+ * Signed prekeys and one-time prekeys for asynchronous session setup
+ *
+ * How it works:
+ * 1. Each user publishes one signed prekey (SPK), signed with their
+ *    identity signing key, and a pool of one-time prekeys (OPK)
+ * 2. An initiator claims the SPK plus one OPK (removing it from the pool)
+ *    and runs X3DH against them without the recipient being online
+ * 3. The recipient finds the matching private keys by keyId when the
+ *    first message arrives, and discards the OPK after use
+ */
+
+import {generateKeyId} from './utils';
+import {generateRatchetKeyPair} from './doubleRatchet';
+import {signData, verifySignature} from './signing';
+import type {SignedPreKey, OneTimePreKey} from '../../types';
+
+export interface SignedPreKeyPair extends SignedPreKey {
+  privateKey: JsonWebKey;
+}
+
+export interface OneTimePreKeyPair extends OneTimePreKey {
+  privateKey: JsonWebKey;
+}
+
+/**
+ * Data covered by a signed prekey signature
+ * The keyId is included so a signature cannot be replayed for another key
+ */
+function signedPreKeyPayload(keyId: string, publicKey: string): string {
+  return `tt-spk:${keyId}:${publicKey}`;
+}
+
+/**
+ * Generate a new signed prekey
+ *
+ * @param signingPrivateKey - Identity signing private key (JWK)
+ * @returns Signed prekey with its private key
+ */
+export async function generateSignedPreKey(
+  signingPrivateKey: JsonWebKey,
+): Promise<SignedPreKeyPair> {
+  const keyId = generateKeyId();
+  const keyPair = await generateRatchetKeyPair();
+  const signature = await signData(
+    signingPrivateKey,
+    signedPreKeyPayload(keyId, keyPair.publicKey),
+  );
+
+  return {
+    keyId,
+    publicKey: keyPair.publicKey,
+    privateKey: keyPair.privateKey,
+    signature,
+    createdAt: Date.now(),
+  };
+}
+
+/**
+ * Generate a batch of one-time prekeys
+ *
+ * @param count - Number of prekeys to generate
+ * @returns One-time prekeys with their private keys
+ */
+export async function generateOneTimePreKeys(
+  count: number,
+): Promise<OneTimePreKeyPair[]> {
+  const preKeys: OneTimePreKeyPair[] = [];
+
+  for (let i = 0; i < count; i++) {
+    const keyPair = await generateRatchetKeyPair();
+    preKeys.push({
+      keyId: generateKeyId(),
+      publicKey: keyPair.publicKey,
+      privateKey: keyPair.privateKey,
+    });
+  }
+
+  return preKeys;
+}
+
+/**
+ * Verify that a signed prekey was signed by the claimed identity
+ *
+ * @param signedPreKey - Published signed prekey
+ * @param signingPublicKey - Owner's identity signing public key (JWK)
+ * @returns True if the signature is valid
+ */
+export async function verifySignedPreKey(
+  signedPreKey: SignedPreKey,
+  signingPublicKey: JsonWebKey,
+): Promise<boolean> {
+  return verifySignature(
+    signingPublicKey,
+    signedPreKeyPayload(signedPreKey.keyId, signedPreKey.publicKey),
+    signedPreKey.signature,
+  );
+}
@@ -0,0 +1,189 @@
+/**
+ * TibbyTalk - Device Provisioning
+ * Transfers identity keys from a logged-in device to a new one
+ *
+ * How it works:
+ * 1. The new device generates an ephemeral ECDH P-256 key pair and shows its
+ *    public key in a link code (rendered as a QR code)
+ * 2. The existing device scans the code, generates its own ephemeral key
+ *    and derives a shared AES key with HKDF
+ * 3. The private keys are encrypted into a key bundle (the same format as
+ *    password backups) and sent back with the sender's ephemeral key
+ * 4. The new device derives the same AES key and decrypts the bundle
+ *
+ * The link code travels out of band (camera), so only the device that
+ * showed it can decrypt the bundle.
+ */
+
+import {computeSharedSecret, hkdf} from './keyAgreement';
+import {generateRatchetKeyPair} from './doubleRatchet';
+import {encryptKeyBundle, decryptKeyBundle} from './encryption';
+import {base64ToArrayBuffer} from './utils';
+import type {EncryptedKeyBundle} from '../../types';
+
+const subtle = crypto.subtle;
+
+const LINK_CODE_PREFIX = 'tt-link1';
+const PROVISIONING_KDF_INFO = 'TibbyTalk-Provisioning';
+const PROVISIONING_ALGORITHM = 'ECDH-P256-HKDF-AES-GCM-256';
+
+export interface ProvisioningRequest {
+  userId: string;
+  requestId: string;
+  ephemeralKey: string; // Base64 raw ECDH public key of the new device
+  deviceId?: string; // New device's pending registration, if any
+  deviceKeyId?: string;
+}
+
+export interface ProvisioningSession {
+  request: ProvisioningRequest;
+  ephemeralPrivateKey: JsonWebKey; // Kept in memory only
+}
+
+export interface SealedProvisioningBundle {
+  bundle: EncryptedKeyBundle;
+  senderKey: string; // Base64 raw ECDH public key of the existing device
+}
+
+/**
+ * Start a provisioning request on the new device
+ *
+ * @param userId - Account being linked
+ * @param requestId - ID of the provisioning document
+ * @param device - New device's pending registration, if any
+ * @returns Request to encode as a link code, and its ephemeral private key
+ */
+export async function createProvisioningSession(
+  userId: string,
+  requestId: string,
+  device?: {deviceId: string; keyId: string},
+): Promise<ProvisioningSession> {
+  const ephemeral = await generateRatchetKeyPair('P-256');
+
+  const request: ProvisioningRequest = {
+    userId,
+    requestId,
+    ephemeralKey: ephemeral.publicKey,
+  };
+  if (device) {
+    request.deviceId = device.deviceId;
+    request.deviceKeyId = device.keyId;
+  }
+
+  return {request, ephemeralPrivateKey: ephemeral.privateKey};
+}
+
+/**
+ * Encode a provisioning request as a link code
+ */
+export function encodeLinkCode(request: ProvisioningRequest): string {
+  const parts = [
+    LINK_CODE_PREFIX,
+    request.userId,
+    request.requestId,
+    request.ephemeralKey,
+  ];
+  if (request.deviceId && request.deviceKeyId) {
+    parts.push(request.deviceId, request.deviceKeyId);
+  }
+  return parts.join(':');
+}
+
+/**
+ * Parse a link code scanned from a new device
+ *
+ * @param code - Scanned link code
+ * @returns The provisioning request it carries
+ */
+export function parseLinkCode(code: string): ProvisioningRequest {
+  const parts = code.trim().split(':');
+  if (
+    parts[0] !== LINK_CODE_PREFIX ||
+    (parts.length !== 4 && parts.length !== 6)
+  ) {
+    throw new Error('Invalid link code');
+  }
+
+  const [, userId, requestId, ephemeralKey, deviceId, deviceKeyId] = parts;
+  const request: ProvisioningRequest = {userId, requestId, ephemeralKey};
+  if (deviceId && deviceKeyId) {
+    request.deviceId = deviceId;
+    request.deviceKeyId = deviceKeyId;
+  }
+  return request;
+}
+
+/**
+ * Derive the AES key protecting a provisioning bundle
+ */
+async function deriveProvisioningKey(
+  privateKeyJwk: JsonWebKey,
+  publicKeyRaw: string,
+  salt: Uint8Array<ArrayBuffer>,
+): Promise<CryptoKey> {
+  const sharedSecret = await computeSharedSecret(privateKeyJwk, publicKeyRaw);
+  const keyBytes = await hkdf(sharedSecret, salt, PROVISIONING_KDF_INFO, 32);
+
+  return subtle.importKey('raw', keyBytes, {name: 'AES-GCM'}, false, [
+    'encrypt',
+    'decrypt',
+  ]);
+}
+
+/**
+ * Encrypt private keys for the device that showed a link code
+ *
+ * @param privateKeys - Object mapping key name -> private key (JWK)
+ * @param request - Provisioning request from the scanned link code
+ * @returns Encrypted bundle and our ephemeral public key
+ */
+export async function sealProvisioningBundle(
+  privateKeys: Record<string, JsonWebKey>,
+  request: ProvisioningRequest,
+): Promise<SealedProvisioningBundle> {
+  const ephemeral = await generateRatchetKeyPair('P-256');
+  const salt = crypto.getRandomValues(new Uint8Array(32));
+
+  const encryptionKey = await deriveProvisioningKey(
+    ephemeral.privateKey,
+    request.ephemeralKey,
+    salt,
+  );
+
+  const bundle = await encryptKeyBundle(privateKeys, encryptionKey, {
+    algorithm: PROVISIONING_ALGORITHM,
+    iterations: 0,
+    salt,
+  });
+
+  return {bundle, senderKey: ephemeral.publicKey};
+}
+
+/**
+ * Decrypt a provisioning bundle on the new device
+ *
+ * @param sealed - Encrypted bundle and the sender's ephemeral public key
+ * @param ephemeralPrivateKey - Private key of the link code we showed
+ * @returns Decrypted private keys
+ */
+export async function openProvisioningBundle(
+  sealed: SealedProvisioningBundle,
+  ephemeralPrivateKey: JsonWebKey,
+): Promise<Record<string, JsonWebKey>> {
+  if (sealed.bundle.algorithm !== PROVISIONING_ALGORITHM) {
+    throw new Error('Unsupported provisioning bundle');
+  }
+
+  const salt = new Uint8Array(base64ToArrayBuffer(sealed.bundle.salt));
+  const decryptionKey = await deriveProvisioningKey(
+    ephemeralPrivateKey,
+    sealed.senderKey,
+    salt,
+  );
+
+  try {
+    return await decryptKeyBundle(sealed.bundle, decryptionKey);
+  } catch {
+    throw new Error('Could not decrypt provisioning bundle');
+  }
+}
@@ -0,0 +1,513 @@
+/**
+ * TibbyTalk - Ratchet Tree Group Keys
+ * TreeKEM-style group key agreement for large groups, in the style of MLS
+ *
+ * How it works:
+ * 1. Every member identity key and linked device key sits at a leaf of a
+ *    binary tree; each parent node has its own X25519 key pair
+ * 2. A member knows the private keys of the parent nodes on the path from
+ *    their leaf to the root
+ * 3. A commit replaces the keys on the committer's path. Each new node gets
+ *    a path secret, chained up the path with HKDF, and wraps it once for
+ *    the subtree on the other side; a commit costs O(log n) public-key
+ *    operations instead of one per member
+ * 4. Removed members' leaves and paths are blanked before the commit;
+ *    added members' paths are blanked so they receive a secret directly
+ * 5. The root's path secret gives the group key of the new epoch. Epochs
+ *    are numbered from 1, and the epoch number is the group key's keyId
+ *
+ * Parent private keys are sealed with their node's path secret and stored
+ * in the tree, so whoever derives a path secret can open the node's key.
+ * Commits are signed by the committer's account signing key, and members
+ * refuse commits that replace the key of their own leaf.
+ * Trees use heap numbering: the root is node 1, the children of node i are
+ * 2i and 2i + 1, and leaf j is node capacity + j.
+ */
+
+import {arrayBufferToBase64, base64ToArrayBuffer} from './utils';
+import {hkdf} from './keyAgreement';
+import {generateOkpKeyPair} from './okpKeys';
+import {importSymmetricKey} from './keyGeneration';
+import {wrapKeyForRecipient, unwrapKeyForRecipient} from './keyWrap';
+import {
+  canonicalize,
+  canonicalPublicKey,
+  signData,
+  verifySignature,
+} from './signing';
+import type {GroupKeyRotationReason} from '../../types';
+
+const subtle = crypto.subtle;
+
+const PATH_SECRET_INFO = 'TibbyTalkTreePath';
+const NODE_KEY_INFO = 'TibbyTalkTreeNode';
+const EPOCH_KEY_INFO = 'TibbyTalkTreeEpoch';
+
+// Leaf slots in a new tree; the tree doubles when it runs out
+const INITIAL_CAPACITY = 2;
+
+export interface TreeMember {
+  memberId: string; // "userId", or "userId/deviceId" for linked devices
+  keyId: string;
+  publicKey: JsonWebKey;
+}
+
+export interface RatchetTreeNode {
+  publicKey: JsonWebKey;
+  memberId?: string; // Leaves
+  keyId?: string; // Leaves: ID of the member's identity or device key
+  encryptedPrivateKey?: string; // Parent nodes: sealed with the path secret
+}
+
+export interface RatchetTree {
+  capacity: number; // Number of leaf slots, a power of two
+  nodes: Record<string, RatchetTreeNode>; // node index -> node; blank nodes are absent
+}
+
+export interface TreeCommit {
+  epoch: number;
+  committedBy: string; // memberId of the committer's leaf
+  tree: RatchetTree; // Tree of the new epoch
+  // Parent node -> resolution node -> path secret wrapped for its key
+  encryptedPathSecrets: Record<string, Record<string, string>>;
+  createdAt: number;
+  reason?: GroupKeyRotationReason; // Why the epoch started, if it rotated the key
+  signature?: string; // Base64 signature by the committer's signing key
+}
+
+// What a member keeps locally between epochs
+export interface TreeKeyState {
+  epoch: number;
+  capacity: number; // Tree capacity the node indexes refer to
+  privateKeys: Record<string, JsonWebKey>; // node index -> parent node private key
+}
+
+function parentOf(node: number): number {
+  return Math.floor(node / 2);
+}
+
+function siblingOf(node: number): number {
+  return node % 2 === 0 ? node + 1 : node - 1;
+}
+
+/**
+ * Parent nodes from a leaf up to the root
+ */
+function directPath(leaf: number): number[] {
+  const path: number[] = [];
+  for (let node = parentOf(leaf); node >= 1; node = parentOf(node)) {
+    path.push(node);
+  }
+  return path;
+}
+
+function isAncestorOrSelf(ancestor: number, node: number): boolean {
+  for (let current = node; current >= 1; current = parentOf(current)) {
+    if (current === ancestor) {
+      return true;
+    }
+  }
+  return false;
+}
+
+/**
+ * The non-blank nodes that together cover a subtree
+ */
+function resolve(tree: RatchetTree, node: number): number[] {
+  if (tree.nodes[node]) {
+    return [node];
+  }
+  if (node >= tree.capacity) {
+    return [];
+  }
+  return [...resolve(tree, 2 * node), ...resolve(tree, 2 * node + 1)];
+}
+
+function findLeaf(tree: RatchetTree, memberId: string): number | null {
+  for (const [index, node] of Object.entries(tree.nodes)) {
+    if (node.memberId === memberId) {
+      return Number(index);
+    }
+  }
+  return null;
+}
+
+function findFreeLeaf(tree: RatchetTree): number | null {
+  for (let leaf = tree.capacity; leaf < 2 * tree.capacity; leaf++) {
+    if (!tree.nodes[leaf]) {
+      return leaf;
+    }
+  }
+  return null;
+}
+
+/**
+ * Renumber a node after the tree grew from one capacity to another
+ * Each doubling puts the old tree under the left child of a new root
+ *
+ * @param index - Node index in the smaller tree
+ * @param fromCapacity - Capacity the index refers to
+ * @param toCapacity - Capacity of the grown tree
+ * @returns Index of the same node in the grown tree
+ */
+export function remapNodeIndex(
+  index: number,
+  fromCapacity: number,
+  toCapacity: number,
+): number {
+  let remapped = index;
+  for (let capacity = fromCapacity; capacity < toCapacity; capacity *= 2) {
+    let depthOffset = 1;
+    while (depthOffset * 2 <= remapped) {
+      depthOffset *= 2;
+    }
+    remapped += depthOffset;
+  }
+  return remapped;
+}
+
+function growTree(tree: RatchetTree): RatchetTree {
+  const capacity = tree.capacity * 2;
+  const nodes: Record<string, RatchetTreeNode> = {};
+  for (const [index, node] of Object.entries(tree.nodes)) {
+    nodes[remapNodeIndex(Number(index), tree.capacity, capacity)] = node;
+  }
+  return {capacity, nodes};
+}
+
+function blankDirectPath(tree: RatchetTree, leaf: number): void {
+  for (const node of directPath(leaf)) {
+    delete tree.nodes[node];
+  }
+}
+
+async function nextPathSecret(
+  pathSecret: Uint8Array<ArrayBuffer>,
+): Promise<Uint8Array<ArrayBuffer>> {
+  return hkdf(pathSecret, new Uint8Array(32), PATH_SECRET_INFO, 32);
+}
+
+async function importNodeSealingKey(
+  pathSecret: Uint8Array<ArrayBuffer>,
+): Promise<CryptoKey> {
+  const keyBytes = await hkdf(
+    pathSecret,
+    new Uint8Array(32),
+    NODE_KEY_INFO,
+    32,
+  );
+  return subtle.importKey('raw', keyBytes, {name: 'AES-GCM'}, false, [
+    'encrypt',
+    'decrypt',
+  ]);
+}
+
+/**
+ * Seal a parent node's private key with the node's path secret
+ * Format: Base64(IV || AES-GCM ciphertext)
+ */
+async function sealNodeKey(
+  privateKey: JsonWebKey,
+  pathSecret: Uint8Array<ArrayBuffer>,
+): Promise<string> {
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  const ciphertext = await subtle.encrypt(
+    {name: 'AES-GCM', iv},
+    await importNodeSealingKey(pathSecret),
+    new TextEncoder().encode(JSON.stringify(privateKey)),
+  );
+
+  const sealed = new Uint8Array(iv.length + ciphertext.byteLength);
+  sealed.set(iv);
+  sealed.set(new Uint8Array(ciphertext), iv.length);
+  return arrayBufferToBase64(sealed.buffer);
+}
+
+async function openNodeKey(
+  sealedKey: string,
+  pathSecret: Uint8Array<ArrayBuffer>,
+): Promise<JsonWebKey> {
+  const sealed = new Uint8Array(base64ToArrayBuffer(sealedKey));
+  const plaintext = await subtle.decrypt(
+    {name: 'AES-GCM', iv: sealed.slice(0, 12)},
+    await importNodeSealingKey(pathSecret),
+    sealed.slice(12),
+  );
+  return JSON.parse(new TextDecoder().decode(plaintext));
+}
+
+/**
+ * Derive an epoch's group key from the root's path secret
+ */
+async function deriveEpochKey(
+  rootSecret: Uint8Array<ArrayBuffer>,
+  epoch: number,
+): Promise<CryptoKey> {
+  const keyBytes = await hkdf(
+    rootSecret,
+    new Uint8Array(32),
+    `${EPOCH_KEY_INFO}|${epoch}`,
+    32,
+  );
+  return importSymmetricKey(keyBytes.buffer);
+}
+
+/**
+ * Create an empty ratchet tree
+ *
+ * @returns Tree with no members
+ */
+export function createRatchetTree(): RatchetTree {
+  return {capacity: INITIAL_CAPACITY, nodes: {}};
+}
+
+/**
+ * Bring the leaves of a tree in line with the group's members
+ * Leaves of removed members, and of members whose key changed (or whose
+ * leaf does not hold the key the group knows them by), are blanked
+ * with their paths; new members are seated in free leaves (growing the
+ * tree when it is full) and their paths are blanked
+ *
+ * @param tree - Tree of the current epoch
+ * @param members - Every key the group should be shared with
+ * @returns Tree for the next commit
+ */
+export function updateTreeMembers(
+  tree: RatchetTree,
+  members: TreeMember[],
+): RatchetTree {
+  let next: RatchetTree = {capacity: tree.capacity, nodes: {...tree.nodes}};
+  const newMembers = new Map(members.map(member => [member.memberId, member]));
+
+  for (const [index, node] of Object.entries(tree.nodes)) {
+    const leaf = Number(index);
+    if (leaf < tree.capacity) {
+      continue;
+    }
+
+    const member = node.memberId ? newMembers.get(node.memberId) : undefined;
+    if (
+      member &&
+      member.keyId === node.keyId &&
+      canonicalPublicKey(member.publicKey) ===
+        canonicalPublicKey(node.publicKey)
+    ) {
+      newMembers.delete(member.memberId);
+      continue;
+    }
+    delete next.nodes[leaf];
+    blankDirectPath(next, leaf);
+  }
+
+  for (const member of newMembers.values()) {
+    let leaf = findFreeLeaf(next);
+    while (leaf === null) {
+      next = growTree(next);
+      leaf = findFreeLeaf(next);
+    }
+
+    next.nodes[leaf] = {
+      publicKey: member.publicKey,
+      memberId: member.memberId,
+      keyId: member.keyId,
+    };
+    blankDirectPath(next, leaf);
+  }
+
+  return next;
+}
+
+/**
+ * Start a new epoch by replacing the keys on the committer's path
+ *
+ * @param tree - Tree with the new epoch's members (see updateTreeMembers)
+ * @param committerId - memberId of the committer's leaf
+ * @param epoch - Number of the new epoch
+ * @returns The commit to publish, the committer's key state and the
+ *          epoch's group key
+ */
+export async function createTreeCommit(
+  tree: RatchetTree,
+  committerId: string,
+  epoch: number,
+): Promise<{commit: TreeCommit; state: TreeKeyState; groupKey: CryptoKey}> {
+  const leaf = findLeaf(tree, committerId);
+  if (leaf === null) {
+    throw new Error('Committer is not a member of the group');
+  }
+
+  const nodes = {...tree.nodes};
+  const encryptedPathSecrets: Record<string, Record<string, string>> = {};
+  const privateKeys: Record<string, JsonWebKey> = {};
+
+  let pathSecret = crypto.getRandomValues(new Uint8Array(32));
+  let rootSecret = pathSecret;
+  let child = leaf;
+  for (const node of directPath(leaf)) {
+    const keyPair = await generateOkpKeyPair(
+      'X25519',
+      ['deriveBits'],
+      `${epoch}/${node}`,
+    );
+    nodes[node] = {
+      publicKey: keyPair.publicKey,
+      encryptedPrivateKey: await sealNodeKey(keyPair.privateKey, pathSecret),
+    };
+    privateKeys[node] = keyPair.privateKey;
+
+    // Members on the other side learn this secret, and derive the rest
+    const wrappedSecrets: Record<string, string> = {};
+    for (const target of resolve(tree, siblingOf(child))) {
+      wrappedSecrets[target] = await wrapKeyForRecipient(
+        pathSecret.buffer,
+        tree.nodes[target].publicKey,
+      );
+    }
+    encryptedPathSecrets[node] = wrappedSecrets;
+
+    rootSecret = pathSecret;
+    pathSecret = await nextPathSecret(pathSecret);
+    child = node;
+  }
+
+  return {
+    commit: {
+      epoch,
+      committedBy: committerId,
+      tree: {capacity: tree.capacity, nodes},
+      encryptedPathSecrets,
+      createdAt: Date.now(),
+    },
+    state: {epoch, capacity: tree.capacity, privateKeys},
+    groupKey: await deriveEpochKey(rootSecret, epoch),
+  };
+}
+
+/**
+ * Apply another member's commit
+ * The commit's signature must be checked first (see verifyTreeCommit)
+ *
+ * @param commit - Commit of the next epoch
+ * @param memberId - memberId of our leaf
+ * @param leafPrivateKey - Private key of our leaf (identity or device key)
+ * @param state - Our key state from the previous epoch; null when the
+ *                commit is the one that added us
+ * @returns Our key state and the group key of the commit's epoch
+ */
+export async function processTreeCommit(
+  commit: TreeCommit,
+  memberId: string,
+  leafPrivateKey: JsonWebKey,
+  state: TreeKeyState | null,
+): Promise<{state: TreeKeyState; groupKey: CryptoKey}> {
+  const {tree} = commit;
+  const leaf = findLeaf(tree, memberId);
+  if (leaf === null) {
+    throw new Error('Not a member of this epoch');
+  }
+  const committerLeaf = findLeaf(tree, commit.committedBy);
+  if (committerLeaf === null || committerLeaf === leaf) {
+    throw new Error('Invalid commit');
+  }
+  if (
+    canonicalPublicKey(tree.nodes[leaf].publicKey) !==
+    canonicalPublicKey(leafPrivateKey)
+  ) {
+    throw new Error('Commit replaced the key of our leaf');
+  }
+
+  // Keep the keys of our path the commit did not replace or blank
+  const privateKeys: Record<string, JsonWebKey> = {};
+  for (const [index, privateKey] of Object.entries(state?.privateKeys ?? {})) {
+    const node = remapNodeIndex(Number(index), state!.capacity, tree.capacity);
+    if (tree.nodes[node]?.publicKey.x === privateKey.x) {
+      privateKeys[node] = privateKey;
+    }
+  }
+  privateKeys[leaf] = leafPrivateKey;
+
+  // The lowest node on the committer's path that is also above us
+  const committerPath = directPath(committerLeaf);
+  const sharedIndex = committerPath.findIndex(node =>
+    isAncestorOrSelf(node, leaf),
+  );
+
+  let pathSecret: Uint8Array<ArrayBuffer> | null = null;
+  for (const [target, wrappedSecret] of Object.entries(
+    commit.encryptedPathSecrets[committerPath[sharedIndex]] ?? {},
+  )) {
+    const privateKey = privateKeys[target];
+    if (privateKey && isAncestorOrSelf(Number(target), leaf)) {
+      pathSecret = new Uint8Array(
+        await unwrapKeyForRecipient(wrappedSecret, privateKey),
+      );
+      break;
+    }
+  }
+  if (!pathSecret) {
+    throw new Error('Path secret was not shared with this member');
+  }
+
+  let rootSecret = pathSecret;
+  for (const node of committerPath.slice(sharedIndex)) {
+    const sealedKey = tree.nodes[node]?.encryptedPrivateKey;
+    if (!sealedKey) {
+      throw new Error('Invalid commit');
+    }
+    privateKeys[node] = await openNodeKey(sealedKey, pathSecret);
+
+    rootSecret = pathSecret;
+    pathSecret = await nextPathSecret(pathSecret);
+  }
+  delete privateKeys[leaf];
+
+  return {
+    state: {epoch: commit.epoch, capacity: tree.capacity, privateKeys},
+    groupKey: await deriveEpochKey(rootSecret, commit.epoch),
+  };
+}
+
+/**
+ * Data covered by a commit signature: every commit field
+ */
+function commitSignatureData(commit: TreeCommit): string {
+  const fields = {...commit};
+  delete fields.signature;
+  return `tt-tree:${canonicalize(fields)}`;
+}
+
+/**
+ * Sign a commit as its committer
+ *
+ * @param commit - Commit to publish
+ * @param signingKey - Committer's signing private key (JWK)
+ * @returns Commit with its signature attached
+ */
+export async function signTreeCommit(
+  commit: TreeCommit,
+  signingKey: JsonWebKey,
+): Promise<TreeCommit> {
+  const signature = await signData(signingKey, commitSignatureData(commit));
+  return {...commit, signature};
+}
+
+/**
+ * Verify that a commit was signed by its committer
+ *
+ * @param commit - Commit read from storage
+ * @param signingPublicKey - Committer's signing public key (JWK)
+ * @returns True if the committer signed every field of the commit
+ */
+export async function verifyTreeCommit(
+  commit: TreeCommit,
+  signingPublicKey: JsonWebKey,
+): Promise<boolean> {
+  if (!commit.signature) {
+    return false;
+  }
+  return verifySignature(
+    signingPublicKey,
+    commitSignatureData(commit),
+    commit.signature,
+  );
+}
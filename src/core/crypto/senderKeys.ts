@@ -0,0 +1,323 @@
+/**
+ * TibbyTalk - Sender Keys
+ * Per-sender hash ratchets for group messages
+ *
+ * How it works:
+ * 1. Every member creates their own sender key (a random chain key) for
+ *    the group and wraps it for every other member; ratchet tree groups
+ *    seal it once with the epoch's group key instead
+ * 2. Each message key comes from one step of the sender's chain (KDF_CK,
+ *    as in the Double Ratchet), so a leaked chain key cannot decrypt
+ *    earlier messages
+ * 3. Messages carry the sender key ID and their iteration in the chain;
+ *    receivers advance their copy of the chain to that iteration
+ * 4. Keys for messages that arrive out of order are kept in a bounded
+ *    skipped-key cache until they are used
+ *
+ * Message contents are padded as in 'tt-e4' envelopes, so ciphertexts do
+ * not reveal their exact length. Like ratchet sessions, states are plain JSON objects and functions never
+ * mutate the state passed in.
+ */
+
+import {arrayBufferToBase64, base64ToArrayBuffer} from './utils';
+import {hkdf} from './keyAgreement';
+import {kdfChainKey} from './doubleRatchet';
+import {canonicalize} from './signing';
+import {padPlaintext, unpadPlaintext} from './padding';
+import type {MessageContext} from './encryption';
+
+const subtle = crypto.subtle;
+
+const SENDER_KEY_KDF_INFO = 'TibbyTalkSenderKey';
+
+// Maximum number of message keys skipped in one step
+const MAX_SKIP = 2000;
+
+// Maximum number of skipped message keys kept per sender key
+const MAX_SKIPPED_KEYS = 1000;
+
+export interface SenderKeyState {
+  senderKeyId: string;
+  chainKey: string; // Base64 chain key for the next iteration
+  iteration: number; // Iteration of the next message key
+  skippedKeys: Record<string, string>; // iteration -> Base64 message key
+}
+
+// What a member receives to follow someone's sender key
+export interface SenderKeyDistribution {
+  chainKey: string; // Base64
+  iteration: number;
+}
+
+function cloneState(state: SenderKeyState): SenderKeyState {
+  return JSON.parse(JSON.stringify(state));
+}
+
+/**
+ * Expand a message key into an AES-256-GCM key and IV
+ */
+async function deriveMessageCipher(
+  messageKey: string,
+): Promise<{key: CryptoKey; iv: Uint8Array<ArrayBuffer>}> {
+  const output = await hkdf(
+    new Uint8Array(base64ToArrayBuffer(messageKey)),
+    new Uint8Array(32),
+    SENDER_KEY_KDF_INFO,
+    44,
+  );
+  const key = await subtle.importKey(
+    'raw',
+    output.slice(0, 32),
+    {name: 'AES-GCM'},
+    false,
+    ['encrypt', 'decrypt'],
+  );
+  return {key, iv: output.slice(32, 44)};
+}
+
+/**
+ * Bind the sender key, the iteration and the group message the ciphertext
+ * belongs to into the AEAD associated data
+ */
+function buildAdditionalData(
+  senderKeyId: string,
+  iteration: number,
+  context: MessageContext,
+): Uint8Array<ArrayBuffer> {
+  return new TextEncoder().encode(
+    [senderKeyId, iteration, canonicalize({...context, type: 'group'})].join(
+      '|',
+    ),
+  );
+}
+
+/**
+ * Create a new sender key
+ *
+ * @param senderKeyId - ID for the sender key
+ * @returns Sending state starting at iteration 0
+ */
+export function createSenderKey(senderKeyId: string): SenderKeyState {
+  const chainKey = crypto.getRandomValues(new Uint8Array(32));
+  return {
+    senderKeyId,
+    chainKey: arrayBufferToBase64(chainKey.buffer),
+    iteration: 0,
+    skippedKeys: {},
+  };
+}
+
+/**
+ * Get what another member needs to decrypt messages from this point on
+ *
+ * @param state - Sending state
+ * @returns Current chain key and iteration
+ */
+export function getSenderKeyDistribution(
+  state: SenderKeyState,
+): SenderKeyDistribution {
+  return {chainKey: state.chainKey, iteration: state.iteration};
+}
+
+/**
+ * Start following another member's sender key
+ *
+ * @param senderKeyId - ID of the sender key
+ * @param distribution - Chain key and iteration received from the sender
+ * @returns Receiving state
+ */
+export function initializeReceivingSenderKey(
+  senderKeyId: string,
+  distribution: SenderKeyDistribution,
+): SenderKeyState {
+  return {
+    senderKeyId,
+    chainKey: distribution.chainKey,
+    iteration: distribution.iteration,
+    skippedKeys: {},
+  };
+}
+
+// Who a sealed distribution belongs to, bound as associated data
+export interface SenderKeyBinding {
+  senderKeyId: string;
+  senderId: string;
+  groupKeyId: string; // Epoch whose group key seals the distribution
+}
+
+function distributionAdditionalData(
+  binding: SenderKeyBinding,
+): Uint8Array<ArrayBuffer> {
+  return new TextEncoder().encode(
+    ['tt-skd', binding.senderKeyId, binding.senderId, binding.groupKeyId].join(
+      '|',
+    ),
+  );
+}
+
+/**
+ * Seal a sender key distribution with a group key
+ * Ratchet tree groups share sender keys this way: one encryption under the
+ * epoch's group key reaches every member of the epoch, instead of one
+ * public-key wrap per member. Format: Base64(IV || AES-GCM ciphertext)
+ *
+ * @param distribution - Chain key and iteration to share
+ * @param groupKey - Group key of the epoch
+ * @param binding - Sender key, owner and epoch the distribution is for
+ * @returns Base64 sealed distribution
+ */
+export async function sealSenderKeyDistribution(
+  distribution: SenderKeyDistribution,
+  groupKey: CryptoKey,
+  binding: SenderKeyBinding,
+): Promise<string> {
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  const ciphertext = await subtle.encrypt(
+    {name: 'AES-GCM', iv, additionalData: distributionAdditionalData(binding)},
+    groupKey,
+    new TextEncoder().encode(JSON.stringify(distribution)),
+  );
+
+  const sealed = new Uint8Array(iv.length + ciphertext.byteLength);
+  sealed.set(iv);
+  sealed.set(new Uint8Array(ciphertext), iv.length);
+  return arrayBufferToBase64(sealed.buffer);
+}
+
+/**
+ * Open a sender key distribution sealed with a group key
+ *
+ * @param sealedDistribution - Base64 sealed distribution
+ * @param groupKey - Group key of the epoch
+ * @param binding - Sender key, owner and epoch the distribution claims
+ * @returns Chain key and iteration
+ * @throws If the distribution was sealed for another binding or altered
+ */
+export async function openSenderKeyDistribution(
+  sealedDistribution: string,
+  groupKey: CryptoKey,
+  binding: SenderKeyBinding,
+): Promise<SenderKeyDistribution> {
+  const sealed = new Uint8Array(base64ToArrayBuffer(sealedDistribution));
+  const plaintext = await subtle.decrypt(
+    {
+      name: 'AES-GCM',
+      iv: sealed.slice(0, 12),
+      additionalData: distributionAdditionalData(binding),
+    },
+    groupKey,
+    sealed.slice(12),
+  );
+  return JSON.parse(new TextDecoder().decode(plaintext));
+}
+
+/**
+ * Encrypt a group message with the next key of our chain
+ *
+ * @param state - Sending state
+ * @param plaintext - Message content to encrypt
+ * @param context - Message the ciphertext is sealed for
+ * @returns Updated state, the message's iteration and Base64 ciphertext
+ */
+export async function senderKeyEncrypt(
+  state: SenderKeyState,
+  plaintext: string,
+  context: MessageContext,
+): Promise<{state: SenderKeyState; iteration: number; data: string}> {
+  const next = cloneState(state);
+  const {chainKey, messageKey} = await kdfChainKey(state.chainKey);
+  next.chainKey = chainKey;
+  next.iteration = state.iteration + 1;
+
+  const {key, iv} = await deriveMessageCipher(messageKey);
+  const encryptedData = await subtle.encrypt(
+    {
+      name: 'AES-GCM',
+      iv,
+      additionalData: buildAdditionalData(
+        state.senderKeyId,
+        state.iteration,
+        context,
+      ),
+    },
+    key,
+    padPlaintext(plaintext),
+  );
+
+  return {
+    state: next,
+    iteration: state.iteration,
+    data: arrayBufferToBase64(encryptedData),
+  };
+}
+
+/**
+ * Decrypt a group message from the member who owns the sender key
+ *
+ * @param state - Receiving state for the sender key
+ * @param iteration - Iteration recorded in the message
+ * @param data - Base64 ciphertext
+ * @param context - Message the ciphertext claims to be
+ * @returns Updated state and decrypted message content
+ */
+export async function senderKeyDecrypt(
+  state: SenderKeyState,
+  iteration: number,
+  data: string,
+  context: MessageContext,
+): Promise<{state: SenderKeyState; plaintext: string}> {
+  // The iteration comes from the message, so it must be a chain position
+  if (!Number.isSafeInteger(iteration) || iteration < 0) {
+    throw new Error(`Invalid sender key iteration: ${iteration}`);
+  }
+
+  const next = cloneState(state);
+  let messageKey: string | undefined;
+
+  if (iteration < next.iteration) {
+    messageKey = next.skippedKeys[iteration];
+    if (!messageKey) {
+      throw new Error('Message key already used or no longer available');
+    }
+    delete next.skippedKeys[iteration];
+  } else {
+    if (iteration - next.iteration > MAX_SKIP) {
+      throw new Error('Too many skipped messages');
+    }
+
+    while (next.iteration < iteration) {
+      const skippedStep = await kdfChainKey(next.chainKey);
+      next.chainKey = skippedStep.chainKey;
+      next.skippedKeys[next.iteration] = skippedStep.messageKey;
+      next.iteration += 1;
+    }
+
+    const step = await kdfChainKey(next.chainKey);
+    next.chainKey = step.chainKey;
+    messageKey = step.messageKey;
+    next.iteration += 1;
+
+    // Drop the oldest skipped keys once the cache is full
+    const skipped = Object.keys(next.skippedKeys);
+    for (const id of skipped.slice(0, skipped.length - MAX_SKIPPED_KEYS)) {
+      delete next.skippedKeys[id];
+    }
+  }
+
+  const {key, iv} = await deriveMessageCipher(messageKey);
+  const decryptedBytes = await subtle.decrypt(
+    {
+      name: 'AES-GCM',
+      iv,
+      additionalData: buildAdditionalData(
+        state.senderKeyId,
+        iteration,
+        context,
+      ),
+    },
+    key,
+    base64ToArrayBuffer(data),
+  );
+
+  return {state: next, plaintext: unpadPlaintext(decryptedBytes)};
+}
@@ -0,0 +1,249 @@
+/**
+ * TibbyTalk - Identity Signatures
+ * Ed25519 signing and verification with the user's identity signing key.
+ * Signing keys created before the migration are ECDSA P-256 / SHA-256; they
+ * are replaced at the next login but still verify earlier signatures.
+ *
+ * Encrypted message payloads are signed by their sender, so a member
+ * holding a shared group key cannot write messages as someone else.
+ * Linked device keys are signed by their owner, so only devices the user
+ * authorized receive copies of their messages.
+ */
+
+import {arrayBufferToBase64, base64ToArrayBuffer} from './utils';
+import {importOkpKey, isOkpKey} from './okpKeys';
+import type {DeviceKey} from '../../types';
+
+const subtle = crypto.subtle;
+
+const ECDSA_PARAMS = {name: 'ECDSA', namedCurve: 'P-256'};
+const ECDSA_SIGNATURE_PARAMS = {name: 'ECDSA', hash: 'SHA-256'};
+const ED25519_PARAMS = {name: 'Ed25519'};
+
+/**
+ * Import a signing key and pick its signature algorithm from the key type
+ */
+async function importSigningKey(
+  jwk: JsonWebKey,
+  usage: 'sign' | 'verify',
+): Promise<{key: CryptoKey; params: {name: string; hash?: string}}> {
+  if (isOkpKey(jwk, 'Ed25519')) {
+    return {key: await importOkpKey(jwk, [usage]), params: ED25519_PARAMS};
+  }
+  return {
+    key: await subtle.importKey('jwk', jwk, ECDSA_PARAMS, false, [usage]),
+    params: ECDSA_SIGNATURE_PARAMS,
+  };
+}
+
+/**
+ * Sign data with an identity signing key
+ *
+ * @param privateKeyJwk - Ed25519 (or ECDSA) private key in JWK format
+ * @param data - Data to sign
+ * @returns Base64 encoded signature
+ */
+export async function signData(
+  privateKeyJwk: JsonWebKey,
+  data: string,
+): Promise<string> {
+  const {key, params} = await importSigningKey(privateKeyJwk, 'sign');
+
+  const encoder = new TextEncoder();
+  const signature = await subtle.sign(params, key, encoder.encode(data));
+  return arrayBufferToBase64(signature);
+}
+
+/**
+ * Verify a signature made with an identity signing key
+ *
+ * @param publicKeyJwk - Ed25519 (or ECDSA) public key in JWK format
+ * @param data - Data that was signed
+ * @param signature - Base64 encoded signature
+ * @returns True if the signature is valid
+ */
+export async function verifySignature(
+  publicKeyJwk: JsonWebKey,
+  data: string,
+  signature: string,
+): Promise<boolean> {
+  try {
+    const {key, params} = await importSigningKey(publicKeyJwk, 'verify');
+
+    const encoder = new TextEncoder();
+    return await subtle.verify(
+      params,
+      key,
+      base64ToArrayBuffer(signature),
+      encoder.encode(data),
+    );
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Check whether a signing key still uses ECDSA and should be replaced
+ *
+ * @param jwk - Signing public or private key
+ * @returns True for keys other than Ed25519
+ */
+export function isLegacySigningKey(jwk: JsonWebKey): boolean {
+  return !isOkpKey(jwk, 'Ed25519');
+}
+
+export interface MessageSigner {
+  senderId: string;
+  signingKey: JsonWebKey; // Sender's signing private key
+}
+
+/**
+ * Serialize a value as JSON with sorted object keys
+ * Signatures must not depend on the field order Firestore returns
+ */
+export function canonicalize(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(canonicalize).join(',')}]`;
+  }
+  if (value && typeof value === 'object') {
+    const entries = Object.entries(value as Record<string, unknown>)
+      .filter(([, entry]) => entry !== undefined)
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0))
+      .map(([key, entry]) => `${JSON.stringify(key)}:${canonicalize(entry)}`);
+    return `{${entries.join(',')}}`;
+  }
+  return JSON.stringify(value);
+}
+
+/**
+ * Serialize only the public members of a key
+ * Two JWKs for the same public key compare equal whatever private,
+ * usage or extractability members they carry
+ *
+ * @param jwk - Public (or private) key in JWK format
+ * @returns Canonical JSON of kty, crv, x, y, n and e
+ */
+export function canonicalPublicKey(jwk: JsonWebKey): string {
+  const {kty, crv, x, y, n, e} = jwk;
+  return canonicalize({kty, crv, x, y, n, e});
+}
+
+/**
+ * Data covered by a payload signature: the sender and every payload field
+ */
+function payloadSignatureData(
+  payload: {signature?: string},
+  senderId: string,
+): string {
+  const fields = {...payload};
+  delete fields.signature;
+  return `tt-sig:${senderId}:${canonicalize(fields)}`;
+}
+
+/**
+ * Sign an encrypted message payload as its sender
+ *
+ * @param payload - Encrypted payload to sign
+ * @param signer - Sender ID and signing private key
+ * @returns Payload with its signature attached
+ */
+export async function signPayload<T extends {signature?: string}>(
+  payload: T,
+  signer: MessageSigner,
+): Promise<T> {
+  const signature = await signData(
+    signer.signingKey,
+    payloadSignatureData(payload, signer.senderId),
+  );
+  return {...payload, signature};
+}
+
+/**
+ * Verify the signature of an encrypted message payload
+ *
+ * @param payload - Signed encrypted payload
+ * @param senderId - Claimed sender of the message
+ * @param signingPublicKey - Claimed sender's signing public key (JWK)
+ * @returns True if the payload is signed by the claimed sender
+ */
+export async function verifyPayloadSignature(
+  payload: {signature?: string},
+  senderId: string,
+  signingPublicKey: JsonWebKey,
+): Promise<boolean> {
+  if (!payload.signature) {
+    return false;
+  }
+
+  return verifySignature(
+    signingPublicKey,
+    payloadSignatureData(payload, senderId),
+    payload.signature,
+  );
+}
+
+/**
+ * Data covered by a device key signature: the owner, the device and every
+ * public member of its key (X25519 as well as legacy RSA keys)
+ */
+function deviceKeySignatureData(
+  userId: string,
+  deviceId: string,
+  deviceKey: DeviceKey,
+): string {
+  const {kty, crv, x, y, n, e} = deviceKey.publicKey;
+  return `tt-dev2:${userId}:${deviceId}:${canonicalize({
+    keyId: deviceKey.keyId,
+    kty,
+    crv,
+    x,
+    y,
+    n,
+    e,
+  })}`;
+}
+
+/**
+ * Sign a device key as its owner, authorizing the device to receive messages
+ *
+ * @param userId - Owner of the device
+ * @param deviceId - Device being authorized
+ * @param deviceKey - Device's public key and key ID
+ * @param signingKey - Owner's signing private key (JWK)
+ * @returns Base64 encoded signature
+ */
+export async function signDeviceKey(
+  userId: string,
+  deviceId: string,
+  deviceKey: DeviceKey,
+  signingKey: JsonWebKey,
+): Promise<string> {
+  return signData(
+    signingKey,
+    deviceKeySignatureData(userId, deviceId, deviceKey),
+  );
+}
+
+/**
+ * Verify that a device key was authorized by its owner
+ *
+ * @param userId - Claimed owner of the device
+ * @param deviceId - Device ID
+ * @param deviceKey - Device's public key and key ID
+ * @param signature - Base64 signature published with the device
+ * @param signingPublicKey - Owner's signing public key (JWK)
+ * @returns True if the owner signed this device key
+ */
+export async function verifyDeviceKey(
+  userId: string,
+  deviceId: string,
+  deviceKey: DeviceKey,
+  signature: string,
+  signingPublicKey: JsonWebKey,
+): Promise<boolean> {
+  return verifySignature(
+    signingPublicKey,
+    deviceKeySignatureData(userId, deviceId, deviceKey),
+    signature,
+  );
+}
@@ -99,3 +99,19 @@ export function generateKeyId(): string {
     .map(b => b.toString(16).padStart(2, '0'))
     .join('');
 }
+
+/**
+ * Concatenate byte arrays into a single Uint8Array
+ */
+export function concatBytes(...arrays: Uint8Array[]): Uint8Array<ArrayBuffer> {
+  const totalLength = arrays.reduce((sum, arr) => sum + arr.length, 0);
+  const result = new Uint8Array(totalLength);
+
+  let offset = 0;
+  for (const arr of arrays) {
+    result.set(arr, offset);
+    offset += arr.length;
+  }
+
+  return result;
+}
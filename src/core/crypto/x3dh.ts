@@ -0,0 +1,148 @@
+/**
+ * TibbyTalk - X3DH Session Setup
+ * Derives the initial shared secret for a Double Ratchet session
+ *
+ * How it works:
+ * 1. Each user publishes an X25519 identity agreement key (IK), a signed
+ *    prekey (SPK) and a pool of one-time prekeys (OPK). Accounts that have
+ *    not migrated yet still publish P-256 keys; all keys in a session must
+ *    be on the same curve
+ * 2. The initiator claims the responder's prekey bundle and generates an
+ *    ephemeral key (EK) for the session
+ * 3. Both sides compute DH(IK_A, SPK_B), DH(EK_A, IK_B), DH(EK_A, SPK_B)
+ *    and, when an OPK was claimed, DH(EK_A, OPK_B)
+ * 4. The DH outputs are run through HKDF to produce the shared secret
+ * 5. The initiator sends EK and the prekey IDs with its first messages
+ *    so the responder can derive the same secret without being online
+ */
+
+import {concatBytes} from './utils';
+import {generateAgreementKeyPair} from './keyGeneration';
+import {
+  computeSharedSecret,
+  exportRawPublicKey,
+  getAgreementCurve,
+  hkdf,
+} from './keyAgreement';
+import type {PreKeyBundle} from '../../types';
+
+const X3DH_INFO = 'TibbyTalkX3DH';
+
+// Domain separation prefix, as in the Signal X3DH specification
+const X3DH_PREFIX = new Uint8Array(32).fill(0xff);
+
+export interface SessionSetup {
+  sharedSecret: Uint8Array<ArrayBuffer>;
+  associatedData: string; // IK_initiator.IK_responder (Base64 raw keys)
+}
+
+export interface InitiatedSessionSetup extends SessionSetup {
+  ephemeralKey: string; // Base64 raw public key, sent to the responder
+}
+
+/**
+ * Combine DH outputs into the session shared secret
+ */
+async function deriveSharedSecret(
+  dhOutputs: Uint8Array[],
+): Promise<Uint8Array<ArrayBuffer>> {
+  return hkdf(
+    concatBytes(X3DH_PREFIX, ...dhOutputs),
+    new Uint8Array(32),
+    X3DH_INFO,
+    32,
+  );
+}
+
+/**
+ * Build associated data binding the session to both identity keys
+ */
+async function buildAssociatedData(
+  initiatorIdentityKey: JsonWebKey,
+  responderIdentityKey: JsonWebKey,
+): Promise<string> {
+  const initiatorRaw = await exportRawPublicKey(initiatorIdentityKey);
+  const responderRaw = await exportRawPublicKey(responderIdentityKey);
+  return `${initiatorRaw}.${responderRaw}`;
+}
+
+/**
+ * Start a session as the initiator (the side sending the first message)
+ * The bundle's signed prekey signature must be verified before calling this
+ *
+ * @param ourIdentityKey - Our identity agreement key pair (JWK)
+ * @param theirIdentityKey - Responder's published identity agreement key (JWK)
+ * @param bundle - Prekey bundle claimed from the responder
+ * @returns Shared secret, associated data and the ephemeral key to send
+ */
+export async function initiateSession(
+  ourIdentityKey: {publicKey: JsonWebKey; privateKey: JsonWebKey},
+  theirIdentityKey: JsonWebKey,
+  bundle: PreKeyBundle,
+): Promise<InitiatedSessionSetup> {
+  const ephemeralKeyPair = await generateAgreementKeyPair(
+    getAgreementCurve(ourIdentityKey.privateKey),
+  );
+  const theirIdentityRaw = await exportRawPublicKey(theirIdentityKey);
+  const signedPreKey = bundle.signedPreKey.publicKey;
+
+  const dhOutputs = [
+    await computeSharedSecret(ourIdentityKey.privateKey, signedPreKey),
+    await computeSharedSecret(ephemeralKeyPair.privateKey, theirIdentityRaw),
+    await computeSharedSecret(ephemeralKeyPair.privateKey, signedPreKey),
+  ];
+  if (bundle.oneTimePreKey) {
+    dhOutputs.push(
+      await computeSharedSecret(
+        ephemeralKeyPair.privateKey,
+        bundle.oneTimePreKey.publicKey,
+      ),
+    );
+  }
+
+  return {
+    sharedSecret: await deriveSharedSecret(dhOutputs),
+    associatedData: await buildAssociatedData(
+      ourIdentityKey.publicKey,
+      theirIdentityKey,
+    ),
+    ephemeralKey: await exportRawPublicKey(ephemeralKeyPair.publicKey),
+  };
+}
+
+/**
+ * Accept a session as the responder, from the initiator's first message
+ *
+ * @param ourIdentityKey - Our identity agreement key pair (JWK)
+ * @param ourPreKeys - Private keys of the prekeys the initiator used (JWK)
+ * @param theirIdentityKey - Initiator's published identity agreement key (JWK)
+ * @param ephemeralKey - Initiator's ephemeral key (Base64 raw)
+ * @returns Shared secret and associated data
+ */
+export async function respondToSession(
+  ourIdentityKey: {publicKey: JsonWebKey; privateKey: JsonWebKey},
+  ourPreKeys: {signedPreKey: JsonWebKey; oneTimePreKey?: JsonWebKey},
+  theirIdentityKey: JsonWebKey,
+  ephemeralKey: string,
+): Promise<SessionSetup> {
+  const theirIdentityRaw = await exportRawPublicKey(theirIdentityKey);
+
+  const dhOutputs = [
+    await computeSharedSecret(ourPreKeys.signedPreKey, theirIdentityRaw),
+    await computeSharedSecret(ourIdentityKey.privateKey, ephemeralKey),
+    await computeSharedSecret(ourPreKeys.signedPreKey, ephemeralKey),
+  ];
+  if (ourPreKeys.oneTimePreKey) {
+    dhOutputs.push(
+      await computeSharedSecret(ourPreKeys.oneTimePreKey, ephemeralKey),
+    );
+  }
+
+  return {
+    sharedSecret: await deriveSharedSecret(dhOutputs),
+    associatedData: await buildAssociatedData(
+      theirIdentityKey,
+      ourIdentityKey.publicKey,
+    ),
+  };
+}
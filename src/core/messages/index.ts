@@ -0,0 +1,12 @@
+/**
+ * TibbyTalk - Messages Module Exports
+ */
+
+export {
+  MESSAGE_PAYLOAD_VERSION,
+  validateMessagePayload,
+  serializeMessagePayload,
+  parseMessagePayload,
+  describeMessagePayload,
+  formatDuration,
+} from './payloads';
@@ -0,0 +1,275 @@
+/**
+ * TibbyTalk - Message Payloads
+ * The typed content of a message, serialized inside its ciphertext
+ *
+ * A payload is stored as JSON with a schema version, e.g.
+ * {"v":1,"type":"reply","text":"Sure","replyToId":"..."}. Reading is
+ * forward-compatible: a type or schema version this client does not know
+ * becomes an 'unknown' payload that shows the sender's fallback `text`, and
+ * fields it does not know are dropped. Plaintexts from before payloads
+ * existed are read as text messages.
+ */
+
+import {
+  MAX_MESSAGE_LENGTH,
+  MAX_VOICE_NOTE_DURATION,
+} from '../../config/constants';
+import type {
+  AttachmentInfo,
+  MessagePayload,
+  MessagePayloadType,
+  ReceivedMessagePayload,
+} from '../../types';
+
+// Schema version written with every payload
+export const MESSAGE_PAYLOAD_VERSION = 1;
+
+const MAX_ID_LENGTH = 128;
+const MAX_EMOJI_LENGTH = 32;
+const MAX_FIELD_LENGTH = 256;
+const MAX_WAVEFORM_LENGTH = 128;
+const MAX_WAVEFORM_LEVEL = 100;
+
+type PayloadFields = Record<string, unknown>;
+
+function isRecord(value: unknown): value is PayloadFields {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function readString(
+  fields: PayloadFields,
+  name: string,
+  maxLength: number,
+): string {
+  const value = fields[name];
+  if (typeof value !== 'string' || !value || value.length > maxLength) {
+    throw new Error('Invalid message payload');
+  }
+  return value;
+}
+
+function readOptionalString(
+  fields: PayloadFields,
+  name: string,
+  maxLength: number,
+): string | undefined {
+  return fields[name] === undefined
+    ? undefined
+    : readString(fields, name, maxLength);
+}
+
+function readAttachment(fields: PayloadFields): AttachmentInfo {
+  const attachment = fields.attachment;
+  if (!isRecord(attachment)) {
+    throw new Error('Invalid message payload');
+  }
+
+  if (attachment.version !== 'tt-a1') {
+    throw new Error('Unsupported attachment version');
+  }
+  const size = attachment.size;
+  if (typeof size !== 'number' || !Number.isSafeInteger(size) || size < 0) {
+    throw new Error('Invalid message payload');
+  }
+  return {
+    version: attachment.version,
+    storagePath: readString(attachment, 'storagePath', MAX_FIELD_LENGTH),
+    key: readString(attachment, 'key', MAX_FIELD_LENGTH),
+    digest: readString(attachment, 'digest', MAX_FIELD_LENGTH),
+    fileName: readString(attachment, 'fileName', MAX_FIELD_LENGTH),
+    mimeType: readString(attachment, 'mimeType', MAX_FIELD_LENGTH),
+    size,
+  };
+}
+
+function readDuration(fields: PayloadFields): number {
+  const durationMs = fields.durationMs;
+  if (
+    typeof durationMs !== 'number' ||
+    !Number.isSafeInteger(durationMs) ||
+    durationMs < 0 ||
+    durationMs > MAX_VOICE_NOTE_DURATION
+  ) {
+    throw new Error('Invalid message payload');
+  }
+  return durationMs;
+}
+
+function readWaveform(fields: PayloadFields): number[] {
+  const waveform = fields.waveform;
+  if (
+    !Array.isArray(waveform) ||
+    waveform.length > MAX_WAVEFORM_LENGTH ||
+    !waveform.every(
+      level =>
+        Number.isInteger(level) && level >= 0 && level <= MAX_WAVEFORM_LEVEL,
+    )
+  ) {
+    throw new Error('Invalid message payload');
+  }
+  return [...waveform];
+}
+
+// Each reader checks the fields of one type and copies only those
+const PAYLOAD_READERS: Record<
+  MessagePayloadType,
+  (fields: PayloadFields) => MessagePayload
+> = {
+  text: fields => ({
+    type: 'text',
+    text: readString(fields, 'text', MAX_MESSAGE_LENGTH),
+  }),
+  reply: fields => ({
+    type: 'reply',
+    text: readString(fields, 'text', MAX_MESSAGE_LENGTH),
+    replyToId: readString(fields, 'replyToId', MAX_ID_LENGTH),
+  }),
+  reaction: fields => ({
+    type: 'reaction',
+    targetId: readString(fields, 'targetId', MAX_ID_LENGTH),
+    emoji: readString(fields, 'emoji', MAX_EMOJI_LENGTH),
+    ...(fields.removed === true && {removed: true}),
+  }),
+  edit: fields => ({
+    type: 'edit',
+    targetId: readString(fields, 'targetId', MAX_ID_LENGTH),
+    text: readString(fields, 'text', MAX_MESSAGE_LENGTH),
+  }),
+  delete: fields => ({
+    type: 'delete',
+    targetId: readString(fields, 'targetId', MAX_ID_LENGTH),
+  }),
+  attachment: fields => {
+    const caption = readOptionalString(fields, 'caption', MAX_MESSAGE_LENGTH);
+    return {
+      type: 'attachment',
+      attachment: readAttachment(fields),
+      ...(caption !== undefined && {caption}),
+    };
+  },
+  voiceNote: fields => ({
+    type: 'voiceNote',
+    attachment: readAttachment(fields),
+    durationMs: readDuration(fields),
+    waveform: readWaveform(fields),
+  }),
+  system: fields => ({
+    type: 'system',
+    event: readString(fields, 'event', MAX_FIELD_LENGTH),
+    text: readString(fields, 'text', MAX_MESSAGE_LENGTH),
+  }),
+};
+
+function isKnownType(type: string): type is MessagePayloadType {
+  return Object.prototype.hasOwnProperty.call(PAYLOAD_READERS, type);
+}
+
+/**
+ * Check a payload before it is sent
+ *
+ * @param payload - Payload to check
+ * @returns A copy holding only the fields of its type
+ * @throws If a field is missing, of the wrong type or too long
+ */
+export function validateMessagePayload(
+  payload: MessagePayload,
+): MessagePayload {
+  if (!isRecord(payload) || !isKnownType(payload.type)) {
+    throw new Error('Invalid message payload');
+  }
+  return PAYLOAD_READERS[payload.type](payload);
+}
+
+/**
+ * Serialize a payload into the plaintext that gets encrypted
+ *
+ * @param payload - Payload to send
+ * @returns JSON plaintext
+ * @throws If the payload is invalid
+ */
+export function serializeMessagePayload(payload: MessagePayload): string {
+  return JSON.stringify({
+    v: MESSAGE_PAYLOAD_VERSION,
+    ...validateMessagePayload(payload),
+  });
+}
+
+/**
+ * Parse the plaintext of a decrypted message
+ *
+ * @param plaintext - Decrypted message content
+ * @returns The payload; 'unknown' for types from newer clients
+ * @throws If a payload of a known type is malformed
+ */
+export function parseMessagePayload(plaintext: string): ReceivedMessagePayload {
+  let fields: unknown;
+  try {
+    fields = JSON.parse(plaintext);
+  } catch {
+    fields = null;
+  }
+
+  // Messages sent before payloads existed are plain text
+  if (
+    !isRecord(fields) ||
+    typeof fields.v !== 'number' ||
+    typeof fields.type !== 'string'
+  ) {
+    return {type: 'text', text: plaintext};
+  }
+
+  if (fields.v > MESSAGE_PAYLOAD_VERSION || !isKnownType(fields.type)) {
+    return {
+      type: 'unknown',
+      originalType: fields.type,
+      ...(typeof fields.text === 'string' && {text: fields.text}),
+    };
+  }
+  return PAYLOAD_READERS[fields.type](fields);
+}
+
+/**
+ * Format a voice note's length as m:ss
+ *
+ * @param durationMs - Length in milliseconds
+ * @returns e.g. '1:05'
+ */
+export function formatDuration(durationMs: number): string {
+  const totalSeconds = Math.round(durationMs / 1000);
+  const minutes = Math.floor(totalSeconds / 60);
+  const seconds = String(totalSeconds % 60).padStart(2, '0');
+  return `${minutes}:${seconds}`;
+}
+
+/**
+ * One-line text for a payload, for message lists and notifications
+ *
+ * @param payload - Received payload
+ * @returns Text to show
+ */
+export function describeMessagePayload(
+  payload: ReceivedMessagePayload,
+): string {
+  switch (payload.type) {
+    case 'text':
+    case 'reply':
+    case 'edit':
+    case 'system':
+      return payload.text;
+    case 'reaction':
+      return payload.removed
+        ? `Removed ${payload.emoji}`
+        : `Reacted ${payload.emoji}`;
+    case 'delete':
+      return 'This message was deleted';
+    case 'attachment':
+      return payload.caption ?? `📎 ${payload.attachment.fileName}`;
+    case 'voiceNote':
+      return `🎤 Voice note (${formatDuration(payload.durationMs)})`;
+    case 'unknown':
+      return (
+        payload.text ??
+        'This message needs a newer version of TibbyTalk to display'
+      );
+  }
+}
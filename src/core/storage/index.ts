@@ -6,8 +6,42 @@ export {
   storePrivateKey,
   getPrivateKey,
   deletePrivateKey,
+  storePreviousPrivateKeys,
+  getPreviousPrivateKeys,
+  storeAgreementKey,
+  getAgreementKey,
+  storeSigningKey,
+  getSigningKey,
+  storePreKeys,
+  getPreKeys,
+  storeLocalDevice,
+  getLocalDevice,
+  deleteLocalDevice,
+  storeBackupKey,
+  getBackupKey,
+  deleteBackupKey,
+  storeSessionState,
+  getSessionState,
+  storeMessageCache,
+  getMessageCache,
+  storeVerifiedContacts,
+  getVerifiedContacts,
   storeGroupKey,
   getGroupKey,
+  getGroupKeys,
+  deleteGroupKeys,
+  storeSenderKeys,
+  getSenderKeys,
+  storeTreeKeys,
+  getTreeKeys,
   hasPrivateKey,
   hasSecureHardware,
 } from './keyStorage';
+
+export {
+  writeEntry,
+  readEntry,
+  deleteEntry,
+  listEntries,
+  wipeKeystore,
+} from './keystore';
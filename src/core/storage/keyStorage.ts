@@ -1,18 +1,52 @@
 /**
  * TibbyTalk - Secure Key Storage
- * Uses react-native-keychain for secure storage of private keys
- * Keys are encrypted at rest by iOS Keychain / Android Keystore
+ * Stores private keys, session state and group keys as keystore entries
+ * (see keystore.ts), so several users, groups and key versions can be held
+ * side by side
+ *
+ * Values written before the keystore existed live in one keychain item per
+ * kind of key. They are moved into the keystore the first time they are read.
  */
 
 import * as Keychain from 'react-native-keychain';
+import {readEntry, writeEntry, deleteEntry, listEntries} from './keystore';
 
 const SERVICE_NAME = 'com.tibbytalk.keys';
 
+/**
+ * Read an entry, moving a value from its pre-keystore keychain item first
+ *
+ * @param name - Keystore entry name
+ * @param legacyService - Keychain service the value used to be stored under
+ * @param owner - Username the legacy item must have been stored for
+ * @returns The stored value, or null if not found
+ */
+async function readMigratedEntry(
+  name: string,
+  legacyService: string,
+  owner: string,
+): Promise<string | null> {
+  const value = await readEntry(name);
+  if (value !== null) {
+    return value;
+  }
+
+  const service = `${SERVICE_NAME}.${legacyService}`;
+  const credentials = await Keychain.getGenericPassword({service});
+  if (!credentials || credentials.username !== owner) {
+    return null;
+  }
+
+  await writeEntry(name, credentials.password);
+  await Keychain.resetGenericPassword({service});
+  return credentials.password;
+}
+
 /**
  * Store user's private key securely on device
- * Uses hardware-backed encryption when available
+ * The keystore master key is hardware-backed when available
  *
- * @param userId - User's ID (used as the username/key)
+ * @param userId - User's ID
  * @param privateKeyJwk - Private key in JWK format
  * @returns True if stored successfully
  */
@@ -21,15 +55,7 @@ export async function storePrivateKey(
   privateKeyJwk: JsonWebKey,
 ): Promise<boolean> {
   try {
-    await Keychain.setGenericPassword(
-      userId,
-      JSON.stringify(privateKeyJwk),
-      {
-        service: `${SERVICE_NAME}.identity`,
-        accessible: Keychain.ACCESSIBLE.WHEN_UNLOCKED_THIS_DEVICE_ONLY,
-        securityLevel: Keychain.SECURITY_LEVEL.SECURE_HARDWARE,
-      },
-    );
+    await writeEntry(`identity/${userId}`, JSON.stringify(privateKeyJwk));
     return true;
   } catch (error) {
     console.error('Failed to store private key:', error);
@@ -47,14 +73,12 @@ export async function getPrivateKey(
   userId: string,
 ): Promise<JsonWebKey | null> {
   try {
-    const credentials = await Keychain.getGenericPassword({
-      service: `${SERVICE_NAME}.identity`,
-    });
-
-    if (credentials && credentials.username === userId) {
-      return JSON.parse(credentials.password);
-    }
-    return null;
+    const stored = await readMigratedEntry(
+      `identity/${userId}`,
+      'identity',
+      userId,
+    );
+    return stored ? JSON.parse(stored) : null;
   } catch (error) {
     console.error('Failed to retrieve private key:', error);
     return null;
@@ -64,13 +88,12 @@ export async function getPrivateKey(
 /**
  * Delete user's private key from secure storage
  *
+ * @param userId - User's ID
  * @returns True if deleted successfully
  */
-export async function deletePrivateKey(): Promise<boolean> {
+export async function deletePrivateKey(userId: string): Promise<boolean> {
   try {
-    await Keychain.resetGenericPassword({
-      service: `${SERVICE_NAME}.identity`,
-    });
+    await deleteEntry(`identity/${userId}`);
     return true;
   } catch (error) {
     console.error('Failed to delete private key:', error);
@@ -79,21 +102,408 @@ export async function deletePrivateKey(): Promise<boolean> {
 }
 
 /**
- * Store an encrypted group key
+ * Store identity private keys the user has replaced
+ * Kept so messages and group keys wrapped for them can still be decrypted
+ *
+ * @param userId - User's ID
+ * @param privateKeys - Object mapping keyId -> private key (JWK)
+ * @returns True if stored successfully
+ */
+export async function storePreviousPrivateKeys(
+  userId: string,
+  privateKeys: Record<string, JsonWebKey>,
+): Promise<boolean> {
+  try {
+    await writeEntry(`previous/${userId}`, JSON.stringify(privateKeys));
+    return true;
+  } catch (error) {
+    console.error('Failed to store previous private keys:', error);
+    return false;
+  }
+}
+
+/**
+ * Retrieve identity private keys the user has replaced
+ *
+ * @param userId - User's ID
+ * @returns Object mapping keyId -> private key (JWK), empty if none
+ */
+export async function getPreviousPrivateKeys(
+  userId: string,
+): Promise<Record<string, JsonWebKey>> {
+  try {
+    const stored = await readMigratedEntry(
+      `previous/${userId}`,
+      'identity.previous',
+      userId,
+    );
+    return stored ? JSON.parse(stored) : {};
+  } catch (error) {
+    console.error('Failed to retrieve previous private keys:', error);
+    return {};
+  }
+}
+
+/**
+ * Store user's agreement private key securely on device
+ * Used to set up Double Ratchet sessions
+ *
+ * @param userId - User's ID
+ * @param privateKeyJwk - X25519 (or legacy P-256) private key in JWK format
+ * @returns True if stored successfully
+ */
+export async function storeAgreementKey(
+  userId: string,
+  privateKeyJwk: JsonWebKey,
+): Promise<boolean> {
+  try {
+    await writeEntry(`agreement/${userId}`, JSON.stringify(privateKeyJwk));
+    return true;
+  } catch (error) {
+    console.error('Failed to store agreement key:', error);
+    return false;
+  }
+}
+
+/**
+ * Retrieve user's agreement private key from secure storage
+ *
+ * @param userId - User's ID
+ * @returns Private key in JWK format, or null if not found
+ */
+export async function getAgreementKey(
+  userId: string,
+): Promise<JsonWebKey | null> {
+  try {
+    const stored = await readMigratedEntry(
+      `agreement/${userId}`,
+      'agreement',
+      userId,
+    );
+    return stored ? JSON.parse(stored) : null;
+  } catch (error) {
+    console.error('Failed to retrieve agreement key:', error);
+    return null;
+  }
+}
+
+/**
+ * Store user's signing private key securely on device
+ * Used to sign prekeys
+ *
+ * @param userId - User's ID
+ * @param privateKeyJwk - Signing private key in JWK format
+ * @returns True if stored successfully
+ */
+export async function storeSigningKey(
+  userId: string,
+  privateKeyJwk: JsonWebKey,
+): Promise<boolean> {
+  try {
+    await writeEntry(`signing/${userId}`, JSON.stringify(privateKeyJwk));
+    return true;
+  } catch (error) {
+    console.error('Failed to store signing key:', error);
+    return false;
+  }
+}
+
+/**
+ * Retrieve user's signing private key from secure storage
+ *
+ * @param userId - User's ID
+ * @returns Private key in JWK format, or null if not found
+ */
+export async function getSigningKey(
+  userId: string,
+): Promise<JsonWebKey | null> {
+  try {
+    const stored = await readMigratedEntry(
+      `signing/${userId}`,
+      'signing',
+      userId,
+    );
+    return stored ? JSON.parse(stored) : null;
+  } catch (error) {
+    console.error('Failed to retrieve signing key:', error);
+    return null;
+  }
+}
+
+/**
+ * Store the user's prekey private keys
+ *
+ * @param userId - User's ID
+ * @param serializedPreKeys - JSON signed and one-time prekey private keys
+ * @returns True if stored successfully
+ */
+export async function storePreKeys(
+  userId: string,
+  serializedPreKeys: string,
+): Promise<boolean> {
+  try {
+    await writeEntry(`prekeys/${userId}`, serializedPreKeys);
+    return true;
+  } catch (error) {
+    console.error('Failed to store prekeys:', error);
+    return false;
+  }
+}
+
+/**
+ * Retrieve the user's prekey private keys
+ *
+ * @param userId - User's ID
+ * @returns JSON prekey private keys, or null if not found
+ */
+export async function getPreKeys(userId: string): Promise<string | null> {
+  try {
+    return await readMigratedEntry(`prekeys/${userId}`, 'prekeys', userId);
+  } catch (error) {
+    console.error('Failed to retrieve prekeys:', error);
+    return null;
+  }
+}
+
+/**
+ * Store this device's registration and, on linked devices, its private key
+ *
+ * @param userId - User's ID
+ * @param serializedDevice - JSON device ID, key ID and private key
+ * @returns True if stored successfully
+ */
+export async function storeLocalDevice(
+  userId: string,
+  serializedDevice: string,
+): Promise<boolean> {
+  try {
+    await writeEntry(`device/${userId}`, serializedDevice);
+    return true;
+  } catch (error) {
+    console.error('Failed to store local device:', error);
+    return false;
+  }
+}
+
+/**
+ * Retrieve this device's registration
+ *
+ * @param userId - User's ID
+ * @returns JSON device registration, or null if not found
+ */
+export async function getLocalDevice(userId: string): Promise<string | null> {
+  try {
+    return await readMigratedEntry(`device/${userId}`, 'device', userId);
+  } catch (error) {
+    console.error('Failed to retrieve local device:', error);
+    return null;
+  }
+}
+
+/**
+ * Delete this device's registration
+ *
+ * @param userId - User's ID
+ * @returns True if deleted successfully
+ */
+export async function deleteLocalDevice(userId: string): Promise<boolean> {
+  try {
+    await deleteEntry(`device/${userId}`);
+    return true;
+  } catch (error) {
+    console.error('Failed to delete local device:', error);
+    return false;
+  }
+}
+
+/**
+ * Store the key protecting the cloud key backup, so the backup can be
+ * refreshed without asking for the recovery code again
+ *
+ * @param userId - User's ID
+ * @param serializedBackupKey - JSON backup method, key and KDF parameters
+ * @returns True if stored successfully
+ */
+export async function storeBackupKey(
+  userId: string,
+  serializedBackupKey: string,
+): Promise<boolean> {
+  try {
+    await writeEntry(`backup/${userId}`, serializedBackupKey);
+    return true;
+  } catch (error) {
+    console.error('Failed to store backup key:', error);
+    return false;
+  }
+}
+
+/**
+ * Retrieve the key protecting the cloud key backup
+ *
+ * @param userId - User's ID
+ * @returns JSON backup key, or null if not found
+ */
+export async function getBackupKey(userId: string): Promise<string | null> {
+  try {
+    return await readMigratedEntry(`backup/${userId}`, 'backup', userId);
+  } catch (error) {
+    console.error('Failed to retrieve backup key:', error);
+    return null;
+  }
+}
+
+/**
+ * Delete the key protecting the cloud key backup
+ *
+ * @param userId - User's ID
+ * @returns True if deleted successfully
+ */
+export async function deleteBackupKey(userId: string): Promise<boolean> {
+  try {
+    await deleteEntry(`backup/${userId}`);
+    return true;
+  } catch (error) {
+    console.error('Failed to delete backup key:', error);
+    return false;
+  }
+}
+
+/**
+ * Store the serialized ratchet session state for a conversation
+ *
+ * @param conversationId - Conversation's ID
+ * @param serializedState - JSON session state
+ * @returns True if stored successfully
+ */
+export async function storeSessionState(
+  conversationId: string,
+  serializedState: string,
+): Promise<boolean> {
+  try {
+    await writeEntry(`session/${conversationId}`, serializedState);
+    return true;
+  } catch (error) {
+    console.error('Failed to store session state:', error);
+    return false;
+  }
+}
+
+/**
+ * Retrieve the serialized ratchet session state for a conversation
+ *
+ * @param conversationId - Conversation's ID
+ * @returns JSON session state, or null if not found
+ */
+export async function getSessionState(
+  conversationId: string,
+): Promise<string | null> {
+  try {
+    return await readMigratedEntry(
+      `session/${conversationId}`,
+      `sessions.${conversationId}`,
+      conversationId,
+    );
+  } catch (error) {
+    console.error('Failed to retrieve session state:', error);
+    return null;
+  }
+}
+
+/**
+ * Store decrypted message contents for a conversation
+ * Ratchet message keys are single-use, so plaintext is kept locally
+ *
+ * @param conversationId - Conversation's ID
+ * @param serializedCache - JSON map of messageId -> cached content
+ * @returns True if stored successfully
+ */
+export async function storeMessageCache(
+  conversationId: string,
+  serializedCache: string,
+): Promise<boolean> {
+  try {
+    await writeEntry(`messages/${conversationId}`, serializedCache);
+    return true;
+  } catch (error) {
+    console.error('Failed to store message cache:', error);
+    return false;
+  }
+}
+
+/**
+ * Retrieve decrypted message contents for a conversation
+ *
+ * @param conversationId - Conversation's ID
+ * @returns JSON message cache, or null if not found
+ */
+export async function getMessageCache(
+  conversationId: string,
+): Promise<string | null> {
+  try {
+    return await readMigratedEntry(
+      `messages/${conversationId}`,
+      `messages.${conversationId}`,
+      conversationId,
+    );
+  } catch (error) {
+    console.error('Failed to retrieve message cache:', error);
+    return null;
+  }
+}
+
+/**
+ * Store the user's contact verification records
+ *
+ * @param userId - User's ID
+ * @param serializedRecords - JSON map of contactId -> verification record
+ * @returns True if stored successfully
+ */
+export async function storeVerifiedContacts(
+  userId: string,
+  serializedRecords: string,
+): Promise<boolean> {
+  try {
+    await writeEntry(`verified/${userId}`, serializedRecords);
+    return true;
+  } catch (error) {
+    console.error('Failed to store verified contacts:', error);
+    return false;
+  }
+}
+
+/**
+ * Retrieve the user's contact verification records
+ *
+ * @param userId - User's ID
+ * @returns JSON verification records, or null if not found
+ */
+export async function getVerifiedContacts(
+  userId: string,
+): Promise<string | null> {
+  try {
+    return await readMigratedEntry(`verified/${userId}`, 'verified', userId);
+  } catch (error) {
+    console.error('Failed to retrieve verified contacts:', error);
+    return null;
+  }
+}
+
+/**
+ * Store one version of a group's key
+ * Older versions are kept so messages sent before a rotation stay readable
  *
  * @param groupId - Group's ID
- * @param encryptedKey - Base64 encoded encrypted group key
+ * @param keyId - ID of the group key
+ * @param rawKey - Base64 raw AES key
  * @returns True if stored successfully
  */
 export async function storeGroupKey(
   groupId: string,
-  encryptedKey: string,
+  keyId: string,
+  rawKey: string,
 ): Promise<boolean> {
   try {
-    await Keychain.setGenericPassword(groupId, encryptedKey, {
-      service: `${SERVICE_NAME}.groups`,
-      accessible: Keychain.ACCESSIBLE.WHEN_UNLOCKED_THIS_DEVICE_ONLY,
-    });
+    await writeEntry(`group/${groupId}/${keyId}`, rawKey);
     return true;
   } catch (error) {
     console.error('Failed to store group key:', error);
@@ -102,23 +512,133 @@ export async function storeGroupKey(
 }
 
 /**
- * Retrieve an encrypted group key
+ * Retrieve one version of a group's key
  *
  * @param groupId - Group's ID
- * @returns Encrypted group key, or null if not found
+ * @param keyId - ID of the group key
+ * @returns Base64 raw AES key, or null if not found
  */
-export async function getGroupKey(groupId: string): Promise<string | null> {
+export async function getGroupKey(
+  groupId: string,
+  keyId: string,
+): Promise<string | null> {
   try {
-    const credentials = await Keychain.getGenericPassword({
-      service: `${SERVICE_NAME}.groups`,
-    });
+    return await readEntry(`group/${groupId}/${keyId}`);
+  } catch (error) {
+    console.error('Failed to retrieve group key:', error);
+    return null;
+  }
+}
 
-    if (credentials && credentials.username === groupId) {
-      return credentials.password;
+/**
+ * Retrieve every stored version of a group's key
+ *
+ * @param groupId - Group's ID
+ * @returns Object mapping keyId -> base64 raw AES key
+ */
+export async function getGroupKeys(
+  groupId: string,
+): Promise<Record<string, string>> {
+  const prefix = `group/${groupId}/`;
+  const groupKeys: Record<string, string> = {};
+  try {
+    for (const name of await listEntries(prefix)) {
+      const rawKey = await readEntry(name);
+      if (rawKey) {
+        groupKeys[name.slice(prefix.length)] = rawKey;
+      }
     }
+  } catch (error) {
+    console.error('Failed to retrieve group keys:', error);
+  }
+  return groupKeys;
+}
+
+/**
+ * Delete every stored version of a group's key
+ *
+ * @param groupId - Group's ID
+ * @returns True if deleted successfully
+ */
+export async function deleteGroupKeys(groupId: string): Promise<boolean> {
+  try {
+    for (const name of await listEntries(`group/${groupId}/`)) {
+      await deleteEntry(name);
+    }
+    return true;
+  } catch (error) {
+    console.error('Failed to delete group keys:', error);
+    return false;
+  }
+}
+
+/**
+ * Store a group's sender keys: our own sending chain and the chains of
+ * other members we have received
+ *
+ * @param groupId - Group's ID
+ * @param serializedSenderKeys - JSON sender key states
+ * @returns True if stored successfully
+ */
+export async function storeSenderKeys(
+  groupId: string,
+  serializedSenderKeys: string,
+): Promise<boolean> {
+  try {
+    await writeEntry(`senderkeys/${groupId}`, serializedSenderKeys);
+    return true;
+  } catch (error) {
+    console.error('Failed to store sender keys:', error);
+    return false;
+  }
+}
+
+/**
+ * Retrieve a group's sender keys
+ *
+ * @param groupId - Group's ID
+ * @returns JSON sender key states, or null if not found
+ */
+export async function getSenderKeys(groupId: string): Promise<string | null> {
+  try {
+    return await readEntry(`senderkeys/${groupId}`);
+  } catch (error) {
+    console.error('Failed to retrieve sender keys:', error);
     return null;
+  }
+}
+
+/**
+ * Store a group's ratchet tree keys: the private keys of our path
+ *
+ * @param groupId - Group's ID
+ * @param serializedTreeKeys - JSON tree key state
+ * @returns True if stored successfully
+ */
+export async function storeTreeKeys(
+  groupId: string,
+  serializedTreeKeys: string,
+): Promise<boolean> {
+  try {
+    await writeEntry(`tree/${groupId}`, serializedTreeKeys);
+    return true;
   } catch (error) {
-    console.error('Failed to retrieve group key:', error);
+    console.error('Failed to store tree keys:', error);
+    return false;
+  }
+}
+
+/**
+ * Retrieve a group's ratchet tree keys
+ *
+ * @param groupId - Group's ID
+ * @returns JSON tree key state, or null if not found
+ */
+export async function getTreeKeys(groupId: string): Promise<string | null> {
+  try {
+    return await readEntry(`tree/${groupId}`);
+  } catch (error) {
+    console.error('Failed to retrieve tree keys:', error);
     return null;
   }
 }
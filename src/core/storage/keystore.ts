@@ -0,0 +1,173 @@
+/**
+ * TibbyTalk - Local Keystore
+ * Holds any number of named secrets, encrypted under one master key
+ *
+ * The master key is a random AES-256-GCM key kept in the keychain, in
+ * secure hardware when the device has it. Each entry is its own keychain
+ * item whose value is IV (12) || ciphertext; the entry name is bound in as
+ * additional data, so an entry cannot be moved to another name. Wiping the
+ * keystore deletes the master key along with every entry.
+ *
+ * Names are paths such as "identity/{userId}" or
+ * "group/{groupId}/{keyId}", so related entries can be listed by prefix.
+ */
+
+import * as Keychain from 'react-native-keychain';
+import {
+  arrayBufferToBase64,
+  base64ToArrayBuffer,
+  concatBytes,
+} from '../crypto/utils';
+
+const subtle = crypto.subtle;
+
+const SERVICE_NAME = 'com.tibbytalk.keys';
+const MASTER_KEY_SERVICE = `${SERVICE_NAME}.master`;
+const ENTRY_SERVICE_PREFIX = `${SERVICE_NAME}.entry.`;
+const IV_LENGTH = 12;
+
+let masterKeyPromise: Promise<CryptoKey> | null = null;
+
+function entryService(name: string): string {
+  return `${ENTRY_SERVICE_PREFIX}${name}`;
+}
+
+async function importMasterKey(rawKey: string): Promise<CryptoKey> {
+  return subtle.importKey(
+    'raw',
+    base64ToArrayBuffer(rawKey),
+    {name: 'AES-GCM'},
+    false,
+    ['encrypt', 'decrypt'],
+  );
+}
+
+/**
+ * Load the master key, creating it on first use
+ */
+async function loadMasterKey(): Promise<CryptoKey> {
+  const credentials = await Keychain.getGenericPassword({
+    service: MASTER_KEY_SERVICE,
+  });
+  if (credentials) {
+    return importMasterKey(credentials.password);
+  }
+
+  const rawKey = arrayBufferToBase64(
+    crypto.getRandomValues(new Uint8Array(32)).buffer,
+  );
+  const securityLevel = await Keychain.getSecurityLevel();
+  const stored = await Keychain.setGenericPassword('master', rawKey, {
+    service: MASTER_KEY_SERVICE,
+    accessible: Keychain.ACCESSIBLE.WHEN_UNLOCKED_THIS_DEVICE_ONLY,
+    securityLevel:
+      securityLevel === Keychain.SECURITY_LEVEL.SECURE_HARDWARE
+        ? Keychain.SECURITY_LEVEL.SECURE_HARDWARE
+        : Keychain.SECURITY_LEVEL.ANY,
+  });
+  if (!stored) {
+    throw new Error('Failed to create keystore master key');
+  }
+  return importMasterKey(rawKey);
+}
+
+function getMasterKey(): Promise<CryptoKey> {
+  if (!masterKeyPromise) {
+    masterKeyPromise = loadMasterKey().catch(error => {
+      masterKeyPromise = null;
+      throw error;
+    });
+  }
+  return masterKeyPromise;
+}
+
+/**
+ * Store an entry, replacing any value under the same name
+ *
+ * @param name - Entry name, e.g. "identity/{userId}"
+ * @param value - Secret to store
+ */
+export async function writeEntry(name: string, value: string): Promise<void> {
+  const iv = crypto.getRandomValues(new Uint8Array(IV_LENGTH));
+  const ciphertext = await subtle.encrypt(
+    {name: 'AES-GCM', iv, additionalData: new TextEncoder().encode(name)},
+    await getMasterKey(),
+    new TextEncoder().encode(value),
+  );
+
+  const stored = await Keychain.setGenericPassword(
+    name,
+    arrayBufferToBase64(concatBytes(iv, new Uint8Array(ciphertext)).buffer),
+    {
+      service: entryService(name),
+      accessible: Keychain.ACCESSIBLE.WHEN_UNLOCKED_THIS_DEVICE_ONLY,
+    },
+  );
+  if (!stored) {
+    throw new Error(`Failed to store keystore entry "${name}"`);
+  }
+}
+
+/**
+ * Read an entry
+ *
+ * @param name - Entry name
+ * @returns The stored secret, or null if there is no such entry
+ * @throws If the entry cannot be decrypted
+ */
+export async function readEntry(name: string): Promise<string | null> {
+  const credentials = await Keychain.getGenericPassword({
+    service: entryService(name),
+  });
+  if (!credentials || credentials.username !== name) {
+    return null;
+  }
+
+  const bytes = new Uint8Array(base64ToArrayBuffer(credentials.password));
+  const plaintext = await subtle.decrypt(
+    {
+      name: 'AES-GCM',
+      iv: bytes.slice(0, IV_LENGTH),
+      additionalData: new TextEncoder().encode(name),
+    },
+    await getMasterKey(),
+    bytes.slice(IV_LENGTH),
+  );
+  return new TextDecoder().decode(plaintext);
+}
+
+/**
+ * Delete an entry
+ *
+ * @param name - Entry name
+ */
+export async function deleteEntry(name: string): Promise<void> {
+  await Keychain.resetGenericPassword({service: entryService(name)});
+}
+
+/**
+ * List the names of stored entries
+ *
+ * @param prefix - Only list names starting with this, e.g. "group/{groupId}/"
+ * @returns Entry names
+ */
+export async function listEntries(prefix = ''): Promise<string[]> {
+  const services = await Keychain.getAllGenericPasswordServices();
+  return services
+    .filter(service => service.startsWith(entryService(prefix)))
+    .map(service => service.slice(ENTRY_SERVICE_PREFIX.length));
+}
+
+/**
+ * Delete every entry and the master key
+ * Also removes keychain items written before the keystore existed
+ */
+export async function wipeKeystore(): Promise<void> {
+  const services = await Keychain.getAllGenericPasswordServices();
+  for (const service of services) {
+    if (service.startsWith(`${SERVICE_NAME}.`)) {
+      await Keychain.resetGenericPassword({service});
+    }
+  }
+  masterKeyPromise = null;
+}
@@ -7,22 +7,29 @@ import React from 'react';
 import {createNativeStackNavigator} from '@react-navigation/native-stack';
 import type {MainStackParamList} from '../types';
 import {COLORS} from '../config/constants';
+import {useAuthStore} from '../store';
 
 import ConversationListScreen from '../screens/chat/ConversationListScreen';
 import ChatScreen from '../screens/chat/ChatScreen';
 import NewChatScreen from '../screens/chat/NewChatScreen';
+import SafetyNumberScreen from '../screens/chat/SafetyNumberScreen';
 import CreateGroupScreen from '../screens/group/CreateGroupScreen';
 import GroupInfoScreen from '../screens/group/GroupInfoScreen';
 import AddMembersScreen from '../screens/group/AddMembersScreen';
 import SettingsScreen from '../screens/settings/SettingsScreen';
 import SecuritySettingsScreen from '../screens/settings/SecuritySettingsScreen';
 import KeyBackupScreen from '../screens/settings/KeyBackupScreen';
+import KeyRestoreScreen from '../screens/settings/KeyRestoreScreen';
+import DevicesScreen from '../screens/settings/DevicesScreen';
 
 const Stack = createNativeStackNavigator<MainStackParamList>();
 
 export default function MainNavigator() {
+  const {needsKeyRestore} = useAuthStore();
+
   return (
     <Stack.Navigator
+      initialRouteName={needsKeyRestore ? 'KeyRestore' : 'ConversationList'}
       screenOptions={{
         headerStyle: {
           backgroundColor: COLORS.primary,
@@ -47,6 +54,13 @@ export default function MainNavigator() {
           title: 'Chat',
         }}
       />
+      <Stack.Screen
+        name="SafetyNumber"
+        component={SafetyNumberScreen}
+        options={{
+          title: 'Safety Number',
+        }}
+      />
       <Stack.Screen
         name="NewChat"
         component={NewChatScreen}
@@ -99,6 +113,20 @@ export default function MainNavigator() {
           title: 'Key Backup',
         }}
       />
+      <Stack.Screen
+        name="KeyRestore"
+        component={KeyRestoreScreen}
+        options={{
+          title: 'Restore Keys',
+        }}
+      />
+      <Stack.Screen
+        name="Devices"
+        component={DevicesScreen}
+        options={{
+          title: 'Devices',
+        }}
+      />
     </Stack.Navigator>
   );
 }
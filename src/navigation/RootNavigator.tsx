@@ -6,7 +6,13 @@
 import React, {useEffect} from 'react';
 import {ActivityIndicator, View, StyleSheet} from 'react-native';
 import {NavigationContainer} from '@react-navigation/native';
-import {onAuthStateChanged, getUserById} from '../core/auth';
+import {
+  onAuthStateChanged,
+  getUserById,
+  needsKeyRestore,
+  installIdentityKeyUpdate,
+} from '../core/auth';
+import {refreshKeyBackup} from '../services';
 import {useAuthStore} from '../store';
 import {COLORS} from '../config/constants';
 
@@ -14,8 +20,14 @@ import AuthNavigator from './AuthNavigator';
 import MainNavigator from './MainNavigator';
 
 export default function RootNavigator() {
-  const {isAuthenticated, isLoading, isInitialized, setUser, setInitialized} =
-    useAuthStore();
+  const {
+    isAuthenticated,
+    isLoading,
+    isInitialized,
+    setUser,
+    setInitialized,
+    setNeedsKeyRestore,
+  } = useAuthStore();
 
   useEffect(() => {
     // Listen for auth state changes
@@ -24,7 +36,20 @@ export default function RootNavigator() {
         // User is signed in, get full user data
         try {
           const userData = await getUserById(firebaseUser.uid);
+          // Take a replaced identity key sent from the primary device
+          if (userData) {
+            await installIdentityKeyUpdate(userData).catch(error =>
+              console.error('Failed to install identity key update:', error),
+            );
+          }
+          // Devices without the identity key start on the restore screen
+          setNeedsKeyRestore(await needsKeyRestore(firebaseUser.uid));
           setUser(userData);
+
+          // Pick up group keys received while we were away
+          refreshKeyBackup(firebaseUser.uid).catch(error =>
+            console.error('Failed to refresh key backup:', error),
+          );
         } catch (error) {
           console.error('Failed to get user data:', error);
           setUser(null);
@@ -37,7 +62,7 @@ export default function RootNavigator() {
     });
 
     return unsubscribe;
-  }, [setUser, setInitialized]);
+  }, [setUser, setInitialized, setNeedsKeyRestore]);
 
   // Show loading screen while checking auth state
   if (!isInitialized || isLoading) {
@@ -3,8 +3,10 @@
  * 1:1 and group message view
  */
 
-import React, {useState} from 'react';
+import React, {useCallback, useEffect, useMemo, useState} from 'react';
 import {
+  Alert,
+  Image,
   View,
   Text,
   TextInput,
@@ -12,30 +14,487 @@ import {
   StyleSheet,
   FlatList,
   KeyboardAvoidingView,
+  PermissionsAndroid,
   Platform,
 } from 'react-native';
 import {NativeStackScreenProps} from '@react-navigation/native-stack';
-import {COLORS} from '../../config/constants';
-import type {MainStackParamList, DecryptedMessage} from '../../types';
+import {useFocusEffect} from '@react-navigation/native';
+import {COLORS, MAX_VOICE_NOTE_DURATION} from '../../config/constants';
+import {useAuthStore} from '../../store';
+import {getUserById} from '../../core/auth';
+import {arrayBufferToBase64} from '../../core/crypto';
+import {describeMessagePayload, formatDuration} from '../../core/messages';
+import {
+  getConversation,
+  getVerificationStatus,
+  checkParticipantKeys,
+  getPendingKeyChanges,
+  acknowledgeKeyChanges,
+  subscribeToMessages,
+  decryptDirectMessageContent,
+  decryptGroupMessageContent,
+  sendDirectMessage,
+  sendGroupMessage,
+  downloadAttachment,
+  sendVoiceNote,
+  startVoiceNoteRecording,
+  stopVoiceNoteRecording,
+  cancelVoiceNoteRecording,
+  playVoiceNote,
+  stopVoiceNotePlayback,
+} from '../../services';
+import type {
+  AttachmentInfo,
+  AttachmentPayload,
+  MainStackParamList,
+  Conversation,
+  DecryptedMessage,
+  KeyChangeEvent,
+  User,
+  VerificationStatus,
+  VoiceNotePayload,
+} from '../../types';
 
 type Props = NativeStackScreenProps<MainStackParamList, 'Chat'>;
 
-export default function ChatScreen({route}: Props) {
+// Messages and system notices share the message stream
+type ChatItem =
+  | {kind: 'message'; id: string; timestamp: number; message: DecryptedMessage}
+  | {kind: 'keyChange'; id: string; timestamp: number; event: KeyChangeEvent};
+
+// Attachments are only downloaded when tapped
+interface AttachmentDownload {
+  status: 'downloading' | 'verified' | 'failed';
+  imageUri?: string; // Decrypted image, as a data URI
+}
+
+// The voice note that is playing
+interface VoiceNotePlayback {
+  messageId: string;
+  positionMs: number;
+}
+
+function formatFileSize(size: number): string {
+  if (size < 1024) {
+    return `${size} B`;
+  }
+  if (size < 1024 * 1024) {
+    return `${Math.round(size / 1024)} KB`;
+  }
+  return `${(size / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+// iOS asks for the microphone the first time a recording starts
+async function requestMicrophonePermission(): Promise<boolean> {
+  if (Platform.OS !== 'android') {
+    return true;
+  }
+  const result = await PermissionsAndroid.request(
+    PermissionsAndroid.PERMISSIONS.RECORD_AUDIO,
+  );
+  return result === PermissionsAndroid.RESULTS.GRANTED;
+}
+
+export default function ChatScreen({route, navigation}: Props) {
   const {conversationId} = route.params;
+  const {user} = useAuthStore();
   const [message, setMessage] = useState('');
+  const [isSending, setIsSending] = useState(false);
   const [messages, setMessages] = useState<DecryptedMessage[]>([]);
+  const [conversation, setConversation] = useState<Conversation | null>(null);
+  const [contact, setContact] = useState<User | null>(null);
+  const [verificationStatus, setVerificationStatus] =
+    useState<VerificationStatus>('unverified');
+  const [downloads, setDownloads] = useState<
+    Record<string, AttachmentDownload>
+  >({});
+  const [recordingMs, setRecordingMs] = useState<number | null>(null);
+  const [playback, setPlayback] = useState<VoiceNotePlayback | null>(null);
+
+  const pendingKeyChanges = useMemo(
+    () =>
+      conversation && user ? getPendingKeyChanges(conversation, user.id) : [],
+    [conversation, user],
+  );
+
+  const chatItems = useMemo(() => {
+    const items: ChatItem[] = messages.map(item => ({
+      kind: 'message',
+      id: item.id,
+      timestamp: item.timestamp,
+      message: item,
+    }));
+    for (const event of Object.values(conversation?.keyChanges ?? {})) {
+      items.push({
+        kind: 'keyChange',
+        id: `keyChange-${event.id}`,
+        timestamp: event.detectedAt,
+        event,
+      });
+    }
+    return items.sort((a, b) => b.timestamp - a.timestamp);
+  }, [messages, conversation]);
+
+  // Check participants' keys and the contact's verification whenever the
+  // chat comes into view
+  useFocusEffect(
+    useCallback(() => {
+      if (!user) return;
+
+      const loadConversation = async () => {
+        const loaded = await getConversation(conversationId);
+        if (!loaded) return;
+
+        const checked = await checkParticipantKeys(loaded);
+        setConversation(checked);
+        if (checked.type === 'group') {
+          return;
+        }
+
+        const contactId = checked.participants.find(id => id !== user.id);
+        const contactUser = contactId ? await getUserById(contactId) : null;
+        if (!contactUser) return;
+
+        setContact(contactUser);
+        setVerificationStatus(await getVerificationStatus(user.id, contactUser));
+      };
+
+      loadConversation().catch(err => {
+        console.error('Failed to load conversation:', err);
+      });
+    }, [user, conversationId]),
+  );
+
+  // Decrypt the latest messages whenever they change. Oldest first: ratchet
+  // and sender key chains advance in message order, and messages read once
+  // are served from the local cache afterwards
+  useEffect(() => {
+    if (!user || !conversation) return;
+
+    let latestSnapshot = 0;
+    const unsubscribe = subscribeToMessages(conversationId, received => {
+      const snapshot = ++latestSnapshot;
+
+      const decryptAll = async () => {
+        const decrypted: DecryptedMessage[] = [];
+        for (const item of [...received].reverse()) {
+          try {
+            const content =
+              item.type === 'group'
+                ? await decryptGroupMessageContent(item, conversation, user.id)
+                : await decryptDirectMessageContent(
+                    item,
+                    conversation,
+                    user.id,
+                  );
+            decrypted.push({...item, ...content, decryptedAt: Date.now()});
+          } catch (err) {
+            console.error('Failed to decrypt message:', err);
+            decrypted.push({
+              ...item,
+              payload: {type: 'text', text: '[Unable to decrypt]'},
+              senderVerified: false,
+              decryptedAt: Date.now(),
+            });
+          }
+        }
+
+        // A newer snapshot may have finished first
+        if (snapshot === latestSnapshot) {
+          setMessages(decrypted);
+        }
+      };
+
+      decryptAll().catch(err => {
+        console.error('Failed to load messages:', err);
+      });
+    });
+
+    return () => {
+      latestSnapshot = -1;
+      unsubscribe();
+    };
+  }, [user, conversation, conversationId]);
+
+  // Don't leave the microphone or a voice note running after leaving the chat
+  useEffect(
+    () => () => {
+      cancelVoiceNoteRecording().catch(err => {
+        console.error('Failed to cancel recording:', err);
+      });
+      stopVoiceNotePlayback().catch(err => {
+        console.error('Failed to stop voice note:', err);
+      });
+    },
+    [],
+  );
+
+  const handleAcknowledgeKeyChanges = async () => {
+    if (!user || !conversation) return;
+
+    try {
+      await acknowledgeKeyChanges(conversation, user.id);
+      const refreshed = await getConversation(conversationId);
+      if (refreshed) {
+        setConversation(refreshed);
+      }
+    } catch (error: any) {
+      Alert.alert('Error', error.message || 'Failed to acknowledge change');
+    }
+  };
+
+  const handleOpenSafetyNumber = () => {
+    if (!contact) return;
+    navigation.navigate('SafetyNumber', {conversationId, contactId: contact.id});
+  };
+
+  // The attachment's digest is checked before it is decrypted
+  const handleOpenAttachment = async (
+    messageId: string,
+    attachment: AttachmentInfo,
+  ) => {
+    setDownloads(prev => ({...prev, [messageId]: {status: 'downloading'}}));
+    try {
+      const data = await downloadAttachment(attachment, conversationId);
+      const imageUri = attachment.mimeType.startsWith('image/')
+        ? `data:${attachment.mimeType};base64,${arrayBufferToBase64(
+            data.buffer,
+          )}`
+        : undefined;
+      setDownloads(prev => ({
+        ...prev,
+        [messageId]: {status: 'verified', imageUri},
+      }));
+    } catch (error: any) {
+      setDownloads(prev => ({...prev, [messageId]: {status: 'failed'}}));
+      Alert.alert('Error', error.message || 'Failed to download attachment');
+    }
+  };
+
+  const renderAttachment = (
+    messageId: string,
+    payload: AttachmentPayload,
+    textStyle: object,
+  ) => {
+    const {attachment} = payload;
+    const download = downloads[messageId];
+    const statusText = !download
+      ? `${formatFileSize(attachment.size)} · Tap to download`
+      : download.status === 'downloading'
+      ? 'Downloading…'
+      : download.status === 'verified'
+      ? 'Downloaded and verified'
+      : 'Could not be verified · Tap to retry';
+
+    return (
+      <>
+        {download?.imageUri ? (
+          <Image
+            source={{uri: download.imageUri}}
+            style={styles.attachmentImage}
+            resizeMode="cover"
+          />
+        ) : (
+          <TouchableOpacity
+            onPress={() => handleOpenAttachment(messageId, attachment)}
+            disabled={
+              download?.status === 'downloading' ||
+              download?.status === 'verified'
+            }>
+            <Text style={textStyle}>📎 {attachment.fileName}</Text>
+            <Text style={[textStyle, styles.attachmentStatus]}>
+              {statusText}
+            </Text>
+          </TouchableOpacity>
+        )}
+        {payload.caption ? (
+          <Text style={textStyle}>{payload.caption}</Text>
+        ) : null}
+      </>
+    );
+  };
+
+  // Voice notes go through the same chunked encryption as attachments
+  const handleStopRecording = async () => {
+    if (!user) return;
+
+    setRecordingMs(null);
+    try {
+      const voiceNote = await stopVoiceNoteRecording();
+      await sendVoiceNote(conversationId, user.id, voiceNote);
+    } catch (error: any) {
+      Alert.alert('Error', error.message || 'Failed to send voice note');
+    }
+  };
+
+  const handleStartRecording = async () => {
+    if (pendingKeyChanges.length > 0) {
+      Alert.alert(
+        'Safety Number Changed',
+        'Acknowledge the safety number change before sending.',
+      );
+      return;
+    }
+
+    if (!(await requestMicrophonePermission())) {
+      Alert.alert(
+        'Microphone Needed',
+        'Allow microphone access to record voice notes.',
+      );
+      return;
+    }
+
+    let reachedLimit = false;
+    try {
+      await startVoiceNoteRecording(durationMs => {
+        setRecordingMs(durationMs);
+        if (durationMs >= MAX_VOICE_NOTE_DURATION && !reachedLimit) {
+          reachedLimit = true;
+          handleStopRecording();
+        }
+      });
+      setRecordingMs(0);
+    } catch (error: any) {
+      Alert.alert('Error', error.message || 'Failed to start recording');
+    }
+  };
+
+  const handleCancelRecording = async () => {
+    setRecordingMs(null);
+    await cancelVoiceNoteRecording().catch(err => {
+      console.error('Failed to cancel recording:', err);
+    });
+  };
+
+  // Tapping the voice note that is playing stops it
+  const handlePlayVoiceNote = async (
+    messageId: string,
+    attachment: AttachmentInfo,
+  ) => {
+    if (playback?.messageId === messageId) {
+      setPlayback(null);
+      await stopVoiceNotePlayback().catch(err => {
+        console.error('Failed to stop voice note:', err);
+      });
+      return;
+    }
+
+    setDownloads(prev => ({...prev, [messageId]: {status: 'downloading'}}));
+    try {
+      await playVoiceNote(
+        attachment,
+        conversationId,
+        positionMs => setPlayback({messageId, positionMs}),
+        () =>
+          setPlayback(current =>
+            current?.messageId === messageId ? null : current,
+          ),
+      );
+      setDownloads(prev => ({...prev, [messageId]: {status: 'verified'}}));
+      setPlayback(current =>
+        current?.messageId === messageId ? current : {messageId, positionMs: 0},
+      );
+    } catch (error: any) {
+      setDownloads(prev => ({...prev, [messageId]: {status: 'failed'}}));
+      Alert.alert('Error', error.message || 'Failed to play voice note');
+    }
+  };
+
+  const renderVoiceNote = (
+    messageId: string,
+    payload: VoiceNotePayload,
+    textStyle: object,
+    barColor: string,
+  ) => {
+    const download = downloads[messageId];
+    const positionMs =
+      playback?.messageId === messageId ? playback.positionMs : null;
+    const playedBars =
+      positionMs !== null && payload.durationMs > 0
+        ? (positionMs / payload.durationMs) * payload.waveform.length
+        : 0;
+    const control =
+      download?.status === 'downloading'
+        ? '…'
+        : positionMs !== null
+        ? '⏸'
+        : '▶';
+
+    return (
+      <TouchableOpacity
+        onPress={() => handlePlayVoiceNote(messageId, payload.attachment)}
+        disabled={download?.status === 'downloading'}>
+        <View style={styles.voiceNote}>
+          <Text style={[textStyle, styles.voiceNoteControl]}>{control}</Text>
+          <View style={styles.waveform}>
+            {payload.waveform.map((level, index) => (
+              <View
+                key={index}
+                style={[
+                  styles.waveformBar,
+                  index < playedBars && styles.waveformBarPlayed,
+                  {
+                    height: Math.max(2, (level / 100) * 24),
+                    backgroundColor: barColor,
+                  },
+                ]}
+              />
+            ))}
+          </View>
+          <Text style={[textStyle, styles.attachmentStatus]}>
+            {formatDuration(positionMs ?? payload.durationMs)}
+          </Text>
+        </View>
+        {download?.status === 'failed' ? (
+          <Text style={[textStyle, styles.attachmentStatus]}>
+            Could not be verified · Tap to retry
+          </Text>
+        ) : null}
+      </TouchableOpacity>
+    );
+  };
 
-  // TODO: Implement message sending with encryption
   const handleSend = async () => {
-    if (!message.trim()) return;
+    const text = message.trim();
+    if (!text || !user || !conversation || isSending) return;
+
+    if (pendingKeyChanges.length > 0) {
+      Alert.alert(
+        'Safety Number Changed',
+        'Acknowledge the safety number change before sending.',
+      );
+      return;
+    }
 
-    // TODO: Encrypt and send message
-    console.log('Sending message to:', conversationId, message);
-    setMessage('');
+    setIsSending(true);
+    try {
+      const send =
+        conversation.type === 'group' ? sendGroupMessage : sendDirectMessage;
+      await send(conversationId, user.id, {type: 'text', text});
+      setMessage('');
+    } catch (error: any) {
+      Alert.alert('Error', error.message || 'Failed to send message');
+    } finally {
+      setIsSending(false);
+    }
   };
 
-  const renderMessage = ({item}: {item: DecryptedMessage}) => {
-    const isOwnMessage = item.senderId === 'currentUserId'; // TODO: Get from auth
+  const renderMessage = ({item}: {item: ChatItem}) => {
+    if (item.kind === 'keyChange') {
+      return (
+        <View style={styles.systemNotice}>
+          <Text style={styles.systemNoticeText}>
+            {item.event.userId === user?.id
+              ? 'Your safety number changed'
+              : `Safety number with ${item.event.displayName} changed`}
+          </Text>
+        </View>
+      );
+    }
+
+    const isOwnMessage = item.message.senderId === user?.id;
+    const textStyle = isOwnMessage ? styles.ownMessageText : styles.messageText;
+    const {payload} = item.message;
 
     return (
       <View
@@ -43,9 +502,23 @@ export default function ChatScreen({route}: Props) {
           styles.messageBubble,
           isOwnMessage ? styles.ownMessage : styles.otherMessage,
         ]}>
-        <Text style={isOwnMessage ? styles.ownMessageText : styles.messageText}>
-          {item.content}
-        </Text>
+        {payload.type === 'attachment' ? (
+          renderAttachment(item.id, payload, textStyle)
+        ) : payload.type === 'voiceNote' ? (
+          renderVoiceNote(
+            item.id,
+            payload,
+            textStyle,
+            isOwnMessage ? '#fff' : COLORS.primary,
+          )
+        ) : (
+          <Text style={textStyle}>{describeMessagePayload(payload)}</Text>
+        )}
+        {!isOwnMessage && !item.message.senderVerified ? (
+          <Text style={[textStyle, styles.senderStatus]}>
+            Unverified sender
+          </Text>
+        ) : null}
       </View>
     );
   };
@@ -55,13 +528,48 @@ export default function ChatScreen({route}: Props) {
       behavior={Platform.OS === 'ios' ? 'padding' : 'height'}
       style={styles.container}
       keyboardVerticalOffset={90}>
-      <View style={styles.encryptionBanner}>
-        <Text style={styles.encryptionText}>
-          Messages are end-to-end encrypted
-        </Text>
-      </View>
+      {pendingKeyChanges.length > 0 ? (
+        <View style={styles.keyChangedBanner}>
+          <Text style={styles.keyChangedText}>
+            {pendingKeyChanges.length === 1
+              ? `${pendingKeyChanges[0].displayName}'s safety number changed.`
+              : `${pendingKeyChanges.length} safety numbers changed.`}{' '}
+            Acknowledge the change to keep sending messages.
+          </Text>
+          <View style={styles.keyChangedActions}>
+            {contact && (
+              <TouchableOpacity onPress={handleOpenSafetyNumber}>
+                <Text style={styles.keyChangedAction}>Verify</Text>
+              </TouchableOpacity>
+            )}
+            <TouchableOpacity onPress={handleAcknowledgeKeyChanges}>
+              <Text style={styles.keyChangedAction}>Acknowledge</Text>
+            </TouchableOpacity>
+          </View>
+        </View>
+      ) : verificationStatus === 'changed' && contact ? (
+        <TouchableOpacity
+          style={styles.keyChangedBanner}
+          onPress={handleOpenSafetyNumber}>
+          <Text style={styles.keyChangedText}>
+            Your safety number with {contact.displayName} has changed. Tap to
+            verify.
+          </Text>
+        </TouchableOpacity>
+      ) : (
+        <TouchableOpacity
+          style={styles.encryptionBanner}
+          onPress={handleOpenSafetyNumber}
+          disabled={!contact}>
+          <Text style={styles.encryptionText}>
+            {verificationStatus === 'verified'
+              ? `Messages are end-to-end encrypted · ${contact?.displayName} verified`
+              : 'Messages are end-to-end encrypted'}
+          </Text>
+        </TouchableOpacity>
+      )}
 
-      {messages.length === 0 ? (
+      {chatItems.length === 0 ? (
         <View style={styles.emptyContainer}>
           <Text style={styles.emptyText}>
             No messages yet. Send the first encrypted message!
@@ -69,7 +577,7 @@ export default function ChatScreen({route}: Props) {
         </View>
       ) : (
         <FlatList
-          data={messages}
+          data={chatItems}
           keyExtractor={item => item.id}
           renderItem={renderMessage}
           contentContainerStyle={styles.messageList}
@@ -77,23 +585,53 @@ export default function ChatScreen({route}: Props) {
         />
       )}
 
-      <View style={styles.inputContainer}>
-        <TextInput
-          style={styles.input}
-          placeholder="Type a message..."
-          placeholderTextColor={COLORS.textSecondary}
-          value={message}
-          onChangeText={setMessage}
-          multiline
-          maxLength={10000}
-        />
-        <TouchableOpacity
-          style={[styles.sendButton, !message.trim() && styles.sendButtonDisabled]}
-          onPress={handleSend}
-          disabled={!message.trim()}>
-          <Text style={styles.sendButtonText}>Send</Text>
-        </TouchableOpacity>
-      </View>
+      {recordingMs !== null ? (
+        <View style={styles.inputContainer}>
+          <TouchableOpacity
+            style={styles.recordingCancel}
+            onPress={handleCancelRecording}>
+            <Text style={styles.recordingCancelText}>Cancel</Text>
+          </TouchableOpacity>
+          <Text style={styles.recordingText}>
+            ● Recording {formatDuration(recordingMs)}
+          </Text>
+          <TouchableOpacity
+            style={styles.sendButton}
+            onPress={handleStopRecording}>
+            <Text style={styles.sendButtonText}>Send</Text>
+          </TouchableOpacity>
+        </View>
+      ) : (
+        <View style={styles.inputContainer}>
+          <TextInput
+            style={styles.input}
+            placeholder="Type a message..."
+            placeholderTextColor={COLORS.textSecondary}
+            value={message}
+            onChangeText={setMessage}
+            multiline
+            maxLength={10000}
+          />
+          {message.trim() ? (
+            <TouchableOpacity
+              style={[
+                styles.sendButton,
+                isSending && styles.sendButtonDisabled,
+              ]}
+              onPress={handleSend}
+              disabled={isSending}>
+              <Text style={styles.sendButtonText}>Send</Text>
+            </TouchableOpacity>
+          ) : (
+            <TouchableOpacity
+              style={styles.sendButton}
+              onPress={handleStartRecording}
+              accessibilityLabel="Record voice note">
+              <Text style={styles.sendButtonText}>🎤</Text>
+            </TouchableOpacity>
+          )}
+        </View>
+      )}
     </KeyboardAvoidingView>
   );
 }
@@ -112,6 +650,39 @@ const styles = StyleSheet.create({
     fontSize: 12,
     color: '#2E7D32',
   },
+  keyChangedBanner: {
+    backgroundColor: '#FFF3E0',
+    padding: 8,
+    alignItems: 'center',
+  },
+  keyChangedText: {
+    fontSize: 12,
+    color: '#E65100',
+    textAlign: 'center',
+  },
+  keyChangedActions: {
+    flexDirection: 'row',
+    justifyContent: 'center',
+    marginTop: 6,
+  },
+  keyChangedAction: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#E65100',
+    marginHorizontal: 12,
+  },
+  systemNotice: {
+    alignSelf: 'center',
+    backgroundColor: '#FFF3E0',
+    borderRadius: 12,
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    marginBottom: 8,
+  },
+  systemNoticeText: {
+    fontSize: 12,
+    color: '#E65100',
+  },
   emptyContainer: {
     flex: 1,
     justifyContent: 'center',
@@ -150,6 +721,60 @@ const styles = StyleSheet.create({
     fontSize: 16,
     color: '#fff',
   },
+  attachmentStatus: {
+    fontSize: 12,
+    opacity: 0.8,
+    marginTop: 2,
+  },
+  senderStatus: {
+    fontSize: 11,
+    fontStyle: 'italic',
+    opacity: 0.7,
+    marginTop: 2,
+  },
+  attachmentImage: {
+    width: 220,
+    height: 220,
+    borderRadius: 12,
+    marginBottom: 4,
+  },
+  voiceNote: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  voiceNoteControl: {
+    width: 24,
+  },
+  waveform: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    height: 24,
+    marginHorizontal: 8,
+  },
+  waveformBar: {
+    width: 2,
+    borderRadius: 1,
+    marginRight: 1,
+    opacity: 0.4,
+  },
+  waveformBarPlayed: {
+    opacity: 1,
+  },
+  recordingCancel: {
+    paddingHorizontal: 8,
+    paddingVertical: 10,
+  },
+  recordingCancelText: {
+    color: COLORS.textSecondary,
+    fontSize: 16,
+  },
+  recordingText: {
+    flex: 1,
+    fontSize: 16,
+    color: COLORS.error,
+    textAlign: 'center',
+    paddingVertical: 10,
+  },
   inputContainer: {
     flexDirection: 'row',
     padding: 12,
@@ -0,0 +1,216 @@
+/**
+ * TibbyTalk - Safety Number Screen
+ * Compare safety numbers with a contact to verify their key
+ */
+
+import React, {useCallback, useEffect, useState} from 'react';
+import {
+  View,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  StyleSheet,
+  ScrollView,
+  ActivityIndicator,
+  Alert,
+} from 'react-native';
+import {NativeStackScreenProps} from '@react-navigation/native-stack';
+import {COLORS} from '../../config/constants';
+import {useAuthStore} from '../../store';
+import {getUserById} from '../../core/auth';
+import {
+  generateSafetyNumber,
+  verifySafetyNumberQr,
+  getFingerprintIdentity,
+} from '../../core/crypto';
+import type {SafetyNumber} from '../../core/crypto';
+import {
+  getVerificationStatus,
+  markContactVerified,
+  clearContactVerification,
+} from '../../services';
+import type {MainStackParamList, User, VerificationStatus} from '../../types';
+
+type Props = NativeStackScreenProps<MainStackParamList, 'SafetyNumber'>;
+
+export default function SafetyNumberScreen({route}: Props) {
+  const {contactId} = route.params;
+  const {user} = useAuthStore();
+  const [contact, setContact] = useState<User | null>(null);
+  const [safetyNumber, setSafetyNumber] = useState<SafetyNumber | null>(null);
+  const [status, setStatus] = useState<VerificationStatus>('unverified');
+  const [scannedCode, setScannedCode] = useState('');
+  const [isLoading, setIsLoading] = useState(true);
+
+  const load = useCallback(async () => {
+    if (!user) {
+      return;
+    }
+
+    try {
+      const contactUser = await getUserById(contactId);
+      if (!contactUser) {
+        Alert.alert('Error', 'Contact not found');
+        return;
+      }
+
+      setContact(contactUser);
+      setSafetyNumber(
+        await generateSafetyNumber(
+          getFingerprintIdentity(user),
+          getFingerprintIdentity(contactUser),
+        ),
+      );
+      setStatus(await getVerificationStatus(user.id, contactUser));
+    } catch (error: any) {
+      Alert.alert('Error', error.message || 'Failed to load safety number');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [user, contactId]);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  const handleMarkVerified = async () => {
+    if (!user || !contact) return;
+
+    await markContactVerified(user.id, contact);
+    setStatus('verified');
+  };
+
+  const handleClearVerification = async () => {
+    if (!user || !contact) return;
+
+    await clearContactVerification(user.id, contact.id);
+    setStatus('unverified');
+  };
+
+  const handleCheckCode = async () => {
+    if (!user || !contact || !scannedCode.trim()) return;
+
+    const matches = await verifySafetyNumberQr(
+      scannedCode,
+      getFingerprintIdentity(user),
+      getFingerprintIdentity(contact),
+    );
+
+    if (!matches) {
+      Alert.alert(
+        'Codes Do Not Match',
+        `This code does not match your safety number with ${contact.displayName}. Their key may have been replaced.`,
+      );
+      return;
+    }
+
+    await markContactVerified(user.id, contact);
+    setStatus('verified');
+    setScannedCode('');
+    Alert.alert('Verified', `${contact.displayName} is now verified.`);
+  };
+
+  if (isLoading || !contact || !safetyNumber) {
+    return (
+      <View style={styles.loadingContainer}>
+        <ActivityIndicator size="large" color={COLORS.primary} />
+      </View>
+    );
+  }
+
+  return (
+    <ScrollView style={styles.container}>
+      {status === 'changed' && (
+        <View style={styles.warning}>
+          <Text style={styles.warningTitle}>Safety Number Changed</Text>
+          <Text style={styles.warningText}>
+            {contact.displayName}'s key has changed since you verified it. This
+            can happen when they reinstall the app, but it could also mean
+            someone is intercepting your messages. Verify the new safety number.
+          </Text>
+        </View>
+      )}
+
+      <View style={styles.section}>
+        <Text style={styles.sectionTitle}>Safety Number</Text>
+        <Text style={styles.description}>
+          Compare these numbers with {contact.displayName}, in person or over a
+          call. If they match, your messages are encrypted for the right key.
+        </Text>
+        <View style={styles.digitGrid}>
+          {safetyNumber.groups.map((group, index) => (
+            <Text key={index} style={styles.digitGroup}>
+              {group}
+            </Text>
+          ))}
+        </View>
+        <Text style={styles.statusText}>
+          {status === 'verified'
+            ? `✓ ${contact.displayName} is verified`
+            : `${contact.displayName} is not verified`}
+        </Text>
+      </View>
+
+      <View style={styles.section}>
+        <Text style={styles.sectionTitle}>Verification Code</Text>
+        <Text style={styles.description}>
+          Share this code with {contact.displayName}, or paste theirs below to
+          check it automatically.
+        </Text>
+        <Text style={styles.code} selectable>
+          {safetyNumber.qrPayload}
+        </Text>
+        <TextInput
+          style={styles.input}
+          placeholder="Paste your contact's code..."
+          placeholderTextColor={COLORS.textSecondary}
+          value={scannedCode}
+          onChangeText={setScannedCode}
+          autoCapitalize="none"
+          autoCorrect={false}
+        />
+        <TouchableOpacity
+          style={[styles.button, !scannedCode.trim() && styles.buttonDisabled]}
+          onPress={handleCheckCode}
+          disabled={!scannedCode.trim()}>
+          <Text style={styles.buttonText}>Check Code</Text>
+        </TouchableOpacity>
+      </View>
+
+      <View style={styles.section}>
+        {status === 'verified' ? (
+          <TouchableOpacity
+            style={styles.secondaryButton}
+            onPress={handleClearVerification}>
+            <Text style={styles.secondaryButtonText}>Clear Verification</Text>
+          </TouchableOpacity>
+        ) : (
+          <TouchableOpacity style={styles.button} onPress={handleMarkVerified}>
+            <Text style={styles.buttonText}>Mark as Verified</Text>
+          </TouchableOpacity>
+        )}
+      </View>
+    </ScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {flex: 1, backgroundColor: COLORS.background},
+  loadingContainer: {flex: 1, justifyContent: 'center', alignItems: 'center', backgroundColor: COLORS.background},
+  section: {padding: 16, borderBottomWidth: 1, borderBottomColor: COLORS.border},
+  sectionTitle: {fontSize: 14, fontWeight: '600', color: COLORS.textSecondary, marginBottom: 12, textTransform: 'uppercase'},
+  description: {fontSize: 14, color: COLORS.textSecondary, lineHeight: 20, marginBottom: 12},
+  digitGrid: {flexDirection: 'row', flexWrap: 'wrap', justifyContent: 'space-between', marginBottom: 12},
+  digitGroup: {width: '25%', fontSize: 18, fontFamily: 'Courier', color: COLORS.text, textAlign: 'center', paddingVertical: 6},
+  statusText: {fontSize: 14, fontWeight: '600', color: COLORS.text, textAlign: 'center'},
+  code: {fontSize: 12, fontFamily: 'Courier', color: COLORS.text, backgroundColor: '#F5F5F5', borderRadius: 8, padding: 12, marginBottom: 12},
+  input: {borderWidth: 1, borderColor: COLORS.border, borderRadius: 8, padding: 12, fontSize: 14, color: COLORS.text, marginBottom: 12},
+  button: {backgroundColor: COLORS.primary, borderRadius: 8, padding: 14, alignItems: 'center'},
+  buttonDisabled: {opacity: 0.5},
+  buttonText: {color: '#fff', fontSize: 16, fontWeight: '600'},
+  secondaryButton: {borderWidth: 1, borderColor: COLORS.error, borderRadius: 8, padding: 14, alignItems: 'center'},
+  secondaryButtonText: {color: COLORS.error, fontSize: 16, fontWeight: '600'},
+  warning: {margin: 16, padding: 16, backgroundColor: '#FFF3E0', borderRadius: 8},
+  warningTitle: {fontSize: 16, fontWeight: '600', color: '#E65100', marginBottom: 8},
+  warningText: {fontSize: 14, color: '#E65100', lineHeight: 20},
+});
@@ -0,0 +1,284 @@
+/**
+ * TibbyTalk - Devices Screen
+ * Lists the account's devices, approves new ones and links them by code
+ */
+
+import React, {useCallback, useEffect, useState} from 'react';
+import {
+  View,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  StyleSheet,
+  FlatList,
+  ActivityIndicator,
+  Alert,
+} from 'react-native';
+import {COLORS} from '../../config/constants';
+import {useAuthStore} from '../../store';
+import {
+  getCurrentDevice,
+  getUserDevices,
+  approveDevice,
+  removeDevice,
+  canApproveDevices,
+  startDeviceProvisioning,
+  subscribeToProvisioning,
+  provisionDevice,
+} from '../../core/auth';
+import {encodeLinkCode} from '../../core/crypto';
+import {shareGroupKeysWithDevice} from '../../services';
+import type {Device, LocalDevice} from '../../types';
+
+export default function DevicesScreen() {
+  const {user} = useAuthStore();
+  const [devices, setDevices] = useState<Device[]>([]);
+  const [currentDevice, setCurrentDevice] = useState<LocalDevice | null>(null);
+  const [canApprove, setCanApprove] = useState(false);
+  const [linkCode, setLinkCode] = useState<string | null>(null);
+  const [scannedCode, setScannedCode] = useState('');
+  const [isLinking, setIsLinking] = useState(false);
+  const [isLoading, setIsLoading] = useState(true);
+
+  const load = useCallback(async () => {
+    if (!user) {
+      return;
+    }
+
+    try {
+      setCurrentDevice(await getCurrentDevice(user.id));
+      setCanApprove(await canApproveDevices(user.id));
+      setDevices(await getUserDevices(user.id));
+    } catch (error: any) {
+      Alert.alert('Error', error.message || 'Failed to load devices');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [user]);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  const thisDevice = devices.find(d => d.id === currentDevice?.deviceId);
+  const isPending = thisDevice?.status === 'pending';
+
+  // A pending device shows a link code and waits for the keys
+  useEffect(() => {
+    if (!user || !isPending) {
+      return;
+    }
+
+    let unsubscribe: (() => void) | undefined;
+    let cancelled = false;
+
+    startDeviceProvisioning(user.id)
+      .then(session => {
+        if (cancelled) return;
+        setLinkCode(encodeLinkCode(session.request));
+        unsubscribe = subscribeToProvisioning(
+          user,
+          session,
+          () => {
+            setLinkCode(null);
+            Alert.alert('Device Linked', 'This device can now read and send messages.');
+            load();
+          },
+          error => {
+            Alert.alert('Error', error.message || 'Failed to link device');
+          },
+        );
+      })
+      .catch(error => {
+        Alert.alert('Error', error.message || 'Failed to create link code');
+      });
+
+    return () => {
+      cancelled = true;
+      unsubscribe?.();
+    };
+  }, [user, isPending, load]);
+
+  const handleLinkDevice = async () => {
+    if (!user || !scannedCode.trim()) return;
+
+    setIsLinking(true);
+    try {
+      const linked = await provisionDevice(user.id, scannedCode);
+      if (linked) {
+        await shareGroupKeysWithDevice(user.id, linked);
+      }
+      setScannedCode('');
+      Alert.alert('Device Linked', 'Your keys were sent to the new device.');
+      await load();
+    } catch (error: any) {
+      Alert.alert('Error', error.message || 'Failed to link device');
+    } finally {
+      setIsLinking(false);
+    }
+  };
+
+  const handleApprove = (device: Device) => {
+    if (!user) return;
+
+    Alert.alert(
+      'Approve Device',
+      `Only approve "${device.name}" if it shows key ID ${device.keyId}. It will be able to read messages sent to you from now on.`,
+      [
+        {text: 'Cancel', style: 'cancel'},
+        {
+          text: 'Approve',
+          onPress: async () => {
+            try {
+              const approved = await approveDevice(user.id, device.id);
+              await shareGroupKeysWithDevice(user.id, approved);
+              await load();
+            } catch (error: any) {
+              Alert.alert('Error', error.message || 'Failed to approve device');
+            }
+          },
+        },
+      ],
+    );
+  };
+
+  const handleRemove = (device: Device) => {
+    if (!user) return;
+
+    Alert.alert(
+      'Remove Device',
+      `"${device.name}" will stop receiving new messages.`,
+      [
+        {text: 'Cancel', style: 'cancel'},
+        {
+          text: 'Remove',
+          style: 'destructive',
+          onPress: async () => {
+            try {
+              await removeDevice(user.id, device.id);
+              await load();
+            } catch (error: any) {
+              Alert.alert('Error', error.message || 'Failed to remove device');
+            }
+          },
+        },
+      ],
+    );
+  };
+
+  const renderDevice = ({item}: {item: Device}) => {
+    const isCurrent = item.id === currentDevice?.deviceId;
+
+    return (
+      <View style={styles.deviceRow}>
+        <View style={styles.deviceInfo}>
+          <Text style={styles.deviceName}>
+            {item.name}
+            {isCurrent ? ' (this device)' : ''}
+          </Text>
+          <Text style={styles.deviceDetail}>
+            {item.status === 'pending'
+              ? `Waiting for approval · Key ID ${item.keyId}`
+              : `Last active ${new Date(item.lastSeen).toLocaleDateString()}`}
+          </Text>
+        </View>
+        {!isCurrent && item.status === 'pending' && canApprove && (
+          <TouchableOpacity style={styles.approveButton} onPress={() => handleApprove(item)}>
+            <Text style={styles.approveText}>Approve</Text>
+          </TouchableOpacity>
+        )}
+        {!isCurrent && (
+          <TouchableOpacity style={styles.removeButton} onPress={() => handleRemove(item)}>
+            <Text style={styles.removeText}>Remove</Text>
+          </TouchableOpacity>
+        )}
+      </View>
+    );
+  };
+
+  if (isLoading) {
+    return (
+      <View style={styles.loadingContainer}>
+        <ActivityIndicator size="large" color={COLORS.primary} />
+      </View>
+    );
+  }
+
+  return (
+    <View style={styles.container}>
+      {isPending && thisDevice && (
+        <View style={styles.pendingBanner}>
+          <Text style={styles.pendingTitle}>Link This Device</Text>
+          <Text style={styles.pendingText}>
+            Open Settings › Devices on a device you are already signed in on and
+            scan this code. You can also approve "{thisDevice.name}" there if it
+            shows key ID {thisDevice.keyId}.
+          </Text>
+          {linkCode ? (
+            <Text style={styles.code} selectable>
+              {linkCode}
+            </Text>
+          ) : (
+            <ActivityIndicator color={COLORS.primary} />
+          )}
+        </View>
+      )}
+
+      {canApprove && (
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>Link a New Device</Text>
+          <TextInput
+            style={styles.input}
+            placeholder="Scan or paste the new device's code..."
+            placeholderTextColor={COLORS.textSecondary}
+            value={scannedCode}
+            onChangeText={setScannedCode}
+            autoCapitalize="none"
+            autoCorrect={false}
+          />
+          <TouchableOpacity
+            style={[styles.linkButton, (!scannedCode.trim() || isLinking) && styles.buttonDisabled]}
+            onPress={handleLinkDevice}
+            disabled={!scannedCode.trim() || isLinking}>
+            <Text style={styles.linkButtonText}>{isLinking ? 'Linking...' : 'Link Device'}</Text>
+          </TouchableOpacity>
+        </View>
+      )}
+
+      <FlatList
+        data={devices}
+        keyExtractor={item => item.id}
+        renderItem={renderDevice}
+        onRefresh={load}
+        refreshing={false}
+        ListEmptyComponent={
+          <Text style={styles.emptyText}>No devices registered</Text>
+        }
+      />
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {flex: 1, backgroundColor: COLORS.background},
+  loadingContainer: {flex: 1, justifyContent: 'center', alignItems: 'center', backgroundColor: COLORS.background},
+  deviceRow: {flexDirection: 'row', alignItems: 'center', padding: 16, borderBottomWidth: 1, borderBottomColor: COLORS.border},
+  deviceInfo: {flex: 1},
+  deviceName: {fontSize: 16, fontWeight: '600', color: COLORS.text},
+  deviceDetail: {fontSize: 13, color: COLORS.textSecondary, marginTop: 4},
+  approveButton: {backgroundColor: COLORS.primary, borderRadius: 6, paddingHorizontal: 12, paddingVertical: 6, marginLeft: 8},
+  approveText: {color: '#fff', fontSize: 14, fontWeight: '600'},
+  removeButton: {borderWidth: 1, borderColor: COLORS.error, borderRadius: 6, paddingHorizontal: 12, paddingVertical: 6, marginLeft: 8},
+  removeText: {color: COLORS.error, fontSize: 14, fontWeight: '600'},
+  pendingBanner: {margin: 16, padding: 16, backgroundColor: '#FFF3E0', borderRadius: 8},
+  pendingTitle: {fontSize: 16, fontWeight: '600', color: '#E65100', marginBottom: 8},
+  pendingText: {fontSize: 14, color: '#E65100', lineHeight: 20, marginBottom: 12},
+  code: {fontSize: 12, fontFamily: 'Courier', color: COLORS.text, backgroundColor: '#fff', borderRadius: 8, padding: 12},
+  section: {padding: 16, borderBottomWidth: 1, borderBottomColor: COLORS.border},
+  sectionTitle: {fontSize: 14, fontWeight: '600', color: COLORS.textSecondary, marginBottom: 12, textTransform: 'uppercase'},
+  input: {borderWidth: 1, borderColor: COLORS.border, borderRadius: 8, padding: 12, fontSize: 14, color: COLORS.text, marginBottom: 12},
+  linkButton: {backgroundColor: COLORS.primary, borderRadius: 8, padding: 14, alignItems: 'center'},
+  linkButtonText: {color: '#fff', fontSize: 16, fontWeight: '600'},
+  buttonDisabled: {opacity: 0.5},
+  emptyText: {fontSize: 16, color: COLORS.textSecondary, textAlign: 'center', padding: 32},
+});
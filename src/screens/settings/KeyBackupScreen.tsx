@@ -2,22 +2,126 @@
  * TibbyTalk - Key Backup Screen
  */
 
-import React, {useState} from 'react';
-import {View, Text, TextInput, TouchableOpacity, StyleSheet, Alert} from 'react-native';
+import React, {useEffect, useState} from 'react';
+import {
+  View,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  StyleSheet,
+  Alert,
+  Share,
+  ScrollView,
+} from 'react-native';
 import {COLORS} from '../../config/constants';
 import {useAuthStore} from '../../store';
 import {getPrivateKey} from '../../core/storage';
-import {exportPrivateKeys} from '../../core/crypto';
-import {getPasswordRequirementsText} from '../../core/auth';
+import {exportPrivateKeys, isKeyBundleOutdated, upgradeKeyBundle} from '../../core/crypto';
+import {getPasswordRequirementsText, getPreviousKeyEntries} from '../../core/auth';
+import {
+  enableRecoveryCodeBackup,
+  enablePassphraseBackup,
+  getKeyBackupStatus,
+  disableKeyBackup,
+} from '../../services';
+import type {EncryptedKeyBundle, KeyBackupStatus, User} from '../../types';
 
 export default function KeyBackupScreen() {
   const {user} = useAuthStore();
   const [password, setPassword] = useState('');
   const [confirmPassword, setConfirmPassword] = useState('');
   const [isExporting, setIsExporting] = useState(false);
+  const [cloudStatus, setCloudStatus] = useState<KeyBackupStatus | null>(null);
+  const [recoveryCode, setRecoveryCode] = useState<string | null>(null);
+  const [passphrase, setPassphrase] = useState('');
+  const [isUpdatingCloud, setIsUpdatingCloud] = useState(false);
+  const [oldBackup, setOldBackup] = useState('');
+  const [oldPassword, setOldPassword] = useState('');
+  const [isUpgrading, setIsUpgrading] = useState(false);
 
   const passwordRequirements = getPasswordRequirementsText();
 
+  useEffect(() => {
+    if (!user) return;
+    getKeyBackupStatus(user.id)
+      .then(setCloudStatus)
+      .catch(error => console.error('Failed to load cloud backup:', error));
+  }, [user]);
+
+  const updateCloudBackup = async (update: (currentUser: User) => Promise<void>) => {
+    if (!user) return;
+
+    setIsUpdatingCloud(true);
+    try {
+      await update(user);
+      setCloudStatus(await getKeyBackupStatus(user.id));
+    } catch (error: any) {
+      Alert.alert('Error', error.message || 'Failed to update cloud backup');
+    } finally {
+      setIsUpdatingCloud(false);
+    }
+  };
+
+  const handleEnableRecoveryCode = () =>
+    updateCloudBackup(async currentUser => {
+      setRecoveryCode(await enableRecoveryCodeBackup(currentUser));
+    });
+
+  const handleEnablePassphrase = () =>
+    updateCloudBackup(async currentUser => {
+      await enablePassphraseBackup(currentUser, passphrase);
+      setPassphrase('');
+    });
+
+  const handleUpgrade = async () => {
+    let bundle: EncryptedKeyBundle;
+    try {
+      bundle = JSON.parse(oldBackup.trim());
+    } catch {
+      Alert.alert('Error', 'Invalid key bundle format');
+      return;
+    }
+
+    if (!isKeyBundleOutdated(bundle)) {
+      Alert.alert('Up to Date', 'This backup already uses the current format.');
+      return;
+    }
+
+    setIsUpgrading(true);
+    try {
+      const upgraded = await upgradeKeyBundle(bundle, oldPassword);
+      await Share.share({
+        title: 'TibbyTalk Key Backup',
+        message: JSON.stringify(upgraded),
+      });
+      setOldBackup('');
+      setOldPassword('');
+    } catch (error: any) {
+      Alert.alert('Error', error.message || 'Failed to upgrade backup');
+    } finally {
+      setIsUpgrading(false);
+    }
+  };
+
+  const handleDisableCloud = () => {
+    Alert.alert(
+      'Turn Off Cloud Backup',
+      'Your encrypted backup will be deleted from the server.',
+      [
+        {text: 'Cancel', style: 'cancel'},
+        {
+          text: 'Turn Off',
+          style: 'destructive',
+          onPress: () =>
+            updateCloudBackup(async currentUser => {
+              await disableKeyBackup(currentUser.id);
+              setRecoveryCode(null);
+            }),
+        },
+      ],
+    );
+  };
+
   const handleExport = async () => {
     if (!password || password.length < 8) {
       Alert.alert('Error', 'Password must be at least 8 characters');
@@ -42,16 +146,18 @@ export default function KeyBackupScreen() {
         return;
       }
 
-      const bundle = await exportPrivateKeys({[user.id]: privateKey}, password);
-
-      // TODO: Share/save the bundle file
-      Alert.alert(
-        'Backup Created',
-        'Your encrypted key backup has been created. In a full implementation, you would be able to save or share this file.',
-        [{text: 'OK'}],
+      // Keyed by key ID so a restore can check it is the current key;
+      // replaced keys are included so older history stays readable
+      const bundle = await exportPrivateKeys(
+        {[user.publicKeyId]: privateKey, ...(await getPreviousKeyEntries(user.id))},
+        password,
       );
 
-      console.log('Key bundle created:', bundle);
+      // Save the bundle somewhere off this device; restore by pasting it
+      await Share.share({
+        title: 'TibbyTalk Key Backup',
+        message: JSON.stringify(bundle),
+      });
     } catch (error: any) {
       Alert.alert('Error', error.message || 'Failed to export keys');
     } finally {
@@ -60,7 +166,7 @@ export default function KeyBackupScreen() {
   };
 
   return (
-    <View style={styles.container}>
+    <ScrollView style={styles.container} keyboardShouldPersistTaps="handled">
       <View style={styles.section}>
         <Text style={styles.sectionTitle}>Why Backup?</Text>
         <Text style={styles.description}>
@@ -117,7 +223,108 @@ export default function KeyBackupScreen() {
           If you forget this password, your backup cannot be recovered.
         </Text>
       </View>
-    </View>
+
+      <View style={styles.section}>
+        <Text style={styles.sectionTitle}>Upgrade an Old Backup</Text>
+        <Text style={styles.description}>
+          Backups made with earlier versions use weaker password protection.
+          Paste one here to re-encrypt it with the same password, then replace
+          the old file.
+        </Text>
+        <TextInput
+          style={[styles.input, styles.backupInput]}
+          placeholder="Paste the contents of your backup file..."
+          placeholderTextColor={COLORS.textSecondary}
+          value={oldBackup}
+          onChangeText={setOldBackup}
+          multiline
+          autoCapitalize="none"
+          autoCorrect={false}
+          editable={!isUpgrading}
+        />
+        <TextInput
+          style={styles.input}
+          placeholder="Backup password..."
+          placeholderTextColor={COLORS.textSecondary}
+          value={oldPassword}
+          onChangeText={setOldPassword}
+          secureTextEntry
+          editable={!isUpgrading}
+        />
+        <TouchableOpacity
+          style={[styles.secondaryButton, (!oldBackup.trim() || !oldPassword || isUpgrading) && styles.buttonDisabled]}
+          onPress={handleUpgrade}
+          disabled={!oldBackup.trim() || !oldPassword || isUpgrading}>
+          <Text style={styles.secondaryButtonText}>
+            {isUpgrading ? 'Upgrading...' : 'Upgrade Backup'}
+          </Text>
+        </TouchableOpacity>
+      </View>
+
+      <View style={styles.section}>
+        <Text style={styles.sectionTitle}>Cloud Backup</Text>
+        {cloudStatus ? (
+          <>
+            <Text style={styles.description}>
+              Protected by your{' '}
+              {cloudStatus.method === 'recoveryCode' ? 'recovery code' : 'passphrase'}.
+              Version {cloudStatus.version}, updated{' '}
+              {new Date(cloudStatus.updatedAt).toLocaleString()}. It is refreshed
+              automatically when your keys change.
+            </Text>
+            {recoveryCode && (
+              <View style={styles.codeBox}>
+                <Text style={styles.code} selectable>
+                  {recoveryCode}
+                </Text>
+                <Text style={styles.codeHint}>
+                  Write this code down now. It is not stored anywhere and is the
+                  only way to restore from the cloud backup.
+                </Text>
+              </View>
+            )}
+            <TouchableOpacity
+              style={[styles.secondaryButton, isUpdatingCloud && styles.buttonDisabled]}
+              onPress={handleDisableCloud}
+              disabled={isUpdatingCloud}>
+              <Text style={styles.secondaryButtonText}>Turn Off Cloud Backup</Text>
+            </TouchableOpacity>
+          </>
+        ) : (
+          <>
+            <Text style={styles.description}>
+              Store an encrypted copy of your keys on the server. Only your recovery
+              code or passphrase can decrypt it.
+            </Text>
+            <TouchableOpacity
+              style={[styles.button, styles.cloudButton, isUpdatingCloud && styles.buttonDisabled]}
+              onPress={handleEnableRecoveryCode}
+              disabled={isUpdatingCloud}>
+              <Text style={styles.buttonText}>Use a Recovery Code</Text>
+            </TouchableOpacity>
+
+            <Text style={styles.label}>Or choose a passphrase</Text>
+            <TextInput
+              style={styles.input}
+              placeholder="At least 12 characters..."
+              placeholderTextColor={COLORS.textSecondary}
+              value={passphrase}
+              onChangeText={setPassphrase}
+              secureTextEntry
+              editable={!isUpdatingCloud}
+            />
+            <TouchableOpacity
+              style={[styles.secondaryButton, (!passphrase || isUpdatingCloud) && styles.buttonDisabled]}
+              onPress={handleEnablePassphrase}
+              disabled={!passphrase || isUpdatingCloud}>
+              <Text style={styles.secondaryButtonText}>
+                {isUpdatingCloud ? 'Encrypting...' : 'Use Passphrase'}
+              </Text>
+            </TouchableOpacity>
+          </>
+        )}
+      </View>
+    </ScrollView>
   );
 }
 
@@ -137,4 +344,11 @@ const styles = StyleSheet.create({
   warning: {margin: 16, backgroundColor: '#FFF3CD', borderRadius: 8, padding: 16},
   warningTitle: {fontSize: 14, fontWeight: '600', color: '#856404', marginBottom: 4},
   warningText: {fontSize: 13, color: '#856404', lineHeight: 18},
+  cloudButton: {marginTop: 16},
+  backupInput: {minHeight: 100, fontSize: 12, fontFamily: 'Courier', textAlignVertical: 'top', marginTop: 12},
+  secondaryButton: {borderWidth: 1, borderColor: COLORS.primary, borderRadius: 8, padding: 16, alignItems: 'center', marginTop: 8},
+  secondaryButtonText: {color: COLORS.primary, fontSize: 16, fontWeight: '600'},
+  codeBox: {backgroundColor: '#F0F8FF', borderRadius: 8, padding: 12, marginVertical: 12},
+  code: {fontSize: 16, fontFamily: 'Courier', color: COLORS.text, textAlign: 'center', marginBottom: 8},
+  codeHint: {fontSize: 13, color: COLORS.textSecondary, lineHeight: 18},
 });
@@ -0,0 +1,213 @@
+/**
+ * TibbyTalk - Key Restore Screen
+ * Shown after login on a device without the identity key
+ */
+
+import React, {useCallback, useEffect, useState} from 'react';
+import {
+  View,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  StyleSheet,
+  Alert,
+  ScrollView,
+} from 'react-native';
+import {NativeStackScreenProps} from '@react-navigation/native-stack';
+import {useFocusEffect} from '@react-navigation/native';
+import {COLORS} from '../../config/constants';
+import {useAuthStore} from '../../store';
+import {needsKeyRestore, restoreKeyBackup} from '../../core/auth';
+import {getKeyBackupStatus, restoreFromKeyBackup} from '../../services';
+import type {KeyBackupStatus, MainStackParamList, User} from '../../types';
+
+type Props = NativeStackScreenProps<MainStackParamList, 'KeyRestore'>;
+
+export default function KeyRestoreScreen({navigation}: Props) {
+  const {user, setUser, setNeedsKeyRestore} = useAuthStore();
+  const [backup, setBackup] = useState('');
+  const [password, setPassword] = useState('');
+  const [cloudStatus, setCloudStatus] = useState<KeyBackupStatus | null>(null);
+  const [cloudSecret, setCloudSecret] = useState('');
+  const [isRestoring, setIsRestoring] = useState(false);
+
+  useEffect(() => {
+    if (!user) return;
+    getKeyBackupStatus(user.id)
+      .then(setCloudStatus)
+      .catch(error => console.error('Failed to load cloud backup:', error));
+  }, [user]);
+
+  const finish = useCallback(() => {
+    setNeedsKeyRestore(false);
+    navigation.replace('ConversationList');
+  }, [navigation, setNeedsKeyRestore]);
+
+  // Linking from another device also installs the key
+  useFocusEffect(
+    useCallback(() => {
+      if (!user) return;
+
+      needsKeyRestore(user.id)
+        .then(needed => {
+          if (!needed) {
+            finish();
+          }
+        })
+        .catch(() => {});
+    }, [user, finish]),
+  );
+
+  const restore = async (restoreKeys: (currentUser: User) => Promise<User>) => {
+    if (!user) return;
+
+    setIsRestoring(true);
+    try {
+      const restored = await restoreKeys(user);
+      setUser(restored);
+      Alert.alert('Keys Restored', 'You can now read your messages on this device.');
+      finish();
+    } catch (error: any) {
+      Alert.alert('Restore Failed', error.message || 'Failed to restore keys');
+    } finally {
+      setIsRestoring(false);
+    }
+  };
+
+  const handleRestore = () => {
+    if (!backup.trim() || !password) {
+      Alert.alert('Error', 'Please paste your backup and enter its password');
+      return;
+    }
+    restore(currentUser => restoreKeyBackup(currentUser, backup, password));
+  };
+
+  const handleCloudRestore = () => {
+    if (!cloudSecret.trim()) {
+      Alert.alert('Error', 'Please enter your recovery code or passphrase');
+      return;
+    }
+    restore(currentUser => restoreFromKeyBackup(currentUser, cloudSecret));
+  };
+
+  const handleSkip = () => {
+    Alert.alert(
+      'Skip Restore',
+      'Without your encryption key this device cannot read your messages. You can link it later in Settings › Devices.',
+      [
+        {text: 'Cancel', style: 'cancel'},
+        {text: 'Skip', style: 'destructive', onPress: finish},
+      ],
+    );
+  };
+
+  return (
+    <ScrollView style={styles.container} keyboardShouldPersistTaps="handled">
+      <View style={styles.section}>
+        <Text style={styles.sectionTitle}>No Encryption Key</Text>
+        <Text style={styles.description}>
+          This device does not have your encryption key. Restore it from the
+          backup you created in Settings › Backup Encryption Keys, or link this
+          device from one you are already signed in on.
+        </Text>
+      </View>
+
+      {cloudStatus && (
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>Restore From Cloud Backup</Text>
+          <Text style={styles.label}>
+            {cloudStatus.method === 'recoveryCode' ? 'Recovery Code' : 'Passphrase'}
+          </Text>
+          <TextInput
+            style={styles.input}
+            placeholder={
+              cloudStatus.method === 'recoveryCode'
+                ? 'XXXX-XXXX-XXXX-XXXX-XXXX-XXXX-XXXX-XXXX'
+                : 'Enter your backup passphrase...'
+            }
+            placeholderTextColor={COLORS.textSecondary}
+            value={cloudSecret}
+            onChangeText={setCloudSecret}
+            secureTextEntry={cloudStatus.method === 'passphrase'}
+            autoCapitalize={cloudStatus.method === 'recoveryCode' ? 'characters' : 'none'}
+            autoCorrect={false}
+            editable={!isRestoring}
+          />
+          <TouchableOpacity
+            style={[styles.button, isRestoring && styles.buttonDisabled]}
+            onPress={handleCloudRestore}
+            disabled={isRestoring}>
+            <Text style={styles.buttonText}>
+              {isRestoring ? 'Restoring...' : 'Restore From Cloud'}
+            </Text>
+          </TouchableOpacity>
+        </View>
+      )}
+
+      <View style={styles.section}>
+        <Text style={styles.sectionTitle}>Restore From Backup File</Text>
+        <Text style={styles.label}>Backup File</Text>
+        <TextInput
+          style={[styles.input, styles.backupInput]}
+          placeholder="Paste the contents of your backup file..."
+          placeholderTextColor={COLORS.textSecondary}
+          value={backup}
+          onChangeText={setBackup}
+          multiline
+          autoCapitalize="none"
+          autoCorrect={false}
+          editable={!isRestoring}
+        />
+
+        <Text style={styles.label}>Backup Password</Text>
+        <TextInput
+          style={styles.input}
+          placeholder="Enter your backup password..."
+          placeholderTextColor={COLORS.textSecondary}
+          value={password}
+          onChangeText={setPassword}
+          secureTextEntry
+          editable={!isRestoring}
+        />
+
+        <TouchableOpacity
+          style={[styles.button, isRestoring && styles.buttonDisabled]}
+          onPress={handleRestore}
+          disabled={isRestoring}>
+          <Text style={styles.buttonText}>
+            {isRestoring ? 'Restoring...' : 'Restore Keys'}
+          </Text>
+        </TouchableOpacity>
+      </View>
+
+      <View style={styles.section}>
+        <TouchableOpacity
+          style={styles.secondaryButton}
+          onPress={() => navigation.navigate('Devices')}
+          disabled={isRestoring}>
+          <Text style={styles.secondaryButtonText}>Link From Another Device</Text>
+        </TouchableOpacity>
+        <TouchableOpacity style={styles.skipButton} onPress={handleSkip} disabled={isRestoring}>
+          <Text style={styles.skipText}>Skip for now</Text>
+        </TouchableOpacity>
+      </View>
+    </ScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {flex: 1, backgroundColor: COLORS.background},
+  section: {padding: 16, borderBottomWidth: 1, borderBottomColor: COLORS.border},
+  sectionTitle: {fontSize: 14, fontWeight: '600', color: COLORS.textSecondary, marginBottom: 12, textTransform: 'uppercase'},
+  description: {fontSize: 14, color: COLORS.textSecondary, lineHeight: 20},
+  label: {fontSize: 16, fontWeight: '500', color: COLORS.text, marginBottom: 8, marginTop: 12},
+  input: {backgroundColor: '#F5F5F5', borderRadius: 8, padding: 16, fontSize: 16, marginBottom: 8},
+  backupInput: {minHeight: 120, fontSize: 12, fontFamily: 'Courier', textAlignVertical: 'top'},
+  button: {backgroundColor: COLORS.primary, borderRadius: 8, padding: 16, alignItems: 'center', marginTop: 8},
+  buttonDisabled: {opacity: 0.6},
+  buttonText: {color: '#fff', fontSize: 16, fontWeight: '600'},
+  secondaryButton: {borderWidth: 1, borderColor: COLORS.primary, borderRadius: 8, padding: 16, alignItems: 'center'},
+  secondaryButtonText: {color: COLORS.primary, fontSize: 16, fontWeight: '600'},
+  skipButton: {padding: 16, alignItems: 'center'},
+  skipText: {color: COLORS.textSecondary, fontSize: 14},
+});
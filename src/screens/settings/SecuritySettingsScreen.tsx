@@ -3,17 +3,55 @@
  */
 
 import React from 'react';
-import {View, Text, StyleSheet} from 'react-native';
+import {View, Text, TouchableOpacity, StyleSheet, Alert} from 'react-native';
 import {COLORS} from '../../config/constants';
+import {useAuthStore} from '../../store';
 import {hasSecureHardware} from '../../core/storage';
+import {getKeyAlgorithm, isLegacyIdentityKey} from '../../core/crypto';
+import {rotateIdentityKeys} from '../../services';
 
 export default function SecuritySettingsScreen() {
+  const {user, setUser} = useAuthStore();
   const [hasHardwareSecurity, setHasHardwareSecurity] = React.useState<boolean | null>(null);
+  const [isRotating, setIsRotating] = React.useState(false);
+
+  const keyAlgorithms = [
+    {label: 'Identity Key', key: user?.publicKey, purpose: 'ECDH' as const},
+    {label: 'Signing Key', key: user?.signingKey, purpose: 'ECDSA' as const},
+    {label: 'Session Key', key: user?.agreementKey, purpose: 'ECDH' as const},
+  ];
 
   React.useEffect(() => {
     hasSecureHardware().then(setHasHardwareSecurity);
   }, []);
 
+  const handleRotate = () => {
+    if (!user) return;
+
+    Alert.alert(
+      'Replace Identity Key',
+      'Your contacts will be told that your key changed and will need to check your safety number again.',
+      [
+        {text: 'Cancel', style: 'cancel'},
+        {
+          text: 'Replace',
+          style: 'destructive',
+          onPress: async () => {
+            setIsRotating(true);
+            try {
+              setUser(await rotateIdentityKeys(user));
+              Alert.alert('Key Replaced', 'Your new identity key is in use. Older messages stay readable.');
+            } catch (error: any) {
+              Alert.alert('Error', error.message || 'Failed to replace identity key');
+            } finally {
+              setIsRotating(false);
+            }
+          },
+        },
+      ],
+    );
+  };
+
   return (
     <View style={styles.container}>
       <View style={styles.section}>
@@ -23,9 +61,21 @@ export default function SecuritySettingsScreen() {
           <Text style={[styles.status, styles.statusActive]}>Active</Text>
         </View>
         <View style={styles.statusRow}>
-          <Text style={styles.label}>Encryption Algorithm</Text>
-          <Text style={styles.value}>RSA-2048 + AES-256-GCM</Text>
+          <Text style={styles.label}>Message Encryption</Text>
+          <Text style={styles.value}>AES-256-GCM</Text>
         </View>
+        {keyAlgorithms.map(({label, key, purpose}) => (
+          <View key={label} style={styles.statusRow}>
+            <Text style={styles.label}>{label}</Text>
+            <Text style={styles.value}>{key ? getKeyAlgorithm(key, purpose) : 'Not set'}</Text>
+          </View>
+        ))}
+        {user && isLegacyIdentityKey(user.publicKey) && (
+          <Text style={styles.description}>
+            Your identity key still uses RSA. It is upgraded to X25519 the next time you sign in on
+            the device that holds it; older messages stay readable.
+          </Text>
+        )}
         <View style={styles.statusRow}>
           <Text style={styles.label}>Hardware Security</Text>
           <Text style={[styles.status, hasHardwareSecurity ? styles.statusActive : styles.statusInactive]}>
@@ -44,6 +94,18 @@ export default function SecuritySettingsScreen() {
           If you lose access to this device without backing up your keys, you will not be able to
           read your old messages on a new device.
         </Text>
+        <Text style={styles.description}>
+          If you think your key was exposed, replace it from the device that holds your identity
+          key.
+        </Text>
+        <TouchableOpacity
+          style={[styles.button, isRotating && styles.buttonDisabled]}
+          onPress={handleRotate}
+          disabled={isRotating}>
+          <Text style={styles.buttonText}>
+            {isRotating ? 'Replacing Key...' : 'Replace Identity Key'}
+          </Text>
+        </TouchableOpacity>
       </View>
     </View>
   );
@@ -60,4 +122,7 @@ const styles = StyleSheet.create({
   statusActive: {backgroundColor: '#E8F5E9', color: '#2E7D32'},
   statusInactive: {backgroundColor: '#FFF3E0', color: '#E65100'},
   description: {fontSize: 14, color: COLORS.textSecondary, lineHeight: 20, marginBottom: 12},
+  button: {backgroundColor: COLORS.primary, borderRadius: 8, padding: 16, alignItems: 'center'},
+  buttonDisabled: {opacity: 0.6},
+  buttonText: {color: '#fff', fontSize: 16, fontWeight: '600'},
 });
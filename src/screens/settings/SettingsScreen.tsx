@@ -60,6 +60,12 @@ export default function SettingsScreen({navigation}: Props) {
           <Text style={styles.menuText}>Backup Encryption Keys</Text>
           <Text style={styles.arrow}>›</Text>
         </TouchableOpacity>
+        <TouchableOpacity
+          style={styles.menuItem}
+          onPress={() => navigation.navigate('Devices')}>
+          <Text style={styles.menuText}>Devices</Text>
+          <Text style={styles.arrow}>›</Text>
+        </TouchableOpacity>
       </View>
 
       <View style={styles.section}>
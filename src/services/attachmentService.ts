@@ -0,0 +1,186 @@
+/**
+ * TibbyTalk - Attachment Service
+ * Sends files as encrypted attachments and fetches them back
+ *
+ * A file is encrypted on this device with its own key (see
+ * core/crypto/attachments.ts) and only the ciphertext is uploaded, to
+ * attachments/{conversationId}/{attachmentId}. The key, digest, size and
+ * MIME type are sent in an attachment or voice note payload, inside the
+ * message's own ciphertext, so only the conversation's members can open the
+ * file.
+ */
+
+import {STORAGE_PATHS} from '../config/firebase';
+import {
+  MAX_ATTACHMENT_SIZE,
+  MAX_VOICE_NOTE_DURATION,
+} from '../config/constants';
+import {
+  ATTACHMENT_VERSION,
+  encryptAttachment,
+  decryptAttachment,
+  generateUUID,
+} from '../core/crypto';
+import {validateMessagePayload} from '../core/messages';
+import {getConversation} from './conversationService';
+import {sendDirectMessage, sendGroupMessage} from './messageService';
+import {getAttachmentStore} from './attachmentStore';
+import type {AttachmentInfo, Message, MessagePayload} from '../types';
+
+export interface OutgoingAttachment {
+  data: Uint8Array<ArrayBuffer>;
+  fileName: string;
+  mimeType: string;
+}
+
+export interface OutgoingVoiceNote extends OutgoingAttachment {
+  durationMs: number;
+  waveform: number[]; // Peak level of each bar, 0-100
+}
+
+/**
+ * Where a conversation's attachments are uploaded
+ */
+function attachmentFolder(conversationId: string): string {
+  return `${STORAGE_PATHS.ATTACHMENTS}/${conversationId}/`;
+}
+
+/**
+ * Encrypt and upload a file, then send the payload built around it
+ * The upload is removed again if the message cannot be sent
+ */
+async function sendWithAttachment(
+  conversationId: string,
+  senderId: string,
+  file: OutgoingAttachment,
+  buildPayload: (attachment: AttachmentInfo) => MessagePayload,
+  ttl: number | null,
+): Promise<Message> {
+  if (file.data.length > MAX_ATTACHMENT_SIZE) {
+    throw new Error('Attachment is too large');
+  }
+
+  const conversation = await getConversation(conversationId);
+  if (!conversation) {
+    throw new Error('Conversation not found');
+  }
+
+  const {data, key, digest, size} = await encryptAttachment(file.data);
+  const attachmentId = generateUUID();
+  const storagePath = attachmentFolder(conversationId) + attachmentId;
+  const payload = validateMessagePayload(
+    buildPayload({
+      version: ATTACHMENT_VERSION,
+      storagePath,
+      key,
+      digest,
+      fileName: file.fileName,
+      mimeType: file.mimeType || 'application/octet-stream',
+      size,
+    }),
+  );
+
+  const store = getAttachmentStore();
+  await store.upload(storagePath, data);
+
+  try {
+    return conversation.type === 'group'
+      ? await sendGroupMessage(conversationId, senderId, payload, ttl)
+      : await sendDirectMessage(conversationId, senderId, payload, ttl);
+  } catch (error) {
+    await store.remove(storagePath).catch(err => {
+      console.error('Failed to remove attachment:', err);
+    });
+    throw error;
+  }
+}
+
+/**
+ * Encrypt and upload a file, then send it as a message
+ *
+ * @param conversationId - Conversation to send to
+ * @param senderId - Sender's user ID
+ * @param file - File contents, name and MIME type
+ * @param caption - Optional text sent with the file
+ * @param ttl - Seconds until the message expires (null = permanent)
+ * @returns The sent message
+ */
+export async function sendAttachment(
+  conversationId: string,
+  senderId: string,
+  file: OutgoingAttachment,
+  caption?: string,
+  ttl: number | null = null,
+): Promise<Message> {
+  return sendWithAttachment(
+    conversationId,
+    senderId,
+    file,
+    attachment => ({type: 'attachment', attachment, ...(caption && {caption})}),
+    ttl,
+  );
+}
+
+/**
+ * Encrypt and upload a recording, then send it as a voice note
+ * The duration and waveform travel in the encrypted payload, so they can be
+ * shown before the audio is downloaded
+ *
+ * @param conversationId - Conversation to send to
+ * @param senderId - Sender's user ID
+ * @param voiceNote - Recorded audio with its duration and waveform
+ * @param ttl - Seconds until the message expires (null = permanent)
+ * @returns The sent message
+ */
+export async function sendVoiceNote(
+  conversationId: string,
+  senderId: string,
+  voiceNote: OutgoingVoiceNote,
+  ttl: number | null = null,
+): Promise<Message> {
+  if (voiceNote.durationMs > MAX_VOICE_NOTE_DURATION) {
+    throw new Error('Voice note is too long');
+  }
+
+  return sendWithAttachment(
+    conversationId,
+    senderId,
+    voiceNote,
+    attachment => ({
+      type: 'voiceNote',
+      attachment,
+      durationMs: Math.round(voiceNote.durationMs),
+      waveform: voiceNote.waveform,
+    }),
+    ttl,
+  );
+}
+
+/**
+ * Download an attachment and decrypt it
+ * The ciphertext is checked against the digest from the message before
+ * anything is decrypted. The storage path comes from the sender, so only
+ * files in this conversation's own folder are fetched
+ *
+ * @param attachment - Attachment from a received payload
+ * @param conversationId - Conversation the payload was received in
+ * @returns File contents
+ */
+export async function downloadAttachment(
+  attachment: AttachmentInfo,
+  conversationId: string,
+): Promise<Uint8Array<ArrayBuffer>> {
+  const folder = attachmentFolder(conversationId);
+  const {storagePath} = attachment;
+  if (
+    !storagePath.startsWith(folder) ||
+    !/^[\w-]+$/.test(storagePath.slice(folder.length))
+  ) {
+    throw new Error('Invalid attachment path');
+  }
+
+  const ciphertext = await getAttachmentStore().download(
+    attachment.storagePath,
+  );
+  return decryptAttachment(ciphertext, attachment);
+}
@@ -0,0 +1,51 @@
+/**
+ * TibbyTalk - Attachment Store
+ * Where encrypted attachments are uploaded
+ *
+ * Only ciphertext is ever stored (see core/crypto/attachments.ts). The app
+ * uses Firebase Storage; tests can swap in another backend, such as the
+ * local-disk store in localAttachmentStore.ts.
+ */
+
+import storage from '@react-native-firebase/storage';
+
+export interface AttachmentStore {
+  upload(path: string, data: Uint8Array<ArrayBuffer>): Promise<void>;
+  download(path: string): Promise<ArrayBuffer>;
+  remove(path: string): Promise<void>;
+}
+
+export const firebaseAttachmentStore: AttachmentStore = {
+  upload: async (path, data) => {
+    await storage()
+      .ref(path)
+      .put(data, {contentType: 'application/octet-stream'});
+  },
+  download: async path => {
+    const url = await storage().ref(path).getDownloadURL();
+    const response = await fetch(url);
+    if (!response.ok) {
+      throw new Error('Failed to download attachment');
+    }
+    return response.arrayBuffer();
+  },
+  remove: path => storage().ref(path).delete(),
+};
+
+let activeStore: AttachmentStore = firebaseAttachmentStore;
+
+/**
+ * Get the backend attachments are uploaded to
+ */
+export function getAttachmentStore(): AttachmentStore {
+  return activeStore;
+}
+
+/**
+ * Replace the attachment backend
+ *
+ * @param store - Backend to use from now on
+ */
+export function setAttachmentStore(store: AttachmentStore): void {
+  activeStore = store;
+}
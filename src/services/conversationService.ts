@@ -7,8 +7,20 @@ import firestore, {
   FirebaseFirestoreTypes,
 } from '@react-native-firebase/firestore';
 import {COLLECTIONS, FIELDS} from '../config/firebase';
-import {getUserById} from '../core/auth';
-import type {Conversation, User, ParticipantKey} from '../types';
+import {getUserById, getLinkedDeviceKeys} from '../core/auth';
+import {canonicalPublicKey, generateKeyId} from '../core/crypto';
+import {
+  canUseRatchetSession,
+  startSession,
+  resetActiveSession,
+} from './sessionService';
+import type {
+  Conversation,
+  User,
+  ParticipantKey,
+  DeviceKey,
+  KeyChangeEvent,
+} from '../types';
 
 /**
  * Create a new 1:1 conversation between two users
@@ -32,14 +44,8 @@ export async function createDirectConversation(
   }
 
   const participantKeys: Record<string, ParticipantKey> = {
-    [currentUserId]: {
-      publicKey: currentUser.publicKey,
-      keyId: currentUser.publicKeyId,
-    },
-    [otherUserId]: {
-      publicKey: otherUser.publicKey,
-      keyId: otherUser.publicKeyId,
-    },
+    [currentUserId]: await loadParticipantKey(currentUser),
+    [otherUserId]: await loadParticipantKey(otherUser),
   };
 
   const conversationData = {
@@ -54,7 +60,7 @@ export async function createDirectConversation(
     .collection(COLLECTIONS.CONVERSATIONS)
     .add(conversationData);
 
-  return {
+  const conversation: Conversation = {
     id: docRef.id,
     type: 'direct',
     participants: [currentUserId, otherUserId],
@@ -62,6 +68,17 @@ export async function createDirectConversation(
     createdAt: conversationData[FIELDS.CREATED_AT],
     updatedAt: conversationData[FIELDS.UPDATED_AT],
   };
+
+  // Claim the other user's prekeys now; sending retries if this fails
+  if (await canUseRatchetSession(conversation, currentUserId)) {
+    try {
+      await startSession(conversation, currentUserId);
+    } catch (error) {
+      console.error('Failed to start session:', error);
+    }
+  }
+
+  return conversation;
 }
 
 /**
@@ -104,10 +121,7 @@ export async function createGroupConversation(
   for (const memberId of allMemberIds) {
     const user = await getUserById(memberId);
     if (user) {
-      participantKeys[memberId] = {
-        publicKey: user.publicKey,
-        keyId: user.publicKeyId,
-      };
+      participantKeys[memberId] = await loadParticipantKey(user);
     }
   }
 
@@ -189,10 +203,12 @@ export function subscribeToConversations(
 
 /**
  * Update conversation's last message preview
+ * Group messages also count towards the group's key rotation policy
  */
 export async function updateLastMessage(
   conversationId: string,
   senderId: string,
+  isGroupMessage = false,
 ): Promise<void> {
   await firestore()
     .collection(COLLECTIONS.CONVERSATIONS)
@@ -204,6 +220,9 @@ export async function updateLastMessage(
         preview: 'Encrypted message',
       },
       [FIELDS.UPDATED_AT]: Date.now(),
+      ...(isGroupMessage && {
+        [FIELDS.GROUP_KEY_MESSAGE_COUNT]: firestore.FieldValue.increment(1),
+      }),
     });
 }
 
@@ -224,10 +243,8 @@ export async function addGroupMember(
     .doc(conversationId)
     .update({
       [FIELDS.PARTICIPANTS]: firestore.FieldValue.arrayUnion(newMemberId),
-      [`${FIELDS.PARTICIPANT_KEYS}.${newMemberId}`]: {
-        publicKey: user.publicKey,
-        keyId: user.publicKeyId,
-      },
+      [`${FIELDS.PARTICIPANT_KEYS}.${newMemberId}`]:
+        await loadParticipantKey(user),
       [FIELDS.UPDATED_AT]: Date.now(),
     });
 }
@@ -262,6 +279,291 @@ export async function removeGroupMember(
   });
 }
 
+/**
+ * Compare the conversation's key snapshot with each participant's current
+ * user document
+ * Newly published keys are added silently; replaced keys update the
+ * snapshot and record a key change event that every other participant
+ * must acknowledge before sending. Replaced signing keys stay in the
+ * snapshot, so messages signed with them still verify.
+ *
+ * @param conversation - Conversation to check
+ * @returns The conversation with its refreshed key snapshot
+ */
+export async function checkParticipantKeys(
+  conversation: Conversation,
+): Promise<Conversation> {
+  const refreshed: Record<
+    string,
+    {stale: ParticipantKey; fresh: ParticipantKey; displayName: string}
+  > = {};
+
+  // Runs before every send, so participants are looked up in parallel
+  const users = await Promise.all(
+    conversation.participants.map(async participantId => {
+      const user = await getUserById(participantId);
+      return user && {user, key: await loadParticipantKey(user)};
+    }),
+  );
+
+  users.forEach((loaded, index) => {
+    const participantId = conversation.participants[index];
+    const stale = conversation.participantKeys[participantId];
+    if (!stale || !loaded) {
+      return;
+    }
+
+    const fresh = withSigningKeyHistory(stale, loaded.key);
+    if (!participantKeysEqual(stale, fresh)) {
+      refreshed[participantId] = {
+        stale,
+        fresh,
+        displayName: loaded.user.displayName,
+      };
+    }
+  });
+
+  if (Object.keys(refreshed).length === 0) {
+    return conversation;
+  }
+
+  const conversationRef = firestore()
+    .collection(COLLECTIONS.CONVERSATIONS)
+    .doc(conversation.id);
+  const replacedAgreementKey: string[] = [];
+
+  await firestore().runTransaction(async transaction => {
+    const doc = await transaction.get(conversationRef);
+    if (!doc.exists) {
+      throw new Error('Conversation not found');
+    }
+
+    const current: Record<string, ParticipantKey> =
+      doc.data()![FIELDS.PARTICIPANT_KEYS] ?? {};
+    const updates: Record<string, unknown> = {};
+
+    for (const [participantId, {stale, fresh, displayName}] of Object.entries(
+      refreshed,
+    )) {
+      // Another participant may already have recorded this change
+      if (
+        !current[participantId] ||
+        !participantKeysEqual(current[participantId], stale)
+      ) {
+        continue;
+      }
+
+      // Linked devices are authorized by the participant's signing key, so
+      // device changes alone update the snapshot without an event
+      updates[`${FIELDS.PARTICIPANT_KEYS}.${participantId}`] = fresh;
+
+      if (isKeyReplaced(stale.agreementKey, fresh.agreementKey)) {
+        replacedAgreementKey.push(participantId);
+      }
+
+      if (
+        stale.keyId !== fresh.keyId ||
+        isKeyReplaced(stale.publicKey, fresh.publicKey) ||
+        isKeyReplaced(stale.agreementKey, fresh.agreementKey) ||
+        isKeyReplaced(stale.signingKey, fresh.signingKey)
+      ) {
+        const event: KeyChangeEvent = {
+          id: generateKeyId(),
+          userId: participantId,
+          displayName,
+          previousKeyId: stale.keyId,
+          newKeyId: fresh.keyId,
+          detectedAt: Date.now(),
+          acknowledgedBy: {},
+        };
+        updates[`${FIELDS.KEY_CHANGES}.${event.id}`] = event;
+      }
+    }
+
+    if (Object.keys(updates).length > 0) {
+      transaction.update(conversationRef, updates);
+    }
+  });
+
+  // Sessions set up with a replaced agreement key cannot reach the new one
+  if (replacedAgreementKey.length > 0) {
+    await resetActiveSession(conversation.id);
+  }
+
+  return (await getConversation(conversation.id)) ?? conversation;
+}
+
+/**
+ * Get key changes a user has not acknowledged yet
+ * A user is not asked to acknowledge changes to their own keys
+ *
+ * @param conversation - Conversation to check
+ * @param userId - User viewing the conversation
+ * @returns Unacknowledged key change events, oldest first
+ */
+export function getPendingKeyChanges(
+  conversation: Conversation,
+  userId: string,
+): KeyChangeEvent[] {
+  return Object.values(conversation.keyChanges ?? {})
+    .filter(event => event.userId !== userId && !event.acknowledgedBy[userId])
+    .sort((a, b) => a.detectedAt - b.detectedAt);
+}
+
+/**
+ * Acknowledge all pending key changes in a conversation
+ * Sending is blocked until this has been called
+ *
+ * @param conversation - Conversation with pending key changes
+ * @param userId - User acknowledging the changes
+ */
+export async function acknowledgeKeyChanges(
+  conversation: Conversation,
+  userId: string,
+): Promise<void> {
+  const pending = getPendingKeyChanges(conversation, userId);
+  if (pending.length === 0) {
+    return;
+  }
+
+  const updates: Record<string, number> = {};
+  for (const event of pending) {
+    updates[`${FIELDS.KEY_CHANGES}.${event.id}.acknowledgedBy.${userId}`] =
+      Date.now();
+  }
+
+  await firestore()
+    .collection(COLLECTIONS.CONVERSATIONS)
+    .doc(conversation.id)
+    .update(updates);
+}
+
+/**
+ * List every key a group's secrets are shared with: each member's
+ * identity key and the keys of their linked devices
+ *
+ * @param conversation - Group conversation
+ * @returns Map of "userId" or "userId/deviceId" -> key
+ */
+export function getGroupKeyHolders(
+  conversation: Conversation,
+): Record<string, DeviceKey> {
+  const keyHolders: Record<string, DeviceKey> = {};
+
+  for (const userId of conversation.participants) {
+    const participantKey = conversation.participantKeys[userId];
+    if (!participantKey) {
+      continue;
+    }
+    keyHolders[userId] = {
+      publicKey: participantKey.publicKey,
+      keyId: participantKey.keyId,
+    };
+
+    for (const [deviceId, deviceKey] of Object.entries(
+      participantKey.devices ?? {},
+    )) {
+      keyHolders[`${userId}/${deviceId}`] = deviceKey;
+    }
+  }
+  return keyHolders;
+}
+
+/**
+ * Check whether two published keys are the same public key
+ * Both missing counts as the same
+ */
+function isSamePublicKey(
+  a: JsonWebKey | undefined,
+  b: JsonWebKey | undefined,
+): boolean {
+  if (!a || !b) {
+    return !a && !b;
+  }
+  return canonicalPublicKey(a) === canonicalPublicKey(b);
+}
+
+/**
+ * Check whether a published key was replaced by a different one
+ * Keys published for the first time are not a replacement
+ */
+function isKeyReplaced(
+  stale: JsonWebKey | undefined,
+  fresh: JsonWebKey | undefined,
+): boolean {
+  return !!stale && !!fresh && !isSamePublicKey(stale, fresh);
+}
+
+function participantKeysEqual(a: ParticipantKey, b: ParticipantKey): boolean {
+  return (
+    a.keyId === b.keyId &&
+    isSamePublicKey(a.publicKey, b.publicKey) &&
+    isSamePublicKey(a.agreementKey, b.agreementKey) &&
+    isSamePublicKey(a.signingKey, b.signingKey) &&
+    deviceKeysFingerprint(a) === deviceKeysFingerprint(b)
+  );
+}
+
+function deviceKeysFingerprint(participantKey: ParticipantKey): string {
+  return Object.entries(participantKey.devices ?? {})
+    .map(
+      ([deviceId, deviceKey]) =>
+        `${deviceId}:${deviceKey.keyId}:${canonicalPublicKey(
+          deviceKey.publicKey,
+        )}`,
+    )
+    .sort()
+    .join(',');
+}
+
+/**
+ * Keep the signing keys a participant used earlier in the conversation
+ * alongside their freshly published keys
+ */
+function withSigningKeyHistory(
+  stale: ParticipantKey,
+  fresh: ParticipantKey,
+): ParticipantKey {
+  const previousSigningKeys = [...(stale.previousSigningKeys ?? [])];
+  if (isKeyReplaced(stale.signingKey, fresh.signingKey)) {
+    previousSigningKeys.push(stale.signingKey!);
+  }
+  return previousSigningKeys.length > 0
+    ? {...fresh, previousSigningKeys}
+    : fresh;
+}
+
+/**
+ * Snapshot a user's published keys and linked devices for a conversation
+ */
+async function loadParticipantKey(user: User): Promise<ParticipantKey> {
+  return toParticipantKey(user, await getLinkedDeviceKeys(user));
+}
+
+/**
+ * Snapshot a user's published keys for a conversation
+ * Optional keys are only included when published (Firestore rejects undefined)
+ */
+function toParticipantKey(
+  user: User,
+  devices: Record<string, DeviceKey>,
+): ParticipantKey {
+  const participantKey: ParticipantKey = {
+    publicKey: user.publicKey,
+    keyId: user.publicKeyId,
+  };
+  if (Object.keys(devices).length > 0) {
+    participantKey.devices = devices;
+  }
+  if (user.agreementKey) {
+    participantKey.agreementKey = user.agreementKey;
+  }
+  if (user.signingKey) {
+    participantKey.signingKey = user.signingKey;
+  }
+  return participantKey;
+}
+
 /**
  * Convert Firestore document to Conversation type
  */
@@ -282,5 +584,13 @@ function documentToConversation(
     adminIds: data[FIELDS.ADMIN_IDS],
     groupKeyId: data[FIELDS.GROUP_KEY_ID],
     groupKeyDistribution: data[FIELDS.GROUP_KEY_DISTRIBUTION],
+    groupDeviceKeyDistribution: data[FIELDS.GROUP_DEVICE_KEY_DISTRIBUTION],
+    groupKeyMode: data[FIELDS.GROUP_KEY_MODE],
+    groupEpoch: data[FIELDS.GROUP_EPOCH],
+    groupKeyCreatedAt: data[FIELDS.GROUP_KEY_CREATED_AT],
+    groupKeyMessageCount: data[FIELDS.GROUP_KEY_MESSAGE_COUNT],
+    groupRotationPolicy: data[FIELDS.GROUP_ROTATION_POLICY],
+    groupKeyRotationPending: data[FIELDS.GROUP_KEY_ROTATION_PENDING],
+    keyChanges: data[FIELDS.KEY_CHANGES],
   };
 }
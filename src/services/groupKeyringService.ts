@@ -0,0 +1,221 @@
+/**
+ * TibbyTalk - Group Keyring
+ * Resolves group keys by keyId so messages stay readable after rotation
+ *
+ * The conversation document only carries the current group key. Every key
+ * the group has used is also kept as a GroupKeyBundle under
+ * groupKeys/{groupId}/keys/{keyId}. When a message names a key this device
+ * has not seen, its bundle is fetched and unwrapped, and the key is cached
+ * in memory and in the local keystore. Ratchet tree groups have no bundles;
+ * their keys come from applying the group's commits (groupTreeService.ts).
+ */
+
+import firestore from '@react-native-firebase/firestore';
+import {COLLECTIONS} from '../config/firebase';
+import {
+  arrayBufferToBase64,
+  base64ToArrayBuffer,
+  exportSymmetricKey,
+  importSymmetricKey,
+  unwrapKeyForRecipient,
+} from '../core/crypto';
+import type {GroupKeyBundle} from '../core/crypto';
+import {getGroupKey, getGroupKeys, storeGroupKey} from '../core/storage';
+import {getDeviceDecryptionKey} from '../core/auth';
+import type {DeviceDecryptionKey} from '../core/auth';
+import {syncGroupTree} from './groupTreeService';
+import type {Conversation} from '../types';
+
+// groupId -> keyId -> group key
+const keyrings: Map<string, Map<string, CryptoKey>> = new Map();
+
+function getMemoryKeyring(groupId: string): Map<string, CryptoKey> {
+  let keyring = keyrings.get(groupId);
+  if (!keyring) {
+    keyring = new Map();
+    keyrings.set(groupId, keyring);
+  }
+  return keyring;
+}
+
+/**
+ * Unwrap a key shared with this device, falling back to replaced identity
+ * keys for copies wrapped before a key change
+ *
+ * @param encryptedKey - Base64 wrapped key
+ * @param decryptionKey - This device's decryption key
+ * @returns Unwrapped key bytes
+ */
+export async function unwrapWithDeviceKey(
+  encryptedKey: string,
+  decryptionKey: DeviceDecryptionKey,
+): Promise<ArrayBuffer> {
+  try {
+    return await unwrapKeyForRecipient(encryptedKey, decryptionKey.privateKey);
+  } catch (error) {
+    for (const previousKey of Object.values(decryptionKey.previousKeys ?? {})) {
+      try {
+        return await unwrapKeyForRecipient(encryptedKey, previousKey);
+      } catch {
+        // Try the next key
+      }
+    }
+    throw error;
+  }
+}
+
+/**
+ * Pick the copy of a group secret wrapped for this device
+ * Linked devices read the copy encrypted for their own device key
+ *
+ * @param encryptedKeys - userId -> copy wrapped for the identity key
+ * @param deviceKeys - userId -> deviceId -> copy wrapped for a device key
+ * @param userId - Reader's user ID
+ * @param decryptionKey - This device's decryption key
+ * @returns The wrapped copy, or undefined if none was made for this device
+ */
+export function selectWrappedKey(
+  encryptedKeys: Record<string, string> | undefined,
+  deviceKeys: Record<string, Record<string, string>> | undefined,
+  userId: string,
+  decryptionKey: DeviceDecryptionKey,
+): string | undefined {
+  return decryptionKey.deviceId
+    ? deviceKeys?.[userId]?.[decryptionKey.deviceId]
+    : encryptedKeys?.[userId];
+}
+
+/**
+ * Fetch a historical key bundle of a group
+ */
+async function getGroupKeyBundle(
+  groupId: string,
+  keyId: string,
+): Promise<GroupKeyBundle | null> {
+  const doc = await firestore()
+    .collection(COLLECTIONS.GROUP_KEYS)
+    .doc(groupId)
+    .collection('keys')
+    .doc(keyId)
+    .get();
+
+  return doc.exists() ? (doc.data() as GroupKeyBundle) : null;
+}
+
+/**
+ * Add a group key to the local keyring
+ *
+ * @param groupId - Group's ID
+ * @param keyId - ID of the group key
+ * @param groupKey - The group key (extractable)
+ */
+export async function cacheGroupKey(
+  groupId: string,
+  keyId: string,
+  groupKey: CryptoKey,
+): Promise<void> {
+  getMemoryKeyring(groupId).set(keyId, groupKey);
+
+  if (await getGroupKey(groupId, keyId)) {
+    return;
+  }
+  await storeGroupKey(
+    groupId,
+    keyId,
+    arrayBufferToBase64(await exportSymmetricKey(groupKey)),
+  );
+}
+
+/**
+ * Get every group key this device has cached for a group
+ *
+ * @param groupId - Group's ID
+ * @returns Map of keyId -> group key
+ */
+export async function getCachedGroupKeys(
+  groupId: string,
+): Promise<Record<string, CryptoKey>> {
+  const groupKeys: Record<string, CryptoKey> = {};
+  for (const [keyId, rawKey] of Object.entries(await getGroupKeys(groupId))) {
+    groupKeys[keyId] = await importSymmetricKey(base64ToArrayBuffer(rawKey));
+  }
+  return groupKeys;
+}
+
+/**
+ * Get a group key by its ID
+ * The current key is read from the conversation; older keys from their
+ * bundle in the group's key history. For ratchet tree groups the ID is an
+ * epoch number
+ *
+ * @param conversation - The group conversation
+ * @param userId - Reader's user ID
+ * @param keyId - ID of the key, as recorded in the message
+ * @returns The group key, or null if it was never shared with this device
+ */
+export async function getGroupKeyById(
+  conversation: Conversation,
+  userId: string,
+  keyId: string,
+): Promise<CryptoKey | null> {
+  if (conversation.type !== 'group') {
+    return null;
+  }
+
+  const memoryKeyring = getMemoryKeyring(conversation.id);
+  const cached = memoryKeyring.get(keyId);
+  if (cached) {
+    return cached;
+  }
+
+  const stored = await getGroupKey(conversation.id, keyId);
+  if (stored) {
+    const groupKey = await importSymmetricKey(base64ToArrayBuffer(stored));
+    memoryKeyring.set(keyId, groupKey);
+    return groupKey;
+  }
+
+  // Ratchet tree groups derive each epoch's key from its commit
+  if (conversation.groupKeyMode === 'tree') {
+    for (const [epochKeyId, epochKey] of Object.entries(
+      await syncGroupTree(conversation, userId),
+    )) {
+      await cacheGroupKey(conversation.id, epochKeyId, epochKey);
+    }
+    return memoryKeyring.get(keyId) ?? null;
+  }
+
+  const decryptionKey = await getDeviceDecryptionKey(userId);
+  if (!decryptionKey) {
+    return null;
+  }
+
+  let encryptedKey: string | undefined;
+  if (keyId === conversation.groupKeyId) {
+    encryptedKey = selectWrappedKey(
+      conversation.groupKeyDistribution,
+      conversation.groupDeviceKeyDistribution,
+      userId,
+      decryptionKey,
+    );
+  } else {
+    const bundle = await getGroupKeyBundle(conversation.id, keyId);
+    encryptedKey = bundle
+      ? selectWrappedKey(
+          bundle.encryptedKeys,
+          bundle.deviceKeys,
+          userId,
+          decryptionKey,
+        )
+      : undefined;
+  }
+  if (!encryptedKey) {
+    return null;
+  }
+
+  const groupKey = await importSymmetricKey(
+    await unwrapWithDeviceKey(encryptedKey, decryptionKey),
+  );
+  await cacheGroupKey(conversation.id, keyId, groupKey);
+  return groupKey;
+}
@@ -0,0 +1,185 @@
+/**
+ * TibbyTalk - Group Rotation Service
+ * Replaces a group's key and records the rotation in the key history
+ *
+ * Shared-key groups get a new key bundle under groupKeys/{groupId}/keys;
+ * ratchet tree groups start a new epoch. A member who leaves cannot rotate
+ * the key they are leaving behind, so leaving only marks the rotation as
+ * pending and the next admin or sender carries it out.
+ */
+
+import firestore from '@react-native-firebase/firestore';
+import {COLLECTIONS, FIELDS} from '../config/firebase';
+import {rotateGroupKey} from '../core/crypto/groupKeys';
+import {cacheGroupKey} from './groupKeyringService';
+import {commitGroupEpoch} from './groupTreeService';
+import {refreshKeyBackup} from './keyBackupService';
+import type {
+  Conversation,
+  GroupKeyRotationReason,
+  ParticipantKey,
+} from '../types';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Start the next epoch of a ratchet tree group from the latest members
+ */
+export async function advanceGroupEpoch(
+  conversation: Conversation,
+  userId: string,
+  reason?: GroupKeyRotationReason,
+): Promise<CryptoKey> {
+  const {epoch, groupKey} = await commitGroupEpoch(
+    conversation,
+    userId,
+    reason,
+  );
+  await cacheGroupKey(conversation.id, String(epoch), groupKey);
+  return groupKey;
+}
+
+/**
+ * Replace the key of a shared-key group and record it in the key history
+ * Fails if another member rotated the key first
+ */
+export async function rotateSharedGroupKey(
+  conversation: Conversation,
+  participantKeys: Record<string, ParticipantKey>,
+  userId: string,
+  reason: GroupKeyRotationReason,
+): Promise<CryptoKey> {
+  const {keyBundle, groupKey} = await rotateGroupKey(
+    participantKeys,
+    userId,
+    conversation.groupKeyId,
+    reason,
+  );
+
+  const conversationRef = firestore()
+    .collection(COLLECTIONS.CONVERSATIONS)
+    .doc(conversation.id);
+  const historyRef = firestore()
+    .collection(COLLECTIONS.GROUP_KEYS)
+    .doc(conversation.id)
+    .collection('keys')
+    .doc(keyBundle.keyId);
+  await firestore().runTransaction(async transaction => {
+    const doc = await transaction.get(conversationRef);
+    if (doc.data()?.[FIELDS.GROUP_KEY_ID] !== conversation.groupKeyId) {
+      throw new Error('The group changed, please try again');
+    }
+
+    // The key history only records keys that actually replaced the current one
+    transaction.set(historyRef, keyBundle);
+    transaction.update(conversationRef, {
+      [FIELDS.GROUP_KEY_ID]: keyBundle.keyId,
+      [FIELDS.GROUP_KEY_DISTRIBUTION]: keyBundle.encryptedKeys,
+      [FIELDS.GROUP_DEVICE_KEY_DISTRIBUTION]: keyBundle.deviceKeys,
+      [FIELDS.GROUP_KEY_CREATED_AT]: keyBundle.createdAt,
+      [FIELDS.GROUP_KEY_MESSAGE_COUNT]: 0,
+      [FIELDS.GROUP_KEY_ROTATION_PENDING]: firestore.FieldValue.delete(),
+    });
+  });
+  await cacheGroupKey(conversation.id, keyBundle.keyId, groupKey);
+
+  return groupKey;
+}
+
+/**
+ * Rotate a group's key for its current members
+ *
+ * @param conversation - Group conversation with an up-to-date key snapshot
+ * @param userId - ID of the member carrying out the rotation
+ * @param reason - Why the key is rotated; recorded in the key history
+ * @returns The new group key
+ */
+export async function rotateConversationGroupKey(
+  conversation: Conversation,
+  userId: string,
+  reason: GroupKeyRotationReason,
+): Promise<CryptoKey> {
+  if (conversation.groupKeyMode === 'tree') {
+    return advanceGroupEpoch(conversation, userId, reason);
+  }
+  return rotateSharedGroupKey(
+    conversation,
+    conversation.participantKeys,
+    userId,
+    reason,
+  );
+}
+
+/**
+ * Check whether a group's key is due for rotation: a member left, or the
+ * group's rotation policy calls for a new key
+ *
+ * @param conversation - Group conversation
+ * @param now - Current time in ms
+ * @returns Why the key is due for rotation, or null if it is not
+ */
+export function getDueKeyRotation(
+  conversation: Conversation,
+  now: number = Date.now(),
+): GroupKeyRotationReason | null {
+  if (conversation.type !== 'group') {
+    return null;
+  }
+  if (conversation.groupKeyRotationPending) {
+    return 'memberLeft';
+  }
+
+  const policy = conversation.groupRotationPolicy;
+  if (!policy) {
+    return null;
+  }
+
+  // Keys created before rotation was tracked date from the group itself
+  const keyCreatedAt = conversation.groupKeyCreatedAt ?? conversation.createdAt;
+
+  if (
+    policy.onKeyChange &&
+    Object.values(conversation.keyChanges ?? {}).some(
+      event => event.detectedAt > keyCreatedAt,
+    )
+  ) {
+    return 'keyChange';
+  }
+  if (
+    policy.maxMessages &&
+    (conversation.groupKeyMessageCount ?? 0) >= policy.maxMessages
+  ) {
+    return 'messageLimit';
+  }
+  if (policy.maxAgeDays && now - keyCreatedAt >= policy.maxAgeDays * DAY_MS) {
+    return 'keyAge';
+  }
+  return null;
+}
+
+/**
+ * Rotate the group key if it is due
+ * Whichever admin is online carries out policy rotations; the rotation
+ * left pending by a member who left is carried out by any member
+ *
+ * @param conversation - Group conversation with an up-to-date key snapshot
+ * @param userId - Current user's ID
+ * @returns True if the key was rotated
+ */
+export async function enforceRotationPolicy(
+  conversation: Conversation,
+  userId: string,
+): Promise<boolean> {
+  const reason = getDueKeyRotation(conversation);
+  if (
+    !reason ||
+    (reason !== 'memberLeft' && !conversation.adminIds?.includes(userId))
+  ) {
+    return false;
+  }
+
+  await rotateConversationGroupKey(conversation, userId, reason);
+
+  await refreshKeyBackup(userId).catch(() => false);
+  return true;
+}
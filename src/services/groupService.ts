@@ -7,31 +7,62 @@ import firestore from '@react-native-firebase/firestore';
 import {COLLECTIONS, FIELDS} from '../config/firebase';
 import {
   createGroupKeyBundle,
-  rotateGroupKey,
   addMemberToGroup as encryptKeyForMember,
-  decryptGroupKey,
 } from '../core/crypto/groupKeys';
-import {getPrivateKey} from '../core/storage';
-import {getUserById} from '../core/auth';
+import {getUserById, getLinkedDeviceKeys} from '../core/auth';
 import {
   createGroupConversation,
   getConversation,
+  getUserConversations,
   addGroupMember as addMemberToConversation,
   removeGroupMember as removeMemberFromConversation,
 } from './conversationService';
-import type {Conversation, ParticipantKey} from '../types';
+import {getGroupKeyForConversation} from './messageService';
+import {cacheGroupKey, getCachedGroupKeys} from './groupKeyringService';
+import {advanceGroupEpoch, rotateSharedGroupKey} from './groupRotationService';
+import {refreshKeyBackup} from './keyBackupService';
+import type {
+  Conversation,
+  Device,
+  GroupKeyMode,
+  GroupRotationPolicy,
+  ParticipantKey,
+} from '../types';
 
 /**
  * Create a new group with encryption keys
+ * 'tree' groups use a ratchet tree, so membership changes in large groups
+ * cost O(log n) key operations instead of one per member
  */
 export async function createGroup(
   creatorId: string,
   name: string,
   memberIds: string[],
+  keyMode: GroupKeyMode = 'shared',
 ): Promise<{conversation: Conversation; groupKey: CryptoKey}> {
   // Create the conversation first
   const conversation = await createGroupConversation(creatorId, name, memberIds);
 
+  if (keyMode === 'tree') {
+    await firestore()
+      .collection(COLLECTIONS.CONVERSATIONS)
+      .doc(conversation.id)
+      .update({[FIELDS.GROUP_KEY_MODE]: keyMode, [FIELDS.GROUP_EPOCH]: 0});
+
+    const treeConversation: Conversation = {
+      ...conversation,
+      groupKeyMode: keyMode,
+      groupEpoch: 0,
+    };
+    const groupKey = await advanceGroupEpoch(treeConversation, creatorId);
+    await refreshKeyBackup(creatorId).catch(() => false);
+
+    return {
+      conversation: {...treeConversation, groupEpoch: 1, groupKeyId: '1'},
+      groupKey,
+    };
+  }
+
   // Generate group key and distribute to members
   const {keyBundle, groupKey} = await createGroupKeyBundle(
     conversation.participantKeys,
@@ -45,6 +76,9 @@ export async function createGroup(
     .update({
       [FIELDS.GROUP_KEY_ID]: keyBundle.keyId,
       [FIELDS.GROUP_KEY_DISTRIBUTION]: keyBundle.encryptedKeys,
+      [FIELDS.GROUP_DEVICE_KEY_DISTRIBUTION]: keyBundle.deviceKeys,
+      [FIELDS.GROUP_KEY_CREATED_AT]: keyBundle.createdAt,
+      [FIELDS.GROUP_KEY_MESSAGE_COUNT]: 0,
     });
 
   // Store the key bundle in groupKeys collection for history
@@ -54,12 +88,19 @@ export async function createGroup(
     .collection('keys')
     .doc(keyBundle.keyId)
     .set(keyBundle);
+  await cacheGroupKey(conversation.id, keyBundle.keyId, groupKey);
+
+  // Back up the new group key; a failed refresh is retried on next login
+  await refreshKeyBackup(creatorId).catch(() => false);
 
   return {
     conversation: {
       ...conversation,
       groupKeyId: keyBundle.keyId,
       groupKeyDistribution: keyBundle.encryptedKeys,
+      groupDeviceKeyDistribution: keyBundle.deviceKeys,
+      groupKeyCreatedAt: keyBundle.createdAt,
+      groupKeyMessageCount: 0,
     },
     groupKey,
   };
@@ -73,21 +114,11 @@ export async function getGroupKey(
   userId: string,
 ): Promise<CryptoKey | null> {
   const conversation = await getConversation(groupId);
-  if (!conversation || conversation.type !== 'group') {
+  if (!conversation) {
     return null;
   }
 
-  const encryptedKey = conversation.groupKeyDistribution?.[userId];
-  if (!encryptedKey) {
-    return null;
-  }
-
-  const privateKey = await getPrivateKey(userId);
-  if (!privateKey) {
-    return null;
-  }
-
-  return decryptGroupKey(encryptedKey, privateKey);
+  return getGroupKeyForConversation(conversation, userId);
 }
 
 /**
@@ -108,6 +139,17 @@ export async function addMember(
     throw new Error('Only admins can add members');
   }
 
+  // Ratchet tree groups seat the new member in the next epoch
+  if (conversation.groupKeyMode === 'tree') {
+    await addMemberToConversation(groupId, newMemberId);
+    const updated = await getConversation(groupId);
+    if (!updated) {
+      throw new Error('Group not found');
+    }
+    await advanceGroupEpoch(updated, adminId);
+    return;
+  }
+
   // Get the current group key
   const groupKey = await getGroupKey(groupId, adminId);
   if (!groupKey) {
@@ -120,11 +162,20 @@ export async function addMember(
     throw new Error('User not found');
   }
 
-  // Encrypt the group key for the new member
+  // Encrypt the group key for the new member and their linked devices
   const encryptedKeyForNewMember = await encryptKeyForMember(
     groupKey,
     newMember.publicKey,
   );
+  const encryptedKeysForDevices: Record<string, string> = {};
+  for (const [deviceId, deviceKey] of Object.entries(
+    await getLinkedDeviceKeys(newMember),
+  )) {
+    encryptedKeysForDevices[deviceId] = await encryptKeyForMember(
+      groupKey,
+      deviceKey.publicKey,
+    );
+  }
 
   // Add member to conversation
   await addMemberToConversation(groupId, newMemberId);
@@ -135,9 +186,86 @@ export async function addMember(
     .doc(groupId)
     .update({
       [`${FIELDS.GROUP_KEY_DISTRIBUTION}.${newMemberId}`]: encryptedKeyForNewMember,
+      [`${FIELDS.GROUP_DEVICE_KEY_DISTRIBUTION}.${newMemberId}`]:
+        encryptedKeysForDevices,
     });
 }
 
+/**
+ * Share the keys of each of the user's groups with a newly approved device
+ * The current key goes into the conversation; older keys this device has
+ * cached are added to their bundles in the group's key history
+ * Must run on a device that can already read the group keys
+ */
+export async function shareGroupKeysWithDevice(
+  userId: string,
+  device: Device,
+): Promise<void> {
+  const conversations = await getUserConversations(userId);
+
+  for (const conversation of conversations) {
+    if (conversation.type !== 'group') {
+      continue;
+    }
+
+    // Ratchet tree groups seat the device in the next epoch; it can read
+    // the group from that epoch on
+    if (conversation.groupKeyMode === 'tree') {
+      const participantKey = conversation.participantKeys[userId];
+      await advanceGroupEpoch(
+        {
+          ...conversation,
+          participantKeys: {
+            ...conversation.participantKeys,
+            [userId]: {
+              ...participantKey,
+              devices: {
+                ...participantKey.devices,
+                [device.id]: {publicKey: device.publicKey, keyId: device.keyId},
+              },
+            },
+          },
+        },
+        userId,
+      );
+      continue;
+    }
+
+    const groupKey = await getGroupKeyForConversation(conversation, userId);
+    if (!groupKey) {
+      continue;
+    }
+
+    const encryptedKey = await encryptKeyForMember(groupKey, device.publicKey);
+    await firestore()
+      .collection(COLLECTIONS.CONVERSATIONS)
+      .doc(conversation.id)
+      .update({
+        [`${FIELDS.GROUP_DEVICE_KEY_DISTRIBUTION}.${userId}.${device.id}`]:
+          encryptedKey,
+      });
+
+    for (const [keyId, historicalKey] of Object.entries(
+      await getCachedGroupKeys(conversation.id),
+    )) {
+      if (keyId === conversation.groupKeyId) {
+        continue;
+      }
+      await firestore()
+        .collection(COLLECTIONS.GROUP_KEYS)
+        .doc(conversation.id)
+        .collection('keys')
+        .doc(keyId)
+        .update({
+          [`deviceKeys.${userId}.${device.id}`]: await encryptKeyForMember(
+            historicalKey,
+            device.publicKey,
+          ),
+        });
+    }
+  }
+}
+
 /**
  * Remove a member from a group (admin only)
  * This also rotates the group key for security
@@ -168,6 +296,17 @@ export async function removeMember(
   // Remove member from conversation
   await removeMemberFromConversation(groupId, memberIdToRemove);
 
+  // Ratchet tree groups blank the member's leaves in the next epoch
+  if (conversation.groupKeyMode === 'tree') {
+    const updated = await getConversation(groupId);
+    if (!updated) {
+      throw new Error('Group not found');
+    }
+    const groupKey = await advanceGroupEpoch(updated, adminId, 'memberRemoved');
+    await refreshKeyBackup(adminId).catch(() => false);
+    return groupKey;
+  }
+
   // Get remaining members' keys
   const remainingParticipantKeys: Record<string, ParticipantKey> = {};
   for (const [userId, key] of Object.entries(conversation.participantKeys)) {
@@ -177,27 +316,14 @@ export async function removeMember(
   }
 
   // Rotate the group key (generate new key for remaining members)
-  const {keyBundle, groupKey} = await rotateGroupKey(
+  const groupKey = await rotateSharedGroupKey(
+    conversation,
     remainingParticipantKeys,
     adminId,
+    'memberRemoved',
   );
 
-  // Update conversation with new key distribution
-  await firestore()
-    .collection(COLLECTIONS.CONVERSATIONS)
-    .doc(groupId)
-    .update({
-      [FIELDS.GROUP_KEY_ID]: keyBundle.keyId,
-      [FIELDS.GROUP_KEY_DISTRIBUTION]: keyBundle.encryptedKeys,
-    });
-
-  // Store the new key in history
-  await firestore()
-    .collection(COLLECTIONS.GROUP_KEYS)
-    .doc(groupId)
-    .collection('keys')
-    .doc(keyBundle.keyId)
-    .set(keyBundle);
+  await refreshKeyBackup(adminId).catch(() => false);
 
   return groupKey;
 }
@@ -286,26 +412,96 @@ export async function updateGroupName(
 
 /**
  * Leave a group
+ * The leaver's wrapped keys are deleted and the key they still hold is
+ * marked for rotation, which the next admin or sender carries out. If the
+ * last admin leaves, the earliest-joined remaining member becomes admin:
+ * members are appended to participants as they join, so that is the first
+ * remaining one.
+ *
+ * Everything is written in one transaction, so the group is never left
+ * without an admin or without the pending rotation; the leaver's own
+ * membership is removed last.
  */
 export async function leaveGroup(
   groupId: string,
   userId: string,
+): Promise<void> {
+  const conversationRef = firestore()
+    .collection(COLLECTIONS.CONVERSATIONS)
+    .doc(groupId);
+
+  await firestore().runTransaction(async transaction => {
+    const doc = await transaction.get(conversationRef);
+    const data = doc.data();
+    if (!doc.exists || data?.[FIELDS.TYPE] !== 'group') {
+      throw new Error('Group not found');
+    }
+
+    const participants: string[] = data[FIELDS.PARTICIPANTS] ?? [];
+    const remainingMembers = participants.filter(id => id !== userId);
+    const remainingAdmins = ((data[FIELDS.ADMIN_IDS] ?? []) as string[]).filter(
+      id => id !== userId,
+    );
+    if (remainingAdmins.length === 0 && remainingMembers.length > 0) {
+      remainingAdmins.push(remainingMembers[0]);
+    }
+
+    transaction.update(conversationRef, {
+      [FIELDS.ADMIN_IDS]: remainingAdmins,
+      [`${FIELDS.GROUP_KEY_DISTRIBUTION}.${userId}`]:
+        firestore.FieldValue.delete(),
+      [`${FIELDS.GROUP_DEVICE_KEY_DISTRIBUTION}.${userId}`]:
+        firestore.FieldValue.delete(),
+      ...(remainingMembers.length > 0 && {
+        [FIELDS.GROUP_KEY_ROTATION_PENDING]: true,
+      }),
+      [FIELDS.UPDATED_AT]: Date.now(),
+      [`${FIELDS.PARTICIPANT_KEYS}.${userId}`]: firestore.FieldValue.delete(),
+      [FIELDS.PARTICIPANTS]: firestore.FieldValue.arrayRemove(userId),
+    });
+  });
+}
+
+/**
+ * Set a group's key rotation policy (admin only)
+ * Pass null to rotate the key only when a member is removed
+ */
+export async function setRotationPolicy(
+  groupId: string,
+  adminId: string,
+  policy: GroupRotationPolicy | null,
 ): Promise<void> {
   const conversation = await getConversation(groupId);
   if (!conversation || conversation.type !== 'group') {
     throw new Error('Group not found');
   }
 
-  // If user is the last admin, they need to promote someone first
+  if (!conversation.adminIds?.includes(adminId)) {
+    throw new Error('Only admins can change key rotation');
+  }
+
+  const {maxMessages, maxAgeDays, onKeyChange} = policy ?? {};
   if (
-    conversation.adminIds?.includes(userId) &&
-    conversation.adminIds.length === 1 &&
-    conversation.participants.length > 1
+    (maxMessages !== undefined &&
+      !(Number.isInteger(maxMessages) && maxMessages > 0)) ||
+    (maxAgeDays !== undefined && !(maxAgeDays > 0))
   ) {
-    throw new Error(
-      'You are the last admin. Please promote another member before leaving.',
-    );
+    throw new Error('Invalid rotation policy');
   }
 
-  await removeMemberFromConversation(groupId, userId);
+  // Firestore rejects undefined fields
+  const storedPolicy: GroupRotationPolicy = {
+    ...(maxMessages !== undefined && {maxMessages}),
+    ...(maxAgeDays !== undefined && {maxAgeDays}),
+    ...(onKeyChange !== undefined && {onKeyChange}),
+  };
+
+  await firestore()
+    .collection(COLLECTIONS.CONVERSATIONS)
+    .doc(groupId)
+    .update({
+      [FIELDS.GROUP_ROTATION_POLICY]: policy
+        ? storedPolicy
+        : firestore.FieldValue.delete(),
+    });
 }
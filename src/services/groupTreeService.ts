@@ -0,0 +1,264 @@
+/**
+ * TibbyTalk - Group Tree Service
+ * Runs the epochs of groups in ratchet tree mode (see ratchetTree.ts)
+ *
+ * Every commit is stored in groupKeys/{groupId}/epochs/{epoch}, and the
+ * conversation records the current epoch; its groupKeyId is the epoch
+ * number. Members apply commits in order and keep the private keys of
+ * their path in the local keystore, so each epoch's group key can only be
+ * derived by a device that was in the tree when the epoch started.
+ * Commits are signed by the committer and verified before they are
+ * applied or built on.
+ */
+
+import firestore from '@react-native-firebase/firestore';
+import {COLLECTIONS, FIELDS} from '../config/firebase';
+import {
+  createRatchetTree,
+  updateTreeMembers,
+  createTreeCommit,
+  processTreeCommit,
+  signTreeCommit,
+  verifyTreeCommit,
+} from '../core/crypto';
+import type {TreeCommit, TreeKeyState, TreeMember} from '../core/crypto';
+import {getSigningKey, getTreeKeys, storeTreeKeys} from '../core/storage';
+import {getDeviceDecryptionKey, getUserById} from '../core/auth';
+import {getGroupKeyHolders} from './conversationService';
+import {withConversationLock} from './sessionService';
+import type {Conversation, GroupKeyRotationReason} from '../types';
+
+async function loadTreeKeys(groupId: string): Promise<TreeKeyState | null> {
+  const stored = await getTreeKeys(groupId);
+  return stored ? JSON.parse(stored) : null;
+}
+
+async function saveTreeKeys(
+  groupId: string,
+  state: TreeKeyState,
+): Promise<void> {
+  if (!(await storeTreeKeys(groupId, JSON.stringify(state)))) {
+    throw new Error('Failed to save tree keys');
+  }
+}
+
+function epochDocument(groupId: string, epoch: number) {
+  return firestore()
+    .collection(COLLECTIONS.GROUP_KEYS)
+    .doc(groupId)
+    .collection(COLLECTIONS.GROUP_EPOCHS)
+    .doc(String(epoch));
+}
+
+async function getTreeCommit(
+  groupId: string,
+  epoch: number,
+): Promise<TreeCommit | null> {
+  const doc = await epochDocument(groupId, epoch).get();
+  return doc.exists() ? (doc.data() as TreeCommit) : null;
+}
+
+/**
+ * Check that a commit was signed by the member who made it
+ * The signing keys come from the conversation's key snapshot, including
+ * keys the committer replaced; committers who have since left the group
+ * are looked up in their user document
+ */
+async function verifyCommitSigner(
+  conversation: Conversation,
+  commit: TreeCommit,
+): Promise<void> {
+  const [committerId] = commit.committedBy.split('/');
+  const participantKey = conversation.participantKeys[committerId];
+  const signingKeys = participantKey
+    ? [participantKey.signingKey, ...(participantKey.previousSigningKeys ?? [])]
+    : [(await getUserById(committerId))?.signingKey];
+
+  for (const signingKey of signingKeys) {
+    if (signingKey && (await verifyTreeCommit(commit, signingKey))) {
+      return;
+    }
+  }
+  throw new Error(`Invalid signature on group epoch ${commit.epoch}`);
+}
+
+/**
+ * Get this device's leaf: its memberId and private key
+ */
+async function getLeafKey(
+  userId: string,
+): Promise<{memberId: string; privateKey: JsonWebKey}> {
+  const decryptionKey = await getDeviceDecryptionKey(userId);
+  if (!decryptionKey) {
+    throw new Error('Private key not found');
+  }
+
+  return {
+    memberId: decryptionKey.deviceId
+      ? `${userId}/${decryptionKey.deviceId}`
+      : userId,
+    privateKey: decryptionKey.privateKey,
+  };
+}
+
+function getTreeMembers(conversation: Conversation): TreeMember[] {
+  return Object.entries(getGroupKeyHolders(conversation)).map(
+    ([memberId, {keyId, publicKey}]) => ({memberId, keyId, publicKey}),
+  );
+}
+
+/**
+ * Find the epoch a device without tree keys can start from: the commit
+ * that added its leaf
+ */
+async function findJoinEpoch(
+  groupId: string,
+  memberId: string,
+  currentEpoch: number,
+  commits: Map<number, TreeCommit>,
+): Promise<number> {
+  let joinEpoch = currentEpoch + 1;
+  for (let epoch = currentEpoch; epoch >= 1; epoch--) {
+    const commit = await getTreeCommit(groupId, epoch);
+    const isMember =
+      commit !== null &&
+      Object.values(commit.tree.nodes).some(node => node.memberId === memberId);
+    if (!commit || !isMember) {
+      break;
+    }
+    commits.set(epoch, commit);
+    joinEpoch = epoch;
+  }
+  return joinEpoch;
+}
+
+/**
+ * Apply the commits this device has not seen yet, up to the group's
+ * current epoch
+ *
+ * @param conversation - Ratchet tree group
+ * @param userId - Current user's ID
+ * @returns Map of keyId (epoch number) -> group key for each new epoch
+ */
+export async function syncGroupTree(
+  conversation: Conversation,
+  userId: string,
+): Promise<Record<string, CryptoKey>> {
+  return withConversationLock(conversation.id, async () => {
+    const currentEpoch = conversation.groupEpoch ?? 0;
+    let state = await loadTreeKeys(conversation.id);
+    if (state && state.epoch >= currentEpoch) {
+      return {};
+    }
+
+    const leaf = await getLeafKey(userId);
+    const commits = new Map<number, TreeCommit>();
+    const firstEpoch = state
+      ? state.epoch + 1
+      : await findJoinEpoch(
+          conversation.id,
+          leaf.memberId,
+          currentEpoch,
+          commits,
+        );
+
+    const groupKeys: Record<string, CryptoKey> = {};
+    for (let epoch = firstEpoch; epoch <= currentEpoch; epoch++) {
+      const commit =
+        commits.get(epoch) ?? (await getTreeCommit(conversation.id, epoch));
+      if (!commit) {
+        throw new Error(`Group epoch ${epoch} not found`);
+      }
+      await verifyCommitSigner(conversation, commit);
+
+      const result = await processTreeCommit(
+        commit,
+        leaf.memberId,
+        leaf.privateKey,
+        state,
+      );
+      state = result.state;
+      await saveTreeKeys(conversation.id, state);
+      groupKeys[String(epoch)] = result.groupKey;
+    }
+    return groupKeys;
+  });
+}
+
+/**
+ * Start the group's next epoch from this device
+ * The tree's leaves are brought in line with the conversation's members
+ * and devices, and this device's path gets fresh keys. The commit is
+ * signed with this account's signing key. Fails if another member
+ * committed the same epoch first, or the previous commit is not signed by
+ * its committer
+ *
+ * @param conversation - Ratchet tree group, with its current members
+ * @param userId - Committing user's ID
+ * @param reason - Why the group key is rotated; recorded with the commit
+ * @returns The new epoch and its group key
+ */
+export async function commitGroupEpoch(
+  conversation: Conversation,
+  userId: string,
+  reason?: GroupKeyRotationReason,
+): Promise<{epoch: number; groupKey: CryptoKey}> {
+  // Catch up first so the keys of earlier epochs stay readable here
+  await syncGroupTree(conversation, userId).catch(err => {
+    console.error('Failed to sync group tree:', err);
+  });
+
+  const previousEpoch = conversation.groupEpoch ?? 0;
+  const previous = previousEpoch
+    ? await getTreeCommit(conversation.id, previousEpoch)
+    : null;
+  if (previousEpoch && !previous) {
+    throw new Error(`Group epoch ${previousEpoch} not found`);
+  }
+  if (previous) {
+    await verifyCommitSigner(conversation, previous);
+  }
+
+  const signingKey = await getSigningKey(userId);
+  if (!signingKey) {
+    throw new Error('Signing key not found');
+  }
+
+  const epoch = previousEpoch + 1;
+  const {memberId} = await getLeafKey(userId);
+  const {commit, state, groupKey} = await createTreeCommit(
+    updateTreeMembers(
+      previous?.tree ?? createRatchetTree(),
+      getTreeMembers(conversation),
+    ),
+    memberId,
+    epoch,
+  );
+
+  const signedCommit = await signTreeCommit(
+    reason ? {...commit, reason} : commit,
+    signingKey,
+  );
+
+  const conversationRef = firestore()
+    .collection(COLLECTIONS.CONVERSATIONS)
+    .doc(conversation.id);
+  await firestore().runTransaction(async transaction => {
+    const doc = await transaction.get(conversationRef);
+    if ((doc.data()?.[FIELDS.GROUP_EPOCH] ?? 0) !== previousEpoch) {
+      throw new Error('The group changed, please try again');
+    }
+
+    transaction.set(epochDocument(conversation.id, epoch), signedCommit);
+    transaction.update(conversationRef, {
+      [FIELDS.GROUP_EPOCH]: epoch,
+      [FIELDS.GROUP_KEY_ID]: String(epoch),
+      [FIELDS.GROUP_KEY_CREATED_AT]: commit.createdAt,
+      [FIELDS.GROUP_KEY_MESSAGE_COUNT]: 0,
+      [FIELDS.GROUP_KEY_ROTATION_PENDING]: firestore.FieldValue.delete(),
+    });
+  });
+  await saveTreeKeys(conversation.id, state);
+
+  return {epoch, groupKey};
+}
@@ -0,0 +1,107 @@
+/**
+ * TibbyTalk - Identity Key Service
+ * Replaces a user's identity key across their conversations
+ *
+ * The new key is published, and every conversation's snapshot of the
+ * user's keys is refreshed, which records a key change event that the
+ * user's contacts acknowledge before sending again. Shared-key groups get
+ * the current group key wrapped for the new key; ratchet tree groups seat
+ * it in a new epoch. Older keys stay readable through the replaced key,
+ * which is kept on this device and in the key backup. Linked devices that
+ * were provisioned with the identity key are sent the new one.
+ */
+
+import firestore from '@react-native-firebase/firestore';
+import {COLLECTIONS, FIELDS} from '../config/firebase';
+import {addMemberToGroup as encryptKeyForMember} from '../core/crypto/groupKeys';
+import {rotateIdentityKey, shareIdentityKeyUpdate} from '../core/auth';
+import {
+  getUserConversations,
+  checkParticipantKeys,
+} from './conversationService';
+import {getGroupKeyForConversation} from './messageService';
+import {advanceGroupEpoch} from './groupRotationService';
+import {refreshKeyBackup} from './keyBackupService';
+import type {Conversation, User} from '../types';
+
+/**
+ * Bring one conversation in line with the user's new identity key
+ */
+async function updateConversationIdentity(
+  conversation: Conversation,
+  user: User,
+  groupKey: CryptoKey | undefined,
+): Promise<void> {
+  // Refreshing the snapshot records the key change for our contacts
+  const updated = await checkParticipantKeys(conversation);
+  if (updated.type !== 'group') {
+    return;
+  }
+
+  if (updated.groupKeyMode === 'tree') {
+    await advanceGroupEpoch(updated, user.id, 'keyChange');
+    return;
+  }
+
+  // A key rotated in the meantime was wrapped by whoever rotated it
+  if (!groupKey || updated.groupKeyId !== conversation.groupKeyId) {
+    return;
+  }
+  await firestore()
+    .collection(COLLECTIONS.CONVERSATIONS)
+    .doc(updated.id)
+    .update({
+      [`${FIELDS.GROUP_KEY_DISTRIBUTION}.${user.id}`]:
+        await encryptKeyForMember(groupKey, user.publicKey),
+    });
+}
+
+/**
+ * Replace the user's identity key and share the change with their
+ * conversations
+ * Must run on the device that holds the identity key
+ *
+ * @param user - Current user
+ * @returns The user with the new identity key
+ */
+export async function rotateIdentityKeys(user: User): Promise<User> {
+  const conversations = await getUserConversations(user.id);
+
+  // Read every current group key while the old identity key still unwraps
+  // it; this also brings ratchet tree groups up to date
+  const groupKeys: Record<string, CryptoKey> = {};
+  for (const conversation of conversations) {
+    if (conversation.type !== 'group') {
+      continue;
+    }
+    const groupKey = await getGroupKeyForConversation(conversation, user.id);
+    if (groupKey) {
+      groupKeys[conversation.id] = groupKey;
+    }
+  }
+
+  const rotated = await rotateIdentityKey(user);
+
+  // The new key is published, so a conversation that fails here is caught
+  // up when a participant next checks its keys
+  for (const conversation of conversations) {
+    await updateConversationIdentity(
+      conversation,
+      rotated,
+      groupKeys[conversation.id],
+    ).catch(err => {
+      console.error('Failed to update conversation keys:', err);
+    });
+  }
+
+  // Without the new key, linked devices can no longer read group keys and
+  // envelopes addressed to the identity key
+  await shareIdentityKeyUpdate(rotated).catch(err => {
+    console.error('Failed to send key update to linked devices:', err);
+  });
+
+  // Back up the new key; a failed refresh is retried on next login
+  await refreshKeyBackup(user.id).catch(() => false);
+
+  return rotated;
+}
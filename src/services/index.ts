@@ -13,6 +13,10 @@ export {
   updateLastMessage,
   addGroupMember,
   removeGroupMember,
+  checkParticipantKeys,
+  getPendingKeyChanges,
+  acknowledgeKeyChanges,
+  getGroupKeyHolders,
 } from './conversationService';
 
 // Message Service
@@ -28,18 +32,93 @@ export {
   deleteMessage,
 } from './messageService';
 
+// Attachment Service (localAttachmentStore.ts is Node-only, for tests)
+export {
+  sendAttachment,
+  sendVoiceNote,
+  downloadAttachment,
+} from './attachmentService';
+export type {OutgoingAttachment, OutgoingVoiceNote} from './attachmentService';
+export {
+  firebaseAttachmentStore,
+  getAttachmentStore,
+  setAttachmentStore,
+} from './attachmentStore';
+export type {AttachmentStore} from './attachmentStore';
+
+// Voice Note Service
+export {
+  startVoiceNoteRecording,
+  stopVoiceNoteRecording,
+  cancelVoiceNoteRecording,
+  playVoiceNote,
+  stopVoiceNotePlayback,
+} from './voiceNoteService';
+
+// Session Service
+export {
+  canUseRatchetSession,
+  startSession,
+  resetActiveSession,
+  encryptWithSession,
+  decryptWithSession,
+  cacheSentMessage,
+} from './sessionService';
+
+// Sender Key Service
+export {encryptWithSenderKey, decryptWithSenderKey} from './senderKeyService';
+
+// Verification Service
+export {
+  getVerificationStatus,
+  markContactVerified,
+  clearContactVerification,
+} from './verificationService';
+
 // Group Service
 export {
   createGroup,
   getGroupKey,
   addMember,
+  shareGroupKeysWithDevice,
   removeMember,
   makeAdmin,
   removeAdmin,
   updateGroupName,
   leaveGroup,
+  setRotationPolicy,
 } from './groupService';
 
+// Group Keyring Service
+export {
+  getGroupKeyById,
+  cacheGroupKey,
+  getCachedGroupKeys,
+} from './groupKeyringService';
+
+// Group Rotation Service
+export {
+  rotateConversationGroupKey,
+  getDueKeyRotation,
+  enforceRotationPolicy,
+} from './groupRotationService';
+
+// Group Tree Service
+export {syncGroupTree, commitGroupEpoch} from './groupTreeService';
+
+// Key Backup Service
+export {
+  enableRecoveryCodeBackup,
+  enablePassphraseBackup,
+  refreshKeyBackup,
+  getKeyBackupStatus,
+  disableKeyBackup,
+  restoreFromKeyBackup,
+} from './keyBackupService';
+
+// Identity Key Service
+export {rotateIdentityKeys} from './identityKeyService';
+
 // Disappearing Message Service
 export {
   startMessageTimer,
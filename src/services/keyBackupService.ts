@@ -0,0 +1,278 @@
+/**
+ * TibbyTalk - Key Backup Service
+ * Keeps an encrypted copy of the user's keys in Firestore
+ *
+ * The backup holds the identity, signing and agreement keys, replaced
+ * identity keys, and the current key of every group, so messages stay readable after a reinstall. Each
+ * upload records a fingerprint of the key IDs it contains; whenever the keys
+ * on this device no longer match, the backup is re-encrypted and uploaded
+ * with the next version number.
+ */
+
+import firestore from '@react-native-firebase/firestore';
+import {COLLECTIONS, FIELDS} from '../config/firebase';
+import {
+  generateRecoveryCode,
+  createBackupKey,
+  recoverBackupKey,
+  sealKeyBackup,
+  openKeyBackup,
+  exportGroupKeyForBackup,
+  hashField,
+} from '../core/crypto';
+import type {BackupKey} from '../core/crypto';
+import {
+  getUserById,
+  installRestoredKeys,
+  getPreviousKeyEntries,
+  SIGNING_KEY_NAME,
+  AGREEMENT_KEY_NAME,
+} from '../core/auth';
+import {
+  getPrivateKey,
+  getSigningKey,
+  getAgreementKey,
+  storeBackupKey,
+  getBackupKey,
+  deleteBackupKey,
+} from '../core/storage';
+import {getUserConversations} from './conversationService';
+import {getGroupKeyForConversation} from './messageService';
+import type {
+  EncryptedKeyBundle,
+  KeyBackupMethod,
+  KeyBackupStatus,
+  User,
+} from '../types';
+
+// Group keys are stored under this prefix plus the group ID
+const GROUP_KEY_PREFIX = 'group:';
+
+function backupDocument(userId: string) {
+  return firestore().collection(COLLECTIONS.KEY_BACKUPS).doc(userId);
+}
+
+/**
+ * Gather the keys to back up from this device
+ *
+ * @param user - Current user
+ * @returns Keys by name, and a fingerprint of their key IDs
+ */
+async function collectBackupKeys(
+  user: User,
+): Promise<{privateKeys: Record<string, JsonWebKey>; keysVersion: string}> {
+  const identityKey = await getPrivateKey(user.id);
+  if (!identityKey) {
+    throw new Error('This device does not have your encryption key');
+  }
+
+  const privateKeys: Record<string, JsonWebKey> = {
+    [user.publicKeyId]: identityKey,
+  };
+  const keyIds = [`identity:${user.publicKeyId}`];
+
+  const signingKey = await getSigningKey(user.id);
+  if (signingKey) {
+    privateKeys[SIGNING_KEY_NAME] = signingKey;
+    keyIds.push(`${SIGNING_KEY_NAME}:${signingKey.x}`);
+  }
+
+  const agreementKey = await getAgreementKey(user.id);
+  if (agreementKey) {
+    privateKeys[AGREEMENT_KEY_NAME] = agreementKey;
+    keyIds.push(`${AGREEMENT_KEY_NAME}:${agreementKey.x}`);
+  }
+
+  // Replaced identity keys, for history wrapped before a key change
+  for (const [name, previousKey] of Object.entries(
+    await getPreviousKeyEntries(user.id),
+  )) {
+    privateKeys[name] = previousKey;
+    keyIds.push(name);
+  }
+
+  for (const conversation of await getUserConversations(user.id)) {
+    if (conversation.type !== 'group' || !conversation.groupKeyId) {
+      continue;
+    }
+
+    const groupKey = await getGroupKeyForConversation(conversation, user.id);
+    if (groupKey) {
+      const name = `${GROUP_KEY_PREFIX}${conversation.id}`;
+      privateKeys[name] = await exportGroupKeyForBackup(groupKey);
+      keyIds.push(`${name}:${conversation.groupKeyId}`);
+    }
+  }
+
+  return {
+    privateKeys,
+    keysVersion: await hashField(keyIds.sort().join('|')),
+  };
+}
+
+async function loadBackupKey(userId: string): Promise<BackupKey | null> {
+  const stored = await getBackupKey(userId);
+  return stored ? JSON.parse(stored) : null;
+}
+
+async function saveBackupKey(
+  userId: string,
+  backupKey: BackupKey,
+): Promise<void> {
+  if (!(await storeBackupKey(userId, JSON.stringify(backupKey)))) {
+    throw new Error('Failed to store backup key');
+  }
+}
+
+/**
+ * Encrypt the current keys and upload them as the next backup version
+ */
+async function uploadBackup(user: User, backupKey: BackupKey): Promise<void> {
+  const {privateKeys, keysVersion} = await collectBackupKeys(user);
+  const bundle = await sealKeyBackup(privateKeys, backupKey);
+
+  const docRef = backupDocument(user.id);
+  await firestore().runTransaction(async transaction => {
+    const doc = await transaction.get(docRef);
+    const version = (doc.data()?.[FIELDS.BACKUP_VERSION] ?? 0) + 1;
+
+    transaction.set(docRef, {
+      [FIELDS.BUNDLE]: bundle,
+      [FIELDS.BACKUP_METHOD]: backupKey.method,
+      [FIELDS.BACKUP_VERSION]: version,
+      [FIELDS.KEYS_VERSION]: keysVersion,
+      [FIELDS.UPDATED_AT]: Date.now(),
+    });
+  });
+}
+
+/**
+ * Turn on cloud backup protected by a new recovery code
+ * The code is shown once; it is never stored
+ *
+ * @param user - Current user
+ * @returns Recovery code for the user to write down
+ */
+export async function enableRecoveryCodeBackup(user: User): Promise<string> {
+  const recoveryCode = generateRecoveryCode();
+  const backupKey = await createBackupKey('recoveryCode', recoveryCode);
+
+  await uploadBackup(user, backupKey);
+  await saveBackupKey(user.id, backupKey);
+
+  return recoveryCode;
+}
+
+/**
+ * Turn on cloud backup protected by a passphrase
+ *
+ * @param user - Current user
+ * @param passphrase - Passphrase chosen by the user
+ */
+export async function enablePassphraseBackup(
+  user: User,
+  passphrase: string,
+): Promise<void> {
+  const backupKey = await createBackupKey('passphrase', passphrase);
+
+  await uploadBackup(user, backupKey);
+  await saveBackupKey(user.id, backupKey);
+}
+
+/**
+ * Upload a new backup version if keys changed since the last one
+ * Does nothing when cloud backup is off on this device
+ *
+ * @param userId - Current user's ID
+ * @returns True if a new version was uploaded
+ */
+export async function refreshKeyBackup(userId: string): Promise<boolean> {
+  const backupKey = await loadBackupKey(userId);
+  if (!backupKey || !(await getPrivateKey(userId))) {
+    return false;
+  }
+
+  const user = await getUserById(userId);
+  if (!user) {
+    return false;
+  }
+
+  const doc = await backupDocument(userId).get();
+  const data = doc.data();
+  if (!data || data[FIELDS.BUNDLE]?.salt !== backupKey.salt) {
+    // Backup was turned off, or protected with a new code, on another device
+    await deleteBackupKey(userId);
+    return false;
+  }
+
+  const {keysVersion} = await collectBackupKeys(user);
+  if (data[FIELDS.KEYS_VERSION] === keysVersion) {
+    return false;
+  }
+
+  await uploadBackup(user, backupKey);
+  return true;
+}
+
+/**
+ * Get the state of the user's cloud backup
+ *
+ * @param userId - User ID
+ * @returns Backup status, or null if there is no cloud backup
+ */
+export async function getKeyBackupStatus(
+  userId: string,
+): Promise<KeyBackupStatus | null> {
+  const doc = await backupDocument(userId).get();
+  const data = doc.data();
+  if (!data) {
+    return null;
+  }
+
+  return {
+    method: data[FIELDS.BACKUP_METHOD],
+    version: data[FIELDS.BACKUP_VERSION],
+    keysVersion: data[FIELDS.KEYS_VERSION],
+    updatedAt: data[FIELDS.UPDATED_AT],
+  };
+}
+
+/**
+ * Delete the cloud backup
+ *
+ * @param userId - User ID
+ */
+export async function disableKeyBackup(userId: string): Promise<void> {
+  await backupDocument(userId).delete();
+  await deleteBackupKey(userId);
+}
+
+/**
+ * Restore keys on a new device from the cloud backup
+ * The backup stays on, refreshed from this device from now on
+ *
+ * @param user - Logged in user
+ * @param secret - Recovery code or passphrase
+ * @returns The user with its published public keys
+ */
+export async function restoreFromKeyBackup(
+  user: User,
+  secret: string,
+): Promise<User> {
+  const doc = await backupDocument(user.id).get();
+  const data = doc.data();
+  if (!data) {
+    throw new Error('No cloud backup found');
+  }
+
+  const method: KeyBackupMethod = data[FIELDS.BACKUP_METHOD];
+  const bundle: EncryptedKeyBundle = data[FIELDS.BUNDLE];
+
+  const backupKey = await recoverBackupKey(bundle, method, secret);
+  const privateKeys = await openKeyBackup(bundle, backupKey);
+
+  const restored = await installRestoredKeys(user, privateKeys);
+  await saveBackupKey(user.id, backupKey);
+
+  return restored;
+}
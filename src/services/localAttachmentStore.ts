@@ -0,0 +1,43 @@
+/**
+ * TibbyTalk - Local Attachment Store
+ * Keeps attachments in a directory on disk instead of Firebase Storage
+ *
+ * A stand-in for tests, which run under Node: it uses Node's file system,
+ * so the app itself never imports it. Install it with setAttachmentStore.
+ */
+
+import {promises as fs} from 'fs';
+import path from 'path';
+import type {AttachmentStore} from './attachmentStore';
+
+/**
+ * Create an attachment store backed by a local directory
+ *
+ * @param directory - Directory the attachments are written to
+ * @returns The store
+ */
+export function createLocalAttachmentStore(directory: string): AttachmentStore {
+  const root = path.resolve(directory);
+
+  // Storage paths come from message payloads, so keep them inside the root
+  const resolve = (storagePath: string): string => {
+    const filePath = path.resolve(root, storagePath);
+    if (!filePath.startsWith(root + path.sep)) {
+      throw new Error('Invalid attachment path');
+    }
+    return filePath;
+  };
+
+  return {
+    upload: async (storagePath, data) => {
+      const filePath = resolve(storagePath);
+      await fs.mkdir(path.dirname(filePath), {recursive: true});
+      await fs.writeFile(filePath, data);
+    },
+    download: async storagePath =>
+      Uint8Array.from(await fs.readFile(resolve(storagePath))).buffer,
+    remove: async storagePath => {
+      await fs.rm(resolve(storagePath), {force: true});
+    },
+  };
+}
@@ -7,36 +7,131 @@ import firestore, {
   FirebaseFirestoreTypes,
 } from '@react-native-firebase/firestore';
 import {COLLECTIONS, FIELDS} from '../config/firebase';
-import {encryptMessage, decryptMessage} from '../core/crypto';
+import {ENVELOPE_VERSIONS} from '../config/constants';
 import {
-  encryptGroupMessage,
-  decryptGroupMessage,
-  decryptGroupKey,
-} from '../core/crypto/groupKeys';
-import {getPrivateKey} from '../core/storage';
-import {getConversation, updateLastMessage} from './conversationService';
+  encryptEnvelope,
+  decryptEnvelope,
+  getEnvelopeCodec,
+  verifyPayloadSignature,
+} from '../core/crypto';
+import type {EnvelopeCodec, MessageSigner} from '../core/crypto';
+import {serializeMessagePayload, parseMessagePayload} from '../core/messages';
+import {getSigningKey} from '../core/storage';
+import {getDeviceDecryptionKey} from '../core/auth';
+import {
+  getConversation,
+  updateLastMessage,
+  checkParticipantKeys,
+  getPendingKeyChanges,
+} from './conversationService';
+import {
+  canUseRatchetSession,
+  cacheSentMessage,
+} from './sessionService';
+import {getGroupKeyById} from './groupKeyringService';
+import {getDueKeyRotation, enforceRotationPolicy} from './groupRotationService';
+import './senderKeyService';
 import type {
   Message,
+  MessagePayload,
   DecryptedMessage,
+  DecryptedContent,
   EncryptedMessage,
   GroupEncryptedMessage,
+  SenderKeyEncryptedMessage,
   Conversation,
 } from '../types';
 
+/**
+ * Load the sender's signing key to sign outgoing payloads
+ */
+async function getMessageSigner(senderId: string): Promise<MessageSigner> {
+  const signingKey = await getSigningKey(senderId);
+  if (!signingKey) {
+    throw new Error('Signing key not found');
+  }
+  return {senderId, signingKey};
+}
+
+/**
+ * Check that a message was signed by its claimed sender
+ * Signatures are checked against the sender's current signing key and the
+ * keys it replaced, so history signed before a key change still verifies.
+ * Returns false for unsigned payloads from before messages were signed, or
+ * if the sender has no signing key to check against; throws if the
+ * signature is invalid, or missing where the envelope version requires one
+ */
+async function verifySender(
+  message: Message,
+  conversation: Conversation,
+  codec: EnvelopeCodec,
+): Promise<boolean> {
+  const payload = message.encryptedContent as
+    | EncryptedMessage
+    | GroupEncryptedMessage
+    | SenderKeyEncryptedMessage;
+  if (!payload.signature) {
+    if (codec.requiresSignature) {
+      throw new Error('Invalid message signature');
+    }
+    return false;
+  }
+
+  const participantKey = conversation.participantKeys[message.senderId];
+  if (!participantKey?.signingKey) {
+    return false;
+  }
+
+  const signingKeys = [
+    participantKey.signingKey,
+    ...(participantKey.previousSigningKeys ?? []),
+  ];
+  for (const signingKey of signingKeys) {
+    if (await verifyPayloadSignature(payload, message.senderId, signingKey)) {
+      return true;
+    }
+  }
+  throw new Error('Invalid message signature');
+}
+
+/**
+ * Load a conversation for sending, with an up-to-date key snapshot
+ * Sending is refused while the sender has unacknowledged key changes
+ */
+async function getConversationForSending(
+  conversationId: string,
+  senderId: string,
+): Promise<Conversation> {
+  const conversation = await getConversation(conversationId);
+  if (!conversation) {
+    throw new Error('Conversation not found');
+  }
+
+  const checked = await checkParticipantKeys(conversation);
+  if (getPendingKeyChanges(checked, senderId).length > 0) {
+    throw new Error('Acknowledge the safety number change before sending');
+  }
+
+  return checked;
+}
+
 /**
  * Send an encrypted message in a 1:1 conversation
+ * The payload is validated and serialized inside the ciphertext
  */
 export async function sendDirectMessage(
   conversationId: string,
   senderId: string,
-  plaintext: string,
+  payload: MessagePayload,
   ttl: number | null = null,
 ): Promise<Message> {
+  const plaintext = serializeMessagePayload(payload);
+
   // Get conversation to find recipient's public key
-  const conversation = await getConversation(conversationId);
-  if (!conversation) {
-    throw new Error('Conversation not found');
-  }
+  const conversation = await getConversationForSending(
+    conversationId,
+    senderId,
+  );
 
   // Find recipient (the other participant)
   const recipientId = conversation.participants.find(id => id !== senderId);
@@ -49,27 +144,59 @@ export async function sendDirectMessage(
     throw new Error("Recipient's public key not found");
   }
 
-  // Encrypt the message
-  const encryptedContent = await encryptMessage(plaintext, recipientKey.publicKey);
+  if (!conversation.participantKeys[senderId]) {
+    throw new Error("Sender's public key not found");
+  }
+
+  // The envelope is bound to the message's ID and expiry
+  const docRef = firestore()
+    .collection(COLLECTIONS.CONVERSATIONS)
+    .doc(conversationId)
+    .collection(COLLECTIONS.MESSAGES)
+    .doc();
+  const timestamp = Date.now();
+  const expiresAt = ttl ? timestamp + ttl * 1000 : null;
+
+  // Prefer a forward-secret ratchet session when both sides support it,
+  // otherwise encrypt for every participant so the sender can read it too
+  const useSession = await canUseRatchetSession(conversation, senderId);
+  const encryptedContent = await encryptEnvelope(
+    'direct',
+    useSession ? ENVELOPE_VERSIONS.DIRECT_SESSION : ENVELOPE_VERSIONS.DIRECT,
+    plaintext,
+    {
+      conversation,
+      senderId,
+      signer: useSession ? undefined : await getMessageSigner(senderId),
+      messageId: docRef.id,
+      expiresAt,
+    },
+  );
 
   // Create message document
   const messageData = {
     [FIELDS.SENDER_ID]: senderId,
-    [FIELDS.TIMESTAMP]: Date.now(),
+    [FIELDS.TIMESTAMP]: timestamp,
     [FIELDS.TYPE]: 'direct',
     [FIELDS.ENCRYPTED]: true,
-    [FIELDS.VERSION]: 'tt-e1',
+    [FIELDS.VERSION]: encryptedContent.version,
     [FIELDS.ENCRYPTED_CONTENT]: encryptedContent,
     [FIELDS.TTL]: ttl,
-    [FIELDS.EXPIRES_AT]: ttl ? Date.now() + ttl * 1000 : null,
+    [FIELDS.EXPIRES_AT]: expiresAt,
     [FIELDS.READ_BY]: {},
   };
 
-  const docRef = await firestore()
-    .collection(COLLECTIONS.CONVERSATIONS)
-    .doc(conversationId)
-    .collection(COLLECTIONS.MESSAGES)
-    .add(messageData);
+  // Ratchet keys are single-use, so keep our copy before the message syncs
+  if (useSession) {
+    await cacheSentMessage(
+      conversationId,
+      docRef.id,
+      plaintext,
+      messageData[FIELDS.EXPIRES_AT],
+    );
+  }
+
+  await docRef.set(messageData);
 
   // Update conversation's last message
   await updateLastMessage(conversationId, senderId);
@@ -89,39 +216,77 @@ export async function sendDirectMessage(
 
 /**
  * Send an encrypted message in a group conversation
+ * Encrypted with the sender's own sender key and signed as the sender
+ * If the group key is due for rotation (a member left, or the group's
+ * rotation policy calls for it and we are an admin), it is rotated first
  */
 export async function sendGroupMessage(
   conversationId: string,
   senderId: string,
-  plaintext: string,
-  groupKey: CryptoKey,
-  keyId: string,
+  payload: MessagePayload,
   ttl: number | null = null,
 ): Promise<Message> {
-  // Encrypt with group key
-  const encryptedContent = await encryptGroupMessage(plaintext, groupKey, keyId);
+  const plaintext = serializeMessagePayload(payload);
+
+  let conversation = await getConversationForSending(conversationId, senderId);
+
+  if (getDueKeyRotation(conversation)) {
+    // Another member may have rotated first; either way the key changed
+    await enforceRotationPolicy(conversation, senderId).catch(err => {
+      console.error('Failed to rotate group key:', err);
+    });
+    conversation = await getConversationForSending(conversationId, senderId);
+    if (conversation.groupKeyRotationPending) {
+      throw new Error('Group key rotation failed, please try again');
+    }
+  }
+
+  const docRef = firestore()
+    .collection(COLLECTIONS.CONVERSATIONS)
+    .doc(conversationId)
+    .collection(COLLECTIONS.MESSAGES)
+    .doc();
+  const timestamp = Date.now();
+  const expiresAt = ttl ? timestamp + ttl * 1000 : null;
+
+  const encryptedContent = await encryptEnvelope(
+    'group',
+    ENVELOPE_VERSIONS.GROUP_SENDER_KEY,
+    plaintext,
+    {
+      conversation,
+      senderId,
+      signer: await getMessageSigner(senderId),
+      messageId: docRef.id,
+      expiresAt,
+    },
+  );
 
   // Create message document
   const messageData = {
     [FIELDS.SENDER_ID]: senderId,
-    [FIELDS.TIMESTAMP]: Date.now(),
+    [FIELDS.TIMESTAMP]: timestamp,
     [FIELDS.TYPE]: 'group',
     [FIELDS.ENCRYPTED]: true,
-    [FIELDS.VERSION]: 'tt-e1',
+    [FIELDS.VERSION]: encryptedContent.version,
     [FIELDS.ENCRYPTED_CONTENT]: encryptedContent,
     [FIELDS.TTL]: ttl,
-    [FIELDS.EXPIRES_AT]: ttl ? Date.now() + ttl * 1000 : null,
+    [FIELDS.EXPIRES_AT]: expiresAt,
     [FIELDS.READ_BY]: {},
   };
 
-  const docRef = await firestore()
-    .collection(COLLECTIONS.CONVERSATIONS)
-    .doc(conversationId)
-    .collection(COLLECTIONS.MESSAGES)
-    .add(messageData);
+  // Sender key message keys are single-use, so keep our copy first
+  await cacheSentMessage(
+    conversationId,
+    docRef.id,
+    plaintext,
+    messageData[FIELDS.EXPIRES_AT],
+  );
+
+  await docRef.set(messageData);
 
   // Update conversation's last message
-  await updateLastMessage(conversationId, senderId);
+  await updateLastMessage(conversationId, senderId, true);
 
   return {
     id: docRef.id,
@@ -137,52 +302,81 @@ export async function sendGroupMessage(
 }
 
 /**
- * Decrypt a direct message
+ * Decrypt a direct message and check who sent it
+ * The codec is chosen by the stored envelope version. Ratchet ('tt-r1')
+ * messages go through the conversation's session, which X3DH binds to
+ * both identity keys; other payloads carry a signature. 'tt-e3' and
+ * 'tt-e4' payloads fail to decrypt unless the stored conversation, sender,
+ * message ID and expiry are the ones they were sent with
  */
 export async function decryptDirectMessageContent(
-  encryptedContent: EncryptedMessage,
+  message: Message,
+  conversation: Conversation,
   userId: string,
-): Promise<string> {
-  const privateKey = await getPrivateKey(userId);
-  if (!privateKey) {
-    throw new Error('Private key not found');
-  }
+): Promise<DecryptedContent> {
+  const codec = getEnvelopeCodec('direct', message.encryptedContent?.version);
+  const senderVerified = codec.authenticatesSender
+    ? true
+    : await verifySender(message, conversation, codec);
 
-  return decryptMessage(encryptedContent, privateKey);
+  const {content} = await decryptEnvelope({
+    message,
+    conversation,
+    userId,
+    getDecryptionKey: () => getDeviceDecryptionKey(userId),
+  });
+  return {payload: parseMessagePayload(content), senderVerified};
 }
 
 /**
- * Decrypt a group message
+ * Decrypt a group message and check who sent it
+ * The sender's signature is what ties a group message to its sender;
+ * only payloads from before messages were signed lack one. Sender key ('tt-s1') messages are decrypted with
+ * the sender's chain; shared-key ('tt-e1', 'tt-e3', 'tt-e4') messages with
+ * the group key named by their keyId, so messages from before a key
+ * rotation stay readable. 'tt-e3' and 'tt-e4' payloads also fail to
+ * decrypt unless the stored message matches the one they were sent as.
  */
 export async function decryptGroupMessageContent(
-  encryptedContent: GroupEncryptedMessage,
-  groupKey: CryptoKey,
-): Promise<string> {
-  return decryptGroupMessage(encryptedContent, groupKey);
+  message: Message,
+  conversation: Conversation,
+  userId: string,
+): Promise<DecryptedContent> {
+  // Fail on unknown versions before checking the signature
+  const codec = getEnvelopeCodec('group', message.encryptedContent?.version);
+  const senderVerified = await verifySender(message, conversation, codec);
+
+  let groupKey: CryptoKey | undefined;
+  if (codec.usesGroupKey) {
+    const {keyId} = message.encryptedContent as GroupEncryptedMessage;
+    groupKey =
+      (await getGroupKeyById(conversation, userId, keyId)) ?? undefined;
+    if (!groupKey) {
+      throw new Error('Group key not found');
+    }
+  }
+
+  const {content} = await decryptEnvelope({
+    message,
+    conversation,
+    userId,
+    groupKey,
+  });
+  return {payload: parseMessagePayload(content), senderVerified};
 }
 
 /**
- * Get the group key for a conversation
+ * Get the current group key for a conversation
  */
 export async function getGroupKeyForConversation(
   conversation: Conversation,
   userId: string,
 ): Promise<CryptoKey | null> {
-  if (conversation.type !== 'group' || !conversation.groupKeyDistribution) {
-    return null;
-  }
-
-  const encryptedKey = conversation.groupKeyDistribution[userId];
-  if (!encryptedKey) {
-    return null;
-  }
-
-  const privateKey = await getPrivateKey(userId);
-  if (!privateKey) {
+  if (conversation.type !== 'group' || !conversation.groupKeyId) {
     return null;
   }
 
-  return decryptGroupKey(encryptedKey, privateKey);
+  return getGroupKeyById(conversation, userId, conversation.groupKeyId);
 }
 
 /**
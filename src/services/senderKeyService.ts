@@ -0,0 +1,455 @@
+/**
+ * TibbyTalk - Sender Key Service
+ * Manages the per-sender hash ratchets of group conversations
+ *
+ * Each member sends with their own sender key (see senderKeys.ts). The
+ * chain key is wrapped for every member and linked device and published in
+ * groupKeys/{groupId}/senderKeys/{senderKeyId}. A sender key belongs to one
+ * group key epoch: when the group key rotates, or a member or device that
+ * received the key is gone, the next message starts a new sender key.
+ * Ratchet tree groups start an epoch on every membership change, so their
+ * chain keys are sealed once with the epoch's group key rather than
+ * wrapped for each member.
+ * Members who join later receive the chain from its current iteration, so
+ * they cannot read earlier messages.
+ * Message keys are single-use, so contents are cached like ratchet messages.
+ */
+
+import firestore from '@react-native-firebase/firestore';
+import {COLLECTIONS} from '../config/firebase';
+import {ENVELOPE_VERSIONS} from '../config/constants';
+import {
+  generateKeyId,
+  createSenderKey,
+  getSenderKeyDistribution,
+  initializeReceivingSenderKey,
+  senderKeyEncrypt,
+  senderKeyDecrypt,
+  signPayload,
+  wrapKeyForRecipient,
+  sealSenderKeyDistribution,
+  openSenderKeyDistribution,
+  registerEnvelopeCodec,
+  sendingMessageContext,
+  storedMessageContext,
+} from '../core/crypto';
+import type {
+  MessageContext,
+  MessageSigner,
+  SenderKeyDistribution,
+  SenderKeyState,
+} from '../core/crypto';
+import {getSenderKeys, storeSenderKeys} from '../core/storage';
+import {getDeviceDecryptionKey} from '../core/auth';
+import {getGroupKeyHolders} from './conversationService';
+import {withConversationLock, decryptOnce} from './sessionService';
+import {
+  getCachedGroupKeys,
+  getGroupKeyById,
+  selectWrappedKey,
+  unwrapWithDeviceKey,
+} from './groupKeyringService';
+import type {
+  Conversation,
+  DeviceKey,
+  Message,
+  SenderKeyEncryptedMessage,
+} from '../types';
+
+// Received sender keys kept per group (the least recently used are dropped)
+const MAX_RECEIVED_SENDER_KEYS = 200;
+
+interface SenderKeyBundle {
+  senderKeyId: string;
+  senderId: string;
+  groupKeyId: string; // Group key epoch the sender key belongs to
+  encryptedKeys?: Record<string, string>; // userId -> wrapped distribution
+  deviceKeys?: Record<string, Record<string, string>>; // userId -> deviceId -> wrapped distribution
+  sealedDistribution?: string; // Ratchet tree groups: sealed with the epoch's group key
+  createdAt: number;
+}
+
+interface OwnSenderKey {
+  state: SenderKeyState;
+  groupKeyId: string;
+  // Recipient ("userId" or "userId/deviceId") -> keyId the chain was wrapped
+  // for; empty in ratchet tree groups
+  recipients: Record<string, string>;
+}
+
+interface ReceivedSenderKey {
+  state: SenderKeyState;
+  updatedAt: number;
+}
+
+interface GroupSenderKeys {
+  own: OwnSenderKey | null;
+  received: Record<string, ReceivedSenderKey>; // senderKeyId -> receiving chain
+}
+
+async function loadSenderKeys(groupId: string): Promise<GroupSenderKeys> {
+  const stored = await getSenderKeys(groupId);
+  if (!stored) {
+    return {own: null, received: {}};
+  }
+  return JSON.parse(stored);
+}
+
+async function saveSenderKeys(
+  groupId: string,
+  senderKeys: GroupSenderKeys,
+): Promise<void> {
+  const received = Object.entries(senderKeys.received).sort(
+    ([, a], [, b]) => b.updatedAt - a.updatedAt,
+  );
+  for (const [senderKeyId] of received.slice(MAX_RECEIVED_SENDER_KEYS)) {
+    delete senderKeys.received[senderKeyId];
+  }
+
+  const stored = await storeSenderKeys(groupId, JSON.stringify(senderKeys));
+  if (!stored) {
+    throw new Error('Failed to save sender keys');
+  }
+}
+
+function senderKeysDoc(groupId: string, senderKeyId: string) {
+  return firestore()
+    .collection(COLLECTIONS.GROUP_KEYS)
+    .doc(groupId)
+    .collection(COLLECTIONS.SENDER_KEYS)
+    .doc(senderKeyId);
+}
+
+/**
+ * Wrap the current position of our chain for a set of recipients
+ *
+ * @returns Firestore field path -> wrapped distribution
+ */
+async function wrapDistribution(
+  state: SenderKeyState,
+  recipients: Record<string, DeviceKey>,
+): Promise<Record<string, string>> {
+  const distribution = new TextEncoder().encode(
+    JSON.stringify(getSenderKeyDistribution(state)),
+  );
+
+  const fields: Record<string, string> = {};
+  for (const [recipient, {publicKey}] of Object.entries(recipients)) {
+    const [userId, deviceId] = recipient.split('/');
+    const fieldPath = deviceId
+      ? `deviceKeys.${userId}.${deviceId}`
+      : `encryptedKeys.${userId}`;
+    fields[fieldPath] = await wrapKeyForRecipient(
+      distribution.buffer,
+      publicKey,
+    );
+  }
+  return fields;
+}
+
+/**
+ * Start a new sender key and publish it to the current members
+ * In ratchet tree groups it is sealed with the epoch's group key
+ */
+async function createOwnSenderKey(
+  conversation: Conversation,
+  senderId: string,
+  groupKeyId: string,
+  epochKey: CryptoKey | null,
+): Promise<OwnSenderKey> {
+  const state = createSenderKey(generateKeyId());
+  const bundle: SenderKeyBundle = {
+    senderKeyId: state.senderKeyId,
+    senderId,
+    groupKeyId,
+    createdAt: Date.now(),
+  };
+
+  if (epochKey) {
+    bundle.sealedDistribution = await sealSenderKeyDistribution(
+      getSenderKeyDistribution(state),
+      epochKey,
+      {senderKeyId: state.senderKeyId, senderId, groupKeyId},
+    );
+    await senderKeysDoc(conversation.id, state.senderKeyId).set(bundle);
+    return {state, groupKeyId, recipients: {}};
+  }
+
+  const recipients = getGroupKeyHolders(conversation);
+  const fields = await wrapDistribution(state, recipients);
+  bundle.encryptedKeys = {};
+  bundle.deviceKeys = {};
+  for (const [fieldPath, wrapped] of Object.entries(fields)) {
+    const [field, userId, deviceId] = fieldPath.split('.');
+    if (field === 'deviceKeys') {
+      bundle.deviceKeys[userId] = {
+        ...bundle.deviceKeys[userId],
+        [deviceId]: wrapped,
+      };
+    } else {
+      bundle.encryptedKeys[userId] = wrapped;
+    }
+  }
+  await senderKeysDoc(conversation.id, state.senderKeyId).set(bundle);
+
+  const recipientKeyIds: Record<string, string> = {};
+  for (const [recipient, {keyId}] of Object.entries(recipients)) {
+    recipientKeyIds[recipient] = keyId;
+  }
+  return {state, groupKeyId, recipients: recipientKeyIds};
+}
+
+/**
+ * Get our sender key for the next message
+ * A new key is started for a new group key epoch, or if anyone holding the
+ * current key has left or changed keys; new recipients get the chain from
+ * its current iteration. Ratchet tree groups seat members and devices in a
+ * new epoch, so only the epoch is checked
+ */
+async function getOwnSenderKey(
+  conversation: Conversation,
+  senderId: string,
+  own: OwnSenderKey | null,
+  epochKey: CryptoKey | null,
+): Promise<OwnSenderKey> {
+  if (!conversation.groupKeyId) {
+    throw new Error('Group key ID not found');
+  }
+
+  if (epochKey) {
+    return own && own.groupKeyId === conversation.groupKeyId
+      ? own
+      : createOwnSenderKey(
+          conversation,
+          senderId,
+          conversation.groupKeyId,
+          epochKey,
+        );
+  }
+
+  const recipients = getGroupKeyHolders(conversation);
+  const isStale =
+    !own ||
+    own.groupKeyId !== conversation.groupKeyId ||
+    Object.entries(own.recipients).some(
+      ([recipient, keyId]) => recipients[recipient]?.keyId !== keyId,
+    );
+  if (isStale) {
+    return createOwnSenderKey(
+      conversation,
+      senderId,
+      conversation.groupKeyId,
+      null,
+    );
+  }
+
+  const newRecipients: Record<string, DeviceKey> = {};
+  for (const [recipient, key] of Object.entries(recipients)) {
+    if (!own.recipients[recipient]) {
+      newRecipients[recipient] = key;
+    }
+  }
+  if (Object.keys(newRecipients).length === 0) {
+    return own;
+  }
+
+  await senderKeysDoc(conversation.id, own.state.senderKeyId).update(
+    await wrapDistribution(own.state, newRecipients),
+  );
+
+  const recipientKeyIds = {...own.recipients};
+  for (const [recipient, {keyId}] of Object.entries(newRecipients)) {
+    recipientKeyIds[recipient] = keyId;
+  }
+  return {...own, recipients: recipientKeyIds};
+}
+
+/**
+ * Get the group key of a ratchet tree group's current epoch, applying new
+ * commits first; null for shared-key groups
+ * Called outside the conversation lock, which applying commits takes
+ */
+async function getEpochKey(
+  conversation: Conversation,
+  userId: string,
+): Promise<CryptoKey | null> {
+  if (conversation.groupKeyMode !== 'tree' || !conversation.groupKeyId) {
+    return null;
+  }
+  return getGroupKeyById(conversation, userId, conversation.groupKeyId);
+}
+
+/**
+ * Encrypt a group message with our sender key
+ *
+ * @param conversation - The group conversation
+ * @param senderId - Sender's user ID
+ * @param plaintext - Message content
+ * @param context - Message the envelope is sealed for
+ * @param signer - Sender's signing key, to sign the payload
+ * @returns Signed encrypted payload
+ */
+export async function encryptWithSenderKey(
+  conversation: Conversation,
+  senderId: string,
+  plaintext: string,
+  context: MessageContext,
+  signer?: MessageSigner,
+): Promise<SenderKeyEncryptedMessage> {
+  const epochKey = await getEpochKey(conversation, senderId);
+  if (conversation.groupKeyMode === 'tree' && !epochKey) {
+    throw new Error('Group key not found');
+  }
+
+  return withConversationLock(conversation.id, async () => {
+    const senderKeys = await loadSenderKeys(conversation.id);
+    const own = await getOwnSenderKey(
+      conversation,
+      senderId,
+      senderKeys.own,
+      epochKey,
+    );
+
+    const {state, iteration, data} = await senderKeyEncrypt(
+      own.state,
+      plaintext,
+      context,
+    );
+    senderKeys.own = {...own, state};
+    await saveSenderKeys(conversation.id, senderKeys);
+
+    const payload: SenderKeyEncryptedMessage = {
+      encrypted: true,
+      version: ENVELOPE_VERSIONS.GROUP_SENDER_KEY,
+      senderKeyId: state.senderKeyId,
+      iteration,
+      data,
+    };
+    return signer ? signPayload(payload, signer) : payload;
+  });
+}
+
+/**
+ * Start following a sender key from its published bundle
+ */
+async function acceptSenderKey(
+  message: Message,
+  userId: string,
+  senderKeyId: string,
+): Promise<SenderKeyState> {
+  const doc = await senderKeysDoc(message.conversationId, senderKeyId).get();
+  const bundle = doc.exists() ? (doc.data() as SenderKeyBundle) : null;
+  if (!bundle) {
+    throw new Error('Sender key not found');
+  }
+  if (bundle.senderId !== message.senderId) {
+    throw new Error('Sender key belongs to another member');
+  }
+
+  // Ratchet tree groups: the epoch's key was derived before taking the lock
+  if (bundle.sealedDistribution) {
+    const epochKey = (await getCachedGroupKeys(message.conversationId))[
+      bundle.groupKeyId
+    ];
+    if (!epochKey) {
+      throw new Error('Sender key was not shared with this device');
+    }
+    return initializeReceivingSenderKey(
+      senderKeyId,
+      await openSenderKeyDistribution(bundle.sealedDistribution, epochKey, {
+        senderKeyId,
+        senderId: bundle.senderId,
+        groupKeyId: bundle.groupKeyId,
+      }),
+    );
+  }
+
+  const decryptionKey = await getDeviceDecryptionKey(userId);
+  if (!decryptionKey) {
+    throw new Error('Private key not found');
+  }
+
+  const encryptedKey = selectWrappedKey(
+    bundle.encryptedKeys,
+    bundle.deviceKeys,
+    userId,
+    decryptionKey,
+  );
+  if (!encryptedKey) {
+    throw new Error('Sender key was not shared with this device');
+  }
+
+  const distribution: SenderKeyDistribution = JSON.parse(
+    new TextDecoder().decode(
+      await unwrapWithDeviceKey(encryptedKey, decryptionKey),
+    ),
+  );
+  return initializeReceivingSenderKey(senderKeyId, distribution);
+}
+
+/**
+ * Decrypt a group message sent with a sender key
+ * Each message is decrypted once and then served from the local cache
+ *
+ * @param message - The group message
+ * @param conversation - The group conversation
+ * @param userId - Reader's user ID
+ * @returns Decrypted message content
+ */
+export async function decryptWithSenderKey(
+  message: Message,
+  conversation: Conversation,
+  userId: string,
+): Promise<string> {
+  const payload = message.encryptedContent as SenderKeyEncryptedMessage;
+
+  // Apply new ratchet tree commits, so the epoch keys are cached
+  await getEpochKey(conversation, userId).catch(err => {
+    console.error('Failed to sync group tree:', err);
+  });
+
+  return decryptOnce(message, async () => {
+    const senderKeys = await loadSenderKeys(message.conversationId);
+
+    // Messages from our own chain can only be read from the cache
+    if (senderKeys.own?.state.senderKeyId === payload.senderKeyId) {
+      throw new Error('Sent message is not available on this device');
+    }
+
+    const current =
+      senderKeys.received[payload.senderKeyId]?.state ??
+      (await acceptSenderKey(message, userId, payload.senderKeyId));
+
+    const {state, plaintext} = await senderKeyDecrypt(
+      current,
+      payload.iteration,
+      payload.data,
+      storedMessageContext(message),
+    );
+    senderKeys.received[payload.senderKeyId] = {state, updatedAt: Date.now()};
+    await saveSenderKeys(message.conversationId, senderKeys);
+
+    return plaintext;
+  });
+}
+
+// 'tt-s1' group: per-sender hash ratchets, signed by the sender
+registerEnvelopeCodec({
+  kind: 'group',
+  version: ENVELOPE_VERSIONS.GROUP_SENDER_KEY,
+  requiresSignature: true,
+  encrypt: (plaintext, context) =>
+    encryptWithSenderKey(
+      context.conversation,
+      context.senderId,
+      plaintext,
+      sendingMessageContext(context),
+      context.signer,
+    ),
+  decrypt: async (_payload, {message, conversation, userId}) => {
+    if (!userId) {
+      throw new Error('Private key not found');
+    }
+    return decryptWithSenderKey(message, conversation, userId);
+  },
+});
@@ -0,0 +1,540 @@
+/**
+ * TibbyTalk - Session Service
+ * Manages Double Ratchet sessions for direct conversations
+ *
+ * Sessions are set up with X3DH against a prekey bundle claimed from the
+ * recipient. Session state is persisted per conversation through
+ * src/core/storage.
+ * Ratchet message keys are single-use, so decrypted and sent message
+ * contents are cached locally and served from the cache afterwards.
+ */
+
+import {ENVELOPE_VERSIONS} from '../config/constants';
+import {
+  generateKeyId,
+  getAgreementCurve,
+  initiateSession,
+  respondToSession,
+  initializeInitiatorSession,
+  initializeResponderSession,
+  ratchetEncrypt,
+  ratchetDecrypt,
+  registerEnvelopeCodec,
+  sendingMessageContext,
+  storedMessageContext,
+} from '../core/crypto';
+import type {MessageContext, RatchetState} from '../core/crypto';
+import {
+  getAgreementKey,
+  getSessionState,
+  storeSessionState,
+  getMessageCache,
+  storeMessageCache,
+} from '../core/storage';
+import {
+  claimPreKeyBundle,
+  getPreKeyPrivateKeys,
+  consumeOneTimePreKey,
+  replenishPreKeys,
+} from '../core/auth';
+import {getConversation} from './conversationService';
+import type {
+  Conversation,
+  Message,
+  PreKeyHeader,
+  RatchetEncryptedMessage,
+} from '../types';
+
+// Sessions kept per conversation (the oldest inactive ones are dropped)
+const MAX_SESSIONS = 5;
+
+// Message contents kept in the local cache per conversation
+const MAX_CACHED_MESSAGES = 1000;
+
+interface SessionEntry {
+  state: RatchetState;
+  pendingPreKey?: PreKeyHeader; // Sent until the peer replies
+  createdAt: number; // When we started or accepted the session
+  updatedAt: number;
+}
+
+interface ConversationSessions {
+  activeSessionId: string | null;
+  sessions: Record<string, SessionEntry>;
+  resetPending?: boolean; // Set by resetActiveSession until we start a session
+}
+
+interface CachedMessage {
+  content: string;
+  expiresAt: number | null;
+}
+
+// Serializes session updates per conversation
+const conversationLocks: Map<string, Promise<unknown>> = new Map();
+
+/**
+ * Run a task after all pending session tasks for the conversation
+ * Group sender key updates are serialized with the same lock
+ */
+export function withConversationLock<T>(
+  conversationId: string,
+  task: () => Promise<T>,
+): Promise<T> {
+  const previous = conversationLocks.get(conversationId) ?? Promise.resolve();
+  const result = previous.catch(() => undefined).then(task);
+  conversationLocks.set(conversationId, result);
+
+  const release = () => {
+    if (conversationLocks.get(conversationId) === result) {
+      conversationLocks.delete(conversationId);
+    }
+  };
+  result.then(release, release);
+
+  return result;
+}
+
+async function loadSessions(
+  conversationId: string,
+): Promise<ConversationSessions> {
+  const stored = await getSessionState(conversationId);
+  if (!stored) {
+    return {activeSessionId: null, sessions: {}};
+  }
+  return JSON.parse(stored);
+}
+
+async function saveSessions(
+  conversationId: string,
+  record: ConversationSessions,
+): Promise<void> {
+  const inactive = Object.entries(record.sessions)
+    .filter(([sessionId]) => sessionId !== record.activeSessionId)
+    .sort(([, a], [, b]) => b.updatedAt - a.updatedAt);
+
+  for (const [sessionId] of inactive.slice(MAX_SESSIONS - 1)) {
+    delete record.sessions[sessionId];
+  }
+
+  const stored = await storeSessionState(
+    conversationId,
+    JSON.stringify(record),
+  );
+  if (!stored) {
+    throw new Error('Failed to save session state');
+  }
+}
+
+async function loadMessageCache(
+  conversationId: string,
+): Promise<Record<string, CachedMessage>> {
+  const stored = await getMessageCache(conversationId);
+  const cache: Record<string, CachedMessage> = stored ? JSON.parse(stored) : {};
+
+  // Disappearing messages must not outlive their TTL in the cache
+  const now = Date.now();
+  for (const [messageId, entry] of Object.entries(cache)) {
+    if (entry.expiresAt && entry.expiresAt <= now) {
+      delete cache[messageId];
+    }
+  }
+
+  return cache;
+}
+
+async function saveMessageCache(
+  conversationId: string,
+  cache: Record<string, CachedMessage>,
+): Promise<void> {
+  const messageIds = Object.keys(cache);
+  for (const messageId of messageIds.slice(
+    0,
+    messageIds.length - MAX_CACHED_MESSAGES,
+  )) {
+    delete cache[messageId];
+  }
+
+  await storeMessageCache(conversationId, JSON.stringify(cache));
+}
+
+/**
+ * Load our identity agreement key pair for a conversation
+ * The published public key comes from the conversation snapshot
+ */
+async function getIdentityAgreementKey(
+  conversation: Conversation,
+  userId: string,
+): Promise<{publicKey: JsonWebKey; privateKey: JsonWebKey}> {
+  const publicKey = conversation.participantKeys[userId]?.agreementKey;
+  const privateKey = await getAgreementKey(userId);
+
+  if (!publicKey || !privateKey) {
+    throw new Error('Agreement key not found');
+  }
+
+  return {publicKey, privateKey};
+}
+
+/**
+ * Check whether a direct conversation can use a ratchet session
+ * Both participants must have published agreement keys on the same curve
+ * (a contact who has not moved to X25519 yet cannot) and signing keys, and
+ * have no linked devices, and this device must hold the agreement private
+ * key matching ours
+ */
+export async function canUseRatchetSession(
+  conversation: Conversation,
+  userId: string,
+): Promise<boolean> {
+  if (conversation.type !== 'direct') {
+    return false;
+  }
+
+  const allPublished = conversation.participants.every(
+    id =>
+      !!conversation.participantKeys[id]?.agreementKey &&
+      !!conversation.participantKeys[id]?.signingKey,
+  );
+  if (!allPublished) {
+    return false;
+  }
+
+  // A session reaches a single device; linked devices need the fan-out
+  const hasLinkedDevices = conversation.participants.some(
+    id => Object.keys(conversation.participantKeys[id].devices ?? {}).length,
+  );
+  if (hasLinkedDevices) {
+    return false;
+  }
+
+  const privateKey = await getAgreementKey(userId);
+  const publishedKey = conversation.participantKeys[userId].agreementKey;
+  if (
+    !privateKey ||
+    privateKey.x !== publishedKey?.x ||
+    privateKey.y !== publishedKey?.y
+  ) {
+    return false;
+  }
+
+  const curve = getAgreementCurve(privateKey);
+  return conversation.participants.every(id => {
+    const agreementKey = conversation.participantKeys[id].agreementKey;
+    return !!agreementKey && getAgreementCurve(agreementKey) === curve;
+  });
+}
+
+/**
+ * Start a new session as the initiator, claiming the recipient's prekey bundle
+ */
+async function createInitiatorSession(
+  conversation: Conversation,
+  senderId: string,
+): Promise<SessionEntry> {
+  const recipientId = conversation.participants.find(id => id !== senderId);
+  const recipientKeys = recipientId
+    ? conversation.participantKeys[recipientId]
+    : undefined;
+  if (!recipientId || !recipientKeys?.agreementKey || !recipientKeys.signingKey) {
+    throw new Error("Recipient's agreement key not found");
+  }
+
+  const bundle = await claimPreKeyBundle(recipientId, recipientKeys.signingKey);
+  const ourIdentityKey = await getIdentityAgreementKey(conversation, senderId);
+  const setup = await initiateSession(
+    ourIdentityKey,
+    recipientKeys.agreementKey,
+    bundle,
+  );
+
+  const pendingPreKey: PreKeyHeader = {
+    ephemeralKey: setup.ephemeralKey,
+    signedPreKeyId: bundle.signedPreKey.keyId,
+  };
+  if (bundle.oneTimePreKey) {
+    pendingPreKey.oneTimePreKeyId = bundle.oneTimePreKey.keyId;
+  }
+
+  return {
+    state: await initializeInitiatorSession(
+      generateKeyId(),
+      setup.sharedSecret,
+      setup.associatedData,
+      bundle.signedPreKey.publicKey,
+    ),
+    pendingPreKey,
+    createdAt: Date.now(),
+    updatedAt: Date.now(),
+  };
+}
+
+/**
+ * Start a ratchet session for a direct conversation if none is active
+ * Called when the conversation is created, so the recipient's one-time
+ * prekey is claimed up front
+ *
+ * @param conversation - Direct conversation
+ * @param userId - Our user ID
+ */
+export async function startSession(
+  conversation: Conversation,
+  userId: string,
+): Promise<void> {
+  return withConversationLock(conversation.id, async () => {
+    const record = await loadSessions(conversation.id);
+    if (record.activeSessionId) {
+      return;
+    }
+
+    const entry = await createInitiatorSession(conversation, userId);
+    record.sessions[entry.state.sessionId] = entry;
+    record.activeSessionId = entry.state.sessionId;
+    await saveSessions(conversation.id, record);
+  });
+}
+
+/**
+ * Stop sending in the conversation's active session
+ * The next message starts a new session against the current keys; older
+ * sessions are kept so messages already in flight can still be decrypted.
+ * Until then, sessions started by the peer are not made active
+ *
+ * @param conversationId - Direct conversation
+ */
+export async function resetActiveSession(
+  conversationId: string,
+): Promise<void> {
+  return withConversationLock(conversationId, async () => {
+    const record = await loadSessions(conversationId);
+    if (!record.activeSessionId) {
+      return;
+    }
+
+    record.activeSessionId = null;
+    record.resetPending = true;
+    await saveSessions(conversationId, record);
+  });
+}
+
+/**
+ * Encrypt a direct message with the conversation's active ratchet session
+ * Starts a new session (X3DH) if none exists yet
+ *
+ * @param conversation - The direct conversation
+ * @param senderId - Sender's user ID
+ * @param plaintext - Message content
+ * @param context - Message the envelope is sealed for
+ * @returns Encrypted payload
+ */
+export async function encryptWithSession(
+  conversation: Conversation,
+  senderId: string,
+  plaintext: string,
+  context: MessageContext,
+): Promise<RatchetEncryptedMessage> {
+  return withConversationLock(conversation.id, async () => {
+    const record = await loadSessions(conversation.id);
+    const entry =
+      (record.activeSessionId
+        ? record.sessions[record.activeSessionId]
+        : undefined) ?? (await createInitiatorSession(conversation, senderId));
+
+    const {state, header, data} = await ratchetEncrypt(
+      entry.state,
+      plaintext,
+      context,
+    );
+    record.sessions[state.sessionId] = {
+      ...entry,
+      state,
+      updatedAt: Date.now(),
+    };
+    record.activeSessionId = state.sessionId;
+    delete record.resetPending;
+    await saveSessions(conversation.id, record);
+
+    const encryptedContent: RatchetEncryptedMessage = {
+      encrypted: true,
+      version: ENVELOPE_VERSIONS.DIRECT_SESSION,
+      sessionId: state.sessionId,
+      header,
+      data,
+    };
+    if (entry.pendingPreKey) {
+      encryptedContent.preKey = entry.pendingPreKey;
+    }
+    return encryptedContent;
+  });
+}
+
+/**
+ * Create the responder side of a session from a message carrying a prekey
+ */
+async function acceptSession(
+  message: Message,
+  userId: string,
+  payload: RatchetEncryptedMessage,
+): Promise<SessionEntry> {
+  if (!payload.preKey) {
+    throw new Error('No session found for this message');
+  }
+
+  const conversation = await getConversation(message.conversationId);
+  const theirIdentityKey =
+    conversation?.participantKeys[message.senderId]?.agreementKey;
+  if (!conversation || !theirIdentityKey) {
+    throw new Error("Sender's agreement key not found");
+  }
+
+  const ourIdentityKey = await getIdentityAgreementKey(conversation, userId);
+  const ourPreKeys = await getPreKeyPrivateKeys(userId, payload.preKey);
+  const setup = await respondToSession(
+    ourIdentityKey,
+    {
+      signedPreKey: ourPreKeys.signedPreKey.privateKey,
+      oneTimePreKey: ourPreKeys.oneTimePreKey,
+    },
+    theirIdentityKey,
+    payload.preKey.ephemeralKey,
+  );
+
+  return {
+    state: initializeResponderSession(
+      payload.sessionId,
+      setup.sharedSecret,
+      setup.associatedData,
+      {
+        publicKey: ourPreKeys.signedPreKey.publicKey,
+        privateKey: ourPreKeys.signedPreKey.privateKey,
+      },
+    ),
+    createdAt: Date.now(),
+    updatedAt: Date.now(),
+  };
+}
+
+/**
+ * Decrypt a message whose keys are single-use, at most once
+ * The content is cached locally and served from the cache afterwards
+ *
+ * @param message - Message to decrypt
+ * @param decrypt - Decrypts the message; runs under the conversation lock
+ * @returns Decrypted message content
+ */
+export function decryptOnce(
+  message: Message,
+  decrypt: () => Promise<string>,
+): Promise<string> {
+  return withConversationLock(message.conversationId, async () => {
+    const cache = await loadMessageCache(message.conversationId);
+    if (cache[message.id]) {
+      return cache[message.id].content;
+    }
+
+    const content = await decrypt();
+    cache[message.id] = {content, expiresAt: message.expiresAt};
+    await saveMessageCache(message.conversationId, cache);
+    return content;
+  });
+}
+
+/**
+ * Decrypt a ratchet-encrypted direct message
+ * Each message is decrypted once and then served from the local cache
+ */
+export async function decryptWithSession(
+  message: Message,
+  userId: string,
+): Promise<string> {
+  const payload = message.encryptedContent as RatchetEncryptedMessage;
+
+  return decryptOnce(message, async () => {
+    // Our own ratchet messages can only be read from the cache
+    if (message.senderId === userId) {
+      throw new Error('Sent message is not available on this device');
+    }
+
+    const record = await loadSessions(message.conversationId);
+    const isNewSession = !record.sessions[payload.sessionId];
+    const entry =
+      record.sessions[payload.sessionId] ??
+      (await acceptSession(message, userId, payload));
+
+    const {state, plaintext} = await ratchetDecrypt(
+      entry.state,
+      payload.header,
+      payload.data,
+      storedMessageContext(message),
+    );
+
+    // Any reply in this session means the peer holds it: stop sending the prekey
+    record.sessions[state.sessionId] = {
+      state,
+      createdAt: entry.createdAt,
+      updatedAt: Date.now(),
+    };
+
+    // Messages in existing sessions never move the active session. A session
+    // the peer just started replaces ours only if it is the most recently
+    // started one, and not while a reset is pending: our next message
+    // starts the replacement instead
+    const active = record.activeSessionId
+      ? record.sessions[record.activeSessionId]
+      : undefined;
+    if (
+      isNewSession &&
+      !record.resetPending &&
+      (!active || active.createdAt < entry.createdAt)
+    ) {
+      record.activeSessionId = state.sessionId;
+    }
+    await saveSessions(message.conversationId, record);
+
+    // One-time prekeys are single-use: discard it and top up the pool
+    const oneTimePreKeyId = payload.preKey?.oneTimePreKeyId;
+    if (isNewSession && oneTimePreKeyId) {
+      await consumeOneTimePreKey(userId, oneTimePreKeyId);
+      replenishPreKeys(userId).catch(err => {
+        console.error('Failed to replenish prekeys:', err);
+      });
+    }
+
+    return plaintext;
+  });
+}
+
+/**
+ * Cache the content of a message we sent with single-use keys
+ */
+export async function cacheSentMessage(
+  conversationId: string,
+  messageId: string,
+  content: string,
+  expiresAt: number | null,
+): Promise<void> {
+  return withConversationLock(conversationId, async () => {
+    const cache = await loadMessageCache(conversationId);
+    cache[messageId] = {content, expiresAt};
+    await saveMessageCache(conversationId, cache);
+  });
+}
+
+// 'tt-r1' direct: Double Ratchet sessions, bound to both identity keys by X3DH
+registerEnvelopeCodec({
+  kind: 'direct',
+  version: ENVELOPE_VERSIONS.DIRECT_SESSION,
+  authenticatesSender: true,
+  encrypt: (plaintext, context) =>
+    encryptWithSession(
+      context.conversation,
+      context.senderId,
+      plaintext,
+      sendingMessageContext(context),
+    ),
+  decrypt: async (_payload, {message, userId}) => {
+    if (!userId) {
+      throw new Error('Private key not found');
+    }
+    return decryptWithSession(message, userId);
+  },
+});
@@ -0,0 +1,103 @@
+/**
+ * TibbyTalk - Verification Service
+ * Tracks which contacts' safety numbers the user has verified
+ *
+ * A verification applies to the contact's fingerprint, which covers their
+ * identity, signing and agreement keys. When any of them changes, the
+ * verification is cleared and the contact is reported as 'changed' until
+ * the new safety number is verified.
+ */
+
+import {getFingerprintIdentity, getIdentityFingerprint} from '../core/crypto';
+import {getVerifiedContacts, storeVerifiedContacts} from '../core/storage';
+import type {ContactVerification, User, VerificationStatus} from '../types';
+
+async function loadRecords(
+  userId: string,
+): Promise<Record<string, ContactVerification>> {
+  const stored = await getVerifiedContacts(userId);
+  return stored ? JSON.parse(stored) : {};
+}
+
+async function saveRecords(
+  userId: string,
+  records: Record<string, ContactVerification>,
+): Promise<void> {
+  const stored = await storeVerifiedContacts(userId, JSON.stringify(records));
+  if (!stored) {
+    throw new Error('Failed to save verification state');
+  }
+}
+
+function getContactFingerprint(contact: User): Promise<string> {
+  return getIdentityFingerprint(getFingerprintIdentity(contact));
+}
+
+/**
+ * Get the verification status of a contact
+ * Clears a verification that no longer matches the contact's keys
+ *
+ * @param userId - Our user ID
+ * @param contact - Contact's current user data
+ * @returns 'verified', 'unverified', or 'changed' after a key change
+ */
+export async function getVerificationStatus(
+  userId: string,
+  contact: User,
+): Promise<VerificationStatus> {
+  const records = await loadRecords(userId);
+  const record = records[contact.id];
+  if (!record) {
+    return 'unverified';
+  }
+
+  const fingerprint = await getContactFingerprint(contact);
+  if (record.fingerprint !== fingerprint) {
+    records[contact.id] = {
+      fingerprint,
+      verified: false,
+      keyChangedAt: Date.now(),
+    };
+    await saveRecords(userId, records);
+    return 'changed';
+  }
+
+  if (record.verified) {
+    return 'verified';
+  }
+  return record.keyChangedAt ? 'changed' : 'unverified';
+}
+
+/**
+ * Mark a contact's current keys as verified
+ *
+ * @param userId - Our user ID
+ * @param contact - Contact's current user data
+ */
+export async function markContactVerified(
+  userId: string,
+  contact: User,
+): Promise<void> {
+  const records = await loadRecords(userId);
+  records[contact.id] = {
+    fingerprint: await getContactFingerprint(contact),
+    verified: true,
+    verifiedAt: Date.now(),
+  };
+  await saveRecords(userId, records);
+}
+
+/**
+ * Remove a contact's verification
+ *
+ * @param userId - Our user ID
+ * @param contactId - Contact's user ID
+ */
+export async function clearContactVerification(
+  userId: string,
+  contactId: string,
+): Promise<void> {
+  const records = await loadRecords(userId);
+  delete records[contactId];
+  await saveRecords(userId, records);
+}
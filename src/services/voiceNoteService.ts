@@ -0,0 +1,218 @@
+/**
+ * TibbyTalk - Voice Note Service
+ * Records voice notes and plays received ones back
+ *
+ * A recording is written to the cache directory, then read back and sent
+ * with sendVoiceNote, so the audio goes through the same chunked attachment
+ * encryption as any other file. The recorder's metering is collected while
+ * recording and reduced to a short waveform that travels, with the
+ * duration, inside the encrypted payload. For playback a voice note is
+ * downloaded, verified and decrypted to a temporary file, which is deleted
+ * again when playback stops.
+ */
+
+import AudioRecorderPlayer from 'react-native-audio-recorder-player';
+import {
+  CachesDirectoryPath,
+  readFile,
+  unlink,
+  writeFile,
+} from '@dr.pogodin/react-native-fs';
+import {
+  MAX_VOICE_NOTE_DURATION,
+  VOICE_NOTE_WAVEFORM_BARS,
+} from '../config/constants';
+import {
+  arrayBufferToBase64,
+  base64ToArrayBuffer,
+  generateUUID,
+} from '../core/crypto';
+import {downloadAttachment} from './attachmentService';
+import type {OutgoingVoiceNote} from './attachmentService';
+import type {AttachmentInfo} from '../types';
+
+const VOICE_NOTE_MIME_TYPE = 'audio/mp4';
+const METERING_INTERVAL = 0.1; // Seconds
+
+// Metering is in dBFS; anything quieter than this is drawn as silence
+const SILENCE_DB = -60;
+
+interface Recording {
+  path: string;
+  durationMs: number;
+  levels: number[]; // 0-1, one per metering update
+}
+
+let recording: Recording | null = null;
+let playbackPath: string | null = null;
+
+function getTemporaryPath(): string {
+  return `${CachesDirectoryPath}/voice-note-${generateUUID()}.m4a`;
+}
+
+async function removeFile(path: string): Promise<void> {
+  await unlink(path).catch(err => {
+    console.error('Failed to remove voice note file:', err);
+  });
+}
+
+function meteringToLevel(metering: number | undefined): number {
+  if (metering === undefined) {
+    return 0;
+  }
+  return Math.min(1, Math.max(0, 1 - metering / SILENCE_DB));
+}
+
+// Each bar is the peak level of its slice of the recording, from 0 to 100
+function summarizeWaveform(levels: number[]): number[] {
+  const bars = Math.min(VOICE_NOTE_WAVEFORM_BARS, levels.length);
+  const waveform: number[] = [];
+  for (let bar = 0; bar < bars; bar++) {
+    const start = Math.floor((bar * levels.length) / bars);
+    const end = Math.floor(((bar + 1) * levels.length) / bars);
+    waveform.push(Math.round(Math.max(...levels.slice(start, end)) * 100));
+  }
+  return waveform;
+}
+
+/**
+ * Start recording a voice note
+ * Microphone permission must already have been granted
+ *
+ * @param onProgress - Called with the length recorded so far
+ */
+export async function startVoiceNoteRecording(
+  onProgress?: (durationMs: number) => void,
+): Promise<void> {
+  if (recording) {
+    throw new Error('Already recording a voice note');
+  }
+
+  const current: Recording = {
+    path: getTemporaryPath(),
+    durationMs: 0,
+    levels: [],
+  };
+  recording = current;
+
+  AudioRecorderPlayer.setSubscriptionDuration(METERING_INTERVAL);
+  AudioRecorderPlayer.addRecordBackListener(meta => {
+    current.durationMs = meta.currentPosition;
+    current.levels.push(meteringToLevel(meta.currentMetering));
+    onProgress?.(meta.currentPosition);
+  });
+
+  try {
+    await AudioRecorderPlayer.startRecorder(current.path, undefined, true);
+  } catch (error) {
+    AudioRecorderPlayer.removeRecordBackListener();
+    recording = null;
+    throw error;
+  }
+}
+
+/**
+ * Stop recording and read the voice note back, ready for sendVoiceNote
+ * The recording file is deleted once it has been read
+ *
+ * @returns Recorded audio with its duration and waveform
+ */
+export async function stopVoiceNoteRecording(): Promise<OutgoingVoiceNote> {
+  const current = recording;
+  if (!current) {
+    throw new Error('Not recording a voice note');
+  }
+  recording = null;
+
+  AudioRecorderPlayer.removeRecordBackListener();
+  try {
+    await AudioRecorderPlayer.stopRecorder();
+    const base64 = await readFile(current.path, 'base64');
+    return {
+      data: new Uint8Array(base64ToArrayBuffer(base64)),
+      fileName: 'Voice note.m4a',
+      mimeType: VOICE_NOTE_MIME_TYPE,
+      durationMs: Math.min(
+        Math.round(current.durationMs),
+        MAX_VOICE_NOTE_DURATION,
+      ),
+      waveform: summarizeWaveform(current.levels),
+    };
+  } finally {
+    await removeFile(current.path);
+  }
+}
+
+/**
+ * Stop recording and throw the recording away
+ */
+export async function cancelVoiceNoteRecording(): Promise<void> {
+  const current = recording;
+  if (!current) return;
+  recording = null;
+
+  AudioRecorderPlayer.removeRecordBackListener();
+  try {
+    await AudioRecorderPlayer.stopRecorder();
+  } finally {
+    await removeFile(current.path);
+  }
+}
+
+/**
+ * Download, verify and play a voice note
+ * Stops any voice note that is already playing
+ *
+ * @param attachment - Attachment from a received voice note payload
+ * @param conversationId - Conversation the voice note was received in
+ * @param onProgress - Called with the playback position
+ * @param onEnd - Called when the voice note finishes playing
+ */
+export async function playVoiceNote(
+  attachment: AttachmentInfo,
+  conversationId: string,
+  onProgress?: (positionMs: number) => void,
+  onEnd?: () => void,
+): Promise<void> {
+  await stopVoiceNotePlayback();
+
+  const data = await downloadAttachment(attachment, conversationId);
+  const path = getTemporaryPath();
+  await writeFile(path, arrayBufferToBase64(data.buffer), 'base64');
+  playbackPath = path;
+
+  AudioRecorderPlayer.addPlayBackListener(meta => {
+    onProgress?.(meta.currentPosition);
+  });
+  AudioRecorderPlayer.addPlaybackEndListener(() => {
+    stopVoiceNotePlayback()
+      .catch(err => {
+        console.error('Failed to stop voice note:', err);
+      })
+      .finally(() => onEnd?.());
+  });
+
+  try {
+    await AudioRecorderPlayer.startPlayer(path);
+  } catch (error) {
+    await stopVoiceNotePlayback();
+    throw error;
+  }
+}
+
+/**
+ * Stop the voice note that is playing and delete its decrypted file
+ */
+export async function stopVoiceNotePlayback(): Promise<void> {
+  const path = playbackPath;
+  if (!path) return;
+  playbackPath = null;
+
+  AudioRecorderPlayer.removePlayBackListener();
+  AudioRecorderPlayer.removePlaybackEndListener();
+  try {
+    await AudioRecorderPlayer.stopPlayer();
+  } finally {
+    await removeFile(path);
+  }
+}
@@ -11,11 +11,13 @@ interface AuthState {
   isAuthenticated: boolean;
   isLoading: boolean;
   isInitialized: boolean;
+  needsKeyRestore: boolean; // Logged in on a device without the identity key
 
   // Actions
   setUser: (user: User | null) => void;
   setLoading: (loading: boolean) => void;
   setInitialized: (initialized: boolean) => void;
+  setNeedsKeyRestore: (needsKeyRestore: boolean) => void;
   logout: () => void;
 }
 
@@ -24,6 +26,7 @@ export const useAuthStore = create<AuthState>(set => ({
   isAuthenticated: false,
   isLoading: true,
   isInitialized: false,
+  needsKeyRestore: false,
 
   setUser: (user: User | null) =>
     set({
@@ -36,10 +39,13 @@ export const useAuthStore = create<AuthState>(set => ({
 
   setInitialized: (isInitialized: boolean) => set({isInitialized}),
 
+  setNeedsKeyRestore: (needsKeyRestore: boolean) => set({needsKeyRestore}),
+
   logout: () =>
     set({
       user: null,
       isAuthenticated: false,
       isLoading: false,
+      needsKeyRestore: false,
     }),
 }));
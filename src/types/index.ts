@@ -9,32 +9,118 @@ export interface KeyPair {
   createdAt: number;
 }
 
-export interface EncryptedMessage {
+export interface SingleRecipientEncryptedMessage {
   encrypted: true;
   version: 'tt-e1';
   data: string; // Base64 AES-encrypted content
   key: string; // Base64 RSA-encrypted AES key
   iv: string; // Base64 IV
+  signature?: string; // Base64 sender signature over the payload
+}
+
+export interface MultiRecipientEncryptedMessage {
+  encrypted: true;
+  version: 'tt-e2' | 'tt-e3' | 'tt-e4'; // 'tt-e3' binds the message context as AAD, 'tt-e4' also pads
+  data: string; // Base64 AES-encrypted content
+  keys: Record<string, string>; // keyId -> Base64 RSA-encrypted AES key
+  iv: string; // Base64 IV
+  signature?: string; // Base64 sender signature over the payload
+}
+
+export type EncryptedMessage =
+  | SingleRecipientEncryptedMessage
+  | MultiRecipientEncryptedMessage;
+
+export interface RatchetHeader {
+  ratchetKey: string; // Base64 sender's current ratchet public key
+  previousCount: number; // Messages sent in the previous sending chain
+  count: number; // Message number in the current sending chain
+}
+
+export interface PreKeyHeader {
+  ephemeralKey: string; // Base64 initiator's X3DH ephemeral key
+  signedPreKeyId: string; // Responder's signed prekey used
+  oneTimePreKeyId?: string; // Responder's one-time prekey used, if any
+}
+
+export interface RatchetEncryptedMessage {
+  encrypted: true;
+  version: 'tt-r1';
+  sessionId: string; // Double Ratchet session this message belongs to
+  header: RatchetHeader;
+  preKey?: PreKeyHeader; // Present until the responder has replied in this session
+  data: string; // Base64 AES-encrypted content
+}
+
+export interface SignedPreKey {
+  keyId: string;
+  publicKey: string; // Base64 raw X25519 (or legacy P-256) public key
+  signature: string; // Base64 signature by the owner's signing key
+  createdAt: number;
+}
+
+export interface OneTimePreKey {
+  keyId: string;
+  publicKey: string; // Base64 raw X25519 (or legacy P-256) public key
+}
+
+export interface PreKeyBundle {
+  userId: string;
+  signedPreKey: SignedPreKey;
+  oneTimePreKey?: OneTimePreKey; // Absent when the pool is exhausted
 }
 
 export interface GroupEncryptedMessage {
   encrypted: true;
-  version: 'tt-e1';
+  version: 'tt-e1' | 'tt-e3' | 'tt-e4'; // 'tt-e3' binds the message context as AAD, 'tt-e4' also pads
   data: string; // Base64 AES-encrypted content
   iv: string; // Base64 IV
   keyId: string; // Which group key version was used
+  signature?: string; // Base64 sender signature over the payload
+}
+
+export interface SenderKeyEncryptedMessage {
+  encrypted: true;
+  version: 'tt-s1';
+  senderKeyId: string; // Sender's chain, see groupKeys/{groupId}/senderKeys
+  iteration: number; // Message number in the sender's chain
+  data: string; // Base64 AES-encrypted content
+  signature?: string; // Base64 sender signature over the payload
 }
 
+// Any stored message payload; see src/core/crypto/envelopes.ts
+export type EncryptedEnvelope =
+  | EncryptedMessage
+  | RatchetEncryptedMessage
+  | GroupEncryptedMessage
+  | SenderKeyEncryptedMessage;
+
 export interface EncryptedKeyBundle {
   version: string;
   algorithm: string;
   iterations: number;
+  kdfParams?: ScryptParams; // Set for memory-hard (scrypt) bundles
   salt: string;
   iv: string;
   ciphertext: string;
   exportedAt: string;
 }
 
+export interface ScryptParams {
+  N: number; // CPU/memory cost
+  r: number; // Block size
+  p: number; // Parallelization
+}
+
+export type KeyBackupMethod = 'recoveryCode' | 'passphrase';
+
+export interface KeyBackupStatus {
+  method: KeyBackupMethod;
+  version: number; // Incremented on every upload
+  keysVersion: string; // Fingerprint of the backed up key IDs
+  updatedAt: number;
+}
+
 // ==================== User Types ====================
 
 export interface User {
@@ -43,11 +129,41 @@ export interface User {
   displayName: string;
   publicKey: JsonWebKey;
   publicKeyId: string;
+  agreementKey?: JsonWebKey; // X25519 (or legacy P-256) key for ratchet sessions
+  signingKey?: JsonWebKey; // Ed25519 (or legacy ECDSA) key for identity signatures
   fcmToken?: string;
   createdAt: number;
   lastSeen: number;
 }
 
+// ==================== Device Types ====================
+
+export type DeviceStatus = 'pending' | 'active';
+
+export interface Device {
+  id: string;
+  name: string;
+  platform: string;
+  publicKey: JsonWebKey; // Device's RSA public key (the identity key on the primary device)
+  keyId: string;
+  status: DeviceStatus;
+  signature?: string; // Base64 signature by the owner's signing key, once approved
+  approvedBy?: string; // Device that authorized this one
+  createdAt: number;
+  lastSeen: number;
+}
+
+export interface DeviceKey {
+  publicKey: JsonWebKey;
+  keyId: string;
+}
+
+export interface LocalDevice {
+  deviceId: string;
+  keyId: string;
+  privateKey?: JsonWebKey; // Absent on the device holding the identity key
+}
+
 export interface AuthState {
   user: User | null;
   isAuthenticated: boolean;
@@ -58,9 +174,41 @@ export interface AuthState {
 
 export type ConversationType = 'direct' | 'group';
 
+// 'shared': one group key wrapped for every member; 'tree': ratchet tree epochs
+export type GroupKeyMode = 'shared' | 'tree';
+
+// When admins rotate a group's key, besides removing a member
+export interface GroupRotationPolicy {
+  maxMessages?: number; // Rotate after this many messages under one key
+  maxAgeDays?: number; // Rotate once the key is this many days old
+  onKeyChange?: boolean; // Rotate when a member's identity keys change
+}
+
+// Why a group key replaced the previous one, recorded in the key history
+export type GroupKeyRotationReason =
+  | 'memberRemoved'
+  | 'memberLeft'
+  | 'messageLimit'
+  | 'keyAge'
+  | 'keyChange';
+
 export interface ParticipantKey {
   publicKey: JsonWebKey;
   keyId: string;
+  agreementKey?: JsonWebKey; // Absent for clients without ratchet support
+  signingKey?: JsonWebKey; // Absent for clients without ratchet support
+  previousSigningKeys?: JsonWebKey[]; // Replaced signing keys, oldest first; verify earlier messages
+  devices?: Record<string, DeviceKey>; // deviceId -> key of each linked device
+}
+
+export interface KeyChangeEvent {
+  id: string;
+  userId: string; // Participant whose keys changed
+  displayName: string; // Participant's name when the change was detected
+  previousKeyId: string;
+  newKeyId: string;
+  detectedAt: number;
+  acknowledgedBy: Record<string, number>; // userId -> acknowledgement timestamp
 }
 
 export interface Conversation {
@@ -80,6 +228,14 @@ export interface Conversation {
   adminIds?: string[];
   groupKeyId?: string;
   groupKeyDistribution?: Record<string, string>; // userId -> encrypted group key
+  groupDeviceKeyDistribution?: Record<string, Record<string, string>>; // userId -> deviceId -> encrypted group key
+  groupKeyMode?: GroupKeyMode; // Absent for groups created before ratchet trees
+  groupEpoch?: number; // Ratchet tree groups: current epoch, also the groupKeyId
+  groupKeyCreatedAt?: number; // When the current group key was created
+  groupKeyMessageCount?: number; // Messages sent under the current group key
+  groupRotationPolicy?: GroupRotationPolicy;
+  groupKeyRotationPending?: boolean; // A member left; the next admin or sender rotates the key
+  keyChanges?: Record<string, KeyChangeEvent>; // eventId -> key change
 }
 
 // ==================== Message Types ====================
@@ -90,18 +246,118 @@ export interface Message {
   senderId: string;
   timestamp: number;
   type: ConversationType;
-  encryptedContent: EncryptedMessage | GroupEncryptedMessage;
+  encryptedContent: EncryptedEnvelope;
   // Disappearing message fields
   ttl: number | null; // Seconds until expiry (null = permanent)
   expiresAt: number | null; // Timestamp when message expires
   readBy: Record<string, number>; // userId -> read timestamp
 }
 
+export interface DecryptedContent {
+  payload: ReceivedMessagePayload;
+  senderVerified: boolean; // False for unsigned (legacy) payloads or senders without a signing key
+}
+
 export interface DecryptedMessage extends Omit<Message, 'encryptedContent'> {
-  content: string;
+  payload: ReceivedMessagePayload;
+  senderVerified: boolean;
   decryptedAt: number;
 }
 
+// ==================== Message Payload Types ====================
+
+// What a message says, serialized inside its ciphertext
+export interface TextPayload {
+  type: 'text';
+  text: string;
+}
+
+export interface ReplyPayload {
+  type: 'reply';
+  text: string;
+  replyToId: string; // Message being replied to
+}
+
+export interface ReactionPayload {
+  type: 'reaction';
+  targetId: string; // Message being reacted to
+  emoji: string;
+  removed?: boolean; // True when taking back an earlier reaction
+}
+
+export interface EditPayload {
+  type: 'edit';
+  targetId: string; // Sender's own message being edited
+  text: string; // Replacement text
+}
+
+export interface DeletePayload {
+  type: 'delete';
+  targetId: string; // Sender's own message being deleted for everyone
+}
+
+export interface AttachmentInfo {
+  version: 'tt-a1'; // Attachment encryption format
+  storagePath: string; // Where the ciphertext is uploaded
+  key: string; // Base64 per-file AES-256 key
+  digest: string; // Base64 SHA-256 of the ciphertext
+  fileName: string;
+  mimeType: string;
+  size: number; // Plaintext bytes
+}
+
+export interface AttachmentPayload {
+  type: 'attachment';
+  attachment: AttachmentInfo;
+  caption?: string;
+}
+
+// Recorded audio, sent as an encrypted attachment
+export interface VoiceNotePayload {
+  type: 'voiceNote';
+  attachment: AttachmentInfo;
+  durationMs: number;
+  waveform: number[]; // Peak level of each bar, 0-100
+}
+
+export interface SystemPayload {
+  type: 'system';
+  event: string; // e.g. 'groupRenamed'
+  text: string; // Shown as is
+}
+
+export type MessagePayload =
+  | TextPayload
+  | ReplyPayload
+  | ReactionPayload
+  | EditPayload
+  | DeletePayload
+  | AttachmentPayload
+  | VoiceNotePayload
+  | SystemPayload;
+
+export type MessagePayloadType = MessagePayload['type'];
+
+// A payload of a type this client does not know, from a newer client
+export interface UnknownPayload {
+  type: 'unknown';
+  originalType: string;
+  text?: string; // Fallback text, if the sender included one
+}
+
+export type ReceivedMessagePayload = MessagePayload | UnknownPayload;
+
+// ==================== Verification Types ====================
+
+export type VerificationStatus = 'verified' | 'unverified' | 'changed';
+
+export interface ContactVerification {
+  fingerprint: string; // Contact keys the record applies to (Base64 fingerprint)
+  verified: boolean;
+  verifiedAt?: number;
+  keyChangedAt?: number; // Set when a verified contact's keys changed
+}
+
 // ==================== TTL Options ====================
 
 export const TTL_OPTIONS = {
@@ -147,6 +403,7 @@ export type AuthStackParamList = {
 export type MainStackParamList = {
   ConversationList: undefined;
   Chat: { conversationId: string };
+  SafetyNumber: { conversationId: string; contactId: string };
   NewChat: undefined;
   CreateGroup: undefined;
   GroupInfo: { groupId: string };
@@ -154,4 +411,6 @@ export type MainStackParamList = {
   Settings: undefined;
   SecuritySettings: undefined;
   KeyBackup: undefined;
+  KeyRestore: undefined;
+  Devices: undefined;
 };
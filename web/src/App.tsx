@@ -6,6 +6,7 @@ import { useEffect } from 'react';
 import { BrowserRouter, Routes, Route, Navigate } from 'react-router-dom';
 import { useAuthStore } from './store/authStore';
 import { onAuthStateChanged, getUserById } from './core/auth/authService';
+import { installIdentityKeyUpdate } from './core/auth/provisioningService';
 import Login from './pages/Login';
 import Register from './pages/Register';
 import Chat from './pages/Chat';
@@ -47,6 +48,11 @@ export default function App() {
       if (firebaseUser) {
         try {
           const userData = await getUserById(firebaseUser.uid);
+          if (userData) {
+            await installIdentityKeyUpdate(userData).catch((err) => {
+              console.error('Failed to install key update:', err);
+            });
+          }
           setUser(userData);
         } catch (err) {
           console.error('Failed to get user data:', err);
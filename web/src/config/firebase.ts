@@ -8,6 +8,7 @@
 import { initializeApp } from 'firebase/app';
 import { getAuth } from 'firebase/auth';
 import { getFirestore } from 'firebase/firestore';
+import { getStorage } from 'firebase/storage';
 
 // TODO: Replace with your Firebase config
 const firebaseConfig = {
@@ -25,6 +26,7 @@ const app = initializeApp(firebaseConfig);
 // Export services
 export const auth = getAuth(app);
 export const db = getFirestore(app);
+export const storage = getStorage(app);
 
 // Collection names (same as mobile app)
 export const COLLECTIONS = {
@@ -32,6 +34,14 @@ export const COLLECTIONS = {
   CONVERSATIONS: 'conversations',
   MESSAGES: 'messages',
   GROUP_KEYS: 'groupKeys',
+  PROVISIONING: 'provisioning',
+  DEVICES: 'devices',
+  SENDER_KEYS: 'senderKeys', // Under groupKeys/{groupId}
+} as const;
+
+// Cloud Storage folders (same as mobile app)
+export const STORAGE_PATHS = {
+  ATTACHMENTS: 'attachments',
 } as const;
 
 // Field names
@@ -40,6 +50,7 @@ export const FIELDS = {
   DISPLAY_NAME: 'displayName',
   PUBLIC_KEY: 'publicKey',
   PUBLIC_KEY_ID: 'publicKeyId',
+  SIGNING_KEY: 'signingKey',
   CREATED_AT: 'createdAt',
   LAST_SEEN: 'lastSeen',
   TYPE: 'type',
@@ -51,6 +62,11 @@ export const FIELDS = {
   ADMIN_IDS: 'adminIds',
   GROUP_KEY_ID: 'groupKeyId',
   GROUP_KEY_DISTRIBUTION: 'groupKeyDistribution',
+  GROUP_KEY_CREATED_AT: 'groupKeyCreatedAt',
+  GROUP_KEY_MESSAGE_COUNT: 'groupKeyMessageCount',
+  GROUP_ROTATION_POLICY: 'groupRotationPolicy',
+  GROUP_KEY_ROTATION_PENDING: 'groupKeyRotationPending',
+  KEY_CHANGES: 'keyChanges',
   SENDER_ID: 'senderId',
   TIMESTAMP: 'timestamp',
   ENCRYPTED: 'encrypted',
@@ -59,6 +75,15 @@ export const FIELDS = {
   TTL: 'ttl',
   EXPIRES_AT: 'expiresAt',
   READ_BY: 'readBy',
+  USER_ID: 'userId',
+  BUNDLE: 'bundle',
+  SENDER_KEY: 'senderKey',
+  SIGNATURE: 'signature',
+  DEVICE_NAME: 'name',
+  PLATFORM: 'platform',
+  KEY_ID: 'keyId',
+  STATUS: 'status',
+  KEY_UPDATE: 'keyUpdate',
 } as const;
 
 export default app;
@@ -25,6 +25,7 @@ import {
 import { auth, db, COLLECTIONS, FIELDS } from '../../config/firebase';
 import { generateKeyPair } from '../crypto';
 import { storePrivateKey, clearAllKeys } from '../storage/keyStorage';
+import { unregisterBrowserDevice } from './provisioningService';
 import type { User, PasswordValidationResult } from '../../types';
 
 // Password requirements (same as mobile)
@@ -95,7 +96,7 @@ export async function registerUser(
   const keyPair = await generateKeyPair();
 
   // Store private key locally
-  storePrivateKey(firebaseUser.uid, keyPair.privateKey);
+  await storePrivateKey(firebaseUser.uid, keyPair.privateKey);
 
   // Create user document in Firestore
   const userData = {
@@ -145,6 +146,7 @@ export async function loginUser(email: string, password: string): Promise<User>
     displayName: data[FIELDS.DISPLAY_NAME],
     publicKey: data[FIELDS.PUBLIC_KEY],
     publicKeyId: data[FIELDS.PUBLIC_KEY_ID],
+    signingKey: data[FIELDS.SIGNING_KEY],
     createdAt: data[FIELDS.CREATED_AT],
     lastSeen: data[FIELDS.LAST_SEEN],
   };
@@ -154,8 +156,14 @@ export async function loginUser(email: string, password: string): Promise<User>
  * Logout
  */
 export async function logoutUser(): Promise<void> {
+  const userId = auth.currentUser?.uid;
+  if (userId) {
+    await unregisterBrowserDevice(userId).catch(error => {
+      console.error('Failed to remove device:', error);
+    });
+  }
   await signOut(auth);
-  clearAllKeys();
+  await clearAllKeys();
 }
 
 /**
@@ -197,6 +205,7 @@ export async function getUserById(userId: string): Promise<User | null> {
     displayName: data[FIELDS.DISPLAY_NAME],
     publicKey: data[FIELDS.PUBLIC_KEY],
     publicKeyId: data[FIELDS.PUBLIC_KEY_ID],
+    signingKey: data[FIELDS.SIGNING_KEY],
     createdAt: data[FIELDS.CREATED_AT],
     lastSeen: data[FIELDS.LAST_SEEN],
   };
@@ -221,6 +230,7 @@ export async function searchUsersByEmail(email: string): Promise<User[]> {
       displayName: data[FIELDS.DISPLAY_NAME],
       publicKey: data[FIELDS.PUBLIC_KEY],
       publicKeyId: data[FIELDS.PUBLIC_KEY_ID],
+      signingKey: data[FIELDS.SIGNING_KEY],
       createdAt: data[FIELDS.CREATED_AT],
       lastSeen: data[FIELDS.LAST_SEEN],
     };
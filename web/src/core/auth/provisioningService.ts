@@ -0,0 +1,238 @@
+/**
+ * TibbyTalk Web - Provisioning Service
+ * Links this browser to an account by receiving keys from a logged-in phone
+ *
+ * The browser registers as one of the user's linked devices, like a second
+ * phone would. Ratchet sessions only reach a single device, so contacts fall
+ * back to envelopes the browser can read once it appears in the device list.
+ * When the phone replaces the identity key, it leaves the new key on this
+ * browser's device entry, wrapped for the device key.
+ */
+
+import {
+  doc,
+  getDoc,
+  setDoc,
+  updateDoc,
+  deleteDoc,
+  deleteField,
+  onSnapshot,
+} from 'firebase/firestore';
+import { db, COLLECTIONS, FIELDS } from '../../config/firebase';
+import {
+  createProvisioningSession,
+  verifyProvisioningMessage,
+  openProvisioningBundle,
+} from '../crypto/provisioning';
+import type { ProvisioningSession, ProvisioningMessage } from '../crypto/provisioning';
+import { isKeyPairMatch, unwrapKeyForRecipient } from '../crypto/keyWrap';
+import { verifyPayloadSignature } from '../crypto/signing';
+import { generateKeyPair } from '../crypto/encryption';
+import {
+  storePrivateKey,
+  getPrivateKey,
+  storeSigningKey,
+  storePreviousPrivateKeys,
+  getPreviousPrivateKeys,
+  storeLocalDevice,
+  getLocalDevice,
+} from '../storage/keyStorage';
+import type { LocalDevice, User } from '../../types';
+
+// Link codes expire after ten minutes (same as mobile)
+const PROVISIONING_TTL = 10 * 60 * 1000;
+
+// Bundle entries holding the signing key and replaced identity keys (same as mobile)
+const SIGNING_KEY_NAME = 'signing';
+const PREVIOUS_KEY_PREFIX = 'previous:';
+
+// Replaced identity key left on this browser's device entry (same as mobile)
+interface IdentityKeyUpdate {
+  keyId: string;
+  keys: string; // Base64 bundle of private keys wrapped for the device key
+  signature?: string;
+}
+
+function deviceRef(userId: string, deviceId: string) {
+  return doc(db, COLLECTIONS.USERS, userId, COLLECTIONS.DEVICES, deviceId);
+}
+
+/**
+ * Get this browser's device registration, registering it as pending first
+ * The device key pair is generated here and its private key never leaves
+ * this browser
+ */
+async function registerBrowserDevice(userId: string): Promise<LocalDevice> {
+  const current = await getLocalDevice(userId);
+  if (current && (await getDoc(deviceRef(userId, current.deviceId))).exists()) {
+    return current;
+  }
+
+  const keyPair = await generateKeyPair();
+  const device: LocalDevice = {
+    deviceId: crypto.randomUUID(),
+    keyId: keyPair.keyId,
+    privateKey: keyPair.privateKey,
+  };
+  if (!(await storeLocalDevice(userId, device))) {
+    throw new Error('Failed to store device');
+  }
+
+  await setDoc(deviceRef(userId, device.deviceId), {
+    [FIELDS.DEVICE_NAME]: 'Web browser',
+    [FIELDS.PLATFORM]: 'web',
+    [FIELDS.PUBLIC_KEY]: keyPair.publicKey,
+    [FIELDS.KEY_ID]: keyPair.keyId,
+    [FIELDS.STATUS]: 'pending',
+    [FIELDS.CREATED_AT]: Date.now(),
+    [FIELDS.LAST_SEEN]: Date.now(),
+  });
+  return device;
+}
+
+/**
+ * Remove this browser from the user's devices (logout)
+ */
+export async function unregisterBrowserDevice(userId: string): Promise<void> {
+  const current = await getLocalDevice(userId);
+  if (current) {
+    await deleteDoc(deviceRef(userId, current.deviceId));
+  }
+}
+
+/**
+ * Create a link code request for this browser
+ */
+export async function startDeviceProvisioning(userId: string): Promise<ProvisioningSession> {
+  const device = await registerBrowserDevice(userId);
+  const session = await createProvisioningSession(userId, crypto.randomUUID(), device);
+
+  await setDoc(doc(db, COLLECTIONS.PROVISIONING, session.requestId), {
+    [FIELDS.USER_ID]: userId,
+    [FIELDS.CREATED_AT]: Date.now(),
+    [FIELDS.EXPIRES_AT]: Date.now() + PROVISIONING_TTL,
+  });
+
+  return session;
+}
+
+/**
+ * Wait for a phone to answer the link code, then store the account's keys
+ */
+export function subscribeToProvisioning(
+  user: User,
+  session: ProvisioningSession,
+  onProvisioned: () => void,
+  onError: (error: Error) => void
+): () => void {
+  const requestRef = doc(db, COLLECTIONS.PROVISIONING, session.requestId);
+
+  let handled = false;
+  const unsubscribe = onSnapshot(requestRef, snapshot => {
+    const data = snapshot.data();
+    if (handled || !data?.[FIELDS.BUNDLE]) {
+      return;
+    }
+    handled = true;
+    unsubscribe();
+
+    const message: ProvisioningMessage = {
+      requestId: session.requestId,
+      bundle: data[FIELDS.BUNDLE],
+      senderKey: data[FIELDS.SENDER_KEY],
+      signature: data[FIELDS.SIGNATURE],
+    };
+
+    installProvisionedKey(user, session, message)
+      .then(() => deleteDoc(requestRef))
+      .then(onProvisioned, onError);
+  });
+
+  return unsubscribe;
+}
+
+/**
+ * Check the bundle came from the account and holds its identity and signing keys
+ */
+async function installProvisionedKey(
+  user: User,
+  session: ProvisioningSession,
+  message: ProvisioningMessage
+): Promise<void> {
+  if (!user.signingKey) {
+    throw new Error('This account cannot link browsers');
+  }
+
+  const valid = await verifyProvisioningMessage(message, user.id, user.signingKey);
+  if (!valid) {
+    throw new Error('Link response was not signed by your account');
+  }
+
+  const keys = await openProvisioningBundle(message, session);
+  const identityKey = keys[user.id];
+  if (!identityKey || !isKeyPairMatch(identityKey, user.publicKey)) {
+    throw new Error('Link response does not contain your identity key');
+  }
+
+  const signingKey = keys[SIGNING_KEY_NAME];
+  if (!signingKey) {
+    throw new Error('Link response does not contain your signing key');
+  }
+
+  if (!(await storePrivateKey(user.id, identityKey)) || !(await storeSigningKey(user.id, signingKey))) {
+    throw new Error('Failed to store private keys');
+  }
+
+  const previousKeys: Record<string, JsonWebKey> = {};
+  for (const [name, privateKey] of Object.entries(keys)) {
+    if (name.startsWith(PREVIOUS_KEY_PREFIX)) {
+      previousKeys[name.slice(PREVIOUS_KEY_PREFIX.length)] = privateKey;
+    }
+  }
+  if (Object.keys(previousKeys).length > 0) {
+    await storePreviousPrivateKeys(user.id, previousKeys);
+  }
+}
+
+/**
+ * Install the new identity key if the phone replaced it since this browser was linked
+ */
+export async function installIdentityKeyUpdate(user: User): Promise<void> {
+  const current = await getLocalDevice(user.id);
+  if (!current) return;
+
+  const ref = deviceRef(user.id, current.deviceId);
+  const snapshot = await getDoc(ref);
+  const update: IdentityKeyUpdate | undefined = snapshot.data()?.[FIELDS.KEY_UPDATE];
+  if (!update) return;
+
+  if (!user.signingKey || !(await verifyPayloadSignature(update, user.id, user.signingKey))) {
+    throw new Error('Key update was not signed by your account');
+  }
+
+  // A stale update names a key that was replaced again since
+  if (update.keyId === user.publicKeyId && (await getPrivateKey(user.id))) {
+    const keys: Record<string, JsonWebKey> = JSON.parse(
+      new TextDecoder().decode(await unwrapKeyForRecipient(update.keys, current.privateKey))
+    );
+    const identityKey = keys[user.id];
+    if (!identityKey || !isKeyPairMatch(identityKey, user.publicKey)) {
+      throw new Error('Key update does not contain your identity key');
+    }
+
+    const previousKeys = await getPreviousPrivateKeys(user.id);
+    for (const [name, privateKey] of Object.entries(keys)) {
+      if (name.startsWith(PREVIOUS_KEY_PREFIX)) {
+        previousKeys[name.slice(PREVIOUS_KEY_PREFIX.length)] = privateKey;
+      }
+    }
+    if (
+      !(await storePreviousPrivateKeys(user.id, previousKeys)) ||
+      !(await storePrivateKey(user.id, identityKey))
+    ) {
+      throw new Error('Failed to store private keys');
+    }
+  }
+
+  await updateDoc(ref, { [FIELDS.KEY_UPDATE]: deleteField() });
+}
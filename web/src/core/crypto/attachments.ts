@@ -0,0 +1,102 @@
+/**
+ * TibbyTalk Web - Attachment Encryption
+ * Chunked AES-GCM with a per-file key ('tt-a1', matches mobile)
+ *
+ * 64 KiB chunks are sealed under nonces made from their index, with the last
+ * chunk marked in the additional data so chunks cannot be reordered, dropped
+ * or cut off. The key, ciphertext digest and size go inside the message payload.
+ */
+
+import { arrayBufferToBase64, base64ToArrayBuffer, importSymmetricKey } from './encryption';
+import type { AttachmentInfo } from '../../types';
+
+export const ATTACHMENT_VERSION = 'tt-a1';
+export const ATTACHMENT_CHUNK_SIZE = 64 * 1024;
+
+const TAG_LENGTH = 16;
+
+export interface EncryptedAttachment {
+  data: Uint8Array<ArrayBuffer>; // Ciphertext to upload
+  key: string; // Base64 per-file AES-256 key
+  digest: string; // Base64 SHA-256 of the ciphertext
+  size: number; // Plaintext bytes
+}
+
+function getChunkCount(size: number): number {
+  return Math.max(1, Math.ceil(size / ATTACHMENT_CHUNK_SIZE));
+}
+
+function chunkParams(index: number, chunkCount: number): AesGcmParams {
+  const iv = new Uint8Array(12);
+  new DataView(iv.buffer).setUint32(8, index);
+  const position = index === chunkCount - 1 ? 'last' : 'more';
+  return {
+    name: 'AES-GCM',
+    iv,
+    additionalData: new TextEncoder().encode(`${ATTACHMENT_VERSION}:${index}:${position}`),
+  };
+}
+
+async function digestCiphertext(data: Uint8Array<ArrayBuffer>): Promise<string> {
+  return arrayBufferToBase64(await crypto.subtle.digest('SHA-256', data));
+}
+
+/**
+ * Encrypt a file with a new key
+ */
+export async function encryptAttachment(
+  plaintext: Uint8Array<ArrayBuffer>
+): Promise<EncryptedAttachment> {
+  const rawKey = crypto.getRandomValues(new Uint8Array(32));
+  const key = await importSymmetricKey(rawKey.buffer);
+
+  const chunkCount = getChunkCount(plaintext.length);
+  const data = new Uint8Array(plaintext.length + chunkCount * TAG_LENGTH);
+  for (let index = 0; index < chunkCount; index++) {
+    const start = index * ATTACHMENT_CHUNK_SIZE;
+    const encrypted = await crypto.subtle.encrypt(
+      chunkParams(index, chunkCount),
+      key,
+      plaintext.subarray(start, start + ATTACHMENT_CHUNK_SIZE)
+    );
+    data.set(new Uint8Array(encrypted), index * (ATTACHMENT_CHUNK_SIZE + TAG_LENGTH));
+  }
+
+  return {
+    data,
+    key: arrayBufferToBase64(rawKey.buffer),
+    digest: await digestCiphertext(data),
+    size: plaintext.length,
+  };
+}
+
+/**
+ * Verify a downloaded attachment against its digest and size, then decrypt it
+ */
+export async function decryptAttachment(
+  ciphertext: ArrayBuffer,
+  attachment: Pick<AttachmentInfo, 'key' | 'digest' | 'size'>
+): Promise<Uint8Array<ArrayBuffer>> {
+  const data = new Uint8Array(ciphertext);
+  if ((await digestCiphertext(data)) !== attachment.digest) {
+    throw new Error('Attachment digest mismatch');
+  }
+
+  const chunkCount = getChunkCount(attachment.size);
+  if (data.length !== attachment.size + chunkCount * TAG_LENGTH) {
+    throw new Error('Attachment size mismatch');
+  }
+
+  const key = await importSymmetricKey(base64ToArrayBuffer(attachment.key));
+  const plaintext = new Uint8Array(attachment.size);
+  for (let index = 0; index < chunkCount; index++) {
+    const start = index * (ATTACHMENT_CHUNK_SIZE + TAG_LENGTH);
+    const decrypted = await crypto.subtle.decrypt(
+      chunkParams(index, chunkCount),
+      key,
+      data.subarray(start, start + ATTACHMENT_CHUNK_SIZE + TAG_LENGTH)
+    );
+    plaintext.set(new Uint8Array(decrypted), index * ATTACHMENT_CHUNK_SIZE);
+  }
+  return plaintext;
+}
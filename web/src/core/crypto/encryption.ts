@@ -4,7 +4,14 @@
  * Based on VeilForms encryption patterns
  */
 
-import type { EncryptedMessage, EncryptedKeyBundle } from '../../types';
+import { wrapKeyForRecipient, unwrapKeyForRecipient } from './keyWrap';
+import { padPlaintext, unpadPlaintext } from './padding';
+import type {
+  EncryptedMessage,
+  MultiRecipientEncryptedMessage,
+  EncryptedKeyBundle,
+  ParticipantKey,
+} from '../../types';
 
 // Utility functions
 function arrayBufferToBase64(buffer: ArrayBuffer): string {
@@ -25,6 +32,43 @@ function base64ToArrayBuffer(base64: string): ArrayBuffer {
   return bytes.buffer;
 }
 
+/**
+ * Serialize a value as JSON with sorted object keys (matches mobile)
+ */
+export function canonicalize(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(canonicalize).join(',')}]`;
+  }
+  if (value && typeof value === 'object') {
+    const entries = Object.entries(value as Record<string, unknown>)
+      .filter(([, entry]) => entry !== undefined)
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0))
+      .map(([key, entry]) => `${JSON.stringify(key)}:${canonicalize(entry)}`);
+    return `{${entries.join(',')}}`;
+  }
+  return JSON.stringify(value);
+}
+
+// The message a 'tt-e3'/'tt-e4' envelope belongs to, bound as AES-GCM additional data
+export interface MessageContext {
+  conversationId: string;
+  senderId: string;
+  messageId: string;
+  expiresAt: number | null;
+}
+
+/**
+ * Additional data binding an envelope to its version, message and key(s)
+ * (matches mobile)
+ */
+export function messageAdditionalData(
+  context: MessageContext,
+  keyId: string | string[],
+  version: string = 'tt-e3'
+): Uint8Array<ArrayBuffer> {
+  return new TextEncoder().encode(`${version}:${canonicalize({ ...context, keyId })}`);
+}
+
 /**
  * Generate a symmetric AES-256 key for message encryption
  */
@@ -37,19 +81,14 @@ async function generateSymmetricKey(): Promise<CryptoKey> {
 }
 
 /**
- * Generate a new RSA-2048 key pair for a user
+ * Generate a new X25519 identity key pair for a user
  */
 export async function generateKeyPair() {
-  const keyPair = await crypto.subtle.generateKey(
-    {
-      name: 'RSA-OAEP',
-      modulusLength: 2048,
-      publicExponent: new Uint8Array([1, 0, 1]),
-      hash: 'SHA-256',
-    },
+  const keyPair = (await crypto.subtle.generateKey(
+    { name: 'X25519' },
     true,
-    ['encrypt', 'decrypt']
-  );
+    ['deriveBits']
+  )) as CryptoKeyPair;
 
   const publicKey = await crypto.subtle.exportKey('jwk', keyPair.publicKey);
   const privateKey = await crypto.subtle.exportKey('jwk', keyPair.privateKey);
@@ -80,15 +119,6 @@ export async function encryptMessage(
   plaintext: string,
   recipientPublicKeyJwk: JsonWebKey
 ): Promise<EncryptedMessage> {
-  // Import the recipient's public key
-  const publicKey = await crypto.subtle.importKey(
-    'jwk',
-    recipientPublicKeyJwk,
-    { name: 'RSA-OAEP', hash: 'SHA-256' },
-    false,
-    ['encrypt']
-  );
-
   // Generate a one-time symmetric key
   const symmetricKey = await generateSymmetricKey();
 
@@ -103,45 +133,96 @@ export async function encryptMessage(
     dataBytes
   );
 
-  // Export and encrypt the symmetric key with RSA
+  // Export and wrap the symmetric key for the recipient
   const symmetricKeyBytes = await crypto.subtle.exportKey('raw', symmetricKey);
-  const encryptedKey = await crypto.subtle.encrypt(
-    { name: 'RSA-OAEP' },
-    publicKey,
-    symmetricKeyBytes
-  );
+  const encryptedKey = await wrapKeyForRecipient(symmetricKeyBytes, recipientPublicKeyJwk);
 
   return {
     encrypted: true,
     version: 'tt-e1',
     data: arrayBufferToBase64(encryptedData),
-    key: arrayBufferToBase64(encryptedKey),
+    key: encryptedKey,
     iv: arrayBufferToBase64(iv),
   };
 }
 
+/**
+ * Encrypt a message for every participant (1:1 chat)
+ * Wraps the AES key for each participant key, sender included. With a
+ * message context the payload is a padded 'tt-e4' envelope bound to that message
+ */
+export async function encryptMessageForParticipants(
+  plaintext: string,
+  participantKeys: Record<string, ParticipantKey>,
+  context?: MessageContext
+): Promise<MultiRecipientEncryptedMessage> {
+  // Generate a one-time symmetric key
+  const symmetricKey = await generateSymmetricKey();
+
+  // Wrap the symmetric key for each participant key
+  const symmetricKeyBytes = await crypto.subtle.exportKey('raw', symmetricKey);
+  const wrappedKeys: Record<string, string> = {};
+
+  for (const participantKey of Object.values(participantKeys)) {
+    wrappedKeys[participantKey.keyId] = await wrapKeyForRecipient(
+      symmetricKeyBytes,
+      participantKey.publicKey
+    );
+  }
+
+  // Encrypt the message with AES-GCM
+  const dataBytes = context ? padPlaintext(plaintext) : new TextEncoder().encode(plaintext);
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+
+  const params: AesGcmParams = { name: 'AES-GCM', iv };
+  if (context) {
+    params.additionalData = messageAdditionalData(
+      context,
+      Object.keys(wrappedKeys).sort(),
+      'tt-e4'
+    );
+  }
+  const encryptedData = await crypto.subtle.encrypt(params, symmetricKey, dataBytes);
+
+  return {
+    encrypted: true,
+    version: context ? 'tt-e4' : 'tt-e2',
+    data: arrayBufferToBase64(encryptedData),
+    keys: wrappedKeys,
+    iv: arrayBufferToBase64(iv.buffer),
+  };
+}
+
+/**
+ * Find the wrapped AES key addressed to a given key pair
+ */
+function getWrappedKey(encryptedPayload: EncryptedMessage, keyId?: string): string {
+  if (encryptedPayload.version === 'tt-e1') {
+    return encryptedPayload.key;
+  }
+
+  const wrappedKey = keyId ? encryptedPayload.keys[keyId] : undefined;
+  if (!wrappedKey) {
+    throw new Error('Message was not encrypted for this key');
+  }
+  return wrappedKey;
+}
+
 /**
  * Decrypt a received message
+ * 'tt-e3' and 'tt-e4' payloads need the stored message's context and fail
+ * if it differs from the message they were sent as
  */
 export async function decryptMessage(
   encryptedPayload: EncryptedMessage,
-  privateKeyJwk: JsonWebKey
+  privateKeyJwk: JsonWebKey,
+  keyId?: string,
+  context?: MessageContext
 ): Promise<string> {
-  // Import the private key
-  const privateKey = await crypto.subtle.importKey(
-    'jwk',
-    privateKeyJwk,
-    { name: 'RSA-OAEP', hash: 'SHA-256' },
-    false,
-    ['decrypt']
-  );
-
-  // Decrypt the symmetric key
-  const encryptedKeyBytes = base64ToArrayBuffer(encryptedPayload.key);
-  const symmetricKeyBytes = await crypto.subtle.decrypt(
-    { name: 'RSA-OAEP' },
-    privateKey,
-    encryptedKeyBytes
+  // Unwrap the symmetric key
+  const symmetricKeyBytes = await unwrapKeyForRecipient(
+    getWrappedKey(encryptedPayload, keyId),
+    privateKeyJwk
   );
 
   // Import the symmetric key
@@ -157,12 +238,20 @@ export async function decryptMessage(
   const iv = base64ToArrayBuffer(encryptedPayload.iv);
   const encryptedData = base64ToArrayBuffer(encryptedPayload.data);
 
-  const decryptedBytes = await crypto.subtle.decrypt(
-    { name: 'AES-GCM', iv },
-    symmetricKey,
-    encryptedData
-  );
+  const params: AesGcmParams = { name: 'AES-GCM', iv };
+  if (encryptedPayload.version === 'tt-e3' || encryptedPayload.version === 'tt-e4') {
+    if (!context) throw new Error('Message context is required');
+    params.additionalData = messageAdditionalData(
+      context,
+      Object.keys(encryptedPayload.keys).sort(),
+      encryptedPayload.version
+    );
+  }
+  const decryptedBytes = await crypto.subtle.decrypt(params, symmetricKey, encryptedData);
 
+  if (encryptedPayload.version === 'tt-e4') {
+    return unpadPlaintext(decryptedBytes);
+  }
   const decoder = new TextDecoder();
   return decoder.decode(decryptedBytes);
 }
@@ -9,7 +9,11 @@ import {
   importSymmetricKey,
   arrayBufferToBase64,
   base64ToArrayBuffer,
+  messageAdditionalData,
 } from './encryption';
+import type { MessageContext } from './encryption';
+import { wrapKeyForRecipient, unwrapKeyForRecipient } from './keyWrap';
+import { padPlaintext, unpadPlaintext } from './padding';
 import type { GroupEncryptedMessage, ParticipantKey } from '../../types';
 
 export interface GroupKeyBundle {
@@ -32,19 +36,7 @@ export async function createGroupKeyBundle(
   const encryptedKeys: Record<string, string> = {};
 
   for (const [userId, participantKey] of Object.entries(memberPublicKeys)) {
-    const publicKey = await crypto.subtle.importKey(
-      'jwk',
-      participantKey.publicKey,
-      { name: 'RSA-OAEP', hash: 'SHA-256' },
-      false,
-      ['encrypt']
-    );
-    const encryptedKeyBytes = await crypto.subtle.encrypt(
-      { name: 'RSA-OAEP' },
-      publicKey,
-      rawKeyBytes
-    );
-    encryptedKeys[userId] = arrayBufferToBase64(encryptedKeyBytes);
+    encryptedKeys[userId] = await wrapKeyForRecipient(rawKeyBytes, participantKey.publicKey);
   }
 
   return {
@@ -65,45 +57,32 @@ export async function decryptGroupKey(
   encryptedKey: string,
   privateKeyJwk: JsonWebKey
 ): Promise<CryptoKey> {
-  const privateKey = await crypto.subtle.importKey(
-    'jwk',
-    privateKeyJwk,
-    { name: 'RSA-OAEP', hash: 'SHA-256' },
-    false,
-    ['decrypt']
-  );
-
-  const encryptedKeyBytes = base64ToArrayBuffer(encryptedKey);
-  const rawKeyBytes = await crypto.subtle.decrypt(
-    { name: 'RSA-OAEP' },
-    privateKey,
-    encryptedKeyBytes
-  );
-
+  const rawKeyBytes = await unwrapKeyForRecipient(encryptedKey, privateKeyJwk);
   return importSymmetricKey(rawKeyBytes);
 }
 
 /**
  * Encrypt a message for a group
+ * With a message context the payload is a padded 'tt-e4' envelope bound to that message
  */
 export async function encryptGroupMessage(
   plaintext: string,
   groupKey: CryptoKey,
-  keyId: string
+  keyId: string,
+  context?: MessageContext
 ): Promise<GroupEncryptedMessage> {
-  const encoder = new TextEncoder();
-  const dataBytes = encoder.encode(plaintext);
+  const dataBytes = context ? padPlaintext(plaintext) : new TextEncoder().encode(plaintext);
   const iv = crypto.getRandomValues(new Uint8Array(12));
 
-  const encryptedData = await crypto.subtle.encrypt(
-    { name: 'AES-GCM', iv },
-    groupKey,
-    dataBytes
-  );
+  const params: AesGcmParams = { name: 'AES-GCM', iv };
+  if (context) {
+    params.additionalData = messageAdditionalData(context, keyId, 'tt-e4');
+  }
+  const encryptedData = await crypto.subtle.encrypt(params, groupKey, dataBytes);
 
   return {
     encrypted: true,
-    version: 'tt-e1',
+    version: context ? 'tt-e4' : 'tt-e1',
     data: arrayBufferToBase64(encryptedData),
     iv: arrayBufferToBase64(iv),
     keyId,
@@ -112,20 +91,31 @@ export async function encryptGroupMessage(
 
 /**
  * Decrypt a group message
+ * 'tt-e3' and 'tt-e4' payloads need the stored message's context and fail
+ * if it differs from the message they were sent as
  */
 export async function decryptGroupMessage(
   encryptedPayload: GroupEncryptedMessage,
-  groupKey: CryptoKey
+  groupKey: CryptoKey,
+  context?: MessageContext
 ): Promise<string> {
   const iv = base64ToArrayBuffer(encryptedPayload.iv);
   const encryptedData = base64ToArrayBuffer(encryptedPayload.data);
 
-  const decryptedBytes = await crypto.subtle.decrypt(
-    { name: 'AES-GCM', iv },
-    groupKey,
-    encryptedData
-  );
+  const params: AesGcmParams = { name: 'AES-GCM', iv };
+  if (encryptedPayload.version === 'tt-e3' || encryptedPayload.version === 'tt-e4') {
+    if (!context) throw new Error('Message context is required');
+    params.additionalData = messageAdditionalData(
+      context,
+      encryptedPayload.keyId,
+      encryptedPayload.version
+    );
+  }
+  const decryptedBytes = await crypto.subtle.decrypt(params, groupKey, encryptedData);
 
+  if (encryptedPayload.version === 'tt-e4') {
+    return unpadPlaintext(decryptedBytes);
+  }
   const decoder = new TextDecoder();
   return decoder.decode(decryptedBytes);
 }
@@ -148,19 +138,5 @@ export async function addMemberToGroup(
   newMemberPublicKey: JsonWebKey
 ): Promise<string> {
   const rawKeyBytes = await exportSymmetricKey(groupKey);
-  const publicKey = await crypto.subtle.importKey(
-    'jwk',
-    newMemberPublicKey,
-    { name: 'RSA-OAEP', hash: 'SHA-256' },
-    false,
-    ['encrypt']
-  );
-
-  const encryptedKeyBytes = await crypto.subtle.encrypt(
-    { name: 'RSA-OAEP' },
-    publicKey,
-    rawKeyBytes
-  );
-
-  return arrayBufferToBase64(encryptedKeyBytes);
+  return wrapKeyForRecipient(rawKeyBytes, newMemberPublicKey);
 }
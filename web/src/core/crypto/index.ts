@@ -6,7 +6,9 @@ export {
   generateKeyPair,
   generateKeyId,
   encryptMessage,
+  encryptMessageForParticipants,
   decryptMessage,
+  messageAdditionalData,
   hashField,
   exportPrivateKeys,
   importPrivateKeys,
@@ -17,6 +19,8 @@ export {
   base64ToArrayBuffer,
 } from './encryption';
 
+export type { MessageContext } from './encryption';
+
 export {
   createGroupKeyBundle,
   decryptGroupKey,
@@ -27,3 +31,23 @@ export {
 } from './groupKeys';
 
 export type { GroupKeyBundle } from './groupKeys';
+
+export {
+  ATTACHMENT_VERSION,
+  ATTACHMENT_CHUNK_SIZE,
+  encryptAttachment,
+  decryptAttachment,
+} from './attachments';
+
+export type { EncryptedAttachment } from './attachments';
+
+export {
+  wrapKeyForRecipient,
+  unwrapKeyForRecipient,
+  isLegacyIdentityKey,
+  isKeyPairMatch,
+} from './keyWrap';
+
+export { signData, verifySignature, signPayload, verifyPayloadSignature } from './signing';
+
+export type { MessageSigner } from './signing';
@@ -0,0 +1,172 @@
+/**
+ * TibbyTalk Web - Message Key Wrapping
+ * Same ECIES-X25519 scheme as mobile app: ephemeral public key (32) ||
+ * IV (12) || ciphertext. Legacy RSA-OAEP identity keys are still supported.
+ */
+
+import { arrayBufferToBase64, base64ToArrayBuffer } from './encryption';
+
+const ECIES_INFO = 'TibbyTalk-ECIES-X25519';
+const X25519_KEY_LENGTH = 32;
+const IV_LENGTH = 12;
+
+function concatBytes(...arrays: Uint8Array[]): Uint8Array<ArrayBuffer> {
+  const result = new Uint8Array(arrays.reduce((sum, arr) => sum + arr.length, 0));
+  let offset = 0;
+  for (const arr of arrays) {
+    result.set(arr, offset);
+    offset += arr.length;
+  }
+  return result;
+}
+
+async function deriveWrappingKey(
+  sharedSecret: ArrayBuffer,
+  ephemeralPublicKey: Uint8Array<ArrayBuffer>,
+  recipientPublicKey: Uint8Array<ArrayBuffer>,
+  usage: 'encrypt' | 'decrypt'
+): Promise<CryptoKey> {
+  const baseKey = await crypto.subtle.importKey('raw', sharedSecret, 'HKDF', false, ['deriveKey']);
+  return crypto.subtle.deriveKey(
+    {
+      name: 'HKDF',
+      hash: 'SHA-256',
+      salt: concatBytes(ephemeralPublicKey, recipientPublicKey),
+      info: new TextEncoder().encode(ECIES_INFO),
+    },
+    baseKey,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    [usage]
+  );
+}
+
+async function rawPublicKey(publicKeyJwk: JsonWebKey): Promise<Uint8Array<ArrayBuffer>> {
+  const publicKey = await crypto.subtle.importKey(
+    'jwk',
+    { kty: 'OKP', crv: 'X25519', x: publicKeyJwk.x },
+    { name: 'X25519' },
+    true,
+    []
+  );
+  return new Uint8Array(await crypto.subtle.exportKey('raw', publicKey));
+}
+
+function isX25519Key(jwk: JsonWebKey): boolean {
+  return jwk.kty === 'OKP' && jwk.crv === 'X25519';
+}
+
+/**
+ * Wrap a symmetric key for a recipient's identity key
+ */
+export async function wrapKeyForRecipient(
+  rawKey: ArrayBuffer,
+  publicKeyJwk: JsonWebKey
+): Promise<string> {
+  if (!isX25519Key(publicKeyJwk)) {
+    if (!isLegacyIdentityKey(publicKeyJwk)) {
+      throw new Error('Unsupported identity key type');
+    }
+    const publicKey = await crypto.subtle.importKey(
+      'jwk',
+      publicKeyJwk,
+      { name: 'RSA-OAEP', hash: 'SHA-256' },
+      false,
+      ['encrypt']
+    );
+    return arrayBufferToBase64(await crypto.subtle.encrypt({ name: 'RSA-OAEP' }, publicKey, rawKey));
+  }
+
+  const recipientKey = await crypto.subtle.importKey('jwk', publicKeyJwk, { name: 'X25519' }, false, []);
+  const ephemeral = (await crypto.subtle.generateKey({ name: 'X25519' }, true, [
+    'deriveBits',
+  ])) as CryptoKeyPair;
+
+  const sharedSecret = await crypto.subtle.deriveBits(
+    { name: 'X25519', public: recipientKey },
+    ephemeral.privateKey,
+    256
+  );
+  const ephemeralPublicKey = new Uint8Array(await crypto.subtle.exportKey('raw', ephemeral.publicKey));
+  const wrappingKey = await deriveWrappingKey(
+    sharedSecret,
+    ephemeralPublicKey,
+    await rawPublicKey(publicKeyJwk),
+    'encrypt'
+  );
+
+  const iv = crypto.getRandomValues(new Uint8Array(IV_LENGTH));
+  const ciphertext = await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, wrappingKey, rawKey);
+
+  return arrayBufferToBase64(concatBytes(ephemeralPublicKey, iv, new Uint8Array(ciphertext)).buffer);
+}
+
+/**
+ * Unwrap a symmetric key with an identity private key
+ */
+export async function unwrapKeyForRecipient(
+  wrappedKey: string,
+  privateKeyJwk: JsonWebKey
+): Promise<ArrayBuffer> {
+  if (!isX25519Key(privateKeyJwk)) {
+    if (!isLegacyIdentityKey(privateKeyJwk)) {
+      throw new Error('Unsupported identity key type');
+    }
+    const privateKey = await crypto.subtle.importKey(
+      'jwk',
+      privateKeyJwk,
+      { name: 'RSA-OAEP', hash: 'SHA-256' },
+      false,
+      ['decrypt']
+    );
+    return crypto.subtle.decrypt({ name: 'RSA-OAEP' }, privateKey, base64ToArrayBuffer(wrappedKey));
+  }
+
+  const bytes = new Uint8Array(base64ToArrayBuffer(wrappedKey));
+  if (bytes.length <= X25519_KEY_LENGTH + IV_LENGTH) {
+    throw new Error('Invalid wrapped key');
+  }
+  const ephemeralPublicKey = bytes.slice(0, X25519_KEY_LENGTH);
+  const iv = bytes.slice(X25519_KEY_LENGTH, X25519_KEY_LENGTH + IV_LENGTH);
+  const ciphertext = bytes.slice(X25519_KEY_LENGTH + IV_LENGTH);
+
+  const privateKey = await crypto.subtle.importKey('jwk', privateKeyJwk, { name: 'X25519' }, false, [
+    'deriveBits',
+  ]);
+  const ephemeralKey = await crypto.subtle.importKey('raw', ephemeralPublicKey, { name: 'X25519' }, false, []);
+
+  const sharedSecret = await crypto.subtle.deriveBits(
+    { name: 'X25519', public: ephemeralKey },
+    privateKey,
+    256
+  );
+  const wrappingKey = await deriveWrappingKey(
+    sharedSecret,
+    ephemeralPublicKey,
+    await rawPublicKey(privateKeyJwk),
+    'decrypt'
+  );
+
+  return crypto.subtle.decrypt({ name: 'AES-GCM', iv }, wrappingKey, ciphertext);
+}
+
+/**
+ * Check whether an identity key still uses RSA
+ */
+export function isLegacyIdentityKey(jwk: JsonWebKey): boolean {
+  return jwk.kty === 'RSA';
+}
+
+/**
+ * Check that a private key belongs to a published public key
+ */
+export function isKeyPairMatch(privateKeyJwk: JsonWebKey, publicKeyJwk: JsonWebKey): boolean {
+  if (privateKeyJwk.kty !== publicKeyJwk.kty) {
+    return false;
+  }
+  return privateKeyJwk.kty === 'RSA'
+    ? privateKeyJwk.n === publicKeyJwk.n
+    : privateKeyJwk.crv === publicKeyJwk.crv &&
+        privateKeyJwk.x === publicKeyJwk.x &&
+        privateKeyJwk.y === publicKeyJwk.y;
+}
@@ -0,0 +1,50 @@
+/**
+ * TibbyTalk Web - Plaintext Padding
+ * Pads message contents to Padmé lengths so ciphertexts hide their exact
+ * length (matches mobile)
+ */
+
+// Every padded plaintext is at least this many bytes
+const MIN_PADDED_LENGTH = 64;
+
+const PADDING_MARKER = 0x80;
+
+/**
+ * Get the Padmé length a plaintext of a given size (marker included) is padded to
+ */
+export function getPaddedLength(length: number): number {
+  if (length <= MIN_PADDED_LENGTH) {
+    return MIN_PADDED_LENGTH;
+  }
+
+  const exponent = Math.floor(Math.log2(length));
+  const significantBits = Math.floor(Math.log2(exponent)) + 1;
+  const step = 2 ** (exponent - significantBits);
+  return Math.ceil(length / step) * step;
+}
+
+/**
+ * Encode a plaintext, append the 0x80 marker and zero-fill it to its padded length
+ */
+export function padPlaintext(plaintext: string): Uint8Array<ArrayBuffer> {
+  const data = new TextEncoder().encode(plaintext);
+  const padded = new Uint8Array(getPaddedLength(data.length + 1));
+  padded.set(data);
+  padded[data.length] = PADDING_MARKER;
+  return padded;
+}
+
+/**
+ * Strip the padding from decrypted bytes and decode them
+ */
+export function unpadPlaintext(padded: ArrayBuffer): string {
+  const bytes = new Uint8Array(padded);
+  let end = bytes.length - 1;
+  while (end >= 0 && bytes[end] === 0) {
+    end--;
+  }
+  if (end < 0 || bytes[end] !== PADDING_MARKER) {
+    throw new Error('Invalid message padding');
+  }
+  return new TextDecoder().decode(bytes.subarray(0, end));
+}
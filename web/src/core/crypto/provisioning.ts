@@ -0,0 +1,142 @@
+/**
+ * TibbyTalk Web - Device Provisioning
+ * Receives identity keys from a logged-in phone (same protocol as mobile)
+ *
+ * The browser shows a link code with an ephemeral ECDH public key and its
+ * pending device. The phone scans it, approves the device, derives a shared
+ * AES key with HKDF and sends back the private keys in a key bundle signed
+ * with the account's signing key.
+ */
+
+import { arrayBufferToBase64, base64ToArrayBuffer, canonicalize } from './encryption';
+import { verifyPayloadSignature } from './signing';
+import type { EncryptedKeyBundle } from '../../types';
+
+const LINK_CODE_PREFIX = 'tt-link1';
+const PROVISIONING_KDF_INFO = 'TibbyTalk-Provisioning';
+const PROVISIONING_ALGORITHM = 'ECDH-P256-HKDF-AES-GCM-256';
+
+const ECDH_PARAMS = { name: 'ECDH', namedCurve: 'P-256' };
+
+export interface ProvisioningSession {
+  userId: string;
+  requestId: string;
+  ephemeralKey: string; // Base64 raw ECDH public key
+  ephemeralPrivateKey: CryptoKey; // Never leaves this page
+  deviceId: string; // This browser's pending device, approved by the phone
+  deviceKeyId: string;
+}
+
+export interface ProvisioningMessage {
+  requestId: string;
+  bundle: EncryptedKeyBundle;
+  senderKey: string; // Base64 raw ECDH public key of the phone
+  signature?: string;
+}
+
+/**
+ * Start a provisioning request with a fresh ephemeral key pair
+ */
+export async function createProvisioningSession(
+  userId: string,
+  requestId: string,
+  device: { deviceId: string; keyId: string }
+): Promise<ProvisioningSession> {
+  const keyPair = await crypto.subtle.generateKey(ECDH_PARAMS, false, ['deriveBits']);
+  const rawPublicKey = await crypto.subtle.exportKey('raw', keyPair.publicKey);
+
+  return {
+    userId,
+    requestId,
+    ephemeralKey: arrayBufferToBase64(rawPublicKey),
+    ephemeralPrivateKey: keyPair.privateKey,
+    deviceId: device.deviceId,
+    deviceKeyId: device.keyId,
+  };
+}
+
+/**
+ * Encode a provisioning request as a link code
+ * The code names this browser's pending device, so scanning it approves the device
+ */
+export function encodeLinkCode(session: ProvisioningSession): string {
+  return [
+    LINK_CODE_PREFIX,
+    session.userId,
+    session.requestId,
+    session.ephemeralKey,
+    session.deviceId,
+    session.deviceKeyId,
+  ].join(':');
+}
+
+/**
+ * Verify that a provisioning message was signed with the account's signing key
+ */
+export async function verifyProvisioningMessage(
+  message: ProvisioningMessage,
+  userId: string,
+  signingPublicKey: JsonWebKey
+): Promise<boolean> {
+  return verifyPayloadSignature(message, userId, signingPublicKey);
+}
+
+/**
+ * Decrypt the key bundle sent by the phone
+ */
+export async function openProvisioningBundle(
+  message: ProvisioningMessage,
+  session: ProvisioningSession
+): Promise<Record<string, JsonWebKey>> {
+  if (message.bundle.algorithm !== PROVISIONING_ALGORITHM) {
+    throw new Error('Unsupported provisioning bundle');
+  }
+
+  const senderKey = await crypto.subtle.importKey(
+    'raw',
+    base64ToArrayBuffer(message.senderKey),
+    ECDH_PARAMS,
+    false,
+    []
+  );
+  const sharedSecret = await crypto.subtle.deriveBits(
+    { name: 'ECDH', public: senderKey },
+    session.ephemeralPrivateKey,
+    256
+  );
+
+  const hkdfKey = await crypto.subtle.importKey('raw', sharedSecret, 'HKDF', false, [
+    'deriveKey',
+  ]);
+  const decryptionKey = await crypto.subtle.deriveKey(
+    {
+      name: 'HKDF',
+      hash: 'SHA-256',
+      salt: base64ToArrayBuffer(message.bundle.salt),
+      info: new TextEncoder().encode(PROVISIONING_KDF_INFO),
+    },
+    hkdfKey,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['decrypt']
+  );
+
+  // 2.0 bundles bind every field but the ciphertext as additional data
+  const header: Partial<EncryptedKeyBundle> = { ...message.bundle };
+  delete header.ciphertext;
+  const params: AesGcmParams = { name: 'AES-GCM', iv: base64ToArrayBuffer(message.bundle.iv) };
+  if (message.bundle.version === '2.0') {
+    params.additionalData = new TextEncoder().encode(`tt-kb2:${canonicalize(header)}`);
+  }
+
+  try {
+    const decryptedData = await crypto.subtle.decrypt(
+      params,
+      decryptionKey,
+      base64ToArrayBuffer(message.bundle.ciphertext)
+    );
+    return JSON.parse(new TextDecoder().decode(decryptedData));
+  } catch {
+    throw new Error('Could not decrypt provisioning bundle');
+  }
+}
@@ -0,0 +1,167 @@
+/**
+ * TibbyTalk Web - Sender Keys
+ * Reads 'tt-s1' group messages sent from mobile (same chains as mobile)
+ *
+ * Each sender has a hash ratchet: every message key is one step of the
+ * sender's chain, and messages carry the sender key ID and their iteration.
+ * The browser only follows other members' chains; it does not send with a
+ * sender key. States are plain JSON objects and are never mutated in place.
+ */
+
+import { arrayBufferToBase64, base64ToArrayBuffer, canonicalize } from './encryption';
+import type { MessageContext } from './encryption';
+import { unpadPlaintext } from './padding';
+
+const SENDER_KEY_KDF_INFO = 'TibbyTalkSenderKey';
+
+// Maximum number of message keys skipped in one step (same as mobile)
+const MAX_SKIP = 2000;
+
+// Maximum number of skipped message keys kept per sender key
+const MAX_SKIPPED_KEYS = 1000;
+
+export interface SenderKeyState {
+  senderKeyId: string;
+  chainKey: string; // Base64 chain key for the next iteration
+  iteration: number; // Iteration of the next message key
+  skippedKeys: Record<string, string>; // iteration -> Base64 message key
+}
+
+// What a member receives to follow someone's sender key
+export interface SenderKeyDistribution {
+  chainKey: string; // Base64
+  iteration: number;
+}
+
+async function hmacSha256(keyBytes: ArrayBuffer, data: Uint8Array<ArrayBuffer>): Promise<ArrayBuffer> {
+  const hmacKey = await crypto.subtle.importKey(
+    'raw',
+    keyBytes,
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['sign']
+  );
+  return crypto.subtle.sign('HMAC', hmacKey, data);
+}
+
+/**
+ * Chain key KDF: the message key for this step and the next chain key
+ */
+async function kdfChainKey(chainKey: string): Promise<{ chainKey: string; messageKey: string }> {
+  const chainKeyBytes = base64ToArrayBuffer(chainKey);
+  const messageKey = await hmacSha256(chainKeyBytes, new Uint8Array([0x01]));
+  const nextChainKey = await hmacSha256(chainKeyBytes, new Uint8Array([0x02]));
+  return {
+    chainKey: arrayBufferToBase64(nextChainKey),
+    messageKey: arrayBufferToBase64(messageKey),
+  };
+}
+
+/**
+ * Expand a message key into an AES-256-GCM key and IV
+ */
+async function deriveMessageCipher(
+  messageKey: string
+): Promise<{ key: CryptoKey; iv: Uint8Array<ArrayBuffer> }> {
+  const baseKey = await crypto.subtle.importKey('raw', base64ToArrayBuffer(messageKey), 'HKDF', false, [
+    'deriveBits',
+  ]);
+  const output = new Uint8Array(
+    await crypto.subtle.deriveBits(
+      {
+        name: 'HKDF',
+        hash: 'SHA-256',
+        salt: new Uint8Array(32),
+        info: new TextEncoder().encode(SENDER_KEY_KDF_INFO),
+      },
+      baseKey,
+      44 * 8
+    )
+  );
+  const key = await crypto.subtle.importKey('raw', output.slice(0, 32), { name: 'AES-GCM' }, false, [
+    'decrypt',
+  ]);
+  return { key, iv: output.slice(32, 44) };
+}
+
+/**
+ * Associated data: the sender key, the iteration and the group message
+ */
+function buildAdditionalData(
+  senderKeyId: string,
+  iteration: number,
+  context: MessageContext
+): Uint8Array<ArrayBuffer> {
+  return new TextEncoder().encode(
+    [senderKeyId, iteration, canonicalize({ ...context, type: 'group' })].join('|')
+  );
+}
+
+/**
+ * Start following another member's sender key
+ */
+export function initializeReceivingSenderKey(
+  senderKeyId: string,
+  distribution: SenderKeyDistribution
+): SenderKeyState {
+  return {
+    senderKeyId,
+    chainKey: distribution.chainKey,
+    iteration: distribution.iteration,
+    skippedKeys: {},
+  };
+}
+
+/**
+ * Decrypt a group message from the member who owns the sender key
+ * Returns the advanced state, which must be stored: message keys are single-use
+ */
+export async function senderKeyDecrypt(
+  state: SenderKeyState,
+  iteration: number,
+  data: string,
+  context: MessageContext
+): Promise<{ state: SenderKeyState; plaintext: string }> {
+  // The iteration comes from the message, so it must be a chain position
+  if (!Number.isSafeInteger(iteration) || iteration < 0) {
+    throw new Error(`Invalid sender key iteration: ${iteration}`);
+  }
+
+  const next: SenderKeyState = JSON.parse(JSON.stringify(state));
+  let messageKey: string | undefined;
+
+  if (iteration < next.iteration) {
+    messageKey = next.skippedKeys[iteration];
+    if (!messageKey) throw new Error('Message key already used or no longer available');
+    delete next.skippedKeys[iteration];
+  } else {
+    if (iteration - next.iteration > MAX_SKIP) throw new Error('Too many skipped messages');
+
+    while (next.iteration < iteration) {
+      const skippedStep = await kdfChainKey(next.chainKey);
+      next.chainKey = skippedStep.chainKey;
+      next.skippedKeys[next.iteration] = skippedStep.messageKey;
+      next.iteration += 1;
+    }
+
+    const step = await kdfChainKey(next.chainKey);
+    next.chainKey = step.chainKey;
+    messageKey = step.messageKey;
+    next.iteration += 1;
+
+    // Drop the oldest skipped keys once the cache is full
+    const skipped = Object.keys(next.skippedKeys);
+    for (const id of skipped.slice(0, skipped.length - MAX_SKIPPED_KEYS)) {
+      delete next.skippedKeys[id];
+    }
+  }
+
+  const { key, iv } = await deriveMessageCipher(messageKey);
+  const decryptedBytes = await crypto.subtle.decrypt(
+    { name: 'AES-GCM', iv, additionalData: buildAdditionalData(state.senderKeyId, iteration, context) },
+    key,
+    base64ToArrayBuffer(data)
+  );
+
+  return { state: next, plaintext: unpadPlaintext(decryptedBytes) };
+}
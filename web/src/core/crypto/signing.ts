@@ -0,0 +1,100 @@
+/**
+ * TibbyTalk Web - Identity Signatures
+ * Same signatures as mobile: Ed25519, or ECDSA P-256 / SHA-256 for signing
+ * keys created before the migration
+ *
+ * Message payloads are signed by their sender, so a member holding a shared
+ * group key cannot write messages as someone else.
+ */
+
+import { arrayBufferToBase64, base64ToArrayBuffer, canonicalize } from './encryption';
+
+export interface MessageSigner {
+  senderId: string;
+  signingKey: JsonWebKey; // Sender's signing private key
+}
+
+/**
+ * Import a signing key and pick its signature algorithm from the key type
+ */
+async function importSigningKey(
+  jwk: JsonWebKey,
+  usage: 'sign' | 'verify'
+): Promise<{ key: CryptoKey; params: AlgorithmIdentifier | EcdsaParams }> {
+  if (jwk.kty === 'OKP' && jwk.crv === 'Ed25519') {
+    return {
+      key: await crypto.subtle.importKey('jwk', jwk, { name: 'Ed25519' }, false, [usage]),
+      params: { name: 'Ed25519' },
+    };
+  }
+  return {
+    key: await crypto.subtle.importKey('jwk', jwk, { name: 'ECDSA', namedCurve: 'P-256' }, false, [
+      usage,
+    ]),
+    params: { name: 'ECDSA', hash: 'SHA-256' },
+  };
+}
+
+/**
+ * Sign data with an identity signing key, returning a base64 signature
+ */
+export async function signData(privateKeyJwk: JsonWebKey, data: string): Promise<string> {
+  const { key, params } = await importSigningKey(privateKeyJwk, 'sign');
+  const signature = await crypto.subtle.sign(params, key, new TextEncoder().encode(data));
+  return arrayBufferToBase64(signature);
+}
+
+/**
+ * Verify a base64 signature made with an identity signing key
+ */
+export async function verifySignature(
+  publicKeyJwk: JsonWebKey,
+  data: string,
+  signature: string
+): Promise<boolean> {
+  try {
+    const { key, params } = await importSigningKey(publicKeyJwk, 'verify');
+    return await crypto.subtle.verify(
+      params,
+      key,
+      base64ToArrayBuffer(signature),
+      new TextEncoder().encode(data)
+    );
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Data covered by a payload signature: the sender and every payload field
+ */
+function payloadSignatureData(payload: { signature?: string }, senderId: string): string {
+  const fields = { ...payload };
+  delete fields.signature;
+  return `tt-sig:${senderId}:${canonicalize(fields)}`;
+}
+
+/**
+ * Sign an encrypted message payload as its sender
+ */
+export async function signPayload<T extends { signature?: string }>(
+  payload: T,
+  signer: MessageSigner
+): Promise<T> {
+  const signature = await signData(signer.signingKey, payloadSignatureData(payload, signer.senderId));
+  return { ...payload, signature };
+}
+
+/**
+ * Verify that an encrypted message payload was signed by the claimed sender
+ */
+export async function verifyPayloadSignature(
+  payload: { signature?: string },
+  senderId: string,
+  signingPublicKey: JsonWebKey
+): Promise<boolean> {
+  if (!payload.signature) {
+    return false;
+  }
+  return verifySignature(signingPublicKey, payloadSignatureData(payload, senderId), payload.signature);
+}
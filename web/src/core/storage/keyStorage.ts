@@ -1,22 +1,41 @@
 /**
  * TibbyTalk Web - Key Storage
- * Uses localStorage for key storage (IndexedDB alternative available)
+ * Stores keys as encrypted entries in the IndexedDB keystore (see keystore.ts)
  *
- * NOTE: localStorage is less secure than mobile Keychain/Keystore.
- * Keys are stored in browser storage and could be accessed by malicious scripts.
- * For production, consider using IndexedDB with encryption or a more secure solution.
+ * NOTE: Browser storage is less secure than mobile Keychain/Keystore. The
+ * keystore master key cannot be exported, but a malicious script running on
+ * the page can still use it to decrypt entries.
+ *
+ * Keys from older versions were kept in localStorage. They are moved into
+ * the keystore the first time they are read.
  */
 
+import { readEntry, writeEntry, deleteEntry, listEntries, wipeKeystore } from './keystore';
+import type { LocalDevice } from '../../types';
+
 const STORAGE_PREFIX = 'tibbytalk_';
-const IDENTITY_KEY = `${STORAGE_PREFIX}identity_`;
-const GROUP_KEY = `${STORAGE_PREFIX}group_`;
+
+/**
+ * Read an entry, moving a value out of localStorage first
+ */
+async function readMigratedEntry(name: string, legacyKey: string): Promise<string | null> {
+  const value = await readEntry(name);
+  if (value !== null) return value;
+
+  const legacy = localStorage.getItem(`${STORAGE_PREFIX}${legacyKey}`);
+  if (legacy === null) return null;
+
+  await writeEntry(name, legacy);
+  localStorage.removeItem(`${STORAGE_PREFIX}${legacyKey}`);
+  return legacy;
+}
 
 /**
  * Store user's private key
  */
-export function storePrivateKey(userId: string, privateKeyJwk: JsonWebKey): boolean {
+export async function storePrivateKey(userId: string, privateKeyJwk: JsonWebKey): Promise<boolean> {
   try {
-    localStorage.setItem(`${IDENTITY_KEY}${userId}`, JSON.stringify(privateKeyJwk));
+    await writeEntry(`identity/${userId}`, JSON.stringify(privateKeyJwk));
     return true;
   } catch (error) {
     console.error('Failed to store private key:', error);
@@ -27,13 +46,10 @@ export function storePrivateKey(userId: string, privateKeyJwk: JsonWebKey): bool
 /**
  * Retrieve user's private key
  */
-export function getPrivateKey(userId: string): JsonWebKey | null {
+export async function getPrivateKey(userId: string): Promise<JsonWebKey | null> {
   try {
-    const stored = localStorage.getItem(`${IDENTITY_KEY}${userId}`);
-    if (stored) {
-      return JSON.parse(stored);
-    }
-    return null;
+    const stored = await readMigratedEntry(`identity/${userId}`, `identity_${userId}`);
+    return stored ? JSON.parse(stored) : null;
   } catch (error) {
     console.error('Failed to retrieve private key:', error);
     return null;
@@ -43,9 +59,9 @@ export function getPrivateKey(userId: string): JsonWebKey | null {
 /**
  * Delete user's private key
  */
-export function deletePrivateKey(userId: string): boolean {
+export async function deletePrivateKey(userId: string): Promise<boolean> {
   try {
-    localStorage.removeItem(`${IDENTITY_KEY}${userId}`);
+    await deleteEntry(`identity/${userId}`);
     return true;
   } catch (error) {
     console.error('Failed to delete private key:', error);
@@ -54,11 +70,93 @@ export function deletePrivateKey(userId: string): boolean {
 }
 
 /**
- * Store an encrypted group key
+ * Store user's signing private key (provisioned from the phone)
+ */
+export async function storeSigningKey(userId: string, signingKeyJwk: JsonWebKey): Promise<boolean> {
+  try {
+    await writeEntry(`signing/${userId}`, JSON.stringify(signingKeyJwk));
+    return true;
+  } catch (error) {
+    console.error('Failed to store signing key:', error);
+    return false;
+  }
+}
+
+/**
+ * Retrieve user's signing private key
+ */
+export async function getSigningKey(userId: string): Promise<JsonWebKey | null> {
+  try {
+    const stored = await readEntry(`signing/${userId}`);
+    return stored ? JSON.parse(stored) : null;
+  } catch (error) {
+    console.error('Failed to retrieve signing key:', error);
+    return null;
+  }
+}
+
+/**
+ * Store identity keys replaced by a key change (keyId -> private key)
+ * Kept so history wrapped for them stays readable
+ */
+export async function storePreviousPrivateKeys(
+  userId: string,
+  previousKeys: Record<string, JsonWebKey>
+): Promise<boolean> {
+  try {
+    await writeEntry(`previous/${userId}`, JSON.stringify(previousKeys));
+    return true;
+  } catch (error) {
+    console.error('Failed to store previous private keys:', error);
+    return false;
+  }
+}
+
+/**
+ * Retrieve replaced identity keys
+ */
+export async function getPreviousPrivateKeys(userId: string): Promise<Record<string, JsonWebKey>> {
+  try {
+    const stored = await readMigratedEntry(`previous/${userId}`, `identity_previous_${userId}`);
+    return stored ? JSON.parse(stored) : {};
+  } catch (error) {
+    console.error('Failed to retrieve previous private keys:', error);
+    return {};
+  }
+}
+
+/**
+ * Store this browser's device registration
+ */
+export async function storeLocalDevice(userId: string, device: LocalDevice): Promise<boolean> {
+  try {
+    await writeEntry(`device/${userId}`, JSON.stringify(device));
+    return true;
+  } catch (error) {
+    console.error('Failed to store device:', error);
+    return false;
+  }
+}
+
+/**
+ * Retrieve this browser's device registration
+ */
+export async function getLocalDevice(userId: string): Promise<LocalDevice | null> {
+  try {
+    const stored = await readEntry(`device/${userId}`);
+    return stored ? JSON.parse(stored) : null;
+  } catch (error) {
+    console.error('Failed to retrieve device:', error);
+    return null;
+  }
+}
+
+/**
+ * Store one version of a group's key (base64 raw AES key)
  */
-export function storeGroupKey(groupId: string, encryptedKey: string): boolean {
+export async function storeGroupKey(groupId: string, keyId: string, rawKey: string): Promise<boolean> {
   try {
-    localStorage.setItem(`${GROUP_KEY}${groupId}`, encryptedKey);
+    await writeEntry(`group/${groupId}/${keyId}`, rawKey);
     return true;
   } catch (error) {
     console.error('Failed to store group key:', error);
@@ -67,28 +165,110 @@ export function storeGroupKey(groupId: string, encryptedKey: string): boolean {
 }
 
 /**
- * Retrieve an encrypted group key
+ * Retrieve one version of a group's key
  */
-export function getGroupKey(groupId: string): string | null {
+export async function getGroupKey(groupId: string, keyId: string): Promise<string | null> {
   try {
-    return localStorage.getItem(`${GROUP_KEY}${groupId}`);
+    return await readEntry(`group/${groupId}/${keyId}`);
   } catch (error) {
     console.error('Failed to retrieve group key:', error);
     return null;
   }
 }
 
+/**
+ * Retrieve every stored version of a group's key (keyId -> base64 raw key)
+ */
+export async function getGroupKeys(groupId: string): Promise<Record<string, string>> {
+  const prefix = `group/${groupId}/`;
+  const groupKeys: Record<string, string> = {};
+  try {
+    for (const name of await listEntries(prefix)) {
+      const rawKey = await readEntry(name);
+      if (rawKey) groupKeys[name.slice(prefix.length)] = rawKey;
+    }
+  } catch (error) {
+    console.error('Failed to retrieve group keys:', error);
+  }
+  return groupKeys;
+}
+
+/**
+ * Delete every stored version of a group's key
+ */
+export async function deleteGroupKeys(groupId: string): Promise<boolean> {
+  try {
+    for (const name of await listEntries(`group/${groupId}/`)) {
+      await deleteEntry(name);
+    }
+    return true;
+  } catch (error) {
+    console.error('Failed to delete group keys:', error);
+    return false;
+  }
+}
+
+/**
+ * Store the sender key chains followed in a group (JSON)
+ */
+export async function storeSenderKeys(groupId: string, senderKeys: string): Promise<boolean> {
+  try {
+    await writeEntry(`senderKeys/${groupId}`, senderKeys);
+    return true;
+  } catch (error) {
+    console.error('Failed to store sender keys:', error);
+    return false;
+  }
+}
+
+/**
+ * Retrieve the sender key chains followed in a group
+ */
+export async function getSenderKeys(groupId: string): Promise<string | null> {
+  try {
+    return await readEntry(`senderKeys/${groupId}`);
+  } catch (error) {
+    console.error('Failed to retrieve sender keys:', error);
+    return null;
+  }
+}
+
+/**
+ * Store the contents of messages that can only be decrypted once (JSON)
+ */
+export async function storeMessageCache(conversationId: string, cache: string): Promise<boolean> {
+  try {
+    await writeEntry(`messages/${conversationId}`, cache);
+    return true;
+  } catch (error) {
+    console.error('Failed to store message cache:', error);
+    return false;
+  }
+}
+
+/**
+ * Retrieve the cached message contents of a conversation
+ */
+export async function getMessageCache(conversationId: string): Promise<string | null> {
+  try {
+    return await readEntry(`messages/${conversationId}`);
+  } catch (error) {
+    console.error('Failed to retrieve message cache:', error);
+    return null;
+  }
+}
+
 /**
  * Check if private key exists for a user
  */
-export function hasPrivateKey(userId: string): boolean {
-  return getPrivateKey(userId) !== null;
+export async function hasPrivateKey(userId: string): Promise<boolean> {
+  return (await getPrivateKey(userId)) !== null;
 }
 
 /**
  * Clear all stored keys (logout)
  */
-export function clearAllKeys(): void {
+export async function clearAllKeys(): Promise<void> {
   const keysToRemove: string[] = [];
 
   for (let i = 0; i < localStorage.length; i++) {
@@ -99,4 +279,5 @@ export function clearAllKeys(): void {
   }
 
   keysToRemove.forEach(key => localStorage.removeItem(key));
+  await wipeKeystore();
 }
@@ -0,0 +1,138 @@
+/**
+ * TibbyTalk Web - Local Keystore
+ * Same interface as the mobile keystore, backed by IndexedDB
+ *
+ * Entries are encrypted with AES-256-GCM under a master key that is
+ * generated as non-extractable: IndexedDB keeps the CryptoKey itself, so
+ * scripts can use it but never read its bytes. The entry name is bound in
+ * as additional data.
+ */
+
+const DB_NAME = 'tibbytalk-keystore';
+const DB_VERSION = 1;
+const ENTRY_STORE = 'entries';
+const META_STORE = 'meta';
+const MASTER_KEY = 'masterKey';
+
+interface StoredEntry {
+  iv: Uint8Array<ArrayBuffer>;
+  data: ArrayBuffer;
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+let masterKeyPromise: Promise<CryptoKey> | null = null;
+
+function openDatabase(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        request.result.createObjectStore(ENTRY_STORE);
+        request.result.createObjectStore(META_STORE);
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+}
+
+/**
+ * Run a single request against an object store
+ */
+async function runRequest<T>(
+  storeName: string,
+  mode: IDBTransactionMode,
+  operation: (store: IDBObjectStore) => IDBRequest
+): Promise<T> {
+  const db = await openDatabase();
+  return new Promise((resolve, reject) => {
+    const request = operation(db.transaction(storeName, mode).objectStore(storeName));
+    request.onsuccess = () => resolve(request.result as T);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+async function loadMasterKey(): Promise<CryptoKey> {
+  const stored = await runRequest<CryptoKey | undefined>(META_STORE, 'readonly', store =>
+    store.get(MASTER_KEY)
+  );
+  if (stored) return stored;
+
+  const masterKey = await crypto.subtle.generateKey({ name: 'AES-GCM', length: 256 }, false, [
+    'encrypt',
+    'decrypt',
+  ]);
+  await runRequest(META_STORE, 'readwrite', store => store.put(masterKey, MASTER_KEY));
+  return masterKey;
+}
+
+function getMasterKey(): Promise<CryptoKey> {
+  if (!masterKeyPromise) {
+    masterKeyPromise = loadMasterKey().catch(err => {
+      masterKeyPromise = null;
+      throw err;
+    });
+  }
+  return masterKeyPromise;
+}
+
+/**
+ * Store an entry, replacing any value under the same name
+ */
+export async function writeEntry(name: string, value: string): Promise<void> {
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  const data = await crypto.subtle.encrypt(
+    { name: 'AES-GCM', iv, additionalData: new TextEncoder().encode(name) },
+    await getMasterKey(),
+    new TextEncoder().encode(value)
+  );
+  const entry: StoredEntry = { iv, data };
+  await runRequest(ENTRY_STORE, 'readwrite', store => store.put(entry, name));
+}
+
+/**
+ * Read an entry, or null if there is no such entry
+ */
+export async function readEntry(name: string): Promise<string | null> {
+  const entry = await runRequest<StoredEntry | undefined>(ENTRY_STORE, 'readonly', store =>
+    store.get(name)
+  );
+  if (!entry) return null;
+
+  const plaintext = await crypto.subtle.decrypt(
+    { name: 'AES-GCM', iv: entry.iv, additionalData: new TextEncoder().encode(name) },
+    await getMasterKey(),
+    entry.data
+  );
+  return new TextDecoder().decode(plaintext);
+}
+
+/**
+ * Delete an entry
+ */
+export async function deleteEntry(name: string): Promise<void> {
+  await runRequest(ENTRY_STORE, 'readwrite', store => store.delete(name));
+}
+
+/**
+ * List the names of stored entries starting with a prefix
+ */
+export async function listEntries(prefix = ''): Promise<string[]> {
+  const names = await runRequest<IDBValidKey[]>(ENTRY_STORE, 'readonly', store =>
+    store.getAllKeys()
+  );
+  return names.map(String).filter(name => name.startsWith(prefix));
+}
+
+/**
+ * Delete every entry and the master key
+ */
+export async function wipeKeystore(): Promise<void> {
+  await runRequest(ENTRY_STORE, 'readwrite', store => store.clear());
+  await runRequest(META_STORE, 'readwrite', store => store.clear());
+  masterKeyPromise = null;
+}
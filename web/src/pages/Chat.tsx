@@ -13,12 +13,32 @@ import {
 import {
   subscribeToMessages,
   sendDirectMessage,
+  sendGroupMessage,
   decryptDirectMessageContent,
+  decryptGroupMessageContent,
 } from '../services/messageService';
+import { sendAttachment, downloadAttachment } from '../services/attachmentService';
 import { hasPrivateKey } from '../core/storage/keyStorage';
-import type { Conversation, Message, DecryptedMessage, User, EncryptedMessage } from '../types';
+import { startDeviceProvisioning, subscribeToProvisioning } from '../core/auth/provisioningService';
+import { encodeLinkCode } from '../core/crypto/provisioning';
+import { describeMessagePayload, formatDuration } from '../core/messages/payloads';
+import type {
+  AttachmentInfo,
+  AttachmentPayload,
+  Conversation,
+  Message,
+  DecryptedMessage,
+  User,
+  VoiceNotePayload,
+} from '../types';
 import styles from './Chat.module.css';
 
+// Attachments are downloaded, verified and decrypted when clicked
+interface AttachmentDownload {
+  status: 'downloading' | 'verified' | 'failed';
+  url?: string; // Object URL of the decrypted file
+}
+
 export default function Chat() {
   const { user, logout } = useAuthStore();
   const [conversations, setConversations] = useState<Conversation[]>([]);
@@ -31,7 +51,24 @@ export default function Chat() {
   const [isSearching, setIsSearching] = useState(false);
   const [isSending, setIsSending] = useState(false);
   const [participantNames, setParticipantNames] = useState<Record<string, string>>({});
+  const [linkCode, setLinkCode] = useState<string | null>(null);
+  const [linkError, setLinkError] = useState<string | null>(null);
+  const [keyPresent, setKeyPresent] = useState(false);
+  const [downloads, setDownloads] = useState<Record<string, AttachmentDownload>>({});
   const messagesEndRef = useRef<HTMLDivElement>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const stopLinkingRef = useRef<(() => void) | null>(null);
+
+  // Stop waiting for a link response when leaving the page
+  useEffect(() => {
+    return () => stopLinkingRef.current?.();
+  }, []);
+
+  // Check for this user's key, again once a link code has been used
+  useEffect(() => {
+    if (!user) return;
+    hasPrivateKey(user.id).then(setKeyPresent);
+  }, [user, linkCode]);
 
   // Subscribe to conversations
   useEffect(() => {
@@ -52,31 +89,35 @@ export default function Chat() {
       // Decrypt messages
       const decrypted: DecryptedMessage[] = [];
 
-      for (const msg of msgs) {
+      // Oldest first: sender key chains advance in message order
+      for (const msg of [...msgs].reverse()) {
         try {
-          // Only decrypt direct messages for now
-          if (msg.type === 'direct') {
-            const content = await decryptDirectMessageContent(
-              msg.encryptedContent as EncryptedMessage,
-              user.id
-            );
-            decrypted.push({
-              ...msg,
-              content,
-              decryptedAt: Date.now(),
-            });
-          }
+          const content =
+            msg.type === 'group'
+              ? await decryptGroupMessageContent(msg, selectedConversation, user.id)
+              : await decryptDirectMessageContent(
+                  msg,
+                  selectedConversation,
+                  user.id,
+                  user.publicKeyId
+                );
+          decrypted.push({
+            ...msg,
+            ...content,
+            decryptedAt: Date.now(),
+          });
         } catch (err) {
           console.error('Failed to decrypt message:', err);
           decrypted.push({
             ...msg,
-            content: '[Unable to decrypt]',
+            payload: { type: 'text', text: '[Unable to decrypt]' },
+            senderVerified: false,
             decryptedAt: Date.now(),
           });
         }
       }
 
-      setMessages(decrypted.reverse());
+      setMessages(decrypted);
     });
 
     return () => unsubscribe();
@@ -132,11 +173,20 @@ export default function Chat() {
     }
   };
 
+  // Decrypted files are released when leaving a conversation
+  const selectConversation = (conv: Conversation) => {
+    for (const download of Object.values(downloads)) {
+      if (download.url) URL.revokeObjectURL(download.url);
+    }
+    setDownloads({});
+    setSelectedConversation(conv);
+  };
+
   const handleStartChat = async (otherUser: User) => {
     if (!user) return;
     try {
       const conv = await createDirectConversation(user.id, otherUser.id);
-      setSelectedConversation(conv);
+      selectConversation(conv);
       setShowNewChat(false);
       setSearchEmail('');
       setSearchResults([]);
@@ -150,7 +200,8 @@ export default function Chat() {
 
     setIsSending(true);
     try {
-      await sendDirectMessage(selectedConversation.id, user.id, newMessage.trim());
+      const send = selectedConversation.type === 'group' ? sendGroupMessage : sendDirectMessage;
+      await send(selectedConversation.id, user.id, { type: 'text', text: newMessage.trim() });
       setNewMessage('');
     } catch (err) {
       console.error('Failed to send message:', err);
@@ -159,13 +210,138 @@ export default function Chat() {
     }
   };
 
+  const handleSendFile = async (file: File | undefined) => {
+    if (!file || !selectedConversation || !user || isSending) return;
+
+    setIsSending(true);
+    try {
+      await sendAttachment(selectedConversation.id, user.id, file, newMessage.trim() || undefined);
+      setNewMessage('');
+    } catch (err) {
+      console.error('Failed to send attachment:', err);
+    } finally {
+      setIsSending(false);
+      if (fileInputRef.current) fileInputRef.current.value = '';
+    }
+  };
+
+  const handleOpenAttachment = async (messageId: string, attachment: AttachmentInfo) => {
+    if (!selectedConversation) return;
+    setDownloads(prev => ({ ...prev, [messageId]: { status: 'downloading' } }));
+    try {
+      const url = URL.createObjectURL(await downloadAttachment(attachment, selectedConversation.id));
+      setDownloads(prev => ({ ...prev, [messageId]: { status: 'verified', url } }));
+    } catch (err) {
+      console.error('Failed to download attachment:', err);
+      setDownloads(prev => ({ ...prev, [messageId]: { status: 'failed' } }));
+    }
+  };
+
+  const renderAttachment = (messageId: string, payload: AttachmentPayload) => {
+    const { attachment } = payload;
+    const download = downloads[messageId];
+
+    return (
+      <div className={styles.messageContent}>
+        {download?.url ? (
+          attachment.mimeType.startsWith('image/') ? (
+            <img src={download.url} alt={attachment.fileName} className={styles.attachmentImage} />
+          ) : (
+            <a href={download.url} download={attachment.fileName}>
+              📎 {attachment.fileName}
+            </a>
+          )
+        ) : (
+          <button
+            className={styles.attachmentButton}
+            onClick={() => handleOpenAttachment(messageId, attachment)}
+            disabled={download?.status === 'downloading'}
+          >
+            📎 {attachment.fileName} ·{' '}
+            {download?.status === 'downloading'
+              ? 'Downloading…'
+              : download?.status === 'failed'
+                ? 'Could not be verified, retry'
+                : `${Math.max(1, Math.round(attachment.size / 1024))} KB`}
+          </button>
+        )}
+        {download?.status === 'verified' && (
+          <div className={styles.attachmentVerified}>Verified</div>
+        )}
+        {payload.caption && <div>{payload.caption}</div>}
+      </div>
+    );
+  };
+
+  // The waveform and duration come from the payload; the audio is only fetched on play
+  const renderVoiceNote = (messageId: string, payload: VoiceNotePayload) => {
+    const download = downloads[messageId];
+
+    return (
+      <div className={styles.messageContent}>
+        {download?.url ? (
+          <audio src={download.url} className={styles.voiceNoteAudio} controls autoPlay />
+        ) : (
+          <button
+            className={styles.voiceNote}
+            onClick={() => handleOpenAttachment(messageId, payload.attachment)}
+            disabled={download?.status === 'downloading'}
+          >
+            {download?.status === 'downloading' ? '…' : '▶'}
+            <span className={styles.waveform}>
+              {payload.waveform.map((level, index) => (
+                <span
+                  key={index}
+                  className={styles.waveformBar}
+                  style={{ height: `${Math.max(2, (level / 100) * 24)}px` }}
+                />
+              ))}
+            </span>
+            {formatDuration(payload.durationMs)}
+          </button>
+        )}
+        {download?.status === 'failed' && (
+          <div className={styles.attachmentVerified}>Could not be verified, retry</div>
+        )}
+        {download?.status === 'verified' && (
+          <div className={styles.attachmentVerified}>Verified</div>
+        )}
+      </div>
+    );
+  };
+
+  const handleLinkBrowser = async () => {
+    if (!user) return;
+
+    setLinkError(null);
+    try {
+      const session = await startDeviceProvisioning(user.id);
+      setLinkCode(encodeLinkCode(session));
+      stopLinkingRef.current = subscribeToProvisioning(
+        user,
+        session,
+        () => {
+          stopLinkingRef.current = null;
+          setLinkCode(null);
+        },
+        (error) => {
+          stopLinkingRef.current = null;
+          setLinkCode(null);
+          setLinkError(error.message || 'Failed to link this browser');
+        }
+      );
+    } catch (err) {
+      setLinkError(err instanceof Error ? err.message : 'Failed to create link code');
+    }
+  };
+
   const getConversationName = (conv: Conversation): string => {
     if (conv.name) return conv.name;
     const otherId = conv.participants.find(id => id !== user?.id);
     return otherId ? participantNames[otherId] || 'Loading...' : 'Unknown';
   };
 
-  const hasKey = user ? hasPrivateKey(user.id) : false;
+  const hasKey = user ? keyPresent : false;
 
   return (
     <div className={styles.container}>
@@ -188,6 +364,18 @@ export default function Chat() {
         {!hasKey && (
           <div className={styles.keyWarning}>
             No encryption key found. Please import your keys or create a new account.
+            {linkCode ? (
+              <div className={styles.linkCode}>
+                On your phone, open Settings › Devices and paste this code under
+                "Link a New Device":
+                <code>{linkCode}</code>
+              </div>
+            ) : (
+              <button onClick={handleLinkBrowser} className={styles.linkBtn}>
+                Link this browser
+              </button>
+            )}
+            {linkError && <div className={styles.linkError}>{linkError}</div>}
           </div>
         )}
 
@@ -203,7 +391,7 @@ export default function Chat() {
                 className={`${styles.conversationItem} ${
                   selectedConversation?.id === conv.id ? styles.selected : ''
                 }`}
-                onClick={() => setSelectedConversation(conv)}
+                onClick={() => selectConversation(conv)}
               >
                 <div className={styles.conversationName}>
                   {getConversationName(conv)}
@@ -270,7 +458,18 @@ export default function Chat() {
                     msg.senderId === user?.id ? styles.sent : styles.received
                   }`}
                 >
-                  <div className={styles.messageContent}>{msg.content}</div>
+                  {msg.payload.type === 'attachment' ? (
+                    renderAttachment(msg.id, msg.payload)
+                  ) : msg.payload.type === 'voiceNote' ? (
+                    renderVoiceNote(msg.id, msg.payload)
+                  ) : (
+                    <div className={styles.messageContent}>
+                      {describeMessagePayload(msg.payload)}
+                    </div>
+                  )}
+                  {msg.senderId !== user?.id && !msg.senderVerified && (
+                    <div className={styles.senderStatus}>Unverified sender</div>
+                  )}
                   <div className={styles.messageTime}>
                     {new Date(msg.timestamp).toLocaleTimeString()}
                   </div>
@@ -280,6 +479,19 @@ export default function Chat() {
             </div>
 
             <div className={styles.inputArea}>
+              <input
+                ref={fileInputRef}
+                type="file"
+                hidden
+                onChange={(e) => handleSendFile(e.target.files?.[0])}
+              />
+              <button
+                onClick={() => fileInputRef.current?.click()}
+                disabled={isSending}
+                title="Send an encrypted file"
+              >
+                📎
+              </button>
               <input
                 type="text"
                 placeholder="Type a message..."
@@ -0,0 +1,88 @@
+/**
+ * TibbyTalk Web - Attachment Service
+ * Files are encrypted in the browser and only ciphertext is uploaded to
+ * attachments/{conversationId}/{attachmentId}; the key, digest, size and MIME
+ * type travel inside the encrypted message payload (matches mobile)
+ */
+
+import { ref, uploadBytes, getBytes, deleteObject } from 'firebase/storage';
+import { storage, STORAGE_PATHS } from '../config/firebase';
+import { ATTACHMENT_VERSION, encryptAttachment, decryptAttachment } from '../core/crypto';
+import { validateMessagePayload } from '../core/messages/payloads';
+import { getConversation } from './conversationService';
+import { sendDirectMessage, sendGroupMessage } from './messageService';
+import type { AttachmentInfo, AttachmentPayload, Message } from '../types';
+
+const MAX_ATTACHMENT_SIZE = 25 * 1024 * 1024;
+
+const attachmentFolder = (conversationId: string): string =>
+  `${STORAGE_PATHS.ATTACHMENTS}/${conversationId}/`;
+
+/**
+ * Encrypt and upload a file, then send it as a message
+ * The upload is removed again if the message cannot be sent
+ */
+export async function sendAttachment(
+  conversationId: string,
+  senderId: string,
+  file: File,
+  caption?: string,
+  ttl: number | null = null
+): Promise<Message> {
+  if (file.size > MAX_ATTACHMENT_SIZE) throw new Error('Attachment is too large');
+
+  const conversation = await getConversation(conversationId);
+  if (!conversation) throw new Error('Conversation not found');
+
+  const { data, key, digest, size } = await encryptAttachment(
+    new Uint8Array(await file.arrayBuffer())
+  );
+  const storagePath = attachmentFolder(conversationId) + crypto.randomUUID();
+  const payload = validateMessagePayload({
+    type: 'attachment',
+    attachment: {
+      version: ATTACHMENT_VERSION,
+      storagePath,
+      key,
+      digest,
+      fileName: file.name,
+      mimeType: file.type || 'application/octet-stream',
+      size,
+    },
+    ...(caption && { caption }),
+  }) as AttachmentPayload;
+
+  const storageRef = ref(storage, storagePath);
+  await uploadBytes(storageRef, data, { contentType: 'application/octet-stream' });
+
+  try {
+    if (conversation.type === 'group') {
+      return await sendGroupMessage(conversationId, senderId, payload, ttl);
+    }
+    return await sendDirectMessage(conversationId, senderId, payload, ttl);
+  } catch (err) {
+    await deleteObject(storageRef).catch(deleteErr => {
+      console.error('Failed to remove attachment:', deleteErr);
+    });
+    throw err;
+  }
+}
+
+/**
+ * Download an attachment, check it against its digest and decrypt it
+ * The sender chooses the storage path, so only this conversation's folder is fetched
+ */
+export async function downloadAttachment(
+  attachment: AttachmentInfo,
+  conversationId: string
+): Promise<Blob> {
+  const folder = attachmentFolder(conversationId);
+  const { storagePath } = attachment;
+  if (!storagePath.startsWith(folder) || !/^[\w-]+$/.test(storagePath.slice(folder.length))) {
+    throw new Error('Invalid attachment path');
+  }
+
+  const ciphertext = await getBytes(ref(storage, storagePath));
+  const data = await decryptAttachment(ciphertext, attachment);
+  return new Blob([data], { type: attachment.mimeType });
+}
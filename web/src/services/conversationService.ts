@@ -15,6 +15,7 @@ import {
   onSnapshot,
   arrayUnion,
   arrayRemove,
+  increment,
   Unsubscribe,
 } from 'firebase/firestore';
 import { db, COLLECTIONS, FIELDS } from '../config/firebase';
@@ -176,10 +177,12 @@ export function subscribeToConversations(
 
 /**
  * Update last message preview
+ * Group messages also count towards the group's key rotation policy
  */
 export async function updateLastMessage(
   conversationId: string,
-  senderId: string
+  senderId: string,
+  isGroupMessage = false
 ): Promise<void> {
   await updateDoc(doc(db, COLLECTIONS.CONVERSATIONS, conversationId), {
     [FIELDS.LAST_MESSAGE]: {
@@ -188,6 +191,7 @@ export async function updateLastMessage(
       preview: 'Encrypted message',
     },
     [FIELDS.UPDATED_AT]: Date.now(),
+    ...(isGroupMessage && { [FIELDS.GROUP_KEY_MESSAGE_COUNT]: increment(1) }),
   });
 }
 
@@ -206,5 +210,10 @@ function documentToConversation(docSnap: any): Conversation {
     adminIds: data[FIELDS.ADMIN_IDS],
     groupKeyId: data[FIELDS.GROUP_KEY_ID],
     groupKeyDistribution: data[FIELDS.GROUP_KEY_DISTRIBUTION],
+    groupKeyCreatedAt: data[FIELDS.GROUP_KEY_CREATED_AT],
+    groupKeyMessageCount: data[FIELDS.GROUP_KEY_MESSAGE_COUNT],
+    groupRotationPolicy: data[FIELDS.GROUP_ROTATION_POLICY],
+    groupKeyRotationPending: data[FIELDS.GROUP_KEY_ROTATION_PENDING],
+    keyChanges: data[FIELDS.KEY_CHANGES],
   };
 }
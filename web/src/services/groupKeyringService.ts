@@ -0,0 +1,107 @@
+/**
+ * TibbyTalk Web - Group Keyring
+ * Resolves group keys by keyId (same as mobile): the current key comes from
+ * the conversation, older keys from groupKeys/{groupId}/keys/{keyId}
+ */
+
+import { doc, getDoc } from 'firebase/firestore';
+import { db, COLLECTIONS } from '../config/firebase';
+import {
+  arrayBufferToBase64,
+  base64ToArrayBuffer,
+  exportSymmetricKey,
+  importSymmetricKey,
+} from '../core/crypto';
+import type { GroupKeyBundle } from '../core/crypto';
+import { decryptGroupKey } from '../core/crypto/groupKeys';
+import {
+  getPrivateKey,
+  getPreviousPrivateKeys,
+  getGroupKey,
+  storeGroupKey,
+} from '../core/storage/keyStorage';
+import type { Conversation } from '../types';
+
+// groupId -> keyId -> group key
+const keyrings = new Map<string, Map<string, CryptoKey>>();
+
+function getMemoryKeyring(groupId: string): Map<string, CryptoKey> {
+  let keyring = keyrings.get(groupId);
+  if (!keyring) {
+    keyring = new Map();
+    keyrings.set(groupId, keyring);
+  }
+  return keyring;
+}
+
+/**
+ * Unwrap a group key, falling back to replaced identity keys
+ */
+async function unwrapGroupKey(
+  encryptedKey: string,
+  privateKey: JsonWebKey,
+  userId: string
+): Promise<CryptoKey> {
+  try {
+    return await decryptGroupKey(encryptedKey, privateKey);
+  } catch (err) {
+    for (const previousKey of Object.values(await getPreviousPrivateKeys(userId))) {
+      try {
+        return await decryptGroupKey(encryptedKey, previousKey);
+      } catch {
+        // Try the next replaced key
+      }
+    }
+    throw err;
+  }
+}
+
+/**
+ * Add a group key to the local keyring
+ */
+export async function cacheGroupKey(groupId: string, keyId: string, groupKey: CryptoKey): Promise<void> {
+  getMemoryKeyring(groupId).set(keyId, groupKey);
+
+  if (await getGroupKey(groupId, keyId)) return;
+  await storeGroupKey(groupId, keyId, arrayBufferToBase64(await exportSymmetricKey(groupKey)));
+}
+
+/**
+ * Get a group key by the keyId recorded in a message
+ */
+export async function getGroupKeyById(
+  conversation: Conversation,
+  userId: string,
+  keyId: string
+): Promise<CryptoKey | null> {
+  if (conversation.type !== 'group') return null;
+
+  const memoryKeyring = getMemoryKeyring(conversation.id);
+  const cached = memoryKeyring.get(keyId);
+  if (cached) return cached;
+
+  const stored = await getGroupKey(conversation.id, keyId);
+  if (stored) {
+    const groupKey = await importSymmetricKey(base64ToArrayBuffer(stored));
+    memoryKeyring.set(keyId, groupKey);
+    return groupKey;
+  }
+
+  const privateKey = await getPrivateKey(userId);
+  if (!privateKey) return null;
+
+  let encryptedKey: string | undefined;
+  if (keyId === conversation.groupKeyId) {
+    encryptedKey = conversation.groupKeyDistribution?.[userId];
+  } else {
+    const bundleDoc = await getDoc(doc(db, COLLECTIONS.GROUP_KEYS, conversation.id, 'keys', keyId));
+    encryptedKey = bundleDoc.exists()
+      ? (bundleDoc.data() as GroupKeyBundle).encryptedKeys[userId]
+      : undefined;
+  }
+  if (!encryptedKey) return null;
+
+  const groupKey = await unwrapGroupKey(encryptedKey, privateKey, userId);
+  await cacheGroupKey(conversation.id, keyId, groupKey);
+  return groupKey;
+}
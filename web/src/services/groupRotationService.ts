@@ -0,0 +1,62 @@
+/**
+ * TibbyTalk Web - Group Rotation Policy
+ * Decides when a group's key is due for rotation (same rules as mobile). The
+ * web client cannot distribute a new key to members' devices, so rotations
+ * are carried out from the mobile app
+ */
+
+import type { Conversation, GroupKeyRotationReason } from '../types';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Check whether a group's key is due for rotation: a member left, or the
+ * group's rotation policy calls for a new key
+ */
+export function getDueKeyRotation(
+  conversation: Conversation,
+  now: number = Date.now()
+): GroupKeyRotationReason | null {
+  if (conversation.type !== 'group') return null;
+  if (conversation.groupKeyRotationPending) return 'memberLeft';
+
+  const policy = conversation.groupRotationPolicy;
+  if (!policy) return null;
+
+  // Keys created before rotation was tracked date from the group itself
+  const keyCreatedAt = conversation.groupKeyCreatedAt ?? conversation.createdAt;
+
+  if (
+    policy.onKeyChange &&
+    Object.values(conversation.keyChanges ?? {}).some(event => event.detectedAt > keyCreatedAt)
+  ) {
+    return 'keyChange';
+  }
+  if (policy.maxMessages && (conversation.groupKeyMessageCount ?? 0) >= policy.maxMessages) {
+    return 'messageLimit';
+  }
+  if (policy.maxAgeDays && now - keyCreatedAt >= policy.maxAgeDays * DAY_MS) {
+    return 'keyAge';
+  }
+  return null;
+}
+
+/**
+ * Check the rotation policy before sending to a group
+ * Mobile rotates the key here; this client cannot, so it refuses to send
+ * whenever mobile would have rotated: after a member left, or when the policy
+ * is due and this user is an admin
+ */
+export function enforceRotationPolicy(conversation: Conversation, userId: string): void {
+  const reason = getDueKeyRotation(conversation);
+  if (reason === 'memberLeft') {
+    throw new Error(
+      'A member left this group. Send a message from your phone to rotate the group key.'
+    );
+  }
+  if (reason && conversation.adminIds?.includes(userId)) {
+    throw new Error(
+      'This group key is due for rotation. Send a message from your phone to rotate it.'
+    );
+  }
+}
@@ -4,7 +4,7 @@
 
 import {
   collection,
-  addDoc,
+  setDoc,
   getDocs,
   deleteDoc,
   updateDoc,
@@ -16,11 +16,35 @@ import {
   Unsubscribe,
 } from 'firebase/firestore';
 import { db, COLLECTIONS, FIELDS } from '../config/firebase';
-import { encryptMessage, decryptMessage } from '../core/crypto';
-import { encryptGroupMessage, decryptGroupMessage, decryptGroupKey } from '../core/crypto/groupKeys';
-import { getPrivateKey } from '../core/storage/keyStorage';
+import { encryptMessageForParticipants, decryptMessage } from '../core/crypto';
+import type { MessageContext } from '../core/crypto';
+import { encryptGroupMessage, decryptGroupMessage } from '../core/crypto/groupKeys';
+import { signPayload, verifyPayloadSignature } from '../core/crypto/signing';
+import type { MessageSigner } from '../core/crypto/signing';
+import { serializeMessagePayload, parseMessagePayload } from '../core/messages/payloads';
+import { getPrivateKey, getPreviousPrivateKeys, getSigningKey } from '../core/storage/keyStorage';
 import { getConversation, updateLastMessage } from './conversationService';
-import type { Message, EncryptedMessage, GroupEncryptedMessage, Conversation } from '../types';
+import { getGroupKeyById } from './groupKeyringService';
+import { enforceRotationPolicy } from './groupRotationService';
+import { decryptWithSenderKey } from './senderKeyService';
+import type {
+  Message,
+  MessagePayload,
+  DecryptedContent,
+  EncryptedMessage,
+  GroupEncryptedMessage,
+  Conversation,
+} from '../types';
+
+/**
+ * Load the sender's signing key; every message sent from the web is signed,
+ * so readers can tell it came from this account
+ */
+async function getMessageSigner(senderId: string): Promise<MessageSigner> {
+  const signingKey = await getSigningKey(senderId);
+  if (!signingKey) throw new Error('Signing key not found. Link this browser again from your phone.');
+  return { senderId, signingKey };
+}
 
 /**
  * Send an encrypted direct message
@@ -28,9 +52,10 @@ import type { Message, EncryptedMessage, GroupEncryptedMessage, Conversation } f
 export async function sendDirectMessage(
   conversationId: string,
   senderId: string,
-  plaintext: string,
+  payload: MessagePayload,
   ttl: number | null = null
 ): Promise<Message> {
+  const plaintext = serializeMessagePayload(payload);
   const conversation = await getConversation(conversationId);
   if (!conversation) throw new Error('Conversation not found');
 
@@ -40,24 +65,37 @@ export async function sendDirectMessage(
   const recipientKey = conversation.participantKeys[recipientId];
   if (!recipientKey) throw new Error("Recipient's public key not found");
 
-  const encryptedContent = await encryptMessage(plaintext, recipientKey.publicKey);
+  if (!conversation.participantKeys[senderId]) throw new Error("Sender's public key not found");
+
+  // The envelope is bound to the message's ID and expiry
+  const docRef = doc(collection(db, COLLECTIONS.CONVERSATIONS, conversationId, COLLECTIONS.MESSAGES));
+  const timestamp = Date.now();
+  const expiresAt = ttl ? timestamp + ttl * 1000 : null;
+
+  // Encrypt for every participant so the sender can read it too
+  const encryptedContent = await signPayload(
+    await encryptMessageForParticipants(plaintext, conversation.participantKeys, {
+      conversationId,
+      senderId,
+      messageId: docRef.id,
+      expiresAt,
+    }),
+    await getMessageSigner(senderId)
+  );
 
   const messageData = {
     [FIELDS.SENDER_ID]: senderId,
-    [FIELDS.TIMESTAMP]: Date.now(),
+    [FIELDS.TIMESTAMP]: timestamp,
     [FIELDS.TYPE]: 'direct',
     [FIELDS.ENCRYPTED]: true,
-    [FIELDS.VERSION]: 'tt-e1',
+    [FIELDS.VERSION]: encryptedContent.version,
     [FIELDS.ENCRYPTED_CONTENT]: encryptedContent,
     [FIELDS.TTL]: ttl,
-    [FIELDS.EXPIRES_AT]: ttl ? Date.now() + ttl * 1000 : null,
+    [FIELDS.EXPIRES_AT]: expiresAt,
     [FIELDS.READ_BY]: {},
   };
 
-  const docRef = await addDoc(
-    collection(db, COLLECTIONS.CONVERSATIONS, conversationId, COLLECTIONS.MESSAGES),
-    messageData
-  );
+  await setDoc(docRef, messageData);
 
   await updateLastMessage(conversationId, senderId);
 
@@ -75,36 +113,55 @@ export async function sendDirectMessage(
 }
 
 /**
- * Send an encrypted group message
+ * Send an encrypted group message with the group's current key
+ * The browser cannot rotate group keys, so sending is refused while a rotation
+ * is pending; the next member to send from mobile carries it out
  */
 export async function sendGroupMessage(
   conversationId: string,
   senderId: string,
-  plaintext: string,
-  groupKey: CryptoKey,
-  keyId: string,
+  payload: MessagePayload,
   ttl: number | null = null
 ): Promise<Message> {
-  const encryptedContent = await encryptGroupMessage(plaintext, groupKey, keyId);
+  const plaintext = serializeMessagePayload(payload);
+  const conversation = await getConversation(conversationId);
+  if (!conversation) throw new Error('Conversation not found');
+
+  enforceRotationPolicy(conversation, senderId);
+
+  const keyId = conversation.groupKeyId;
+  const groupKey = await getGroupKeyForConversation(conversation, senderId);
+  if (!groupKey || !keyId) throw new Error('Group key not found');
+
+  const docRef = doc(collection(db, COLLECTIONS.CONVERSATIONS, conversationId, COLLECTIONS.MESSAGES));
+  const timestamp = Date.now();
+  const expiresAt = ttl ? timestamp + ttl * 1000 : null;
+
+  const encryptedContent = await signPayload(
+    await encryptGroupMessage(plaintext, groupKey, keyId, {
+      conversationId,
+      senderId,
+      messageId: docRef.id,
+      expiresAt,
+    }),
+    await getMessageSigner(senderId)
+  );
 
   const messageData = {
     [FIELDS.SENDER_ID]: senderId,
-    [FIELDS.TIMESTAMP]: Date.now(),
+    [FIELDS.TIMESTAMP]: timestamp,
     [FIELDS.TYPE]: 'group',
     [FIELDS.ENCRYPTED]: true,
-    [FIELDS.VERSION]: 'tt-e1',
+    [FIELDS.VERSION]: encryptedContent.version,
     [FIELDS.ENCRYPTED_CONTENT]: encryptedContent,
     [FIELDS.TTL]: ttl,
-    [FIELDS.EXPIRES_AT]: ttl ? Date.now() + ttl * 1000 : null,
+    [FIELDS.EXPIRES_AT]: expiresAt,
     [FIELDS.READ_BY]: {},
   };
 
-  const docRef = await addDoc(
-    collection(db, COLLECTIONS.CONVERSATIONS, conversationId, COLLECTIONS.MESSAGES),
-    messageData
-  );
+  await setDoc(docRef, messageData);
 
-  await updateLastMessage(conversationId, senderId);
+  await updateLastMessage(conversationId, senderId, true);
 
   return {
     id: docRef.id,
@@ -120,45 +177,128 @@ export async function sendGroupMessage(
 }
 
 /**
- * Decrypt a direct message
+ * The message a stored envelope claims to be; 'tt-e3'/'tt-e4' envelopes only
+ * decrypt if it is the message they were sent as
+ */
+function storedMessageContext(message: Message): MessageContext {
+  return {
+    conversationId: message.conversationId,
+    senderId: message.senderId,
+    messageId: message.id,
+    expiresAt: message.expiresAt ?? null,
+  };
+}
+
+/**
+ * Check that a message was signed by its claimed sender (same as mobile)
+ * Signatures are checked against the sender's current and replaced signing keys.
+ * Returns false for unsigned payloads from before messages were signed, or if
+ * the sender has no signing key; throws if the signature is invalid, or missing
+ * from a sender key ('tt-s1') payload, which is always signed
+ */
+async function verifySender(message: Message, conversation: Conversation): Promise<boolean> {
+  const payload = message.encryptedContent;
+  if (!payload.signature) {
+    if (payload.version === 'tt-s1') throw new Error('Invalid message signature');
+    return false;
+  }
+
+  const participantKey = conversation.participantKeys[message.senderId];
+  if (!participantKey?.signingKey) return false;
+
+  for (const signingKey of [participantKey.signingKey, ...(participantKey.previousSigningKeys ?? [])]) {
+    if (await verifyPayloadSignature(payload, message.senderId, signingKey)) return true;
+  }
+  throw new Error('Invalid message signature');
+}
+
+/**
+ * Decrypt a direct message, parse its payload and check who sent it
  */
 export async function decryptDirectMessageContent(
-  encryptedContent: EncryptedMessage,
-  userId: string
+  message: Message,
+  conversation: Conversation,
+  userId: string,
+  keyId?: string
+): Promise<DecryptedContent> {
+  const senderVerified = await verifySender(message, conversation);
+  const plaintext = await decryptDirectPlaintext(message, userId, keyId);
+  return { payload: parseMessagePayload(plaintext), senderVerified };
+}
+
+/**
+ * Decrypt a direct message's plaintext
+ * Falls back to replaced identity keys for history from before a key change
+ */
+async function decryptDirectPlaintext(
+  message: Message,
+  userId: string,
+  keyId?: string
 ): Promise<string> {
-  const privateKey = getPrivateKey(userId);
+  // Contacts stop using ratchet sessions ('tt-r1') once this browser is linked,
+  // but messages from before that only reached the phone
+  if ((message.encryptedContent.version as string) === 'tt-r1') {
+    throw new Error('Message was sent before this browser was linked');
+  }
+
+  const encryptedContent = message.encryptedContent as EncryptedMessage;
+  const context = storedMessageContext(message);
+  const privateKey = await getPrivateKey(userId);
   if (!privateKey) throw new Error('Private key not found');
-  return decryptMessage(encryptedContent, privateKey);
+
+  try {
+    return await decryptMessage(encryptedContent, privateKey, keyId, context);
+  } catch (err) {
+    const previous = Object.entries(await getPreviousPrivateKeys(userId)).filter(
+      ([previousKeyId]) => encryptedContent.version === 'tt-e1' || previousKeyId in encryptedContent.keys
+    );
+    for (const [previousKeyId, previousKey] of previous) {
+      try {
+        return await decryptMessage(encryptedContent, previousKey, previousKeyId, context);
+      } catch {
+        // Try the next replaced key
+      }
+    }
+    throw err;
+  }
 }
 
 /**
- * Decrypt a group message
+ * Decrypt a group message, parse its payload and check who sent it
+ * Sender key ('tt-s1') messages follow the sender's chain; others use the
+ * group key named by their keyId
  */
 export async function decryptGroupMessageContent(
-  encryptedContent: GroupEncryptedMessage,
-  groupKey: CryptoKey
-): Promise<string> {
-  return decryptGroupMessage(encryptedContent, groupKey);
+  message: Message,
+  conversation: Conversation,
+  userId: string
+): Promise<DecryptedContent> {
+  const senderVerified = await verifySender(message, conversation);
+  const context = storedMessageContext(message);
+
+  let plaintext: string;
+  if (message.encryptedContent.version === 'tt-s1') {
+    plaintext = await decryptWithSenderKey(message, userId, context);
+  } else {
+    const encryptedContent = message.encryptedContent as GroupEncryptedMessage;
+    const groupKey = await getGroupKeyById(conversation, userId, encryptedContent.keyId);
+    if (!groupKey) throw new Error('Group key not found');
+    plaintext = await decryptGroupMessage(encryptedContent, groupKey, context);
+  }
+  return { payload: parseMessagePayload(plaintext), senderVerified };
 }
 
 /**
- * Get group key for conversation
+ * Get the current group key for a conversation
  */
 export async function getGroupKeyForConversation(
   conversation: Conversation,
   userId: string
 ): Promise<CryptoKey | null> {
-  if (conversation.type !== 'group' || !conversation.groupKeyDistribution) {
+  if (conversation.type !== 'group' || !conversation.groupKeyId) {
     return null;
   }
-
-  const encryptedKey = conversation.groupKeyDistribution[userId];
-  if (!encryptedKey) return null;
-
-  const privateKey = getPrivateKey(userId);
-  if (!privateKey) return null;
-
-  return decryptGroupKey(encryptedKey, privateKey);
+  return getGroupKeyById(conversation, userId, conversation.groupKeyId);
 }
 
 /**
@@ -0,0 +1,180 @@
+/**
+ * TibbyTalk Web - Sender Key Service
+ * Decrypts 'tt-s1' group messages (same as mobile)
+ *
+ * A sender's chain is published in groupKeys/{groupId}/senderKeys/{senderKeyId},
+ * wrapped for each member's identity key. Message keys are single-use, so each
+ * message is decrypted once and its content kept in the local message cache.
+ */
+
+import { doc, getDoc } from 'firebase/firestore';
+import { db, COLLECTIONS } from '../config/firebase';
+import { unwrapKeyForRecipient } from '../core/crypto';
+import type { MessageContext } from '../core/crypto';
+import { initializeReceivingSenderKey, senderKeyDecrypt } from '../core/crypto/senderKeys';
+import type { SenderKeyDistribution, SenderKeyState } from '../core/crypto/senderKeys';
+import {
+  getPrivateKey,
+  getPreviousPrivateKeys,
+  getSenderKeys,
+  storeSenderKeys,
+  getMessageCache,
+  storeMessageCache,
+} from '../core/storage/keyStorage';
+import type { Message, SenderKeyEncryptedMessage } from '../types';
+
+// Received sender keys kept per group (the least recently used are dropped)
+const MAX_RECEIVED_SENDER_KEYS = 200;
+
+// Message contents kept in the local cache per conversation
+const MAX_CACHED_MESSAGES = 1000;
+
+interface SenderKeyBundle {
+  senderKeyId: string;
+  senderId: string;
+  encryptedKeys: Record<string, string>; // userId -> wrapped distribution
+}
+
+interface ReceivedSenderKey {
+  state: SenderKeyState;
+  updatedAt: number;
+}
+
+interface CachedMessage {
+  content: string;
+  expiresAt: number | null;
+}
+
+// Serializes chain updates per conversation
+const conversationLocks = new Map<string, Promise<unknown>>();
+
+function withConversationLock<T>(conversationId: string, task: () => Promise<T>): Promise<T> {
+  const previous = conversationLocks.get(conversationId) ?? Promise.resolve();
+  const result = previous.catch(() => undefined).then(task);
+  conversationLocks.set(conversationId, result);
+  return result;
+}
+
+async function loadReceivedSenderKeys(groupId: string): Promise<Record<string, ReceivedSenderKey>> {
+  const stored = await getSenderKeys(groupId);
+  return stored ? JSON.parse(stored) : {};
+}
+
+async function saveReceivedSenderKeys(
+  groupId: string,
+  received: Record<string, ReceivedSenderKey>
+): Promise<void> {
+  const kept = Object.entries(received)
+    .sort(([, a], [, b]) => b.updatedAt - a.updatedAt)
+    .slice(0, MAX_RECEIVED_SENDER_KEYS);
+  if (!(await storeSenderKeys(groupId, JSON.stringify(Object.fromEntries(kept))))) {
+    throw new Error('Failed to store sender keys');
+  }
+}
+
+async function loadMessageCache(conversationId: string): Promise<Record<string, CachedMessage>> {
+  const stored = await getMessageCache(conversationId);
+  const cache: Record<string, CachedMessage> = stored ? JSON.parse(stored) : {};
+
+  // Drop expired disappearing messages
+  for (const [messageId, entry] of Object.entries(cache)) {
+    if (entry.expiresAt && entry.expiresAt < Date.now()) delete cache[messageId];
+  }
+  return cache;
+}
+
+async function saveMessageCache(
+  conversationId: string,
+  cache: Record<string, CachedMessage>
+): Promise<void> {
+  const kept = Object.entries(cache).slice(-MAX_CACHED_MESSAGES);
+  await storeMessageCache(conversationId, JSON.stringify(Object.fromEntries(kept)));
+}
+
+/**
+ * Unwrap a sender key distribution, falling back to replaced identity keys
+ */
+async function unwrapDistribution(
+  encryptedKey: string,
+  privateKey: JsonWebKey,
+  userId: string
+): Promise<SenderKeyDistribution> {
+  const decode = (bytes: ArrayBuffer): SenderKeyDistribution =>
+    JSON.parse(new TextDecoder().decode(bytes));
+
+  try {
+    return decode(await unwrapKeyForRecipient(encryptedKey, privateKey));
+  } catch (err) {
+    for (const previousKey of Object.values(await getPreviousPrivateKeys(userId))) {
+      try {
+        return decode(await unwrapKeyForRecipient(encryptedKey, previousKey));
+      } catch {
+        // Try the next replaced key
+      }
+    }
+    throw err;
+  }
+}
+
+/**
+ * Start following a sender key from its published bundle
+ */
+async function acceptSenderKey(
+  message: Message,
+  userId: string,
+  senderKeyId: string
+): Promise<SenderKeyState> {
+  const bundleDoc = await getDoc(
+    doc(db, COLLECTIONS.GROUP_KEYS, message.conversationId, COLLECTIONS.SENDER_KEYS, senderKeyId)
+  );
+  const bundle = bundleDoc.exists() ? (bundleDoc.data() as SenderKeyBundle) : null;
+  if (!bundle) throw new Error('Sender key not found');
+  if (bundle.senderId !== message.senderId) throw new Error('Sender key belongs to another member');
+
+  const encryptedKey = bundle.encryptedKeys?.[userId];
+  if (!encryptedKey) throw new Error('Sender key was not shared with you');
+
+  const privateKey = await getPrivateKey(userId);
+  if (!privateKey) throw new Error('Private key not found');
+
+  return initializeReceivingSenderKey(
+    senderKeyId,
+    await unwrapDistribution(encryptedKey, privateKey, userId)
+  );
+}
+
+/**
+ * Decrypt a group message sent with a sender key
+ * Anyone following the chain could encrypt with it, so callers must check the
+ * sender's signature first
+ */
+export async function decryptWithSenderKey(
+  message: Message,
+  userId: string,
+  context: MessageContext
+): Promise<string> {
+  const payload = message.encryptedContent as SenderKeyEncryptedMessage;
+
+  return withConversationLock(message.conversationId, async () => {
+    const cache = await loadMessageCache(message.conversationId);
+    if (cache[message.id]) return cache[message.id].content;
+
+    const received = await loadReceivedSenderKeys(message.conversationId);
+    const current =
+      received[payload.senderKeyId]?.state ??
+      (await acceptSenderKey(message, userId, payload.senderKeyId));
+
+    const { state, plaintext } = await senderKeyDecrypt(
+      current,
+      payload.iteration,
+      payload.data,
+      context
+    );
+    received[payload.senderKeyId] = { state, updatedAt: Date.now() };
+    await saveReceivedSenderKeys(message.conversationId, received);
+
+    cache[message.id] = { content: plaintext, expiresAt: message.expiresAt };
+    await saveMessageCache(message.conversationId, cache);
+    return plaintext;
+  });
+}
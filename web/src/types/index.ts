@@ -10,20 +10,42 @@ export interface KeyPair {
   createdAt: number;
 }
 
-export interface EncryptedMessage {
+export interface SingleRecipientEncryptedMessage {
   encrypted: true;
   version: 'tt-e1';
   data: string;
   key: string;
   iv: string;
+  signature?: string; // Base64 sender signature over the payload
 }
 
+export interface MultiRecipientEncryptedMessage {
+  encrypted: true;
+  version: 'tt-e2' | 'tt-e3' | 'tt-e4'; // 'tt-e3' binds the message context as AAD, 'tt-e4' also pads
+  data: string;
+  keys: Record<string, string>; // keyId -> encrypted AES key
+  iv: string;
+  signature?: string; // Base64 sender signature over the payload
+}
+
+export type EncryptedMessage = SingleRecipientEncryptedMessage | MultiRecipientEncryptedMessage;
+
 export interface GroupEncryptedMessage {
   encrypted: true;
-  version: 'tt-e1';
+  version: 'tt-e1' | 'tt-e3' | 'tt-e4'; // 'tt-e3' binds the message context as AAD, 'tt-e4' also pads
   data: string;
   iv: string;
   keyId: string;
+  signature?: string; // Base64 sender signature over the payload
+}
+
+export interface SenderKeyEncryptedMessage {
+  encrypted: true;
+  version: 'tt-s1';
+  senderKeyId: string; // Sender's chain, see groupKeys/{groupId}/senderKeys
+  iteration: number; // Message number in the sender's chain
+  data: string;
+  signature?: string; // Base64 sender signature over the payload
 }
 
 export interface EncryptedKeyBundle {
@@ -44,18 +66,52 @@ export interface User {
   displayName: string;
   publicKey: JsonWebKey;
   publicKeyId: string;
+  signingKey?: JsonWebKey; // Ed25519 (or legacy ECDSA) public key used to verify signatures
   fcmToken?: string;
   createdAt: number;
   lastSeen: number;
 }
 
+// This browser's entry in the user's devices (same as mobile linked devices)
+export interface LocalDevice {
+  deviceId: string;
+  keyId: string;
+  privateKey: JsonWebKey; // Never leaves this browser
+}
+
 // ==================== Conversation Types ====================
 
 export type ConversationType = 'direct' | 'group';
 
+export interface GroupRotationPolicy {
+  maxMessages?: number; // Rotate after this many messages under one key
+  maxAgeDays?: number; // Rotate once the key is this many days old
+  onKeyChange?: boolean; // Rotate when a member's identity keys change
+}
+
+// Why a group key replaced the previous one (matches mobile)
+export type GroupKeyRotationReason =
+  | 'memberRemoved'
+  | 'memberLeft'
+  | 'messageLimit'
+  | 'keyAge'
+  | 'keyChange';
+
 export interface ParticipantKey {
   publicKey: JsonWebKey;
   keyId: string;
+  signingKey?: JsonWebKey; // Verifies the participant's message signatures
+  previousSigningKeys?: JsonWebKey[]; // Replaced signing keys; verify earlier messages
+}
+
+export interface KeyChangeEvent {
+  id: string;
+  userId: string; // Participant whose keys changed
+  displayName: string;
+  previousKeyId: string;
+  newKeyId: string;
+  detectedAt: number;
+  acknowledgedBy: Record<string, number>; // userId -> acknowledgement timestamp
 }
 
 export interface Conversation {
@@ -74,6 +130,11 @@ export interface Conversation {
   adminIds?: string[];
   groupKeyId?: string;
   groupKeyDistribution?: Record<string, string>;
+  groupKeyCreatedAt?: number; // When the current group key was created
+  groupKeyMessageCount?: number; // Messages sent under the current group key
+  groupRotationPolicy?: GroupRotationPolicy;
+  groupKeyRotationPending?: boolean; // A member left; the key must be rotated before the next send
+  keyChanges?: Record<string, KeyChangeEvent>; // eventId -> key change
 }
 
 // ==================== Message Types ====================
@@ -84,17 +145,106 @@ export interface Message {
   senderId: string;
   timestamp: number;
   type: ConversationType;
-  encryptedContent: EncryptedMessage | GroupEncryptedMessage;
+  encryptedContent: EncryptedMessage | GroupEncryptedMessage | SenderKeyEncryptedMessage;
   ttl: number | null;
   expiresAt: number | null;
   readBy: Record<string, number>;
 }
 
+export interface DecryptedContent {
+  payload: ReceivedMessagePayload;
+  senderVerified: boolean; // False for unsigned (legacy) payloads or senders without a signing key
+}
+
 export interface DecryptedMessage extends Omit<Message, 'encryptedContent'> {
-  content: string;
+  payload: ReceivedMessagePayload;
+  senderVerified: boolean;
   decryptedAt: number;
 }
 
+// ==================== Message Payload Types ====================
+
+// What a message says, serialized inside its ciphertext (matches mobile)
+export interface TextPayload {
+  type: 'text';
+  text: string;
+}
+
+export interface ReplyPayload {
+  type: 'reply';
+  text: string;
+  replyToId: string;
+}
+
+export interface ReactionPayload {
+  type: 'reaction';
+  targetId: string;
+  emoji: string;
+  removed?: boolean;
+}
+
+export interface EditPayload {
+  type: 'edit';
+  targetId: string;
+  text: string;
+}
+
+export interface DeletePayload {
+  type: 'delete';
+  targetId: string;
+}
+
+export interface AttachmentInfo {
+  version: 'tt-a1';
+  storagePath: string; // Where the ciphertext is uploaded
+  key: string; // Base64 per-file AES-256 key
+  digest: string; // Base64 SHA-256 of the ciphertext
+  fileName: string;
+  mimeType: string;
+  size: number; // Plaintext bytes
+}
+
+export interface AttachmentPayload {
+  type: 'attachment';
+  attachment: AttachmentInfo;
+  caption?: string;
+}
+
+// Recorded audio, sent as an encrypted attachment
+export interface VoiceNotePayload {
+  type: 'voiceNote';
+  attachment: AttachmentInfo;
+  durationMs: number;
+  waveform: number[]; // Peak level of each bar, 0-100
+}
+
+export interface SystemPayload {
+  type: 'system';
+  event: string;
+  text: string;
+}
+
+export type MessagePayload =
+  | TextPayload
+  | ReplyPayload
+  | ReactionPayload
+  | EditPayload
+  | DeletePayload
+  | AttachmentPayload
+  | VoiceNotePayload
+  | SystemPayload;
+
+export type MessagePayloadType = MessagePayload['type'];
+
+// A payload of a type this client does not know, from a newer client
+export interface UnknownPayload {
+  type: 'unknown';
+  originalType: string;
+  text?: string;
+}
+
+export type ReceivedMessagePayload = MessagePayload | UnknownPayload;
+
 // ==================== TTL Options ====================
 
 export const TTL_OPTIONS = {